@@ -6,6 +6,9 @@ import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/token/common/ERC2981.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/interfaces/IERC4906.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
 // import "@wttp/site/contracts/extensions/WTTPForwarder.sol";
 
 interface IColourMeNFT is IERC721 {
@@ -14,19 +17,49 @@ interface IColourMeNFT is IERC721 {
     function setArt(uint256 tokenId, Object[] memory _art) external;
     function appendArt(uint256 tokenId, Object[] memory _object) external;
     function tokenSVG(uint256 tokenId) external view returns (string memory);
+    function tokenSVGAnimated(uint256 tokenId, uint256 msPerObject) external view returns (string memory);
+    function tokenArtSVG(uint256 tokenId) external view returns (string memory);
     function tokenURI(uint256 tokenId) external view returns (string memory);
 }
 
-contract ColourMeNFT is ERC721, ERC2981, Ownable { //, WTTPForwarder {
+contract ColourMeNFT is IERC4906, ERC721, ERC2981, Ownable { //, WTTPForwarder {
     using Strings for uint256;
     using Base64 for bytes;
 
     error MintingClosed(string reason);
     error InvalidQuantity();
     error InsufficientPayment(uint256 required, uint256 sent);
+    error NotCanvasOwner(uint256 tokenId, address caller);
+    error CollaboratorLimitReached(uint256 tokenId, address collaborator, uint32 maxObjects);
+    error CanvasFinalized(uint256 tokenId);
+    error NotOnAllowlist(address account);
+    error PresaleAllocationExceeded(address account, uint256 allocation, uint256 minted);
+    error WalletLimitReached(address account, uint256 limit, uint256 minted);
+    error InvalidRenderer();
+    error RefundFailed(address to, uint256 amount);
+    error InvalidPayees();
+    error InvalidTheme(uint256 themeId);
+    error InvalidCanvas();
+    error TraitsNotRevealed(uint256 tokenId, uint256 revealBlock);
+    error TraitsAlreadyRevealed(uint256 tokenId);
+    error NotPayee(address account); // payees withdraw with release
 
-    event CanvasMinted(uint256 tokenId, address to, uint256 qty);
+    event CanvasMinted(uint256 firstTokenId, uint256 lastTokenId, address to);
     event ArtSaved(uint256 indexed tokenId, address indexed artist);
+    event ArtTruncated(uint256 indexed tokenId, address indexed artist, uint256 newLength);
+    event ArtRemoved(uint256 indexed tokenId, address indexed artist, uint256[] indices);
+    event ArtFinalized(uint256 indexed tokenId, address indexed artist, uint256 blockNumber);
+    event MintConfigUpdated(MintConfig config);
+    event BaseURLUpdated(string baseURL);
+    event CanvasUpdated(CanvasRect canvas);
+    event RendererUpdated(address renderer);
+    event PresaleUpdated(bytes32 root, uint256 price, uint256 start, uint256 duration);
+    event PayeesUpdated(address[] payees, uint256[] shares);
+    event PaymentReleased(address indexed payee, uint256 amount);
+    event ThemeUpdated(uint256 themeId, address renderer);
+    event TokenThemeSet(uint256 indexed tokenId, uint256 themeId);
+    event TraitsRevealed(uint256 indexed tokenId);
+    event CollaboratorSet(uint256 indexed tokenId, address indexed collaborator, uint64 expiry, uint32 maxObjects);
 
     constructor(
         string memory name, 
@@ -44,6 +77,7 @@ contract ColourMeNFT is ERC721, ERC2981, Ownable { //, WTTPForwarder {
         baseURL = _baseURL;
         maxSupply = _maxSupply;
         cmr = IColourMeRenderer(_paintRenderer);
+        canvas = CanvasRect(10, 90, 980, 900);
         _setDefaultRoyalty(owner(), _royalty);
         mintPrice = _mintPrice;
         mintLimit = _mintLimit;
@@ -55,13 +89,85 @@ contract ColourMeNFT is ERC721, ERC2981, Ownable { //, WTTPForwarder {
         _setDefaultRoyalty(receiver, feeNumerator);
     }
 
+    address[] private payees;
+    mapping(address => uint256) private shares; // read through getPayees
+    uint256 private totalShares;
+    mapping(address => uint256) private owed; // assigned to a payee but not yet released
+    uint256 private totalOwed;
+
+    // an owner left out of the payees can still withdraw what was assigned to it before
     function withdraw() external onlyOwner {
-        payable(owner()).transfer(address(this).balance);
+        address account = owner();
+        if (totalShares != 0 && shares[account] == 0 && owed[account] == 0) revert NotPayee(account);
+        release(account);
+    }
+
+    function getPayees() external view returns (address[] memory, uint256[] memory) {
+        uint256[] memory payeeShares = new uint256[](payees.length);
+        for (uint256 i = 0; i < payees.length; i++) {
+            payeeShares[i] = shares[payees[i]];
+        }
+        return (payees, payeeShares);
+    }
+
+    // an empty list sends all revenue to the owner again
+    function setPayees(address[] calldata _payees, uint256[] calldata _shares) external onlyOwner {
+        if (_payees.length != _shares.length) revert InvalidPayees();
+        // revenue so far is split under the old shares before they change
+        _assignRevenue();
+        for (uint256 i = 0; i < payees.length; i++) {
+            delete shares[payees[i]];
+        }
+        delete payees;
+        totalShares = 0;
+        for (uint256 i = 0; i < _payees.length; i++) {
+            if (_payees[i] == address(0) || _shares[i] == 0 || shares[_payees[i]] != 0) revert InvalidPayees();
+            payees.push(_payees[i]);
+            shares[_payees[i]] = _shares[i];
+            totalShares += _shares[i];
+        }
+        emit PayeesUpdated(_payees, _shares);
+    }
+
+    function releasable(address payee) public view returns (uint256) {
+        uint256 unassigned = address(this).balance - totalOwed;
+        if (totalShares == 0) return payee == owner() ? owed[payee] + unassigned : owed[payee];
+        return owed[payee] + unassigned * shares[payee] / totalShares;
+    }
+
+    // anyone can push a payee's share to them, so a payee that can't receive never blocks the rest
+    function release(address payee) public {
+        _assignRevenue();
+        uint256 amount = owed[payee];
+        if (amount == 0) return;
+        owed[payee] = 0;
+        totalOwed -= amount;
+        emit PaymentReleased(payee, amount);
+        Address.sendValue(payable(payee), amount);
+    }
+
+    // rounding dust stays unassigned and is split with the next revenue
+    function _assignRevenue() internal {
+        uint256 unassigned = address(this).balance - totalOwed;
+        if (unassigned == 0) return;
+        if (totalShares == 0) {
+            owed[owner()] += unassigned;
+            totalOwed += unassigned;
+            return;
+        }
+        uint256 assigned;
+        for (uint256 i = 0; i < payees.length; i++) {
+            uint256 amount = unassigned * shares[payees[i]] / totalShares;
+            owed[payees[i]] += amount;
+            assigned += amount;
+        }
+        totalOwed += assigned;
     }
 
     string private baseURL;
     bytes public svgStart;
     bytes public svgEnd;
+    CanvasRect public canvas; // where the template draws the art, objects must overlap it
     uint256 public tokenCount;
     uint256 public maxSupply;
     IColourMeRenderer private cmr;
@@ -69,10 +175,27 @@ contract ColourMeNFT is ERC721, ERC2981, Ownable { //, WTTPForwarder {
     uint256 private mintLimit;
     uint256 private mintStart;
     uint256 private mintDuration;
+    uint256 private walletLimit;
+    mapping(address => uint256) public mintedBy; // public mints per sender, presale allocations are tracked separately
+    bytes32 public presaleRoot; // leaves are keccak256(keccak256(abi.encode(account, allocation)))
+    uint256 public presalePrice;
+    uint256 public presaleStart;
+    uint256 public presaleDuration;
+    mapping(address => uint256) public presaleMinted;
 
     mapping(uint256 => Trait) public traits;
-    mapping(uint256 => bytes) public traitSVG;
-    mapping(uint256 => Object[]) public art;
+    mapping(uint256 => bytes) private _traitSVG;
+    mapping(uint256 => uint256) public revealBlock; // traits come from this block's hash, 0 = revealed
+    // every setArt opens a new version, appends and edits change the latest one
+    mapping(uint256 => mapping(uint256 => Object[])) private artVersions;
+    mapping(uint256 => uint256) public artVersionCount;
+    mapping(uint256 => mapping(address => Collaborator)) public collaborators;
+    mapping(uint256 => uint256) public finalizedAt; // block number, 0 = still open
+    mapping(uint256 => address) public lastEditor; // whoever last changed the art, 0 = never painted
+    // owner curated renderers tokens can opt into, theme 0 is the default renderer
+    mapping(uint256 => IColourMeRenderer) public themes;
+    uint256 public themeCount;
+    mapping(uint256 => uint256) public tokenTheme;
 
     function getProjectInfo() external view returns (string memory, string memory, string memory, uint256, uint256, uint256, uint256, uint256, uint256) {
         return (
@@ -95,6 +218,20 @@ contract ColourMeNFT is ERC721, ERC2981, Ownable { //, WTTPForwarder {
     function setSVG(bytes memory _svgStart, bytes memory _svgEnd) external onlyOwner {
         svgStart = _svgStart;
         svgEnd = _svgEnd;
+        _refreshAllMetadata();
+    }
+
+    function setCanvas(CanvasRect calldata _canvas) external onlyOwner {
+        // set alongside setSVG when a new template moves the drawing region
+        if (_canvas.width <= 0 || _canvas.height <= 0) revert InvalidCanvas();
+        canvas = _canvas;
+        emit CanvasUpdated(_canvas);
+        _refreshAllMetadata();
+    }
+
+    // tells marketplaces to refetch every minted token's metadata
+    function _refreshAllMetadata() internal {
+        if (tokenCount > 0) emit BatchMetadataUpdate(1, tokenCount);
     }
 
     function _correctColors(uint24[] memory colors, uint8 index) internal pure returns (uint24[] memory) {
@@ -104,22 +241,22 @@ contract ColourMeNFT is ERC721, ERC2981, Ownable { //, WTTPForwarder {
         return colors;
     }
 
-    function _randomTraits(uint256 tokenId) internal view returns (Trait memory) {
+    function _randomTraits(uint256 seed) internal pure returns (Trait memory) {
         uint24[] memory colors = new uint24[](5);
-        colors[0] = uint24(random_(tokenId, 1, 0xfffffe));
-        colors[1] = uint24(random_(colors[0], 1, 0xfffffd));
+        colors[0] = uint24(random_(seed, 0, 1, 0xfffffe));
+        colors[1] = uint24(random_(seed, 1, 1, 0xfffffd));
         colors = _correctColors(colors, 1);
-        colors[2] = uint24(random_(colors[1], 1, 0xfffffc));
+        colors[2] = uint24(random_(seed, 2, 1, 0xfffffc));
         colors = _correctColors(colors, 2);
-        colors[3] = uint24(random_(colors[2], 1, 0xfffffb));
+        colors[3] = uint24(random_(seed, 3, 1, 0xfffffb));
         colors = _correctColors(colors, 3);
-        colors[4] = uint24(random_(colors[3], 1, 0xfffffa));
+        colors[4] = uint24(random_(seed, 4, 1, 0xfffffa));
         colors = _correctColors(colors, 4);
         uint8[] memory shapes = new uint8[](2);
-        shapes[0] = uint8(random_(colors[4], 0, 3));
-        shapes[1] = uint8(random_(shapes[0], 0, 2));
+        shapes[0] = uint8(random_(seed, 5, 0, 3));
+        shapes[1] = uint8(random_(seed, 6, 0, 2));
         if (shapes[1] >= shapes[0]) shapes[1] ++;
-        uint8 polygon = uint8(random_(shapes[1], 4, 6));
+        uint8 polygon = uint8(random_(seed, 7, 4, 6));
         if (polygon == 4) polygon = 3;
         return Trait({
             color0: bytes3(colors[0]),
@@ -133,20 +270,174 @@ contract ColourMeNFT is ERC721, ERC2981, Ownable { //, WTTPForwarder {
         });
     }
 
+    function getMintConfig() public view returns (MintConfig memory) {
+        return MintConfig({
+            price: mintPrice,
+            limit: mintLimit,
+            walletLimit: walletLimit,
+            start: mintStart,
+            duration: mintDuration,
+            maxSupply: maxSupply,
+            tokenCount: tokenCount
+        });
+    }
+
+    function setMintPrice(uint256 _mintPrice) external onlyOwner {
+        mintPrice = _mintPrice;
+        emit MintConfigUpdated(getMintConfig());
+    }
+
+    function setMintLimit(uint256 _mintLimit) external onlyOwner {
+        mintLimit = _mintLimit;
+        emit MintConfigUpdated(getMintConfig());
+    }
+
+    function setWalletLimit(uint256 _walletLimit) external onlyOwner {
+        walletLimit = _walletLimit;
+        emit MintConfigUpdated(getMintConfig());
+    }
+
+    function setMintStart(uint256 _mintStart) external onlyOwner {
+        mintStart = _mintStart;
+        emit MintConfigUpdated(getMintConfig());
+    }
+
+    function setMintDuration(uint256 _mintDuration) external onlyOwner {
+        mintDuration = _mintDuration;
+        emit MintConfigUpdated(getMintConfig());
+    }
+
+    function setBaseURL(string calldata _baseURL) external onlyOwner {
+        baseURL = _baseURL;
+        emit BaseURLUpdated(_baseURL);
+        _refreshAllMetadata();
+    }
+
+    function setRenderer(address _renderer) external onlyOwner {
+        // rendering fixes ship as a new renderer, art and traits stay in this contract
+        if (_renderer.code.length == 0) revert InvalidRenderer();
+        cmr = IColourMeRenderer(_renderer);
+        emit RendererUpdated(_renderer);
+        _refreshAllMetadata();
+    }
+
+    function setTheme(uint256 themeId, address _renderer) external onlyOwner {
+        // ids run from 1, the next free id adds a theme and address(0) retires one
+        if (themeId == 0 || themeId > themeCount + 1) revert InvalidTheme(themeId);
+        if (_renderer != address(0) && _renderer.code.length == 0) revert InvalidRenderer();
+        if (themeId > themeCount) themeCount = themeId;
+        themes[themeId] = IColourMeRenderer(_renderer);
+        emit ThemeUpdated(themeId, _renderer);
+        _refreshAllMetadata();
+    }
+
+    function setTokenTheme(uint256 tokenId, uint256 themeId) external {
+        // a finalized token's look is locked along with its art
+        _checkArtist(tokenId);
+        _checkOpen(tokenId);
+        if (themeId != 0 && address(themes[themeId]) == address(0)) revert InvalidTheme(themeId);
+        tokenTheme[tokenId] = themeId;
+        emit TokenThemeSet(tokenId, themeId);
+        emit MetadataUpdate(tokenId);
+    }
+
+    function _tokenRenderer(uint256 tokenId) internal view returns (IColourMeRenderer) {
+        // a retired theme falls back to the default renderer
+        IColourMeRenderer theme = themes[tokenTheme[tokenId]];
+        return address(theme) == address(0) ? cmr : theme;
+    }
+
+    function renderer() external view returns (address) {
+        return address(cmr);
+    }
+
+    function setPresale(bytes32 root, uint256 price, uint256 start, uint256 duration) external onlyOwner {
+        presaleRoot = root;
+        presalePrice = price;
+        presaleStart = start;
+        presaleDuration = duration;
+        emit PresaleUpdated(root, price, start, duration);
+    }
+
     function mint(address to, uint256 qty) external payable {
         if(block.timestamp < mintStart) revert MintingClosed("Mint not started");
         if(block.timestamp > mintStart + mintDuration) revert MintingClosed("Mint ended");
         if(tokenCount >= maxSupply) revert MintingClosed("Max supply reached");
         if(qty > mintLimit || qty == 0) revert InvalidQuantity();
-        if(msg.value < mintPrice * qty) revert InsufficientPayment(mintPrice * qty, msg.value);
+        qty = _available(qty);
+        uint256 cost = mintPrice * qty;
+        if(msg.value < cost) revert InsufficientPayment(cost, msg.value);
+        uint256 minted = mintedBy[msg.sender];
+        if(walletLimit != 0 && minted + qty > walletLimit) revert WalletLimitReached(msg.sender, walletLimit, minted);
+        mintedBy[msg.sender] = minted + qty;
+        _mintCanvases(to, qty);
+        _refund(msg.value - cost);
+    }
+
+    function presaleMint(address to, uint256 qty, uint256 allocation, bytes32[] calldata proof) external payable {
+        if(presaleRoot == bytes32(0)) revert MintingClosed("No presale");
+        if(block.timestamp < presaleStart) revert MintingClosed("Presale not started");
+        if(block.timestamp > presaleStart + presaleDuration) revert MintingClosed("Presale ended");
+        if(tokenCount >= maxSupply) revert MintingClosed("Max supply reached");
+        if(qty == 0) revert InvalidQuantity();
+        qty = _available(qty);
+        // the allocation belongs to the allowlisted wallet sending the mint, tokens can go anywhere
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(msg.sender, allocation))));
+        if(!MerkleProof.verifyCalldata(proof, presaleRoot, leaf)) revert NotOnAllowlist(msg.sender);
+        uint256 minted = presaleMinted[msg.sender];
+        if(minted + qty > allocation) revert PresaleAllocationExceeded(msg.sender, allocation, minted);
+        uint256 cost = presalePrice * qty;
+        if(msg.value < cost) revert InsufficientPayment(cost, msg.value);
+        presaleMinted[msg.sender] = minted + qty;
+        _mintCanvases(to, qty);
+        _refund(msg.value - cost);
+    }
+
+    // the last mint before max supply gets whatever is left, and only pays for that
+    function _available(uint256 qty) internal view returns (uint256) {
+        uint256 remaining = maxSupply - tokenCount;
+        return qty > remaining ? remaining : qty;
+    }
+    function _mintCanvases(address to, uint256 qty) internal {
+        uint256 firstTokenId = tokenCount + 1;
         for(uint256 i = 0; i < qty; i++) {
             tokenCount++;
             _mint(to, tokenCount);
-            traits[tokenCount] = _randomTraits(tokenCount);
-            traitSVG[tokenCount] = cmr.renderTrait(traits[tokenCount]);
-            if(tokenCount == maxSupply) break;
+            // traits come from the hash of a block that doesn't exist yet, so a minting contract
+            // can't simulate them and revert until it likes the result
+            revealBlock[tokenCount] = block.number + 1;
         }
-        emit CanvasMinted(tokenCount, to, qty);
+        emit CanvasMinted(firstTokenId, tokenCount, to);
+    }
+
+    // anyone can reveal once the committed block is mined, the first paint does it too.
+    // A canvas finalized before its reveal keeps the placeholder palette for good
+    function revealTraits(uint256 tokenId) public {
+        _requireOwned(tokenId);
+        _checkOpen(tokenId);
+        uint256 target = revealBlock[tokenId];
+        if (target == 0) revert TraitsAlreadyRevealed(tokenId);
+        if (block.number <= target) revert TraitsNotRevealed(tokenId, target);
+        // only the last 256 block hashes are readable. Past that the seed is fixed by the commitment,
+        // a fresh commit would let a holder who disliked the hash wait it out and reroll
+        bytes32 hash = blockhash(target);
+        uint256 seed = uint256(hash == 0 ? keccak256(abi.encode(tokenId, target)) : keccak256(abi.encode(hash, tokenId)));
+        delete revealBlock[tokenId];
+        traits[tokenId] = _randomTraits(seed);
+        _traitSVG[tokenId] = cmr.renderTrait(traits[tokenId]);
+        emit TraitsRevealed(tokenId);
+        emit MetadataUpdate(tokenId);
+    }
+
+    // unrevealed tokens show a grey placeholder palette
+    function traitSVG(uint256 tokenId) public view returns (bytes memory) {
+        return revealBlock[tokenId] == 0 ? _traitSVG[tokenId] : cmr.renderTrait(placeholderTrait_());
+    }
+    // overpayment goes straight back to the minter, state is settled before the call
+    function _refund(uint256 amount) internal {
+        if(amount == 0) return;
+        (bool sent, ) = payable(msg.sender).call{value: amount}("");
+        if(!sent) revert RefundFailed(msg.sender, amount);
     }
 
     function _objectAllowed(uint256 tokenId, Object memory object) internal view {
@@ -173,18 +464,20 @@ contract ColourMeNFT is ERC721, ERC2981, Ownable { //, WTTPForwarder {
             shape == traits[tokenId].shape0 || 
             shape == traits[tokenId].shape1 ||
             shape == Path.polygon ||
-            shape == Path.path
+            shape == Path.path ||
+            shape == Path.curve
         );
         
         // Special case: bucket tool rect (only if token doesn't allow rect)
         if (!shapeAllowed && shape == Path.rect) {
-            // Decode first 2 points to check bucket tool dimensions
-            Point[2] memory basePoints = getBasePoints(object.base);
+            // the first 2 base points are the rect's position and size
+            uint256 base = object.base;
+            CanvasRect memory area = canvas;
             if (
-                basePoints[0].x == 10 &&
-                basePoints[0].y == 90 &&
-                basePoints[1].x == 980 &&
-                basePoints[1].y == 900
+                int16(uint16(base >> 51)) == area.x &&
+                int16(uint16(base >> 67)) == area.y &&
+                int16(uint16(base >> 83)) == area.width &&
+                int16(uint16(base >> 99)) == area.height
             ) {
                 shapeAllowed = true; // Allow bucket tool rect
             }
@@ -194,82 +487,244 @@ contract ColourMeNFT is ERC721, ERC2981, Ownable { //, WTTPForwarder {
             revert InvalidShape(uint8(shape));
         }
         
-        // Additional validation for specific shapes
+        // shared point and stroke rules, polygons must also match the token's side count
         uint16 pointsLength = decodePointsLength(object.base);
-
-        if (pointsLength < 2) {
-            revert InvalidPoints(pointsLength);
-        } else if (
-            (
-                shape == Path.rect || 
-                shape == Path.ellipse || 
-                shape == Path.line
-            ) &&
-            pointsLength != 2
-        ) {
+        validatePoints(shape, pointsLength);
+        if (shape == Path.polygon && pointsLength != traits[tokenId].polygon) {
             revert InvalidPoints(pointsLength);
         }
 
-        // Additional validation for specific shapes
-        if (shape == Path.polygon) {
-            if (pointsLength != traits[tokenId].polygon) {
-                revert InvalidPoints(pointsLength);
-            }
-        }
-
-        // Additional validation for specific shapes
         uint8 stroke = decodeStroke(object.base);
+        validateStroke(shape, stroke);
 
+        // objects fully outside the drawing region are clipped away but would still cost storage
+        (int256 minX, int256 minY, int256 maxX, int256 maxY) = getObjectBounds(shape, stroke, getObjectPoints(object));
+        CanvasRect memory bounds = canvas;
         if (
-            stroke == 0 &&
-            (
-                shape == Path.line ||
-                shape == Path.polyline ||
-                shape == Path.path
-            )
+            maxX < bounds.x ||
+            maxY < bounds.y ||
+            minX > int256(bounds.x) + bounds.width ||
+            minY > int256(bounds.y) + bounds.height
         ) {
-            revert InvalidStroke(stroke);
+            revert OutOfCanvas(minX, minY, maxX, maxY);
         }
         
         // pass - object is allowed
     }
 
-    function _updateArt(uint256 tokenId, Object[] calldata _art) internal {
+    function _checkArtist(uint256 tokenId) internal view {
+        // owner, approved address or operator may paint, same rules as a transfer
+        address tokenOwner = _requireOwned(tokenId);
+        if (!_isAuthorized(tokenOwner, msg.sender, tokenId)) {
+            revert NotCanvasOwner(tokenId, msg.sender);
+        }
+    }
+
+    // Grants append-only painting until expiry (unix seconds), type(uint64).max never expires.
+    // An expiry of 0 revokes the grant, it is not "no expiry". maxObjects 0 means unlimited.
+    function setCollaborator(uint256 tokenId, address collaborator, uint64 expiry, uint32 maxObjects) external {
+        _checkArtist(tokenId);
+        // a fresh grant resets the object count
+        if (expiry == 0) {
+            delete collaborators[tokenId][collaborator];
+        } else {
+            collaborators[tokenId][collaborator] = Collaborator({
+                grantor: ownerOf(tokenId),
+                expiry: expiry,
+                maxObjects: maxObjects,
+                objectsAdded: 0
+            });
+        }
+        emit CollaboratorSet(tokenId, collaborator, expiry, maxObjects);
+    }
+
+    function isCollaborator(uint256 tokenId, address account) public view returns (bool) {
+        Collaborator memory grant = collaborators[tokenId][account];
+        return grant.grantor != address(0) &&
+            grant.grantor == _ownerOf(tokenId) &&
+            block.timestamp <= grant.expiry;
+    }
+
+    // callers check isCollaborator first
+    function _useCollaborator(uint256 tokenId, uint256 objectCount) internal {
+        Collaborator storage grant = collaborators[tokenId][msg.sender];
+        uint256 objectsAdded = grant.objectsAdded + objectCount;
+        if (grant.maxObjects != 0 && objectsAdded > grant.maxObjects) {
+            revert CollaboratorLimitReached(tokenId, msg.sender, grant.maxObjects);
+        }
+        grant.objectsAdded = uint32(objectsAdded);
+    }
+
+    function _checkOpen(uint256 tokenId) internal view {
+        if (finalizedAt[tokenId] != 0) revert CanvasFinalized(tokenId);
+    }
+
+    function _currentArt(uint256 tokenId) internal view returns (Object[] storage) {
+        uint256 versions = artVersionCount[tokenId];
+        return artVersions[tokenId][versions == 0 ? 0 : versions - 1];
+    }
+
+    function art(uint256 tokenId, uint256 index) external view returns (uint256 base, bytes memory additionalPoints) {
+        Object storage object = _currentArt(tokenId)[index];
+        return (object.base, object.additionalPoints);
+    }
+
+    function artLength(uint256 tokenId) external view returns (uint256) {
+        return _currentArt(tokenId).length;
+    }
+
+    // paged reads for canvases too big to fetch or render in one eth_call, count is clamped to the end
+    function getArt(uint256 tokenId, uint256 start, uint256 count) public view returns (Object[] memory page) {
+        Object[] storage objects = _currentArt(tokenId);
+        if (start > objects.length) revert OutOfBounds(start, objects.length);
+        if (count > objects.length - start) count = objects.length - start;
+        page = new Object[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = objects[start + i];
+        }
+    }
+
+    function renderObjectsRange(uint256 tokenId, uint256 start, uint256 count) external view returns (string memory) {
+        _requireOwned(tokenId);
+        return string(_tokenRenderer(tokenId).renderObjects(getArt(tokenId, start, count)));
+    }
+
+    function _updateArt(uint256 tokenId, Object[] calldata _art, uint256 version) internal {
+        // owner, approved address or operator paint freely, collaborators within their grant
+        address tokenOwner = _requireOwned(tokenId);
+        _checkOpen(tokenId);
+        bool collaborator = !_isAuthorized(tokenOwner, msg.sender, tokenId);
+        if (collaborator && !isCollaborator(tokenId, msg.sender)) revert NotCanvasOwner(tokenId, msg.sender);
+        // objects are checked against the traits, so they have to exist before anything is painted
+        if (revealBlock[tokenId] != 0) revealTraits(tokenId);
+        if (collaborator) _useCollaborator(tokenId, _art.length);
+        Object[] storage objects = artVersions[tokenId][version];
         for (uint256 i = 0; i < _art.length; i++) {
             // Token-specific validation
             _objectAllowed(tokenId, _art[i]);
-            art[tokenId].push(_art[i]);
+            objects.push(_art[i]);
         }
+        // the version only counts once its objects are written
+        artVersionCount[tokenId] = version + 1;
+        lastEditor[tokenId] = msg.sender;
         emit ArtSaved(tokenId, msg.sender);
+        emit MetadataUpdate(tokenId);
     }
 
     function setArt(uint256 tokenId, Object[] calldata _art) external {
-        delete art[tokenId];
-        _updateArt(tokenId, _art);
+        // collaborators may add to a canvas but never wipe it
+        _checkArtist(tokenId);
+        _updateArt(tokenId, _art, artVersionCount[tokenId]);
     }
 
     function appendArt(uint256 tokenId, Object[] calldata _object) external {
-        _updateArt(tokenId, _object);
+        // the first paint on a blank canvas opens version 0
+        uint256 versions = artVersionCount[tokenId];
+        _updateArt(tokenId, _object, versions == 0 ? 0 : versions - 1);
     }
 
-    function tokenSVG(uint256 tokenId) public view returns (string memory) {
-        _requireOwned(tokenId);
+    function truncateArt(uint256 tokenId, uint256 newLength) external {
+        // removing objects is a wipe, collaborators can't do it
+        _checkArtist(tokenId);
+        _checkOpen(tokenId);
+        Object[] storage objects = _currentArt(tokenId);
+        if (newLength > objects.length) revert OutOfBounds(newLength, objects.length);
+        while (objects.length > newLength) {
+            objects.pop();
+        }
+        lastEditor[tokenId] = msg.sender;
+        emit ArtTruncated(tokenId, msg.sender, newLength);
+        emit MetadataUpdate(tokenId);
+    }
+
+    function removeArt(uint256 tokenId, uint256[] calldata indices) external {
+        _checkArtist(tokenId);
+        _checkOpen(tokenId);
+        Object[] storage objects = _currentArt(tokenId);
+        uint256 length = objects.length;
+        if (indices.length == 0) revert InvalidQuantity();
+
+        // indices must be strictly ascending, shift the survivors down to keep the drawing order
+        uint256 next = 0;
+        uint256 write = indices[0];
+        for (uint256 read = write; read < length; read++) {
+            if (next < indices.length && read == indices[next]) {
+                next++;
+                continue;
+            }
+            objects[write] = objects[read];
+            write++;
+        }
+        // anything left over was out of range, repeated or out of order
+        if (next != indices.length) revert OutOfBounds(indices[next], length);
+
+        for (uint256 i = 0; i < indices.length; i++) {
+            objects.pop();
+        }
+        lastEditor[tokenId] = msg.sender;
+        emit ArtRemoved(tokenId, msg.sender, indices);
+        emit MetadataUpdate(tokenId);
+    }
+
+    function finalizeArt(uint256 tokenId) external {
+        // one way, the art can never change again
+        _checkArtist(tokenId);
+        _checkOpen(tokenId);
+        finalizedAt[tokenId] = block.number;
+        emit ArtFinalized(tokenId, msg.sender, block.number);
+        emit MetadataUpdate(tokenId);
+    }
+
+    function _renderSVG(uint256 tokenId, bytes memory drawing) internal view returns (string memory) {
         return string(abi.encodePacked(
             svgStart, 
-            traitSVG[tokenId],
+            traitSVG(tokenId),
             '<g id="drawing-area" clip-path="url(#canvas-clip)" data-token="', tokenId.toString(), '">',
-                cmr.renderObjects(art[tokenId]),
+                drawing,
             '</g>',
             svgEnd
         ));
     }
 
+    function tokenSVG(uint256 tokenId) public view returns (string memory) {
+        _requireOwned(tokenId);
+        return _renderSVG(tokenId, _tokenRenderer(tokenId).renderObjects(_currentArt(tokenId)));
+    }
+
+    function tokenSVGAnimated(uint256 tokenId, uint256 msPerObject) external view returns (string memory) {
+        _requireOwned(tokenId);
+        return _renderSVG(tokenId, _tokenRenderer(tokenId).renderObjectsAnimated(_currentArt(tokenId), msPerObject));
+    }
+
+    // just the art, without the editor's scripts or toolbar
+    function tokenArtSVG(uint256 tokenId) public view returns (string memory) {
+        _requireOwned(tokenId);
+        return string(_tokenRenderer(tokenId).renderArtSVG(_currentArt(tokenId), canvas));
+    }
+
+    function tokenSVGAtVersion(uint256 tokenId, uint256 version) external view returns (string memory) {
+        _requireOwned(tokenId);
+        uint256 versions = artVersionCount[tokenId];
+        if (version >= versions) revert OutOfBounds(version, versions);
+        return _renderSVG(tokenId, _tokenRenderer(tokenId).renderObjects(artVersions[tokenId][version]));
+    }
+
     function tokenURI(uint256 tokenId) public view override returns (string memory) {
         _requireOwned(tokenId);
-        return string(cmr.getURI(name(), tokenId, baseURL, tokenSVG(tokenId), traits[tokenId]));
+        IColourMeRenderer tokenRenderer = _tokenRenderer(tokenId);
+        Object[] storage objects = _currentArt(tokenId);
+        // the image and the editor wrap the same drawing, render it once
+        bytes memory drawing = tokenRenderer.renderObjects(objects);
+        return string(tokenRenderer.getURI(
+            name(), tokenId, baseURL, drawing, _renderSVG(tokenId, drawing), canvas, traits[tokenId], finalizedAt[tokenId],
+            objects, lastEditor[tokenId]
+        ));
     }
 
-    function supportsInterface(bytes4 interfaceId) public view override(ERC721, ERC2981) returns (bool) {
-        return interfaceId == type(IColourMeNFT).interfaceId || super.supportsInterface(interfaceId);
+    // IERC4906 only declares events so its type().interfaceId is zero, the EIP fixes it at 0x49064906
+    bytes4 private constant ERC4906_INTERFACE_ID = bytes4(0x49064906);
+
+    function supportsInterface(bytes4 interfaceId) public view override(ERC721, ERC2981, IERC165) returns (bool) {
+        return interfaceId == type(IColourMeNFT).interfaceId || interfaceId == ERC4906_INTERFACE_ID || super.supportsInterface(interfaceId);
     }
 }
\ No newline at end of file
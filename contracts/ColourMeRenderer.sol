@@ -17,6 +17,11 @@ contract ColourMeRenderer {
     bytes constant shapePrefix = '<rect x="0" y="0" width="30" height="30" class="tool-bg" data-shape="';
     bytes constant shapeSuffix = ' fill="none" stroke="#333" stroke-width="2" class="shape-icon"/>';
 
+    // shown in the theme registry, themes built on this renderer override it
+    function themeName() public view virtual returns (string memory) {
+        return "Classic";
+    }
+
     function renderShapeTool(Path _shape) public pure returns (bytes memory) {
         
         if (_shape == Path.rect) {
@@ -200,10 +205,38 @@ contract ColourMeRenderer {
         return result;
     }
 
-    function renderPath(BaseObject memory _object, Point[] memory _points) public view returns (bytes memory path) {
+    function _getCurveSegments(Point[] memory _points) internal pure returns (bytes memory segments) {
+        // " Cx1 y1 x2 y2 x y" per cubic segment, a last segment of 2 points is " Qx1 y1 x y"
+        uint256 i = 1;
+        while (i < _points.length) {
+            uint256 step = _points.length - i == 2 ? 2 : 3;
+            segments = abi.encodePacked(segments, step == 3 ? bytes(" C") : bytes(" Q"));
+            for (uint256 j = 0; j < step; j++) {
+                segments = abi.encodePacked(
+                    segments, j == 0 ? bytes("") : bytes(" "),
+                    _points[i + j].x.toStringSigned(), ' ', _points[i + j].y.toStringSigned()
+                );
+            }
+            i += step;
+        }
+    }
+
+    // opaque objects get no attribute so they render exactly as they did before opacity existed
+    function _opacityAttribute(bytes memory _name, uint8 _opacity) internal pure returns (bytes memory) {
+        if (_opacity == 255) return "";
+        // 0-254 as a 3 decimal fraction, rounded
+        uint256 thousandths = (uint256(_opacity) * 1000 + 127) / 255;
+        bytes memory digits = bytes((thousandths + 1000).toString()); // "1xyz", keeps the leading zeros
+        digits[0] = '.';
+        return abi.encodePacked('" ', _name, '-opacity="0', digits);
+    }
+
+    function renderPath(BaseObject memory _object, Point[] memory _points) public view virtual returns (bytes memory path) {
+        bytes memory fillOpacity = _opacityAttribute("fill", _object.opacity);
+        bytes memory strokeOpacity = _opacityAttribute("stroke", _object.opacity);
         if (_object.shape == Path.rect) {
             path = abi.encodePacked(
-                '<rect fill="#', toRGBString_(_object.color),
+                '<rect fill="#', toRGBString_(_object.color), fillOpacity,
                 '" x="', _points[0].x.toStringSigned(),
                 '" y="', _points[0].y.toStringSigned(),
                 '" width="', _points[1].x.toStringSigned(),
@@ -211,7 +244,7 @@ contract ColourMeRenderer {
             );
         } else if (_object.shape == Path.ellipse) {
             path = abi.encodePacked(
-                '<ellipse fill="#', toRGBString_(_object.color),
+                '<ellipse fill="#', toRGBString_(_object.color), fillOpacity,
                 '" cx="', _points[0].x.toStringSigned(),
                 '" cy="', _points[0].y.toStringSigned(),
                 '" rx="', _points[1].x.toStringSigned(),
@@ -219,7 +252,7 @@ contract ColourMeRenderer {
             );
         } else if (_object.shape == Path.line) {
             path = abi.encodePacked(
-                '<line fill="none" stroke="#', toRGBString_(_object.color),
+                '<line fill="none" stroke="#', toRGBString_(_object.color), strokeOpacity,
                 '" stroke-width="', _object.stroke.toString(),
                 '" x1="', _points[0].x.toStringSigned(),
                 '" y1="', _points[0].y.toStringSigned(),
@@ -231,35 +264,33 @@ contract ColourMeRenderer {
             
             if (_object.shape == Path.polyline) {
                 path = abi.encodePacked(
-                    '<polyline fill="none" stroke="#', toRGBString_(_object.color), 
+                    '<polyline fill="none" stroke="#', toRGBString_(_object.color), strokeOpacity,
                     '" stroke-width="', _object.stroke.toString(), 
                     '" points="', pointsString, '"/>'
                 );
             } else {
                 path = abi.encodePacked(
-                    '<polygon fill="#', toRGBString_(_object.color), 
+                    '<polygon fill="#', toRGBString_(_object.color), fillOpacity,
                     '" points="', pointsString, '"/>'
                 );
             }
-        } else if (_object.shape == Path.path) {
-            bytes memory pathSegments = _getPathSegments(_points);
+        } else if (_object.shape == Path.path || _object.shape == Path.curve) {
+            bytes memory pathSegments = _object.shape == Path.path ? _getPathSegments(_points) : _getCurveSegments(_points);
             
             path = abi.encodePacked(
                 '<path stroke-linecap="round" stroke-linejoin="round" fill="none" stroke="#', 
-                toRGBString_(_object.color), '" stroke-width="', _object.stroke.toString(), '" d="M',
+                toRGBString_(_object.color), strokeOpacity, '" stroke-width="', _object.stroke.toString(), '" d="M',
                 _points[0].x.toStringSigned(), ' ', _points[0].y.toStringSigned(), pathSegments, '"/>'
             );
         }
         return path;
     }
 
-    function renderObjects(Object[] memory _objects) external view returns (bytes memory paths) {
+    function renderObjects(Object[] memory _objects) public view returns (bytes memory paths) {
         if (_objects.length == 0) {
             return abi.encodePacked('');
         }
         
-        // Pre-calculate total size needed
-        uint256 totalSize = 0;
         bytes[] memory renderedObjects = new bytes[](_objects.length);
         
         for (uint256 i = 0; i < _objects.length; i++) {
@@ -268,55 +299,172 @@ contract ColourMeRenderer {
             Point[] memory points = getObjectPoints(_objects[i]);
             
             renderedObjects[i] = renderPath(baseObj, points);
-            totalSize += renderedObjects[i].length;
+        }
+        
+        return _concat(renderedObjects);
+    }
+
+    // Script free SVG of just the canvas, safe for marketplaces that sanitize or thumbnail the image
+    function renderArtSVG(Object[] memory _objects, CanvasRect memory _canvas) external view returns (bytes memory) {
+        return _artSVG(renderObjects(_objects), _canvas);
+    }
+
+    function _artSVG(bytes memory _drawing, CanvasRect memory _canvas) internal pure returns (bytes memory) {
+        bytes memory size = abi.encodePacked(_canvas.width.toStringSigned(), '" height="', _canvas.height.toStringSigned());
+        return abi.encodePacked(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="', size, '" viewBox="',
+                _canvas.x.toStringSigned(), ' ', _canvas.y.toStringSigned(), ' ', _canvas.width.toStringSigned(), ' ', _canvas.height.toStringSigned(), '">',
+                '<rect fill="#ffffff" x="', _canvas.x.toStringSigned(), '" y="', _canvas.y.toStringSigned(), '" width="', size, '"/>',
+                _drawing,
+            '</svg>'
+        );
+    }
+
+    // Same art as renderObjects, but each object starts hidden and appears _msPerObject after the one before it
+    function renderObjectsAnimated(Object[] memory _objects, uint256 _msPerObject) external view returns (bytes memory paths) {
+        if (_objects.length == 0) {
+            return abi.encodePacked('');
+        }
+        
+        bytes[] memory renderedObjects = new bytes[](_objects.length);
+        
+        for (uint256 i = 0; i < _objects.length; i++) {
+            BaseObject memory baseObj = getBaseObject(_objects[i].base);
+            Point[] memory points = getObjectPoints(_objects[i]);
+            bytes memory rendered = renderPath(baseObj, points);
+            
+            // trim the trailing '/>' (2 bytes) so the tag stays open for a <set> child
+            assembly {
+                mstore(rendered, sub(mload(rendered), 2))
+            }
+            renderedObjects[i] = abi.encodePacked(
+                rendered, ' visibility="hidden"><set attributeName="visibility" to="visible" begin="',
+                (i * _msPerObject).toString(), 'ms" fill="freeze"/></', _getTagName(baseObj.shape), '>'
+            );
+        }
+        
+        return _concat(renderedObjects);
+    }
+
+    function _getTagName(Path _shape) internal pure returns (bytes memory) {
+        if (_shape == Path.rect) return "rect";
+        if (_shape == Path.line) return "line";
+        if (_shape == Path.ellipse) return "ellipse";
+        if (_shape == Path.polyline) return "polyline";
+        if (_shape == Path.polygon) return "polygon";
+        return "path";
+    }
+
+    function _concat(bytes[] memory _parts) internal view returns (bytes memory) {
+        // Pre-calculate total size needed
+        uint256 totalSize = 0;
+        for (uint256 i = 0; i < _parts.length; i++) {
+            totalSize += _parts[i].length;
         }
         
         // Allocate final buffer with exact size
-        bytes memory combinedObjects = new bytes(totalSize);
+        bytes memory combined = new bytes(totalSize);
         uint256 currentPos = 0;
         
-        // Copy all rendered objects using assembly for efficiency
-        for (uint256 i = 0; i < renderedObjects.length; i++) {
-            bytes memory rendered = renderedObjects[i];
+        // Copy all parts using assembly for efficiency
+        for (uint256 i = 0; i < _parts.length; i++) {
+            bytes memory part = _parts[i];
             
             assembly {
-                let len := mload(rendered)
-                let src := add(rendered, 32)
-                let dst := add(add(combinedObjects, 32), currentPos)
+                let len := mload(part)
+                let src := add(part, 32)
+                let dst := add(add(combined, 32), currentPos)
                 pop(staticcall(gas(), 4, src, len, dst, len))
             }
-            currentPos += rendered.length;
+            currentPos += part.length;
         }
         
-        return combinedObjects;
+        return combined;
     }
 
-    function getAttributes(Trait memory _trait) public pure returns (bytes memory) {
-        return abi.encodePacked(
-            '[{"trait_type":"Colour1","value":"#', toRGBString_(_trait.color0), 
+    function getAttributes(
+        Trait memory _trait,
+        uint256 _finalizedBlock,
+        Object[] memory _art,
+        address _lastEditor
+    ) public pure returns (bytes memory) {
+        // finalized canvases carry their status and the block they were locked in
+        bytes memory status = _finalizedBlock == 0 ? bytes("") : abi.encodePacked(
+            ',{"trait_type":"Status","value":"Finalized"}',
+            ',{"display_type":"number","trait_type":"Finalized Block","value":', _finalizedBlock.toString(), '}'
+        );
+        bytes memory editor = _lastEditor == address(0) ? bytes("") : abi.encodePacked(
+            ',{"trait_type":"Last Editor","value":"', Strings.toHexString(_lastEditor), '"}'
+        );
+        // unrevealed traits are still zeroed, a polygon always has at least 3 sides once revealed
+        bytes memory traitAttributes = _trait.polygon == 0 ? bytes('{"trait_type":"Traits","value":"Unrevealed"}') : abi.encodePacked(
+            '{"trait_type":"Colour1","value":"#', toRGBString_(_trait.color0), 
             '"},{"trait_type":"Colour2","value":"#', toRGBString_(_trait.color1), 
             '"},{"trait_type":"Colour3","value":"#', toRGBString_(_trait.color2), 
             '"},{"trait_type":"Colour4","value":"#', toRGBString_(_trait.color3), 
             '"},{"trait_type":"Colour5","value":"#', toRGBString_(_trait.color4), 
             '"},{"trait_type":"Shape1","value":"', toShapeLabel(_trait.shape0), 
             '"},{"trait_type":"Shape2","value":"', toShapeLabel(_trait.shape1), 
-            '"},{"trait_type":"Shape3","value":"', toPolygonLabel(_trait.polygon), '"}]'
+            '"},{"trait_type":"Shape3","value":"', toPolygonLabel(_trait.polygon), '"}'
+        );
+        return abi.encodePacked('[', traitAttributes, _getArtStats(_art), editor, status, ']');
+    }
+
+    // object count, distinct colours, stored points and the most used shape, ties go to the lower Path
+    function _getArtStats(Object[] memory _art) internal pure returns (bytes memory) {
+        bytes3[] memory colors = new bytes3[](_art.length);
+        uint256 colorCount = 0;
+        uint256 points = 0;
+        uint256[7] memory shapeCounts;
+        
+        for (uint256 i = 0; i < _art.length; i++) {
+            BaseObject memory baseObj = getBaseObject(_art[i].base);
+            points += baseObj.pointsLength;
+            shapeCounts[uint8(baseObj.shape)]++;
+            
+            bool seen = false;
+            for (uint256 j = 0; j < colorCount && !seen; j++) {
+                seen = colors[j] == baseObj.color;
+            }
+            if (!seen) colors[colorCount++] = baseObj.color;
+        }
+        
+        uint8 dominant = 0;
+        for (uint8 shape = 1; shape < 7; shape++) {
+            if (shapeCounts[shape] > shapeCounts[dominant]) dominant = shape;
+        }
+        
+        return abi.encodePacked(
+            ',{"display_type":"number","trait_type":"Objects","value":', _art.length.toString(), '}',
+            ',{"display_type":"number","trait_type":"Colours Used","value":', colorCount.toString(), '}',
+            ',{"display_type":"number","trait_type":"Points","value":', points.toString(), '}',
+            ',{"trait_type":"Dominant Shape","value":"', _art.length == 0 ? bytes("None") : toShapeLabel(Path(dominant)), '"}'
         );
     }
 
+    // The image and the editor share one rendered drawing, so tokenURI only renders the art once.
+    // animation_url is the interactive editor, the timelapse is too heavy to inline as well and
+    // timelapse_url opens it in the dapp, which reads tokenSVGAnimated
     function getURI(
         string memory _name, 
         uint256 _tokenId, 
         string memory _baseURL, 
-        string memory _svg, 
-        Trait memory _trait
+        bytes memory _drawing, 
+        string memory _editor,
+        CanvasRect memory _canvas,
+        Trait memory _trait,
+        uint256 _finalizedBlock,
+        Object[] memory _art,
+        address _lastEditor
     ) external pure returns (bytes memory) {
         return abi.encodePacked(
             '{"name":"', _name, ' #', _tokenId.toString(), '",',
                 '"description":"Colour your NFT your way. Proving you can create an SVG using an SVG on the blockchain",',
                 '"external_url":"', _baseURL,'#', _tokenId.toString(), '",',
-                '"image_data":"data:image/svg+xml;base64,', bytes(_svg).encode(), '",'
-                '"attributes":', getAttributes(_trait),
+                '"image":"data:image/svg+xml;base64,', _artSVG(_drawing, _canvas).encode(), '",'
+                '"animation_url":"data:image/svg+xml;base64,', bytes(_editor).encode(), '",'
+                '"timelapse_url":"', _baseURL, '#', _tokenId.toString(), '/timelapse",'
+                '"attributes":', getAttributes(_trait, _finalizedBlock, _art, _lastEditor),
             '}'
         );
     }
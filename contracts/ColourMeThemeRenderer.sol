@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: AGPL-3.0-only
+pragma solidity ^0.8.20;
+
+import "./ColourMeRenderer.sol";
+
+// Sample theme: the same art as ColourMeRenderer with a CSS style on every object.
+// Fill, stroke and points are left alone so the editor still reads the art back exactly as saved.
+contract ColourMeThemeRenderer is ColourMeRenderer {
+    string private name;
+    bytes private style;
+
+    constructor(string memory _name, string memory _style) {
+        name = _name;
+        style = bytes(_style);
+    }
+
+    function themeName() public view override returns (string memory) {
+        return name;
+    }
+
+    function renderPath(BaseObject memory _object, Point[] memory _points) public view override returns (bytes memory path) {
+        path = super.renderPath(_object, _points);
+        // every rendered element ends in '/>', cut those 2 bytes and append the style before closing
+        assembly {
+            mstore(path, sub(mload(path), 2))
+        }
+        return abi.encodePacked(path, ' style="', style, '"/>');
+    }
+}
@@ -5,11 +5,14 @@ import "../types.sol";
 
 interface IColourMeRenderer {
 
+    function themeName() external view returns (string memory);
     function renderShapeTool(Path _shape) external pure returns (bytes memory);
     function renderPolygon(uint8 _polygon) external pure returns (bytes memory);
     function renderTrait(Trait memory _traits) external pure returns (bytes memory);
     function renderPath(BaseObject memory _object, Point[] memory _points) external view returns (bytes memory path);
     function renderObjects(Object[] memory _objects) external view returns (bytes memory paths);
-    function getAttributes(Trait memory _trait) external pure returns (bytes memory);
-    function getURI(string memory _name, uint256 _tokenId, string memory _baseURL, string memory _svg, Trait memory _trait) external pure returns (bytes memory);
+    function renderArtSVG(Object[] memory _objects, CanvasRect memory _canvas) external view returns (bytes memory);
+    function renderObjectsAnimated(Object[] memory _objects, uint256 _msPerObject) external view returns (bytes memory paths);
+    function getAttributes(Trait memory _trait, uint256 _finalizedBlock, Object[] memory _art, address _lastEditor) external pure returns (bytes memory);
+    function getURI(string memory _name, uint256 _tokenId, string memory _baseURL, bytes memory _drawing, string memory _editor, CanvasRect memory _canvas, Trait memory _trait, uint256 _finalizedBlock, Object[] memory _art, address _lastEditor) external pure returns (bytes memory);
 }
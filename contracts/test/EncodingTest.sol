@@ -47,4 +47,30 @@ contract EncodingTest {
         return decodePointsLength(object);
     }
 
+    function testGetBaseObject(uint256 object) public pure returns (BaseObject memory) {
+        return getBaseObject(object);
+    }
+
+    function testGetObjectPoints(Object memory object) public pure returns (Point[] memory) {
+        return getObjectPoints(object);
+    }
+
+    // getObjectPoints as it read the additional points before switching to word loads
+    function testGetObjectPointsBytewise(Object memory object) public pure returns (Point[] memory) {
+        uint16 pointsLength = decodePointsLength(object.base);
+        Point[] memory points = new Point[](pointsLength);
+        for (uint256 i = 0; i < 6 && i < pointsLength; i++) {
+            uint256 pointStartBit = 51 + i * 32;
+            points[i] = Point({x: int16(uint16(object.base >> pointStartBit)), y: int16(uint16(object.base >> (pointStartBit + 16)))});
+        }
+        for (uint256 i = 0; i + 3 < object.additionalPoints.length && (6 + i / 4) < pointsLength; i += 4) {
+            uint16 x_raw = uint16(uint8(object.additionalPoints[i])) << 8 |
+                           uint16(uint8(object.additionalPoints[i + 1]));
+            uint16 y_raw = uint16(uint8(object.additionalPoints[i + 2])) << 8 |
+                           uint16(uint8(object.additionalPoints[i + 3]));
+            points[6 + i / 4] = Point({x: int16(x_raw), y: int16(y_raw)});
+        }
+        return points;
+    }
+
 }
\ No newline at end of file
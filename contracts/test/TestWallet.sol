@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: AGPL-3.0-only
+pragma solidity ^0.8.20;
+
+// Minimal smart contract wallet, its receive() needs more than the 2300 gas a transfer forwards
+contract TestWallet {
+
+    address public immutable signer;
+    uint256 public received;
+
+    constructor(address _signer) {
+        signer = _signer;
+    }
+
+    function execute(address target, bytes calldata data) external returns (bytes memory) {
+        require(msg.sender == signer, "Not signer");
+        (bool success, bytes memory result) = target.call(data);
+        if (!success) {
+            assembly { revert(add(result, 32), mload(result)) }
+        }
+        return result;
+    }
+
+    receive() external payable {
+        received += msg.value;
+    }
+}
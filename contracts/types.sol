@@ -7,6 +7,7 @@ error InvalidColor(bytes3 color);
 error InvalidStroke(uint8 stroke);
 error InvalidPoints(uint256 points);
 error InvalidPolygon(uint256 points);
+error OutOfCanvas(int256 minX, int256 minY, int256 maxX, int256 maxY);
 
 enum Path {
     rect,
@@ -14,7 +15,8 @@ enum Path {
     ellipse,
     polyline,
     polygon,
-    path
+    path,
+    curve // start point then cubic (3 point) segments, a trailing 2 point segment is quadratic
 }
 
 struct Point {
@@ -32,19 +34,29 @@ struct Object {
 // 3. bits 27-34: stroke (8 bits)
 // 4. bits 35-50: pointsLength (16 bits)
 // 5. bits 51-242: points (192 bits) // 6 points max
-// 6. bits 243-255: unused (12 bits)
+// 6. bits 243-250: transparency (8 bits) // 255 - opacity, so objects saved before opacity existed stay opaque
+// 7. bits 251-255: unused (5 bits)
+
+// drawing region of the SVG template, anything outside it is clipped away
+struct CanvasRect {
+    int16 x;
+    int16 y;
+    int16 width;
+    int16 height;
+}
 
 struct BaseObject {
     Path shape;
     bytes3 color;
     uint8 stroke;
     uint16 pointsLength;
+    uint8 opacity; // 255 = opaque
 }
 
 function decodeShape(uint256 object) pure returns (Path) {
     // bits 1-3: shape (3 bits) -> bits 0-2 in 0-based indexing
     uint8 rawShape = uint8(object & 0x7);
-    if (rawShape > 5) {
+    if (rawShape > 6) {
         revert InvalidShape(rawShape);
     }
     return Path(rawShape);
@@ -65,14 +77,21 @@ function decodePointsLength(uint256 object) pure returns (uint16) {
     return uint16(object >> 35);
 }
 
+function decodeOpacity(uint256 object) pure returns (uint8) {
+    // bits 243-250 hold the transparency, 0 = opaque
+    return 255 - uint8(object >> 243);
+}
+
 function validatePoints(Path shape, uint16 pointsLength) pure {
     if (
         (pointsLength < 2) || 
         // all shapes must have at least 2 points, path and polyline can have more
         ((shape == Path.rect || shape == Path.ellipse || shape == Path.line) && pointsLength != 2) || 
         // rect, ellipse, line must have exactly 2 points
-        (shape == Path.polygon && pointsLength != 3 && pointsLength != 5 && pointsLength != 6) 
+        (shape == Path.polygon && pointsLength != 3 && pointsLength != 5 && pointsLength != 6) ||
         // polygon must have 3, 5, or 6 points
+        (shape == Path.curve && (pointsLength < 3 || (pointsLength - 1) % 3 == 1))
+        // curve segments after the start point take 3 (cubic) or, last only, 2 (quadratic) points
     ) {
         revert InvalidPoints(pointsLength);
     }
@@ -80,7 +99,7 @@ function validatePoints(Path shape, uint16 pointsLength) pure {
 
 function validateStroke(Path shape, uint8 stroke) pure {
     if (
-        (shape == Path.path || shape == Path.line || shape == Path.polyline) && stroke == 0
+        (shape == Path.path || shape == Path.curve || shape == Path.line || shape == Path.polyline) && stroke == 0
     ) {
         revert InvalidStroke(stroke);
     }
@@ -91,6 +110,7 @@ function getBaseObject(uint256 object) pure returns (BaseObject memory) {
     bytes3 color = decodeColor(object);
     uint8 stroke = decodeStroke(object);
     uint16 pointsLength = decodePointsLength(object);
+    uint8 opacity = decodeOpacity(object);
 
     validateStroke(shape, stroke);
     validatePoints(shape, pointsLength);
@@ -99,7 +119,8 @@ function getBaseObject(uint256 object) pure returns (BaseObject memory) {
         shape: shape,
         color: color,
         stroke: stroke,
-        pointsLength: pointsLength
+        pointsLength: pointsLength,
+        opacity: opacity
     });
 } 
 
@@ -140,17 +161,16 @@ function getObjectPoints(Object memory object) pure returns (Point[] memory) {
         points[i] = Point({x: x, y: y});
     }
 
-    // Extract additional points from bytes array (4 bytes per point)
-    for (uint256 i = 0; i + 3 < object.additionalPoints.length && (6 + i / 4) < pointsLength; i += 4) {
-        // Extract x coordinate from bytes i and i+1 (big-endian)
-        uint16 x_raw = uint16(uint8(object.additionalPoints[i])) << 8 | 
-                       uint16(uint8(object.additionalPoints[i + 1]));
-        
-        // Extract y coordinate from bytes i+2 and i+3 (big-endian)
-        uint16 y_raw = uint16(uint8(object.additionalPoints[i + 2])) << 8 | 
-                       uint16(uint8(object.additionalPoints[i + 3]));
-        
-        points[6 + i / 4] = Point({x: int16(x_raw), y: int16(y_raw)});
+    // Extract additional points from bytes array (4 bytes per point, big-endian x then y)
+    bytes memory additional = object.additionalPoints;
+    for (uint256 i = 0; i + 3 < additional.length && (6 + i / 4) < pointsLength; i += 4) {
+        // one word load instead of four bounds checked byte reads, the loop keeps it in range.
+        // The byte reads cost ColourMeNFT enough bytecode to push it over the deploy limit
+        uint32 raw;
+        assembly ("memory-safe") {
+            raw := shr(224, mload(add(add(additional, 32), i)))
+        }
+        points[6 + i / 4] = Point({x: int16(uint16(raw >> 16)), y: int16(uint16(raw))});
     }
 
     return points;
@@ -167,11 +187,73 @@ struct Trait {
     uint8 polygon;
 }
 
+// shown in place of the traits until they're revealed
+function placeholderTrait_() pure returns (Trait memory) {
+    return Trait({
+        color0: 0x444444,
+        color1: 0x666666,
+        color2: 0x888888,
+        color3: 0xaaaaaa,
+        color4: 0xcccccc,
+        shape0: Path.rect,
+        shape1: Path.ellipse,
+        polygon: 3
+    });
+}
+
+struct Collaborator {
+    address grantor; // token owner at grant time, the grant lapses if the token changes hands
+    uint64 expiry; // unix timestamp, 0 = revoked, type(uint64).max = no expiry
+    uint32 maxObjects; // 0 = unlimited
+    uint32 objectsAdded;
+}
+
+struct MintConfig {
+    uint256 price;
+    uint256 limit; // per transaction
+    uint256 walletLimit; // lifetime public mints per wallet, 0 = unlimited
+    uint256 start;
+    uint256 duration;
+    uint256 maxSupply;
+    uint256 tokenCount;
+}
+
+// Box an object can paint in. Rects are a corner and size, ellipses a centre and radii,
+// everything else grows by half its stroke and curves stay inside their control points
+function getObjectBounds(Path shape, uint8 stroke, Point[] memory points) pure returns (int256 minX, int256 minY, int256 maxX, int256 maxY) {
+    if (shape == Path.rect || shape == Path.ellipse) {
+        int256 x = points[0].x;
+        int256 y = points[0].y;
+        int256 w = points[1].x;
+        int256 h = points[1].y;
+        if (shape == Path.ellipse) {
+            if (w < 0) w = -w;
+            if (h < 0) h = -h;
+            return (x - w, y - h, x + w, y + h);
+        }
+        return (w < 0 ? x + w : x, h < 0 ? y + h : y, w < 0 ? x : x + w, h < 0 ? y : y + h);
+    }
+
+    minX = maxX = points[0].x;
+    minY = maxY = points[0].y;
+    for (uint256 i = 1; i < points.length; i++) {
+        if (points[i].x < minX) minX = points[i].x;
+        if (points[i].x > maxX) maxX = points[i].x;
+        if (points[i].y < minY) minY = points[i].y;
+        if (points[i].y > maxY) maxY = points[i].y;
+    }
+    int256 margin = (int256(uint256(stroke)) + 1) / 2;
+    return (minX - margin, minY - margin, maxX + margin, maxY + margin);
+}
+
 function toShapeLabel(Path shape) pure returns (bytes memory) {
     if (shape == Path.rect) return "Rectangle";
     if (shape == Path.ellipse) return "Ellipse";
     if (shape == Path.line) return "Line";
     if (shape == Path.polyline) return "Polyline";
+    if (shape == Path.polygon) return "Polygon";
+    if (shape == Path.path) return "Path";
+    if (shape == Path.curve) return "Curve";
     revert InvalidShape(uint8(shape));
 }
 
@@ -193,12 +275,7 @@ function toRGBString_(bytes3 rgb) pure returns (bytes memory) {
     return buffer;
 } 
 
-function random_(uint256 seed, uint256 min, uint256 max) view returns (uint256) {
-    return uint256(keccak256(abi.encodePacked(
-        seed, 
-        block.timestamp, 
-        block.prevrandao, 
-        block.number,
-        msg.sender
-    ))) % (max - min + 1) + min;
+// only as unpredictable as the seed, callers seed it from a block hash that didn't exist at mint
+function random_(uint256 seed, uint256 draw, uint256 min, uint256 max) pure returns (uint256) {
+    return uint256(keccak256(abi.encodePacked(seed, draw))) % (max - min + 1) + min;
 }
\ No newline at end of file
@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import './ArtHistory.css';
+import {
+  connectToProvider,
+  getArtVersionCount,
+  getTokenSVGAtVersion
+} from '../utils/blockchain';
+import type { ColourMeNFT } from '../typechain-types/contracts/ColourMeNFT.sol/ColourMeNFT';
+
+interface ArtHistoryProps {
+  tokenId: number;
+}
+
+// Steps through the versions of a token, each setArt starts a new one
+const ArtHistory: React.FC<ArtHistoryProps> = ({ tokenId }) => {
+  const [contract, setContract] = useState<ColourMeNFT | null>(null);
+  const [versionCount, setVersionCount] = useState(0);
+  const [version, setVersion] = useState(0);
+  const [previewUrl, setPreviewUrl] = useState<string>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    connectToProvider().then(({ contract, result }) => {
+      if (result.success) setContract(contract);
+    });
+  }, []);
+
+  // Load the version count, then jump to the latest version
+  useEffect(() => {
+    if (!contract || tokenId <= 0) return;
+
+    const loadVersions = async () => {
+      const { count, result } = await getArtVersionCount(contract, tokenId);
+      if (!result.success) {
+        setError(result.error || 'Failed to load history');
+        return;
+      }
+      setError('');
+      setVersionCount(count);
+      setVersion(Math.max(0, count - 1));
+    };
+
+    loadVersions();
+
+    // Saves can open a new version
+    const artSavedFilter = contract.filters.ArtSaved(tokenId);
+    contract.on(artSavedFilter, loadVersions);
+    return () => {
+      contract.off(artSavedFilter, loadVersions);
+    };
+  }, [contract, tokenId]);
+
+  // Render the selected version
+  useEffect(() => {
+    if (!contract || versionCount === 0) {
+      setPreviewUrl('');
+      return;
+    }
+
+    let url = '';
+    const loadVersion = async () => {
+      setIsLoading(true);
+      const { svg, result } = await getTokenSVGAtVersion(contract, tokenId, version);
+      if (result.success) {
+        // Shown as an image so the editor script in the SVG never runs
+        url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+        setPreviewUrl(url);
+        setError('');
+      } else {
+        setError(result.error || `Failed to load version ${version + 1}`);
+      }
+      setIsLoading(false);
+    };
+
+    loadVersion();
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [contract, tokenId, version, versionCount]);
+
+  if (tokenId <= 0) return null;
+
+  return (
+    <div className="art-history">
+      <div className="art-history-header">
+        <span className="art-history-title">🕘 History</span>
+        <div className="art-history-controls">
+          <button
+            className="art-history-button"
+            disabled={version <= 0 || isLoading}
+            onClick={() => setVersion(version - 1)}
+          >
+            ◀
+          </button>
+          <span className="art-history-label">
+            {versionCount === 0
+              ? 'No versions yet'
+              : `Version ${version + 1} of ${versionCount}${version === versionCount - 1 ? ' (latest)' : ''}`}
+          </span>
+          <button
+            className="art-history-button"
+            disabled={version >= versionCount - 1 || isLoading}
+            onClick={() => setVersion(version + 1)}
+          >
+            ▶
+          </button>
+        </div>
+      </div>
+      {previewUrl && (
+        <img
+          src={previewUrl}
+          alt={`Token #${tokenId} version ${version + 1}`}
+          className={`art-history-preview ${isLoading ? 'loading' : ''}`}
+        />
+      )}
+      {error && <div className="art-history-error">⚠️ {error}</div>}
+    </div>
+  );
+};
+
+export default ArtHistory;
@@ -1,11 +1,12 @@
 import Window from './Window';
 import SVGDisplay from './SVGDisplay';
+import ArtHistory from './ArtHistory';
 
 interface ColourMeAppProps {
   appTitle: string;
   activeToken: number;
   account: string;
-  handleSaveRequest: (data: { artData: any[], saveType: 'set' | 'append' }) => void;
+  handleSaveRequest: (data: { artData: any[], saveType: 'set' | 'append' | 'truncate+append', truncateLength?: number }) => void;
 }
 
 const ColourMeApp: React.FC<ColourMeAppProps> = ({ appTitle, activeToken, account, handleSaveRequest }) => {
@@ -28,6 +29,7 @@ const ColourMeApp: React.FC<ColourMeAppProps> = ({ appTitle, activeToken, accoun
           </div>
         )} */}
       </div>
+      {activeToken > 0 && <ArtHistory tokenId={activeToken} />}
     </Window>
   )
 };
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import './Home.css';
 import Navbar from './Navbar';
 import ColourMeApp from './ColourMeApp';
@@ -7,19 +7,132 @@ import TokenExplorer from './TokenExplorer';
 import Shill2Earn from './Shill2Earn';
 import {
   connectToProvider,
-  getTokenSVG,
+  getTokenSVGLocal,
+  clearTokenCache,
+  watchTokenCache,
   getContractData,
   type ContractData,
   connectToWallet,
-  setArt,
-  appendArt,
-  type ConnectionResult,
+  createTransactionQueue,
+  executeTransactionQueue,
+  findObjectNotAllowed,
+  getCanvas,
+  getTraits,
   type ContractObject
 } from '../utils/blockchain';
+import { findInvalidObject, optimizeObjects, type CanvasRect, type TokenTrait } from '../utils/encoding';
 import type { ColourMeNFT } from '../typechain-types/contracts/ColourMeNFT.sol/ColourMeNFT';
 import Mint from './Mint';
 import Overview from './Overview';
 
+interface SaveRequest {
+  artData: ContractObject[];
+  saveType: 'set' | 'append' | 'truncate+append';
+  truncateLength?: number;
+}
+
+interface SaveDialogProps {
+  tokenId: number;
+  contract: ColourMeNFT | null;
+  request: SaveRequest;
+  canSave: boolean;
+  isSaving: boolean;
+  status: string;
+  onSave: (tolerance: number) => void;
+  onClose: () => void;
+}
+
+// Freehand strokes are simplified before they're queued, the slider trades accuracy for storage
+const SaveDialog: React.FC<SaveDialogProps> = ({ tokenId, contract, request, canSave, isSaving, status, onSave, onClose }) => {
+  const [tolerance, setTolerance] = useState(1);
+  const [rules, setRules] = useState<{ trait: TokenTrait; canvas: CanvasRect } | null>(null);
+
+  // the traits and canvas decide what the contract accepts, read them once per dialog
+  useEffect(() => {
+    if (!contract) return;
+    Promise.all([getTraits(contract, tokenId), getCanvas(contract)]).then(([{ trait }, canvas]) => {
+      if (trait) setRules({ trait, canvas });
+    });
+  }, [contract, tokenId]);
+
+  const { report, transactions, invalid } = useMemo(() => {
+    const { objects, report } = optimizeObjects(request.artData, tolerance);
+    const queue = createTransactionQueue(tokenId, objects, request.saveType, undefined, request.truncateLength ?? 0);
+    const invalid = rules ? findInvalidObject(objects, rules.trait, rules.canvas) : null;
+    return { report, transactions: queue.chunks.length, invalid };
+  }, [tokenId, request, tolerance, rules]);
+
+  return (
+    <>
+      <div className="popup-overlay" onClick={isSaving ? undefined : onClose} />
+      <div className="attributes-popup share-popup os-window">
+        <div className="os-titlebar">
+          <div className="os-titlebar-text">
+            <div className="os-titlebar-icon">💾</div>
+            Save Token #{tokenId}
+          </div>
+          <div className="os-control-buttons">
+            <div className="os-btn close" onClick={isSaving ? undefined : onClose}></div>
+          </div>
+        </div>
+        <div className="os-content">
+          <div className="share-form">
+            <label>
+              Simplify strokes: {tolerance === 0 ? 'lossless' : `${tolerance}px`}
+              <input
+                type="range"
+                min="0"
+                max="10"
+                step="0.5"
+                value={tolerance}
+                disabled={isSaving}
+                onChange={(e) => setTolerance(Number(e.target.value))}
+              />
+            </label>
+          </div>
+          <div className="attribute-row">
+            <span className="attribute-label">Objects</span>
+            <span className="attribute-value">{report.objects} ({report.optimizedObjects} simplified)</span>
+          </div>
+          <div className="attribute-row">
+            <span className="attribute-label">Points</span>
+            <span className="attribute-value">{report.pointsBefore} → {report.pointsAfter}</span>
+          </div>
+          <div className="attribute-row">
+            <span className="attribute-label">Size</span>
+            <span className="attribute-value">{report.bytesBefore} → {report.bytesAfter} bytes ({report.bytesSaved} saved)</span>
+          </div>
+          <div className="attribute-row">
+            <span className="attribute-label">Gas saved</span>
+            <span className="attribute-value">~{report.gasSaved.toLocaleString()}</span>
+          </div>
+          <div className="attribute-row">
+            <span className="attribute-label">Error</span>
+            <span className="attribute-value">{report.maxError.toFixed(1)}px max, {report.meanError.toFixed(2)}px mean</span>
+          </div>
+          <div className="attribute-row">
+            <span className="attribute-label">Transactions</span>
+            <span className="attribute-value">{transactions}</span>
+          </div>
+
+          {/* anything listed here would revert the save */}
+          {invalid && <div className="share-status error">{invalid}</div>}
+
+          {canSave ? (
+            <button className="share-button" disabled={isSaving || !!invalid} onClick={() => onSave(tolerance)}>
+              {isSaving ? 'Saving...' : request.saveType === 'set' ? 'Set art' : request.saveType === 'append' ? 'Append art' : 'Update art'}
+            </button>
+          ) : (
+            <div className="share-notice">Connect your wallet to save this canvas</div>
+          )}
+
+          {status && <div className="share-status">{status}</div>}
+        </div>
+      </div>
+    </>
+  );
+};
+
 const Home: React.FC = () => {
   const [activeToken, setActiveToken] = useState(0);
 
@@ -33,10 +146,7 @@ const Home: React.FC = () => {
   const [isLoadingContract, setIsLoadingContract] = useState(false);
   
   // Save functionality state
-  const [saveRequestData, setSaveRequestData] = useState<{
-    artData: ContractObject[];
-    saveType: 'set' | 'append';
-  } | null>(null);
+  const [saveRequestData, setSaveRequestData] = useState<SaveRequest | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [saveStatus, setSaveStatus] = useState<string>('');
   
@@ -136,6 +246,42 @@ const Home: React.FC = () => {
     if (writeContract === null) initializeWriteContract();
   }, [account]);
 
+  // Reload contract data when the owner changes the mint config, base URL or renderer
+  useEffect(() => {
+    if (!readOnlyContract) return;
+
+    const configFilters = [
+      readOnlyContract.filters.MintConfigUpdated(),
+      readOnlyContract.filters.BaseURLUpdated(),
+      readOnlyContract.filters.RendererUpdated(),
+      readOnlyContract.filters.PresaleUpdated()
+    ];
+    const configListener = () => {
+      console.log('🔧 [Home.tsx] Contract config updated, refreshing');
+      refreshContractData();
+    };
+
+    configFilters.forEach(filter => readOnlyContract.on(filter, configListener));
+    return () => {
+      configFilters.forEach(filter => readOnlyContract.off(filter, configListener));
+    };
+  }, [readOnlyContract]);
+
+  // Drop thumbnails that changed on-chain, the preview loader below renders them again
+  useEffect(() => {
+    if (!readOnlyContract) return;
+
+    return watchTokenCache(readOnlyContract, tokenId => {
+      console.log(`🖼️ [Home.tsx] ${tokenId === undefined ? 'All tokens' : `Token #${tokenId}`} changed on-chain, reloading previews`);
+      setTokenPreviews(prev => {
+        if (tokenId === undefined) return new Map();
+        const newPreviews = new Map(prev);
+        newPreviews.delete(tokenId);
+        return newPreviews;
+      });
+    });
+  }, [readOnlyContract]);
+
   // Force SVG reload when active token changes (like in App.tsx)
   // useEffect(() => {
   //   console.log('🔍 [Home.tsx] useEffect - forceSVGReload');
@@ -163,7 +309,7 @@ const Home: React.FC = () => {
         if (!isMounted) break;
 
         try {
-          const { svg: svgContent, result } = await getTokenSVG(readOnlyContract, tokenId);
+          const { svg: svgContent, result } = await getTokenSVGLocal(readOnlyContract, tokenId);
           if (result.success && isMounted) {
             // Convert SVG string to data URL for img tag
             const blob = new Blob([svgContent], { type: 'image/svg+xml' });
@@ -202,7 +348,7 @@ const Home: React.FC = () => {
   }, [tokenPreviews]);
 
   // Handle save request from SVG
-  const handleSaveRequest = (data: { artData: any[] | string, saveType: 'set' | 'append' }) => {
+  const handleSaveRequest = (data: { artData: any[] | string, saveType: 'set' | 'append' | 'truncate+append', truncateLength?: number }) => {
     console.log('🎨 [Home.tsx] SAVE_REQUEST received:', { type: 'SAVE_REQUEST', data });
     console.log('🔍 [Home.tsx] handleSaveRequest called with:', data);
     
@@ -227,7 +373,8 @@ const Home: React.FC = () => {
     
     const saveRequest = {
       artData: parsedArtData,
-      saveType: data.saveType
+      saveType: data.saveType,
+      truncateLength: data.truncateLength
     };
     
     console.log('📝 [Home.tsx] Setting saveRequestData:', saveRequest);
@@ -254,7 +401,9 @@ const Home: React.FC = () => {
     
     try {
       console.log(`🖼️ [Home.tsx] Reloading thumbnail for token #${tokenId}`);
-      const { svg: svgContent, result } = await getTokenSVG(readOnlyContract, tokenId);
+      // the art just changed, read it again before rendering
+      clearTokenCache(tokenId);
+      const { svg: svgContent, result } = await getTokenSVGLocal(readOnlyContract, tokenId);
       if (result.success) {
         // Clean up old URL if it exists
         const oldUrl = tokenPreviews.get(tokenId);
@@ -281,32 +430,8 @@ const Home: React.FC = () => {
     }
   };
 
-  // Auto-handle save requests when data changes
-  useEffect(() => {
-    console.log('🔄 [Home.tsx] useEffect triggered with state:', {
-      saveRequestData: !!saveRequestData,
-      writeContract: !!writeContract,
-      account: !!account,
-      activeToken: activeToken,
-      isSaving: isSaving
-    });
-    
-    if (saveRequestData && writeContract && account && activeToken > 0 && !isSaving) {
-      console.log('✅ [Home.tsx] All conditions met, calling handleSaveRequest');
-      handleSaveRequest(saveRequestData);
-    } else {
-      console.log('❌ [Home.tsx] Conditions not met for auto-save:', {
-        hasSaveRequest: !!saveRequestData,
-        hasWriteContract: !!writeContract,
-        hasAccount: !!account,
-        hasValidToken: activeToken > 0,
-        notSaving: !isSaving
-      });
-    }
-  }, [saveRequestData, writeContract, account, activeToken, isSaving]);
-
-  // Handle save execution
-  const executeSave = async (data: { artData: ContractObject[], saveType: 'set' | 'append' }) => {
+  // Handle save execution, the art is simplified and split into transactions first
+  const executeSave = async (data: SaveRequest, tolerance: number) => {
     if (!writeContract || !account || !activeToken || activeToken === 0) {
       console.error('❌ [Home.tsx] Prerequisites not met for save:', {
         writeContract: !!writeContract,
@@ -318,26 +443,32 @@ const Home: React.FC = () => {
     }
 
     setIsSaving(true);
-    setSaveStatus(`${data.saveType === 'set' ? 'Setting' : 'Appending'} art...`);
+    setSaveStatus(`${data.saveType === 'set' ? 'Setting' : data.saveType === 'append' ? 'Appending' : 'Updating'} art...`);
 
     try {
-      console.log(`🔗 [Home.tsx] Starting ${data.saveType} transaction...`);
-      
-      let result: ConnectionResult;
-      
-      if (data.saveType === 'set') {
-        console.log('📝 [Home.tsx] Calling setArt with:', { tokenId: activeToken, artDataLength: data.artData.length });
-        result = await setArt(writeContract, activeToken, data.artData);
-        console.log('📝 [Home.tsx] setArt result:', result);
-      } else {
-        console.log('➕ [Home.tsx] Calling appendArt with:', { tokenId: activeToken, artDataLength: data.artData.length });
-        result = await appendArt(writeContract, activeToken, data.artData);
-        console.log('➕ [Home.tsx] appendArt result:', result);
+      const { objects, report } = optimizeObjects(data.artData, tolerance);
+      console.log('✂️ [Home.tsx] Optimized art:', report);
+
+      // a revert in a later chunk would leave the earlier ones saved, so check everything up front
+      const notAllowed = await findObjectNotAllowed(writeContract, activeToken, objects);
+      if (notAllowed) {
+        console.error('❌ [Home.tsx] Art failed validation:', notAllowed);
+        setSaveStatus(notAllowed);
+        return;
       }
 
+      // Undone strokes are dropped with a truncate, anything drawn since is appended after it
+      const queue = createTransactionQueue(activeToken, objects, data.saveType, undefined, data.truncateLength ?? 0);
+      console.log(`🔗 [Home.tsx] Starting ${data.saveType} in ${queue.chunks.length} transaction(s)...`);
+
+      const result = await executeTransactionQueue(writeContract, queue, (chunk, progress) => {
+        console.log(`📦 [Home.tsx] Chunk ${chunk.chunkIndex + 1}/${chunk.totalChunks} ${chunk.status}`);
+        setSaveStatus(`Saving art... ${progress.completed}/${progress.total} transactions`);
+      });
+
       if (result.success) {
         console.log('✅ [Home.tsx] Transaction successful!', result.data);
-        setSaveStatus(`Art ${data.saveType === 'set' ? 'set' : 'appended'} successfully!`);
+        setSaveStatus(`Art ${data.saveType === 'set' ? 'set' : data.saveType === 'append' ? 'appended' : 'updated'} successfully!`);
         handleSaveSuccess();
       } else {
         console.error('❌ [Home.tsx] Transaction failed:', result.error);
@@ -351,14 +482,6 @@ const Home: React.FC = () => {
     }
   };
 
-  // Execute save when saveRequestData changes
-  useEffect(() => {
-    console.log('🔍 [Home.tsx] useEffect - executeSave');
-    if (saveRequestData && writeContract && account && activeToken > 0 && !isSaving) {
-      executeSave(saveRequestData);
-    }
-  }, [saveRequestData, writeContract, account, activeToken, isSaving]);
-
   // Listen for messages from SVG (like in App.tsx)
   useEffect(() => {
     console.log('🔍 [Home.tsx] useEffect - handleMessage');
@@ -458,6 +581,8 @@ const Home: React.FC = () => {
         tokenCount={contractData?.tokenCount || 0}
         tokenPreviews={tokenPreviews}
         contract={readOnlyContract}
+        writeContract={writeContract}
+        account={account}
       />
       
       <Overview contractData={contractData} />
@@ -472,6 +597,23 @@ const Home: React.FC = () => {
         </p>
       </footer>
 
+      {/* Save dialog, opens when the editor asks to save */}
+      {saveRequestData && activeToken > 0 && (
+        <SaveDialog
+          tokenId={activeToken}
+          contract={readOnlyContract}
+          request={saveRequestData}
+          canSave={!!writeContract && !!account}
+          isSaving={isSaving}
+          status={saveStatus}
+          onSave={(tolerance) => executeSave(saveRequestData, tolerance)}
+          onClose={() => {
+            setSaveRequestData(null);
+            setSaveStatus('');
+          }}
+        />
+      )}
+
       {/* Shill2Earn Popup */}
       <Shill2Earn 
         isOpen={isShill2EarnOpen} 
@@ -1,17 +1,38 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { 
   connectToProvider,
+  connectToWallet,
+  clearTokenCache,
   getProjectInfo,
   getOwnerOf,
-  getTokenSVG
+  getCanvas,
+  getFinalizedBlock,
+  getImportPalette,
+  getRevealBlock,
+  getPaintAccess,
+  getTokenSVG,
+  getTokenSVGAnimated,
+  revealTraits
 } from '../utils/blockchain';
+import { encodeObjects, type ObjectStruct } from '../utils/encoding';
+import { renderArtSVG } from '../utils/renderer';
+import { importSVG, type ImportReport } from '../utils/svgImport';
 import type { ColourMeNFT } from '../typechain-types/contracts/ColourMeNFT.sol/ColourMeNFT';
 import colourMeFullSvg from '../assets/colour-me.full.svg';
 
+// An imported file waiting for the user to accept it, both images are blob URLs
+interface ImportPreview {
+  fileName: string;
+  original: string;
+  imported: string;
+  objects: ObjectStruct[];
+  report: ImportReport;
+}
+
 interface SVGDisplayProps {
   tokenId?: number;
   account?: string;
-  onSaveRequest?: (data: { artData: any[], saveType: 'set' | 'append' }) => void;
+  onSaveRequest?: (data: { artData: any[], saveType: 'set' | 'append' | 'truncate+append', truncateLength?: number }) => void;
   width?: number;
   height?: number;
   className?: string;
@@ -30,8 +51,15 @@ const SVGDisplay: React.FC<SVGDisplayProps> = ({
   const [isLoading, setIsLoading] = useState(true);
   const [isValidToken, setIsValidToken] = useState(false);
   const [tokenOwner, setTokenOwner] = useState<string>('');
+  const [paintAccess, setPaintAccess] = useState<'owner' | 'collaborator' | 'none'>('none');
+  const [finalizedBlock, setFinalizedBlock] = useState(0); // 0 = open for painting
+  const [revealBlock, setRevealBlock] = useState(0); // 0 = traits revealed
+  const [isRevealing, setIsRevealing] = useState(false);
   const [error, setError] = useState<string>('');
+  const [replayContent, setReplayContent] = useState<string>(''); // blob URL of the timelapse while it plays
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
   const objectRef = useRef<HTMLObjectElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   // Extract token ID from URL hash if not provided as prop
   const getTokenIdFromHash = (): number | null => {
@@ -96,6 +124,10 @@ const SVGDisplay: React.FC<SVGDisplayProps> = ({
       }
 
       // Token exists and is owned - load from contract
+      const { blockNumber } = await getFinalizedBlock(contract!, effectiveTokenId);
+      setFinalizedBlock(blockNumber);
+      const { revealBlock: pendingBlock } = await getRevealBlock(contract!, effectiveTokenId);
+      setRevealBlock(pendingBlock);
       setTokenOwner(ownerResult.owner);
       setIsValidToken(true);
       await loadTokenSVG(contract!, effectiveTokenId);
@@ -119,6 +151,8 @@ const SVGDisplay: React.FC<SVGDisplayProps> = ({
     setSvgContent(colourMeFullSvg);
     setIsValidToken(false);
     setTokenOwner('');
+    setFinalizedBlock(0);
+    setRevealBlock(0);
     setIsLoading(false);
   };
 
@@ -156,6 +190,90 @@ const SVGDisplay: React.FC<SVGDisplayProps> = ({
     }
   };
 
+  // Anyone can reveal a token's traits, the editor reloads with the real palette afterwards
+  const handleReveal = async () => {
+    if (!readOnlyContract || !isValidToken || !effectiveTokenId) return;
+
+    setIsRevealing(true);
+    const { contract, result } = await connectToWallet();
+    const revealResult = contract && result.success ? await revealTraits(contract, effectiveTokenId) : result;
+    if (revealResult.success) {
+      clearTokenCache(effectiveTokenId);
+      setRevealBlock(0);
+      await reloadTokenSVG();
+    } else {
+      setError(revealResult.error || 'Reveal traits failed');
+    }
+    setIsRevealing(false);
+  };
+
+  // Load the timelapse as a fresh blob URL so the animation restarts from the first object
+  const replayTokenSVG = async () => {
+    if (!readOnlyContract || !isValidToken || !effectiveTokenId) return;
+
+    const { svg, result } = await getTokenSVGAnimated(readOnlyContract, effectiveTokenId);
+    if (result.success) {
+      const blob = new Blob([svg], { type: 'image/svg+xml' });
+      setReplayContent(URL.createObjectURL(blob));
+    } else {
+      setError(`Failed to load replay: ${result.error}`);
+    }
+  };
+
+  // The metadata's timelapse_url links to #<tokenId>/timelapse, play it once the token has loaded
+  useEffect(() => {
+    if (isValidToken && readOnlyContract && window.location.hash.endsWith('/timelapse')) {
+      replayTokenSVG();
+    }
+  }, [isValidToken, readOnlyContract]);
+
+  // Convert the chosen file with the token's traits and show it next to the original before anything changes
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // picking the same file again should still fire
+    if (!file || !readOnlyContract || !effectiveTokenId) return;
+
+    try {
+      const { palette, result } = await getImportPalette(readOnlyContract, effectiveTokenId);
+      if (!palette) throw new Error(result.error);
+      const canvas = await getCanvas(readOnlyContract);
+      const text = await file.text();
+      const { objects, report } = importSVG(text, palette, { canvas });
+      console.log(`📥 Imported ${file.name}:`, report);
+
+      const imported = renderArtSVG(encodeObjects(objects), canvas);
+      setImportPreview({
+        fileName: file.name,
+        original: URL.createObjectURL(new Blob([text], { type: 'image/svg+xml' })),
+        imported: URL.createObjectURL(new Blob([imported], { type: 'image/svg+xml' })),
+        objects,
+        report
+      });
+    } catch (error) {
+      setError(`SVG import failed: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const closeImportPreview = () => {
+    if (importPreview) {
+      URL.revokeObjectURL(importPreview.original);
+      URL.revokeObjectURL(importPreview.imported);
+    }
+    setImportPreview(null);
+  };
+
+  // Imports go on top of the unsaved local drawing (or the token's art) and the editor picks
+  // them up from localStorage on reload, saving them is the usual append or set from there
+  const acceptImport = async () => {
+    if (!importPreview || !effectiveTokenId) return;
+
+    const storageKey = 'colourMeArt.' + effectiveTokenId;
+    const current = localStorage.getItem(storageKey) || localStorage.getItem('tokenArt') || '[]';
+    localStorage.setItem(storageKey, JSON.stringify([...JSON.parse(current), ...importPreview.objects]));
+    closeImportPreview();
+    await reloadTokenSVG();
+  };
+
   // Set data-token attribute on the SVG when it loads
   useEffect(() => {
     if (objectRef.current && svgContent) {
@@ -191,30 +309,45 @@ const SVGDisplay: React.FC<SVGDisplayProps> = ({
     }
   }, [svgContent, effectiveTokenId]);
 
+  // Work out whether the connected account may save to this token
+  useEffect(() => {
+    if (!readOnlyContract || !isValidToken || !effectiveTokenId || !account) {
+      setPaintAccess('none');
+      return;
+    }
+    getPaintAccess(readOnlyContract, effectiveTokenId, account).then(setPaintAccess);
+  }, [readOnlyContract, isValidToken, effectiveTokenId, account, tokenOwner]);
+
   // Listen for SVG messages
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
       const { type, data } = event.data;
       
       if (type === 'SAVE_REQUEST' && onSaveRequest) {
-        const { artData, saveType } = data;
+        const { artData, saveType, truncateLength } = data;
         
         // Only allow save if user owns the token (or if it's create mode with token 0)
+        // Collaborators may only append to a shared canvas, nobody may change a finalized one
         const canSave = (effectiveTokenId === null || effectiveTokenId === 0) || // Create mode
                        (isValidToken && 
                         account && 
-                        tokenOwner.toLowerCase() === account.toLowerCase()); // Token mode
+                        finalizedBlock === 0 &&
+                        (paintAccess === 'owner' || (paintAccess === 'collaborator' && saveType === 'append'))); // Token mode
         
         if (canSave) {
-          onSaveRequest({ artData, saveType });
+          onSaveRequest({ artData, saveType, truncateLength });
         } else {
-          console.log(`🚫 Save blocked: User does not own token #${effectiveTokenId || 0}`);
+          console.log(`🚫 Save blocked: User cannot ${saveType} art on token #${effectiveTokenId || 0}`);
           // Send response back to SVG
           if (event.source && event.source !== window) {
             (event.source as Window).postMessage({
               type: 'SAVE_RESPONSE',
               success: false,
-              message: 'You do not own this token'
+              message: finalizedBlock !== 0
+                ? 'This canvas is finalized'
+                : paintAccess === 'collaborator'
+                  ? 'Collaborators can only add to a shared canvas'
+                  : 'You do not own this token'
             }, '*');
           }
         }
@@ -223,7 +356,7 @@ const SVGDisplay: React.FC<SVGDisplayProps> = ({
 
     window.addEventListener('message', handleMessage);
     return () => window.removeEventListener('message', handleMessage);
-  }, [onSaveRequest, isValidToken, account, tokenOwner, effectiveTokenId]);
+  }, [onSaveRequest, isValidToken, account, paintAccess, finalizedBlock, effectiveTokenId]);
 
   // Expose reload function to parent via ref
   useEffect(() => {
@@ -270,8 +403,147 @@ const SVGDisplay: React.FC<SVGDisplayProps> = ({
         </div>
       )}
 
+      {/* Replay controls */}
+      {isValidToken && !isLoading && (
+        <div style={{
+          position: 'absolute',
+          top: '10px',
+          left: '10px',
+          zIndex: 10,
+          display: 'flex',
+          gap: '8px'
+        }}>
+          <button onClick={replayTokenSVG}>▶️ Replay</button>
+          {paintAccess !== 'none' && finalizedBlock === 0 && revealBlock === 0 && (
+            <>
+              <button onClick={() => importInputRef.current?.click()}>📥 Import SVG</button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".svg,image/svg+xml"
+                style={{ display: 'none' }}
+                onChange={handleImportFile}
+              />
+            </>
+          )}
+          {replayContent && (
+            <button onClick={() => setReplayContent('')}>✖️ Close replay</button>
+          )}
+        </div>
+      )}
+
+      {/* The timelapse is shown as a plain image over the canvas until it is closed */}
+      {replayContent && (
+        <img
+          src={replayContent}
+          alt={`Token #${effectiveTokenId} replay`}
+          width={width}
+          height={height}
+          className={className}
+          style={{
+            border: '2px solid #ddd',
+            backgroundColor: 'white'
+          }}
+        />
+      )}
+
+      {/* Original next to what the token can actually draw of it */}
+      {importPreview && (
+        <div style={{
+          position: 'absolute',
+          top: '50%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          zIndex: 30,
+          backgroundColor: 'white',
+          padding: '20px',
+          borderRadius: '8px',
+          boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)',
+          maxWidth: '90%'
+        }}>
+          <h3 style={{ marginTop: 0 }}>📥 Import {importPreview.fileName}</h3>
+          <div style={{ display: 'flex', gap: '16px' }}>
+            {[['Original', importPreview.original], ['Imported', importPreview.imported]].map(([label, src]) => (
+              <figure key={label} style={{ margin: 0, textAlign: 'center' }}>
+                <img src={src} alt={label} width={300} height={300} style={{ border: '1px solid #ddd', objectFit: 'contain' }} />
+                <figcaption>{label}</figcaption>
+              </figure>
+            ))}
+          </div>
+          <div style={{ fontSize: '14px', margin: '12px 0' }}>
+            <div>{importPreview.report.objects} objects from {importPreview.report.elements} elements</div>
+            <div>
+              {importPreview.report.recolored} colours moved to the palette
+              {importPreview.report.recolored > 0 && ` (average error ${importPreview.report.averageColorError.toFixed(1)})`}
+            </div>
+            <div>{importPreview.report.convertedShapes} elements redrawn as other shapes</div>
+            {importPreview.report.skipped.length > 0 && (
+              <div>Skipped: {importPreview.report.skipped.join(', ')}</div>
+            )}
+          </div>
+          <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end' }}>
+            <button onClick={closeImportPreview}>Cancel</button>
+            <button onClick={acceptImport} disabled={importPreview.objects.length === 0}>Add to canvas</button>
+          </div>
+        </div>
+      )}
+
+      {/* Traits come from a block mined after the mint, until then the palette is a grey placeholder */}
+      {isValidToken && !isLoading && revealBlock !== 0 && (
+        <div style={{
+          position: 'absolute',
+          top: '50px',
+          left: '10px',
+          zIndex: 10,
+          backgroundColor: 'rgba(33, 33, 33, 0.85)',
+          color: 'white',
+          padding: '6px 12px',
+          borderRadius: '8px',
+          fontSize: '14px',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px'
+        }}>
+          🎲 Traits reveal from block {revealBlock}
+          <button onClick={handleReveal} disabled={isRevealing}>
+            {isRevealing ? 'Revealing...' : 'Reveal'}
+          </button>
+        </div>
+      )}
+
+      {/* Finalized tokens are shown as a plain image so the editor never runs */}
+      {svgContent && !replayContent && finalizedBlock !== 0 && (
+        <>
+          <div style={{
+            position: 'absolute',
+            top: '10px',
+            right: '10px',
+            zIndex: 10,
+            backgroundColor: 'rgba(33, 33, 33, 0.85)',
+            color: 'white',
+            padding: '6px 12px',
+            borderRadius: '8px',
+            fontSize: '14px'
+          }}>
+            🔒 Finalized at block {finalizedBlock} (read-only)
+          </div>
+          <img
+            src={svgContent}
+            alt={`Token #${effectiveTokenId}`}
+            width={width}
+            height={height}
+            className={className}
+            style={{
+              border: '2px solid #ddd',
+              backgroundColor: 'white'
+            }}
+          />
+        </>
+      )}
+
       {/* SVG Display */}
-      {svgContent && (
+      {/* Hidden rather than unmounted during a replay so the editor keeps its state */}
+      {svgContent && finalizedBlock === 0 && (
         <object
           ref={objectRef}
           data={svgContent}
@@ -281,7 +553,8 @@ const SVGDisplay: React.FC<SVGDisplayProps> = ({
           className={className}
           style={{
             border: '2px solid #ddd',
-            backgroundColor: 'white'
+            backgroundColor: 'white',
+            display: replayContent ? 'none' : undefined
           }}
         >
           <p>Your browser does not support SVG</p>
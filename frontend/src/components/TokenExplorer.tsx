@@ -3,7 +3,26 @@ import './TokenExplorer.css';
 import Window from './Window';
 import AddressBar from './AddressBar';
 import type { ColourMeNFT } from '../typechain-types/contracts/ColourMeNFT.sol/ColourMeNFT';
-import { dappConfig } from '../utils/blockchain';
+import {
+  clearTokenCache,
+  dappConfig,
+  finalizeArt,
+  formatAddress,
+  getCollaborators,
+  getFinalizedTokens,
+  getPaintAccess,
+  getRarityScore,
+  getThemes,
+  getTokenAttributes,
+  getTokenTheme,
+  setCollaborator,
+  setTokenTheme,
+  revokeCollaborator,
+  NO_EXPIRY,
+  type CollaboratorInfo,
+  type ThemeInfo,
+  type TokenAttribute
+} from '../utils/blockchain';
 
 
 interface TokenExplorerProps {
@@ -12,30 +31,61 @@ interface TokenExplorerProps {
     tokenCount: number;
     tokenPreviews: Map<number, string>;
     contract: ColourMeNFT | null;
+    writeContract: ColourMeNFT | null;
+    account: string;
   }
   
   interface ContextMenuProps {
     x: number;
     y: number;
     tokenId: number;
+    isFinalized: boolean;
     onClose: () => void;
     onAction: (action: string, tokenId: number) => void;
   }
   
   interface AttributesPopupProps {
     tokenId: number;
+    contract: ColourMeNFT | null;
     onClose: () => void;
   }
   
-  const AttributesPopup: React.FC<AttributesPopupProps> = ({ tokenId, onClose }) => {
-    // Mock attributes - in a real app these would come from the blockchain
+  const AttributesPopup: React.FC<AttributesPopupProps> = ({ tokenId, contract, onClose }) => {
+    const [tokenAttributes, setTokenAttributes] = useState<TokenAttribute[]>([]);
+    const [rarity, setRarity] = useState<number | null>(null);
+    const [isLoading, setIsLoading] = useState(tokenId !== 0);
+    const [error, setError] = useState('');
+  
+    useEffect(() => {
+      // token 0 is the example canvas, it has nothing on-chain
+      if (!contract || tokenId === 0) {
+        setIsLoading(false);
+        return;
+      }
+      setIsLoading(true);
+      Promise.all([
+        getTokenAttributes(contract, tokenId),
+        getRarityScore(contract, tokenId)
+      ]).then(([{ attributes: list, result }, { score, result: rarityResult }]) => {
+        if (result.success) {
+          setTokenAttributes(list);
+        } else {
+          setError(result.error || 'Failed to load attributes');
+        }
+        setRarity(rarityResult.success ? score : null);
+        setIsLoading(false);
+      });
+    }, [contract, tokenId]);
+  
     const attributes = [
       { label: 'Token ID', value: tokenId.toString() },
       { label: 'Type', value: tokenId === 0 ? 'Example' : 'Minted NFT' },
-      { label: 'Created', value: tokenId === 0 ? 'N/A' : `On ${dappConfig.network.chainName || 'Mainnet'} Network'` },
-      { label: 'Objects', value: Math.floor(Math.random() * 50) + 10 },
-      { label: 'Colours Used', value: Math.floor(Math.random() * 10) + 3 },
-      { label: 'Rarity', value: ['Common', 'Rare', 'Epic', 'Legendary'][Math.floor(Math.random() * 4)] }
+      { label: 'Created', value: tokenId === 0 ? 'N/A' : `On ${dappConfig.network.chainName || 'Mainnet'} Network` },
+      ...tokenAttributes.map(attr => ({
+        label: attr.trait_type,
+        value: attr.trait_type === 'Last Editor' ? formatAddress(attr.value.toString()) : attr.value.toString()
+      })),
+      ...(rarity !== null ? [{ label: 'Rarity Score', value: rarity.toFixed(2) }] : [])
     ];
   
     return (
@@ -58,13 +108,344 @@ interface TokenExplorerProps {
                 <span className="attribute-value">{attr.value}</span>
               </div>
             ))}
+            {isLoading && (
+              <div className="attribute-row">Loading attributes...</div>
+            )}
+            {error && (
+              <div className="share-status error">{error}</div>
+            )}
           </div>
         </div>
       </>
     );
   };
   
-  const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, tokenId, onClose, onAction }) => {
+  interface ShareCanvasPopupProps {
+    tokenId: number;
+    contract: ColourMeNFT | null;
+    writeContract: ColourMeNFT | null;
+    account: string;
+    onClose: () => void;
+  }
+  
+  const ShareCanvasPopup: React.FC<ShareCanvasPopupProps> = ({ tokenId, contract, writeContract, account, onClose }) => {
+    const [collaborators, setCollaborators] = useState<CollaboratorInfo[]>([]);
+    const [isOwner, setIsOwner] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [address, setAddress] = useState('');
+    const [neverExpires, setNeverExpires] = useState(true);
+    const [expiry, setExpiry] = useState(''); // datetime-local value, only used when the grant expires
+    const [maxObjects, setMaxObjects] = useState(''); // empty for unlimited
+    const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  
+    const loadCollaborators = async () => {
+      if (!contract) return;
+      setIsLoading(true);
+      const [{ collaborators: list, result }, access] = await Promise.all([
+        getCollaborators(contract, tokenId),
+        getPaintAccess(contract, tokenId, account)
+      ]);
+      if (result.success) {
+        setCollaborators(list);
+      } else {
+        setStatus({ message: result.error || 'Failed to load collaborators', isError: true });
+      }
+      setIsOwner(access === 'owner');
+      setIsLoading(false);
+    };
+  
+    useEffect(() => {
+      loadCollaborators();
+    }, [contract, tokenId, account]);
+  
+    const handleShare = async () => {
+      if (!writeContract) return;
+      // an empty date must never reach the contract as 0, that would revoke instead of grant
+      const expiryTime = neverExpires ? NO_EXPIRY : BigInt(Math.floor(new Date(expiry).getTime() / 1000));
+      if (!neverExpires && (!expiry || expiryTime * 1000n <= BigInt(Date.now()))) {
+        setStatus({ message: 'Pick an expiry in the future, or choose never expires', isError: true });
+        return;
+      }
+      const objectCap = maxObjects ? Math.max(0, parseInt(maxObjects, 10) || 0) : 0;
+  
+      setIsSubmitting(true);
+      setStatus({ message: `Sharing canvas with ${formatAddress(address)}...`, isError: false });
+      const result = await setCollaborator(writeContract, tokenId, address.trim(), expiryTime, objectCap);
+      setIsSubmitting(false);
+  
+      if (result.success) {
+        setStatus({ message: 'Canvas shared!', isError: false });
+        setAddress('');
+        setNeverExpires(true);
+        setExpiry('');
+        setMaxObjects('');
+        loadCollaborators();
+      } else {
+        setStatus({ message: result.error || 'Share canvas failed', isError: true });
+      }
+    };
+  
+    const handleRevoke = async (collaborator: string) => {
+      if (!writeContract) return;
+      setIsSubmitting(true);
+      setStatus({ message: `Revoking ${formatAddress(collaborator)}...`, isError: false });
+      const result = await revokeCollaborator(writeContract, tokenId, collaborator);
+      setIsSubmitting(false);
+  
+      if (result.success) {
+        setStatus({ message: 'Collaborator revoked', isError: false });
+        loadCollaborators();
+      } else {
+        setStatus({ message: result.error || 'Revoke failed', isError: true });
+      }
+    };
+  
+    const formatExpiry = (value: bigint) => {
+      return value === NO_EXPIRY ? 'Never' : new Date(Number(value) * 1000).toLocaleString();
+    };
+  
+    return (
+      <>
+        <div className="popup-overlay" onClick={onClose} />
+        <div className="attributes-popup share-popup os-window">
+          <div className="os-titlebar">
+            <div className="os-titlebar-text">
+              <div className="os-titlebar-icon">🤝</div>
+              Share Token #{tokenId}
+            </div>
+            <div className="os-control-buttons">
+              <div className="os-btn close" onClick={onClose}></div>
+            </div>
+          </div>
+          <div className="os-content">
+            {isLoading ? (
+              <div className="attribute-row">Loading collaborators...</div>
+            ) : collaborators.length > 0 ? (
+              collaborators.map(collaborator => (
+                <div key={collaborator.address} className="attribute-row">
+                  <span className="attribute-label">{formatAddress(collaborator.address)}</span>
+                  <span className="attribute-value">
+                    {collaborator.active ? 'Active' : 'Inactive'} • Expires: {formatExpiry(collaborator.expiry)} • Objects: {collaborator.objectsAdded}/{collaborator.maxObjects || '∞'}
+                  </span>
+                  {isOwner && (
+                    <button className="share-button" disabled={isSubmitting} onClick={() => handleRevoke(collaborator.address)}>
+                      Revoke
+                    </button>
+                  )}
+                </div>
+              ))
+            ) : (
+              <div className="attribute-row">Not shared with anyone yet</div>
+            )}
+  
+            {!account ? (
+              <div className="share-notice">Connect your wallet to share this canvas</div>
+            ) : !isOwner ? (
+              <div className="share-notice">Only the owner can share this canvas</div>
+            ) : (
+              <div className="share-form">
+                <label>
+                  Address
+                  <input type="text" placeholder="0x..." value={address} onChange={(e) => setAddress(e.target.value)} />
+                </label>
+                <label className="share-checkbox">
+                  <input type="checkbox" checked={neverExpires} onChange={(e) => setNeverExpires(e.target.checked)} />
+                  Never expires
+                </label>
+                {!neverExpires && (
+                  <label>
+                    Expires
+                    <input type="datetime-local" value={expiry} onChange={(e) => setExpiry(e.target.value)} />
+                  </label>
+                )}
+                <label>
+                  Max objects (optional)
+                  <input type="number" min="0" placeholder="Unlimited" value={maxObjects} onChange={(e) => setMaxObjects(e.target.value)} />
+                </label>
+                <button className="share-button" disabled={isSubmitting || !address || !writeContract || (!neverExpires && !expiry)} onClick={handleShare}>
+                  Share
+                </button>
+              </div>
+            )}
+  
+            {status && (
+              <div className={`share-status ${status.isError ? 'error' : ''}`}>{status.message}</div>
+            )}
+          </div>
+        </div>
+      </>
+    );
+  };
+  
+  interface FinalizeCanvasPopupProps {
+    tokenId: number;
+    contract: ColourMeNFT | null;
+    writeContract: ColourMeNFT | null;
+    account: string;
+    onClose: () => void;
+    onFinalized: (tokenId: number) => void;
+  }
+  
+  const FinalizeCanvasPopup: React.FC<FinalizeCanvasPopupProps> = ({ tokenId, contract, writeContract, account, onClose, onFinalized }) => {
+    const [isOwner, setIsOwner] = useState(false);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  
+    useEffect(() => {
+      if (!contract) return;
+      getPaintAccess(contract, tokenId, account).then(access => setIsOwner(access === 'owner'));
+    }, [contract, tokenId, account]);
+  
+    const handleFinalize = async () => {
+      if (!writeContract) return;
+      setIsSubmitting(true);
+      setStatus({ message: 'Finalizing canvas...', isError: false });
+      const result = await finalizeArt(writeContract, tokenId);
+      setIsSubmitting(false);
+  
+      if (result.success) {
+        setStatus({ message: `Canvas finalized at block ${result.data?.blockNumber}`, isError: false });
+        onFinalized(tokenId);
+      } else {
+        setStatus({ message: result.error || 'Finalize art failed', isError: true });
+      }
+    };
+  
+    return (
+      <>
+        <div className="popup-overlay" onClick={onClose} />
+        <div className="attributes-popup share-popup os-window">
+          <div className="os-titlebar">
+            <div className="os-titlebar-text">
+              <div className="os-titlebar-icon">🔒</div>
+              Finalize Token #{tokenId}
+            </div>
+            <div className="os-control-buttons">
+              <div className="os-btn close" onClick={onClose}></div>
+            </div>
+          </div>
+          <div className="os-content">
+            <div className="share-notice">
+              Finalizing locks the art forever. Nobody, including you, will be able to paint on this canvas again.
+            </div>
+            {!account ? (
+              <div className="share-notice">Connect your wallet to finalize this canvas</div>
+            ) : !isOwner ? (
+              <div className="share-notice">Only the owner can finalize this canvas</div>
+            ) : (
+              <button className="share-button" disabled={isSubmitting || !writeContract} onClick={handleFinalize}>
+                Finalize
+              </button>
+            )}
+  
+            {status && (
+              <div className={`share-status ${status.isError ? 'error' : ''}`}>{status.message}</div>
+            )}
+          </div>
+        </div>
+      </>
+    );
+  };
+  
+  interface ThemePopupProps {
+    tokenId: number;
+    contract: ColourMeNFT | null;
+    writeContract: ColourMeNFT | null;
+    account: string;
+    onClose: () => void;
+  }
+  
+  const ThemePopup: React.FC<ThemePopupProps> = ({ tokenId, contract, writeContract, account, onClose }) => {
+    const [themes, setThemes] = useState<ThemeInfo[]>([]);
+    const [currentTheme, setCurrentTheme] = useState(0);
+    const [isOwner, setIsOwner] = useState(false);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+  
+    useEffect(() => {
+      if (!contract) return;
+      setIsLoading(true);
+      Promise.all([
+        getThemes(contract),
+        getTokenTheme(contract, tokenId),
+        getPaintAccess(contract, tokenId, account)
+      ]).then(([{ themes: list, result }, { themeId }, access]) => {
+        if (result.success) {
+          setThemes(list);
+        } else {
+          setStatus({ message: result.error || 'Failed to load themes', isError: true });
+        }
+        setCurrentTheme(themeId);
+        setIsOwner(access === 'owner');
+        setIsLoading(false);
+      });
+    }, [contract, tokenId, account]);
+  
+    const handleSelect = async (theme: ThemeInfo) => {
+      if (!writeContract) return;
+      setIsSubmitting(true);
+      setStatus({ message: `Switching to ${theme.name}...`, isError: false });
+      const result = await setTokenTheme(writeContract, tokenId, theme.id);
+      setIsSubmitting(false);
+  
+      if (result.success) {
+        // themed tokens render through their renderer, not the local preview
+        clearTokenCache(tokenId);
+        setCurrentTheme(theme.id);
+        setStatus({ message: `Theme set to ${theme.name}`, isError: false });
+      } else {
+        setStatus({ message: result.error || 'Set theme failed', isError: true });
+      }
+    };
+  
+    return (
+      <>
+        <div className="popup-overlay" onClick={onClose} />
+        <div className="attributes-popup share-popup os-window">
+          <div className="os-titlebar">
+            <div className="os-titlebar-text">
+              <div className="os-titlebar-icon">🎨</div>
+              Token #{tokenId} Theme
+            </div>
+            <div className="os-control-buttons">
+              <div className="os-btn close" onClick={onClose}></div>
+            </div>
+          </div>
+          <div className="os-content">
+            {isLoading ? (
+              <div className="attribute-row">Loading themes...</div>
+            ) : (
+              themes.map(theme => (
+                <div key={theme.id} className="attribute-row">
+                  <span className="attribute-label">{theme.name}</span>
+                  <span className="attribute-value">{theme.id === currentTheme ? 'Current' : formatAddress(theme.renderer)}</span>
+                  {isOwner && theme.id !== currentTheme && (
+                    <button className="share-button" disabled={isSubmitting || !writeContract} onClick={() => handleSelect(theme)}>
+                      Use
+                    </button>
+                  )}
+                </div>
+              ))
+            )}
+  
+            {!account ? (
+              <div className="share-notice">Connect your wallet to change the theme</div>
+            ) : !isLoading && !isOwner && (
+              <div className="share-notice">Only the owner can change the theme</div>
+            )}
+  
+            {status && (
+              <div className={`share-status ${status.isError ? 'error' : ''}`}>{status.message}</div>
+            )}
+          </div>
+        </div>
+      </>
+    );
+  };
+  
+  const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, tokenId, isFinalized, onClose, onAction }) => {
     useEffect(() => {
       console.log('🔍 [ContextMenu] Component render - tokenId:', tokenId);
       const handleClickOutside = () => onClose();
@@ -83,13 +464,39 @@ interface TokenExplorerProps {
         <div className="context-menu-item" onClick={() => onAction('attributes', tokenId)}>
           Attributes
         </div>
+        {tokenId > 0 && (
+          <div className="context-menu-item" onClick={() => onAction('share', tokenId)}>
+            Share canvas
+          </div>
+        )}
+        {tokenId > 0 && !isFinalized && (
+          <div className="context-menu-item" onClick={() => onAction('theme', tokenId)}>
+            Theme
+          </div>
+        )}
+        {tokenId > 0 && !isFinalized && (
+          <div className="context-menu-item" onClick={() => onAction('finalize', tokenId)}>
+            Finalize canvas
+          </div>
+        )}
       </div>
     );
   };
   
-  const TokenExplorer: React.FC<TokenExplorerProps> = ({ activeToken, onTokenSelect, tokenCount, tokenPreviews, contract }) => {
+  const TokenExplorer: React.FC<TokenExplorerProps> = ({ activeToken, onTokenSelect, tokenCount, tokenPreviews, contract, writeContract, account }) => {
     const [contextMenu, setContextMenu] = useState<{ x: number; y: number; tokenId: number } | null>(null);
     const [showAttributes, setShowAttributes] = useState<number | null>(null);
+    const [showShare, setShowShare] = useState<number | null>(null);
+    const [showFinalize, setShowFinalize] = useState<number | null>(null);
+    const [showTheme, setShowTheme] = useState<number | null>(null);
+    const [finalizedTokens, setFinalizedTokens] = useState<Set<number>>(new Set());
+  
+    useEffect(() => {
+      if (!contract || tokenCount === 0) return;
+      getFinalizedTokens(contract).then(({ tokenIds, result }) => {
+        if (result.success) setFinalizedTokens(tokenIds);
+      });
+    }, [contract, tokenCount]);
   
     const handleRightClick = (e: React.MouseEvent, tokenId: number) => {
       e.preventDefault();
@@ -113,6 +520,15 @@ interface TokenExplorerProps {
         case 'attributes':
           setShowAttributes(tokenId);
           break;
+        case 'share':
+          setShowShare(tokenId);
+          break;
+        case 'finalize':
+          setShowFinalize(tokenId);
+          break;
+        case 'theme':
+          setShowTheme(tokenId);
+          break;
       }
     };
   
@@ -166,6 +582,9 @@ interface TokenExplorerProps {
                       className="token-thumbnail"
                       onDoubleClick={() => handleIconClick(tokenId)}
                     >
+                      {finalizedTokens.has(tokenId) && (
+                        <span className="token-badge" title="Finalized">🔒</span>
+                      )}
                       {previewUrl ? (
                         <img
                           src={previewUrl}
@@ -196,6 +615,7 @@ interface TokenExplorerProps {
             x={contextMenu.x}
             y={contextMenu.y}
             tokenId={contextMenu.tokenId}
+            isFinalized={finalizedTokens.has(contextMenu.tokenId)}
             onClose={() => setContextMenu(null)}
             onAction={handleContextAction}
           />
@@ -204,9 +624,41 @@ interface TokenExplorerProps {
         {showAttributes !== null && (
           <AttributesPopup
             tokenId={showAttributes}
+            contract={contract}
             onClose={() => setShowAttributes(null)}
           />
         )}
+  
+        {showShare !== null && (
+          <ShareCanvasPopup
+            tokenId={showShare}
+            contract={contract}
+            writeContract={writeContract}
+            account={account}
+            onClose={() => setShowShare(null)}
+          />
+        )}
+  
+        {showTheme !== null && (
+          <ThemePopup
+            tokenId={showTheme}
+            contract={contract}
+            writeContract={writeContract}
+            account={account}
+            onClose={() => setShowTheme(null)}
+          />
+        )}
+  
+        {showFinalize !== null && (
+          <FinalizeCanvasPopup
+            tokenId={showFinalize}
+            contract={contract}
+            writeContract={writeContract}
+            account={account}
+            onClose={() => setShowFinalize(null)}
+            onFinalized={(tokenId) => setFinalizedTokens(prev => new Set(prev).add(tokenId))}
+          />
+        )}
       </>
     );
   };
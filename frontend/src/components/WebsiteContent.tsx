@@ -3,13 +3,17 @@ import './WebsiteContent.css';
 import { 
   connectToWallet, 
   mintToken,
+  presaleMintToken,
+  getMintAllowance,
+  getPresaleAllowance,
   switchNetwork,
   addNetwork,
   getCurrentNetwork,
   setupNetworkListeners,
   dappConfig,
   formatAddress,
-  type ContractData
+  type ContractData,
+  type PresaleAllowance
 } from '../utils/blockchain';
 import type { ColourMeNFT } from '../typechain-types/contracts/ColourMeNFT.sol/ColourMeNFT';
 
@@ -94,6 +98,8 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
   
   // Minting state
   const [mintQuantity, setMintQuantity] = useState<number>(1);
+  const [presaleAllowance, setPresaleAllowance] = useState<PresaleAllowance | null>(null);
+  const [mintRemaining, setMintRemaining] = useState<number | null>(null); // null = no wallet limit
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [errorMessage, setErrorMessage] = useState<string>('');
   
@@ -158,9 +164,9 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
       // Process CanvasMinted events
       for (const event of canvasMintedEvents) {
         if (event.args) {
-          const [, to, qty] = event.args;
+          const [firstTokenId, lastTokenId, to] = event.args;
           const formattedAddress = formatAddress(to.toString());
-          const quantity = Number(qty);
+          const quantity = Number(lastTokenId - firstTokenId) + 1;
           const message = `${formattedAddress} minted ${quantity} canvas${quantity > 1 ? 'es' : ''}`;
           
           // Estimate timestamp based on block number difference
@@ -221,11 +227,11 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
     loadRecentEvents(contractInstance);
 
     // CanvasMinted event listener
-    const canvasMintedListener = (tokenId: bigint, to: string, qty: bigint, event: any) => {
-      console.log('🎨 CanvasMinted event received:', { tokenId: tokenId.toString(), to, qty: qty.toString() });
+    const canvasMintedListener = (firstTokenId: bigint, lastTokenId: bigint, to: string, event: any) => {
+      console.log('🎨 CanvasMinted event received:', { firstTokenId: firstTokenId.toString(), lastTokenId: lastTokenId.toString(), to });
       
       const formattedAddress = formatAddress(to);
-      const quantity = Number(qty);
+      const quantity = Number(lastTokenId - firstTokenId) + 1;
       const message = `${formattedAddress} just minted ${quantity} canvas${quantity > 1 ? 'es' : ''}`;
       
       addEventMessage({
@@ -371,6 +377,24 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
     return cleanup || undefined;
   }, []);
 
+  // Public mints left under the wallet limit, refreshed with the contract data after each mint
+  useEffect(() => {
+    if (!contract || !account || !contractData?.walletLimit) {
+      setMintRemaining(null);
+      return;
+    }
+    getMintAllowance(contract, account).then(({ remaining }) => setMintRemaining(remaining));
+  }, [contract, account, contractData]);
+
+  // Look up the connected wallet's presale proof while a presale is set
+  useEffect(() => {
+    if (!contract || !account || !contractData?.hasPresale) {
+      setPresaleAllowance(null);
+      return;
+    }
+    getPresaleAllowance(contract, account).then(({ allowance }) => setPresaleAllowance(allowance));
+  }, [contract, account, contractData]);
+
   // Check for minting status changes every second to update UI immediately
   useEffect(() => {
     if (!contractData) return;
@@ -379,11 +403,16 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
       const now = new Date();
       const wasActive = contractData.isMintActive;
       const isNowActive = now >= contractData.mintOpen && now <= contractData.mintEnd && contractData.tokenCount < contractData.maxSupply;
+      const wasPresaleActive = contractData.isPresaleActive;
+      const isPresaleNowActive = contractData.hasPresale && now >= contractData.presaleOpen && now <= contractData.presaleEnd;
       
       // If minting just became active, refresh contract data
       if (!wasActive && isNowActive) {
         console.log('Minting just opened! Refreshing contract data...');
         onContractDataUpdate?.();
+      } else if (wasPresaleActive !== isPresaleNowActive) {
+        console.log(`Presale just ${isPresaleNowActive ? 'opened' : 'closed'}! Refreshing contract data...`);
+        onContractDataUpdate?.();
       }
     };
 
@@ -485,7 +514,10 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
       const result = await mintToken(writeContract, account, mintQuantity);
       
       if (result.success) {
-        showMessage(`Successfully minted ${mintQuantity} token${mintQuantity > 1 ? 's' : ''}!`);
+        // near max supply the contract may mint fewer than requested and refund the rest
+        const { firstTokenId, quantity } = result.data;
+        const refunded = quantity < mintQuantity ? ` (only ${quantity} left, the rest was refunded)` : '';
+        showMessage(`Successfully minted ${quantity} token${quantity > 1 ? 's' : ''}!${refunded}`);
         
         // Note: Event message will be automatically added by the CanvasMinted event listener
         
@@ -495,9 +527,8 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
         }
         
         // Set active token to the first newly minted token
-        if (onMintSuccess && contractData) {
-          const newTokenId = contractData.tokenCount + 1; // First new token
-          onMintSuccess(newTokenId);
+        if (onMintSuccess && firstTokenId) {
+          onMintSuccess(firstTokenId);
         }
       } else {
         showMessage(result.error || 'Minting failed', true);
@@ -509,6 +540,37 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
     }
   };
 
+  const handlePresaleMint = async () => {
+    if (!writeContract || !account) {
+      await handleConnectWallet();
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      showMessage(`Presale minting ${mintQuantity} token${mintQuantity > 1 ? 's' : ''} to ${formatAddress(account)}...`);
+      const result = await presaleMintToken(writeContract, account, mintQuantity);
+
+      if (result.success) {
+        const { firstTokenId, quantity } = result.data;
+        const refunded = quantity < mintQuantity ? ` (only ${quantity} left, the rest was refunded)` : '';
+        showMessage(`Successfully minted ${quantity} token${quantity > 1 ? 's' : ''} in the presale!${refunded}`);
+        setMintQuantity(1);
+        onContractDataUpdate?.();
+
+        if (onMintSuccess && firstTokenId) {
+          onMintSuccess(firstTokenId);
+        }
+      } else {
+        showMessage(result.error || 'Presale mint failed', true);
+      }
+    } catch (error) {
+      showMessage(`Presale mint failed: ${error}`, true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const getButtonState = () => {
     if (isLoading) {
       return {
@@ -604,6 +666,20 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
     }
   };
 
+  const renderPresaleStatus = () => {
+    if (!contractData?.hasPresale) return null;
+
+    const now = new Date();
+    if (now < contractData.presaleOpen) {
+      return <CountdownTimer targetDate={contractData.presaleOpen} prefix="Presale In:" />;
+    } else if (contractData.isPresaleActive) {
+      return <CountdownTimer targetDate={contractData.presaleEnd} prefix="Presale Ends:" />;
+    }
+    return 'Presale Closed';
+  };
+
+  const presaleRemaining = presaleAllowance ? presaleAllowance.allocation - presaleAllowance.minted : 0;
+
   return (
     <div className="website-content">
       <div className="website-layout">
@@ -619,7 +695,7 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
           <div className="section">
             <h3>Collection Details</h3>
             
-            <p><strong>Status:</strong> {contractData?.isMintActive ? 'Open' : 'Closed'}</p>
+            <p><strong>Status:</strong> {contractData?.isMintActive ? 'Open' : contractData?.isPresaleActive ? 'Presale' : 'Closed'}</p>
             
             <p>{renderMintingStatus()}</p>
             
@@ -635,6 +711,13 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
             </div>
             
             <p><strong>Price:</strong> {contractData?.mintPrice}</p>
+
+            {contractData?.hasPresale && (
+              <>
+                <p>{renderPresaleStatus()}</p>
+                <p><strong>Presale Price:</strong> {contractData.presalePrice}</p>
+              </>
+            )}
           </div>
 
           {/* Login/Mint Section */}
@@ -653,14 +736,18 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
                   <p style={{ color: 'red' }}>Wrong Network</p>
                 )}
                 
-                {contractData?.isMintActive && isOnCorrectNetwork() && buttonState.className === 'mint' && (
+                {contractData?.isMintActive && mintRemaining !== null && (
+                  <p>{mintRemaining > 0 ? `You can still mint ${mintRemaining}` : 'You have reached the mint limit for this wallet'}</p>
+                )}
+                
+                {contractData?.isMintActive && isOnCorrectNetwork() && buttonState.className === 'mint' && mintRemaining !== 0 && (
                   <p>
                     Qty: <input 
                       type="number" 
                       min="1" 
-                      max="10" 
+                      max={Math.min(10, mintRemaining ?? 10)} 
                       value={mintQuantity}
-                      onChange={(e) => setMintQuantity(Math.max(1, Math.min(10, parseInt(e.target.value) || 1)))}
+                      onChange={(e) => setMintQuantity(Math.max(1, Math.min(10, mintRemaining ?? 10, parseInt(e.target.value) || 1)))}
                       style={{ width: '50px', marginLeft: '5px', marginRight: '10px' }}
                     />
                     <button onClick={handleMint} className="simple-button">
@@ -669,6 +756,31 @@ const WebsiteContent: React.FC<WebsiteContentProps> = ({
                   </p>
                 )}
                 
+                {contractData?.isPresaleActive && isOnCorrectNetwork() && (
+                  presaleAllowance ? (
+                    presaleRemaining > 0 ? (
+                      <p>
+                        Presale: {presaleRemaining} of {presaleAllowance.allocation} left<br />
+                        Qty: <input 
+                          type="number" 
+                          min="1" 
+                          max={presaleRemaining} 
+                          value={mintQuantity}
+                          onChange={(e) => setMintQuantity(Math.max(1, Math.min(presaleRemaining, parseInt(e.target.value) || 1)))}
+                          style={{ width: '50px', marginLeft: '5px', marginRight: '10px' }}
+                        />
+                        <button onClick={handlePresaleMint} className="simple-button" disabled={isLoading}>
+                          Presale Mint
+                        </button>
+                      </p>
+                    ) : (
+                      <p>You have used your full presale allocation</p>
+                    )
+                  ) : (
+                    <p>This wallet is not on the presale list</p>
+                  )
+                )}
+                
                 {buttonState.className !== 'mint' && contractData?.isMintActive && (
                   <button onClick={buttonState.action} className="simple-button">
                     {buttonState.text}
@@ -23,6 +23,48 @@ import type {
   TypedContractMethod,
 } from "../../common";
 
+export type CanvasRectStruct = {
+  x: BigNumberish;
+  y: BigNumberish;
+  width: BigNumberish;
+  height: BigNumberish;
+};
+
+export type CanvasRectStructOutput = [
+  x: bigint,
+  y: bigint,
+  width: bigint,
+  height: bigint
+] & { x: bigint; y: bigint; width: bigint; height: bigint };
+
+export type MintConfigStruct = {
+  price: BigNumberish;
+  limit: BigNumberish;
+  walletLimit: BigNumberish;
+  start: BigNumberish;
+  duration: BigNumberish;
+  maxSupply: BigNumberish;
+  tokenCount: BigNumberish;
+};
+
+export type MintConfigStructOutput = [
+  price: bigint,
+  limit: bigint,
+  walletLimit: bigint,
+  start: bigint,
+  duration: bigint,
+  maxSupply: bigint,
+  tokenCount: bigint
+] & {
+  price: bigint;
+  limit: bigint;
+  walletLimit: bigint;
+  start: bigint;
+  duration: bigint;
+  maxSupply: bigint;
+  tokenCount: bigint;
+};
+
 export type ObjectStruct = { base: BigNumberish; additionalPoints: BytesLike };
 
 export type ObjectStructOutput = [base: bigint, additionalPoints: string] & {
@@ -36,44 +78,105 @@ export interface ColourMeNFTInterface extends Interface {
       | "appendArt"
       | "approve"
       | "art"
+      | "artLength"
+      | "artVersionCount"
       | "balanceOf"
+      | "canvas"
+      | "collaborators"
+      | "finalizeArt"
+      | "finalizedAt"
       | "getApproved"
+      | "getArt"
+      | "getMintConfig"
+      | "getPayees"
       | "getProjectInfo"
       | "isApprovedForAll"
+      | "isCollaborator"
+      | "lastEditor"
       | "maxSupply"
       | "mint"
+      | "mintedBy"
       | "name"
       | "owner"
       | "ownerOf"
+      | "presaleDuration"
+      | "presaleMint"
+      | "presaleMinted"
+      | "presalePrice"
+      | "presaleRoot"
+      | "presaleStart"
+      | "releasable"
+      | "release"
+      | "removeArt"
+      | "renderObjectsRange"
+      | "renderer"
       | "renounceOwnership"
+      | "revealBlock"
+      | "revealTraits"
       | "royaltyInfo"
       | "safeTransferFrom(address,address,uint256)"
       | "safeTransferFrom(address,address,uint256,bytes)"
       | "setApprovalForAll"
       | "setArt"
-      | "setArtistRoyalty"
+      | "setBaseURL"
+      | "setCanvas"
+      | "setCollaborator"
       | "setDefaultRoyalty"
+      | "setMintDuration"
+      | "setMintLimit"
+      | "setMintPrice"
+      | "setMintStart"
+      | "setPayees"
+      | "setPresale"
+      | "setRenderer"
       | "setSVG"
+      | "setTheme"
+      | "setTokenTheme"
+      | "setWalletLimit"
       | "supportsInterface"
       | "svgEnd"
       | "svgStart"
       | "symbol"
+      | "themeCount"
+      | "themes"
+      | "tokenArtSVG"
       | "tokenCount"
       | "tokenSVG"
+      | "tokenSVGAnimated"
+      | "tokenSVGAtVersion"
+      | "tokenTheme"
       | "tokenURI"
       | "traitSVG"
       | "traits"
       | "transferFrom"
       | "transferOwnership"
+      | "truncateArt"
+      | "withdraw"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
       | "Approval"
       | "ApprovalForAll"
+      | "ArtFinalized"
+      | "ArtRemoved"
       | "ArtSaved"
+      | "ArtTruncated"
+      | "BaseURLUpdated"
+      | "BatchMetadataUpdate"
       | "CanvasMinted"
+      | "CanvasUpdated"
+      | "CollaboratorSet"
+      | "MetadataUpdate"
+      | "MintConfigUpdated"
       | "OwnershipTransferred"
+      | "PayeesUpdated"
+      | "PaymentReleased"
+      | "PresaleUpdated"
+      | "RendererUpdated"
+      | "ThemeUpdated"
+      | "TokenThemeSet"
+      | "TraitsRevealed"
       | "Transfer"
   ): EventFragment;
 
@@ -89,14 +192,44 @@ export interface ColourMeNFTInterface extends Interface {
     functionFragment: "art",
     values: [BigNumberish, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "artLength",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "artVersionCount",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "balanceOf",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(functionFragment: "canvas", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "collaborators",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeArt",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizedAt",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getApproved",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getArt",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMintConfig",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "getPayees", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "getProjectInfo",
     values?: undefined
@@ -105,21 +238,82 @@ export interface ColourMeNFTInterface extends Interface {
     functionFragment: "isApprovedForAll",
     values: [AddressLike, AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "isCollaborator",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "lastEditor",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(functionFragment: "maxSupply", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "mint",
     values: [AddressLike, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "mintedBy",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(functionFragment: "name", values?: undefined): string;
   encodeFunctionData(functionFragment: "owner", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "ownerOf",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "presaleDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "presaleMint",
+    values: [AddressLike, BigNumberish, BigNumberish, BytesLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "presaleMinted",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "presalePrice",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "presaleRoot",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "presaleStart",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releasable",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "release",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removeArt",
+    values: [BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renderObjectsRange",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "renderer", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "renounceOwnership",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "revealBlock",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revealTraits",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "royaltyInfo",
     values: [BigNumberish, BigNumberish]
@@ -140,18 +334,63 @@ export interface ColourMeNFTInterface extends Interface {
     functionFragment: "setArt",
     values: [BigNumberish, ObjectStruct[]]
   ): string;
+  encodeFunctionData(functionFragment: "setBaseURL", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "setCanvas",
+    values: [CanvasRectStruct]
+  ): string;
   encodeFunctionData(
-    functionFragment: "setArtistRoyalty",
-    values: [BigNumberish, AddressLike, BigNumberish]
+    functionFragment: "setCollaborator",
+    values: [BigNumberish, AddressLike, BigNumberish, BigNumberish]
   ): string;
   encodeFunctionData(
     functionFragment: "setDefaultRoyalty",
     values: [AddressLike, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setMintDuration",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMintLimit",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMintPrice",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMintStart",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPayees",
+    values: [AddressLike[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPresale",
+    values: [BytesLike, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRenderer",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "setSVG",
     values: [BytesLike, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setTheme",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTokenTheme",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setWalletLimit",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "supportsInterface",
     values: [BytesLike]
@@ -159,6 +398,18 @@ export interface ColourMeNFTInterface extends Interface {
   encodeFunctionData(functionFragment: "svgEnd", values?: undefined): string;
   encodeFunctionData(functionFragment: "svgStart", values?: undefined): string;
   encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "themeCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "themes",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenArtSVG",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "tokenCount",
     values?: undefined
@@ -167,6 +418,18 @@ export interface ColourMeNFTInterface extends Interface {
     functionFragment: "tokenSVG",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "tokenSVGAnimated",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenSVGAtVersion",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenTheme",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "tokenURI",
     values: [BigNumberish]
@@ -187,15 +450,44 @@ export interface ColourMeNFTInterface extends Interface {
     functionFragment: "transferOwnership",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "truncateArt",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "withdraw", values?: undefined): string;
 
   decodeFunctionResult(functionFragment: "appendArt", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "art", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "artLength", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "artVersionCount",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "canvas", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "collaborators",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeArt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizedAt",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getApproved",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "getArt", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getMintConfig",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getPayees", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "getProjectInfo",
     data: BytesLike
@@ -204,15 +496,61 @@ export interface ColourMeNFTInterface extends Interface {
     functionFragment: "isApprovedForAll",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "isCollaborator",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "lastEditor", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "maxSupply", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "mint", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "mintedBy", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "presaleDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "presaleMint",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "presaleMinted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "presalePrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "presaleRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "presaleStart",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "releasable", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "release", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "removeArt", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "renderObjectsRange",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "renderer", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "renounceOwnership",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealBlock",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revealTraits",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "royaltyInfo",
     data: BytesLike
@@ -230,15 +568,48 @@ export interface ColourMeNFTInterface extends Interface {
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "setArt", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setBaseURL", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setCanvas", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "setArtistRoyalty",
+    functionFragment: "setCollaborator",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
     functionFragment: "setDefaultRoyalty",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMintDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMintLimit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMintPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMintStart",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setPayees", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setPresale", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setRenderer",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "setSVG", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setTheme", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setTokenTheme",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setWalletLimit",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "supportsInterface",
     data: BytesLike
@@ -246,8 +617,23 @@ export interface ColourMeNFTInterface extends Interface {
   decodeFunctionResult(functionFragment: "svgEnd", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "svgStart", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "themeCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "themes", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenArtSVG",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "tokenCount", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "tokenSVG", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenSVGAnimated",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenSVGAtVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "tokenTheme", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "tokenURI", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "traitSVG", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "traits", data: BytesLike): Result;
@@ -259,6 +645,11 @@ export interface ColourMeNFTInterface extends Interface {
     functionFragment: "transferOwnership",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "truncateArt",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
 }
 
 export namespace ApprovalEvent {
@@ -301,6 +692,50 @@ export namespace ApprovalForAllEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace ArtFinalizedEvent {
+  export type InputTuple = [
+    tokenId: BigNumberish,
+    artist: AddressLike,
+    blockNumber: BigNumberish
+  ];
+  export type OutputTuple = [
+    tokenId: bigint,
+    artist: string,
+    blockNumber: bigint
+  ];
+  export interface OutputObject {
+    tokenId: bigint;
+    artist: string;
+    blockNumber: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ArtRemovedEvent {
+  export type InputTuple = [
+    tokenId: BigNumberish,
+    artist: AddressLike,
+    indices: BigNumberish[]
+  ];
+  export type OutputTuple = [
+    tokenId: bigint,
+    artist: string,
+    indices: bigint[]
+  ];
+  export interface OutputObject {
+    tokenId: bigint;
+    artist: string;
+    indices: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace ArtSavedEvent {
   export type InputTuple = [tokenId: BigNumberish, artist: AddressLike];
   export type OutputTuple = [tokenId: bigint, artist: string];
@@ -314,17 +749,132 @@ export namespace ArtSavedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace CanvasMintedEvent {
+export namespace ArtTruncatedEvent {
   export type InputTuple = [
     tokenId: BigNumberish,
-    to: AddressLike,
-    qty: BigNumberish
+    artist: AddressLike,
+    newLength: BigNumberish
+  ];
+  export type OutputTuple = [
+    tokenId: bigint,
+    artist: string,
+    newLength: bigint
   ];
-  export type OutputTuple = [tokenId: bigint, to: string, qty: bigint];
   export interface OutputObject {
     tokenId: bigint;
+    artist: string;
+    newLength: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BaseURLUpdatedEvent {
+  export type InputTuple = [baseURL: string];
+  export type OutputTuple = [baseURL: string];
+  export interface OutputObject {
+    baseURL: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BatchMetadataUpdateEvent {
+  export type InputTuple = [
+    _fromTokenId: BigNumberish,
+    _toTokenId: BigNumberish
+  ];
+  export type OutputTuple = [_fromTokenId: bigint, _toTokenId: bigint];
+  export interface OutputObject {
+    _fromTokenId: bigint;
+    _toTokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CanvasMintedEvent {
+  export type InputTuple = [
+    firstTokenId: BigNumberish,
+    lastTokenId: BigNumberish,
+    to: AddressLike
+  ];
+  export type OutputTuple = [
+    firstTokenId: bigint,
+    lastTokenId: bigint,
+    to: string
+  ];
+  export interface OutputObject {
+    firstTokenId: bigint;
+    lastTokenId: bigint;
     to: string;
-    qty: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CanvasUpdatedEvent {
+  export type InputTuple = [canvas: CanvasRectStruct];
+  export type OutputTuple = [canvas: CanvasRectStructOutput];
+  export interface OutputObject {
+    canvas: CanvasRectStructOutput;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CollaboratorSetEvent {
+  export type InputTuple = [
+    tokenId: BigNumberish,
+    collaborator: AddressLike,
+    expiry: BigNumberish,
+    maxObjects: BigNumberish
+  ];
+  export type OutputTuple = [
+    tokenId: bigint,
+    collaborator: string,
+    expiry: bigint,
+    maxObjects: bigint
+  ];
+  export interface OutputObject {
+    tokenId: bigint;
+    collaborator: string;
+    expiry: bigint;
+    maxObjects: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MetadataUpdateEvent {
+  export type InputTuple = [_tokenId: BigNumberish];
+  export type OutputTuple = [_tokenId: bigint];
+  export interface OutputObject {
+    _tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MintConfigUpdatedEvent {
+  export type InputTuple = [config: MintConfigStruct];
+  export type OutputTuple = [config: MintConfigStructOutput];
+  export interface OutputObject {
+    config: MintConfigStructOutput;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -345,6 +895,107 @@ export namespace OwnershipTransferredEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace PayeesUpdatedEvent {
+  export type InputTuple = [payees: AddressLike[], shares: BigNumberish[]];
+  export type OutputTuple = [payees: string[], shares: bigint[]];
+  export interface OutputObject {
+    payees: string[];
+    shares: bigint[];
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PaymentReleasedEvent {
+  export type InputTuple = [payee: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [payee: string, amount: bigint];
+  export interface OutputObject {
+    payee: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PresaleUpdatedEvent {
+  export type InputTuple = [
+    root: BytesLike,
+    price: BigNumberish,
+    start: BigNumberish,
+    duration: BigNumberish
+  ];
+  export type OutputTuple = [
+    root: string,
+    price: bigint,
+    start: bigint,
+    duration: bigint
+  ];
+  export interface OutputObject {
+    root: string;
+    price: bigint;
+    start: bigint;
+    duration: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RendererUpdatedEvent {
+  export type InputTuple = [renderer: AddressLike];
+  export type OutputTuple = [renderer: string];
+  export interface OutputObject {
+    renderer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ThemeUpdatedEvent {
+  export type InputTuple = [themeId: BigNumberish, renderer: AddressLike];
+  export type OutputTuple = [themeId: bigint, renderer: string];
+  export interface OutputObject {
+    themeId: bigint;
+    renderer: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TokenThemeSetEvent {
+  export type InputTuple = [tokenId: BigNumberish, themeId: BigNumberish];
+  export type OutputTuple = [tokenId: bigint, themeId: bigint];
+  export interface OutputObject {
+    tokenId: bigint;
+    themeId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TraitsRevealedEvent {
+  export type InputTuple = [tokenId: BigNumberish];
+  export type OutputTuple = [tokenId: bigint];
+  export interface OutputObject {
+    tokenId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace TransferEvent {
   export type InputTuple = [
     from: AddressLike,
@@ -419,15 +1070,63 @@ export interface ColourMeNFT extends BaseContract {
   >;
 
   art: TypedContractMethod<
-    [arg0: BigNumberish, arg1: BigNumberish],
+    [tokenId: BigNumberish, index: BigNumberish],
     [[bigint, string] & { base: bigint; additionalPoints: string }],
     "view"
   >;
 
+  artLength: TypedContractMethod<[tokenId: BigNumberish], [bigint], "view">;
+
+  artVersionCount: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
   balanceOf: TypedContractMethod<[owner: AddressLike], [bigint], "view">;
 
+  canvas: TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        x: bigint;
+        y: bigint;
+        width: bigint;
+        height: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  collaborators: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [string, bigint, bigint, bigint] & {
+        grantor: string;
+        expiry: bigint;
+        maxObjects: bigint;
+        objectsAdded: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  finalizeArt: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  finalizedAt: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
   getApproved: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
 
+  getArt: TypedContractMethod<
+    [tokenId: BigNumberish, start: BigNumberish, count: BigNumberish],
+    [ObjectStructOutput[]],
+    "view"
+  >;
+
+  getMintConfig: TypedContractMethod<[], [MintConfigStructOutput], "view">;
+
+  getPayees: TypedContractMethod<[], [[string[], bigint[]]], "view">;
+
   getProjectInfo: TypedContractMethod<
     [],
     [[string, string, string, bigint, bigint, bigint, bigint, bigint, bigint]],
@@ -440,6 +1139,14 @@ export interface ColourMeNFT extends BaseContract {
     "view"
   >;
 
+  isCollaborator: TypedContractMethod<
+    [tokenId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  lastEditor: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
   maxSupply: TypedContractMethod<[], [bigint], "view">;
 
   mint: TypedContractMethod<
@@ -448,63 +1155,190 @@ export interface ColourMeNFT extends BaseContract {
     "payable"
   >;
 
+  mintedBy: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
   name: TypedContractMethod<[], [string], "view">;
 
   owner: TypedContractMethod<[], [string], "view">;
 
   ownerOf: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
 
+  presaleDuration: TypedContractMethod<[], [bigint], "view">;
+
+  presaleMint: TypedContractMethod<
+    [
+      to: AddressLike,
+      qty: BigNumberish,
+      allocation: BigNumberish,
+      proof: BytesLike[]
+    ],
+    [void],
+    "payable"
+  >;
+
+  presaleMinted: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  presalePrice: TypedContractMethod<[], [bigint], "view">;
+
+  presaleRoot: TypedContractMethod<[], [string], "view">;
+
+  presaleStart: TypedContractMethod<[], [bigint], "view">;
+
+  releasable: TypedContractMethod<[payee: AddressLike], [bigint], "view">;
+
+  release: TypedContractMethod<[payee: AddressLike], [void], "nonpayable">;
+
+  removeArt: TypedContractMethod<
+    [tokenId: BigNumberish, indices: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  renderObjectsRange: TypedContractMethod<
+    [tokenId: BigNumberish, start: BigNumberish, count: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  renderer: TypedContractMethod<[], [string], "view">;
+
   renounceOwnership: TypedContractMethod<[], [void], "nonpayable">;
 
-  royaltyInfo: TypedContractMethod<
-    [tokenId: BigNumberish, salePrice: BigNumberish],
-    [[string, bigint] & { receiver: string; amount: bigint }],
-    "view"
+  revealBlock: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  revealTraits: TypedContractMethod<
+    [tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  royaltyInfo: TypedContractMethod<
+    [tokenId: BigNumberish, salePrice: BigNumberish],
+    [[string, bigint] & { receiver: string; amount: bigint }],
+    "view"
+  >;
+
+  "safeTransferFrom(address,address,uint256)": TypedContractMethod<
+    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  "safeTransferFrom(address,address,uint256,bytes)": TypedContractMethod<
+    [
+      from: AddressLike,
+      to: AddressLike,
+      tokenId: BigNumberish,
+      data: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setApprovalForAll: TypedContractMethod<
+    [operator: AddressLike, approved: boolean],
+    [void],
+    "nonpayable"
+  >;
+
+  setArt: TypedContractMethod<
+    [tokenId: BigNumberish, _art: ObjectStruct[]],
+    [void],
+    "nonpayable"
+  >;
+
+  setBaseURL: TypedContractMethod<[_baseURL: string], [void], "nonpayable">;
+
+  setCanvas: TypedContractMethod<
+    [_canvas: CanvasRectStruct],
+    [void],
+    "nonpayable"
+  >;
+
+  setCollaborator: TypedContractMethod<
+    [
+      tokenId: BigNumberish,
+      collaborator: AddressLike,
+      expiry: BigNumberish,
+      maxObjects: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setDefaultRoyalty: TypedContractMethod<
+    [receiver: AddressLike, feeNumerator: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMintDuration: TypedContractMethod<
+    [_mintDuration: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMintLimit: TypedContractMethod<
+    [_mintLimit: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMintPrice: TypedContractMethod<
+    [_mintPrice: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setMintStart: TypedContractMethod<
+    [_mintStart: BigNumberish],
+    [void],
+    "nonpayable"
   >;
 
-  "safeTransferFrom(address,address,uint256)": TypedContractMethod<
-    [from: AddressLike, to: AddressLike, tokenId: BigNumberish],
+  setPayees: TypedContractMethod<
+    [_payees: AddressLike[], _shares: BigNumberish[]],
     [void],
     "nonpayable"
   >;
 
-  "safeTransferFrom(address,address,uint256,bytes)": TypedContractMethod<
+  setPresale: TypedContractMethod<
     [
-      from: AddressLike,
-      to: AddressLike,
-      tokenId: BigNumberish,
-      data: BytesLike
+      root: BytesLike,
+      price: BigNumberish,
+      start: BigNumberish,
+      duration: BigNumberish
     ],
     [void],
     "nonpayable"
   >;
 
-  setApprovalForAll: TypedContractMethod<
-    [operator: AddressLike, approved: boolean],
+  setRenderer: TypedContractMethod<
+    [_renderer: AddressLike],
     [void],
     "nonpayable"
   >;
 
-  setArt: TypedContractMethod<
-    [tokenId: BigNumberish, _art: ObjectStruct[]],
+  setSVG: TypedContractMethod<
+    [_svgStart: BytesLike, _svgEnd: BytesLike],
     [void],
     "nonpayable"
   >;
 
-  setArtistRoyalty: TypedContractMethod<
-    [tokenId: BigNumberish, receiver: AddressLike, feeNumerator: BigNumberish],
+  setTheme: TypedContractMethod<
+    [themeId: BigNumberish, _renderer: AddressLike],
     [void],
     "nonpayable"
   >;
 
-  setDefaultRoyalty: TypedContractMethod<
-    [receiver: AddressLike, feeNumerator: BigNumberish],
+  setTokenTheme: TypedContractMethod<
+    [tokenId: BigNumberish, themeId: BigNumberish],
     [void],
     "nonpayable"
   >;
 
-  setSVG: TypedContractMethod<
-    [_svgStart: BytesLike, _svgEnd: BytesLike],
+  setWalletLimit: TypedContractMethod<
+    [_walletLimit: BigNumberish],
     [void],
     "nonpayable"
   >;
@@ -521,13 +1355,33 @@ export interface ColourMeNFT extends BaseContract {
 
   symbol: TypedContractMethod<[], [string], "view">;
 
+  themeCount: TypedContractMethod<[], [bigint], "view">;
+
+  themes: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  tokenArtSVG: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
   tokenCount: TypedContractMethod<[], [bigint], "view">;
 
   tokenSVG: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
 
+  tokenSVGAnimated: TypedContractMethod<
+    [tokenId: BigNumberish, msPerObject: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  tokenSVGAtVersion: TypedContractMethod<
+    [tokenId: BigNumberish, version: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  tokenTheme: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
   tokenURI: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
 
-  traitSVG: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  traitSVG: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
 
   traits: TypedContractMethod<
     [arg0: BigNumberish],
@@ -558,6 +1412,14 @@ export interface ColourMeNFT extends BaseContract {
     "nonpayable"
   >;
 
+  truncateArt: TypedContractMethod<
+    [tokenId: BigNumberish, newLength: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  withdraw: TypedContractMethod<[], [void], "nonpayable">;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
@@ -579,16 +1441,69 @@ export interface ColourMeNFT extends BaseContract {
   getFunction(
     nameOrSignature: "art"
   ): TypedContractMethod<
-    [arg0: BigNumberish, arg1: BigNumberish],
+    [tokenId: BigNumberish, index: BigNumberish],
     [[bigint, string] & { base: bigint; additionalPoints: string }],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "artLength"
+  ): TypedContractMethod<[tokenId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "artVersionCount"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
   getFunction(
     nameOrSignature: "balanceOf"
   ): TypedContractMethod<[owner: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "canvas"
+  ): TypedContractMethod<
+    [],
+    [
+      [bigint, bigint, bigint, bigint] & {
+        x: bigint;
+        y: bigint;
+        width: bigint;
+        height: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "collaborators"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [
+      [string, bigint, bigint, bigint] & {
+        grantor: string;
+        expiry: bigint;
+        maxObjects: bigint;
+        objectsAdded: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "finalizeArt"
+  ): TypedContractMethod<[tokenId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "finalizedAt"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
   getFunction(
     nameOrSignature: "getApproved"
   ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "getArt"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, start: BigNumberish, count: BigNumberish],
+    [ObjectStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getMintConfig"
+  ): TypedContractMethod<[], [MintConfigStructOutput], "view">;
+  getFunction(
+    nameOrSignature: "getPayees"
+  ): TypedContractMethod<[], [[string[], bigint[]]], "view">;
   getFunction(
     nameOrSignature: "getProjectInfo"
   ): TypedContractMethod<
@@ -603,6 +1518,16 @@ export interface ColourMeNFT extends BaseContract {
     [boolean],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "isCollaborator"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "lastEditor"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
   getFunction(
     nameOrSignature: "maxSupply"
   ): TypedContractMethod<[], [bigint], "view">;
@@ -613,6 +1538,9 @@ export interface ColourMeNFT extends BaseContract {
     [void],
     "payable"
   >;
+  getFunction(
+    nameOrSignature: "mintedBy"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
   getFunction(
     nameOrSignature: "name"
   ): TypedContractMethod<[], [string], "view">;
@@ -622,9 +1550,65 @@ export interface ColourMeNFT extends BaseContract {
   getFunction(
     nameOrSignature: "ownerOf"
   ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "presaleDuration"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "presaleMint"
+  ): TypedContractMethod<
+    [
+      to: AddressLike,
+      qty: BigNumberish,
+      allocation: BigNumberish,
+      proof: BytesLike[]
+    ],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "presaleMinted"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "presalePrice"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "presaleRoot"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "presaleStart"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "releasable"
+  ): TypedContractMethod<[payee: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "release"
+  ): TypedContractMethod<[payee: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "removeArt"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, indices: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "renderObjectsRange"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, start: BigNumberish, count: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "renderer"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "renounceOwnership"
   ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "revealBlock"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "revealTraits"
+  ): TypedContractMethod<[tokenId: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "royaltyInfo"
   ): TypedContractMethod<
@@ -666,9 +1650,20 @@ export interface ColourMeNFT extends BaseContract {
     "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "setArtistRoyalty"
+    nameOrSignature: "setBaseURL"
+  ): TypedContractMethod<[_baseURL: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCanvas"
+  ): TypedContractMethod<[_canvas: CanvasRectStruct], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setCollaborator"
   ): TypedContractMethod<
-    [tokenId: BigNumberish, receiver: AddressLike, feeNumerator: BigNumberish],
+    [
+      tokenId: BigNumberish,
+      collaborator: AddressLike,
+      expiry: BigNumberish,
+      maxObjects: BigNumberish
+    ],
     [void],
     "nonpayable"
   >;
@@ -679,6 +1674,40 @@ export interface ColourMeNFT extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "setMintDuration"
+  ): TypedContractMethod<[_mintDuration: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMintLimit"
+  ): TypedContractMethod<[_mintLimit: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMintPrice"
+  ): TypedContractMethod<[_mintPrice: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMintStart"
+  ): TypedContractMethod<[_mintStart: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPayees"
+  ): TypedContractMethod<
+    [_payees: AddressLike[], _shares: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPresale"
+  ): TypedContractMethod<
+    [
+      root: BytesLike,
+      price: BigNumberish,
+      start: BigNumberish,
+      duration: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setRenderer"
+  ): TypedContractMethod<[_renderer: AddressLike], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "setSVG"
   ): TypedContractMethod<
@@ -686,6 +1715,23 @@ export interface ColourMeNFT extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "setTheme"
+  ): TypedContractMethod<
+    [themeId: BigNumberish, _renderer: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTokenTheme"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, themeId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setWalletLimit"
+  ): TypedContractMethod<[_walletLimit: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "supportsInterface"
   ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
@@ -698,18 +1744,44 @@ export interface ColourMeNFT extends BaseContract {
   getFunction(
     nameOrSignature: "symbol"
   ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "themeCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "themes"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "tokenArtSVG"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
   getFunction(
     nameOrSignature: "tokenCount"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "tokenSVG"
   ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "tokenSVGAnimated"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, msPerObject: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "tokenSVGAtVersion"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, version: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "tokenTheme"
+  ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
   getFunction(
     nameOrSignature: "tokenURI"
   ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
   getFunction(
     nameOrSignature: "traitSVG"
-  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
   getFunction(
     nameOrSignature: "traits"
   ): TypedContractMethod<
@@ -738,6 +1810,16 @@ export interface ColourMeNFT extends BaseContract {
   getFunction(
     nameOrSignature: "transferOwnership"
   ): TypedContractMethod<[newOwner: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "truncateArt"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, newLength: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "withdraw"
+  ): TypedContractMethod<[], [void], "nonpayable">;
 
   getEvent(
     key: "Approval"
@@ -753,6 +1835,20 @@ export interface ColourMeNFT extends BaseContract {
     ApprovalForAllEvent.OutputTuple,
     ApprovalForAllEvent.OutputObject
   >;
+  getEvent(
+    key: "ArtFinalized"
+  ): TypedContractEvent<
+    ArtFinalizedEvent.InputTuple,
+    ArtFinalizedEvent.OutputTuple,
+    ArtFinalizedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ArtRemoved"
+  ): TypedContractEvent<
+    ArtRemovedEvent.InputTuple,
+    ArtRemovedEvent.OutputTuple,
+    ArtRemovedEvent.OutputObject
+  >;
   getEvent(
     key: "ArtSaved"
   ): TypedContractEvent<
@@ -760,6 +1856,27 @@ export interface ColourMeNFT extends BaseContract {
     ArtSavedEvent.OutputTuple,
     ArtSavedEvent.OutputObject
   >;
+  getEvent(
+    key: "ArtTruncated"
+  ): TypedContractEvent<
+    ArtTruncatedEvent.InputTuple,
+    ArtTruncatedEvent.OutputTuple,
+    ArtTruncatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BaseURLUpdated"
+  ): TypedContractEvent<
+    BaseURLUpdatedEvent.InputTuple,
+    BaseURLUpdatedEvent.OutputTuple,
+    BaseURLUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BatchMetadataUpdate"
+  ): TypedContractEvent<
+    BatchMetadataUpdateEvent.InputTuple,
+    BatchMetadataUpdateEvent.OutputTuple,
+    BatchMetadataUpdateEvent.OutputObject
+  >;
   getEvent(
     key: "CanvasMinted"
   ): TypedContractEvent<
@@ -767,6 +1884,34 @@ export interface ColourMeNFT extends BaseContract {
     CanvasMintedEvent.OutputTuple,
     CanvasMintedEvent.OutputObject
   >;
+  getEvent(
+    key: "CanvasUpdated"
+  ): TypedContractEvent<
+    CanvasUpdatedEvent.InputTuple,
+    CanvasUpdatedEvent.OutputTuple,
+    CanvasUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CollaboratorSet"
+  ): TypedContractEvent<
+    CollaboratorSetEvent.InputTuple,
+    CollaboratorSetEvent.OutputTuple,
+    CollaboratorSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "MetadataUpdate"
+  ): TypedContractEvent<
+    MetadataUpdateEvent.InputTuple,
+    MetadataUpdateEvent.OutputTuple,
+    MetadataUpdateEvent.OutputObject
+  >;
+  getEvent(
+    key: "MintConfigUpdated"
+  ): TypedContractEvent<
+    MintConfigUpdatedEvent.InputTuple,
+    MintConfigUpdatedEvent.OutputTuple,
+    MintConfigUpdatedEvent.OutputObject
+  >;
   getEvent(
     key: "OwnershipTransferred"
   ): TypedContractEvent<
@@ -774,6 +1919,55 @@ export interface ColourMeNFT extends BaseContract {
     OwnershipTransferredEvent.OutputTuple,
     OwnershipTransferredEvent.OutputObject
   >;
+  getEvent(
+    key: "PayeesUpdated"
+  ): TypedContractEvent<
+    PayeesUpdatedEvent.InputTuple,
+    PayeesUpdatedEvent.OutputTuple,
+    PayeesUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PaymentReleased"
+  ): TypedContractEvent<
+    PaymentReleasedEvent.InputTuple,
+    PaymentReleasedEvent.OutputTuple,
+    PaymentReleasedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PresaleUpdated"
+  ): TypedContractEvent<
+    PresaleUpdatedEvent.InputTuple,
+    PresaleUpdatedEvent.OutputTuple,
+    PresaleUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RendererUpdated"
+  ): TypedContractEvent<
+    RendererUpdatedEvent.InputTuple,
+    RendererUpdatedEvent.OutputTuple,
+    RendererUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ThemeUpdated"
+  ): TypedContractEvent<
+    ThemeUpdatedEvent.InputTuple,
+    ThemeUpdatedEvent.OutputTuple,
+    ThemeUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TokenThemeSet"
+  ): TypedContractEvent<
+    TokenThemeSetEvent.InputTuple,
+    TokenThemeSetEvent.OutputTuple,
+    TokenThemeSetEvent.OutputObject
+  >;
+  getEvent(
+    key: "TraitsRevealed"
+  ): TypedContractEvent<
+    TraitsRevealedEvent.InputTuple,
+    TraitsRevealedEvent.OutputTuple,
+    TraitsRevealedEvent.OutputObject
+  >;
   getEvent(
     key: "Transfer"
   ): TypedContractEvent<
@@ -805,6 +1999,28 @@ export interface ColourMeNFT extends BaseContract {
       ApprovalForAllEvent.OutputObject
     >;
 
+    "ArtFinalized(uint256,address,uint256)": TypedContractEvent<
+      ArtFinalizedEvent.InputTuple,
+      ArtFinalizedEvent.OutputTuple,
+      ArtFinalizedEvent.OutputObject
+    >;
+    ArtFinalized: TypedContractEvent<
+      ArtFinalizedEvent.InputTuple,
+      ArtFinalizedEvent.OutputTuple,
+      ArtFinalizedEvent.OutputObject
+    >;
+
+    "ArtRemoved(uint256,address,uint256[])": TypedContractEvent<
+      ArtRemovedEvent.InputTuple,
+      ArtRemovedEvent.OutputTuple,
+      ArtRemovedEvent.OutputObject
+    >;
+    ArtRemoved: TypedContractEvent<
+      ArtRemovedEvent.InputTuple,
+      ArtRemovedEvent.OutputTuple,
+      ArtRemovedEvent.OutputObject
+    >;
+
     "ArtSaved(uint256,address)": TypedContractEvent<
       ArtSavedEvent.InputTuple,
       ArtSavedEvent.OutputTuple,
@@ -816,7 +2032,40 @@ export interface ColourMeNFT extends BaseContract {
       ArtSavedEvent.OutputObject
     >;
 
-    "CanvasMinted(uint256,address,uint256)": TypedContractEvent<
+    "ArtTruncated(uint256,address,uint256)": TypedContractEvent<
+      ArtTruncatedEvent.InputTuple,
+      ArtTruncatedEvent.OutputTuple,
+      ArtTruncatedEvent.OutputObject
+    >;
+    ArtTruncated: TypedContractEvent<
+      ArtTruncatedEvent.InputTuple,
+      ArtTruncatedEvent.OutputTuple,
+      ArtTruncatedEvent.OutputObject
+    >;
+
+    "BaseURLUpdated(string)": TypedContractEvent<
+      BaseURLUpdatedEvent.InputTuple,
+      BaseURLUpdatedEvent.OutputTuple,
+      BaseURLUpdatedEvent.OutputObject
+    >;
+    BaseURLUpdated: TypedContractEvent<
+      BaseURLUpdatedEvent.InputTuple,
+      BaseURLUpdatedEvent.OutputTuple,
+      BaseURLUpdatedEvent.OutputObject
+    >;
+
+    "BatchMetadataUpdate(uint256,uint256)": TypedContractEvent<
+      BatchMetadataUpdateEvent.InputTuple,
+      BatchMetadataUpdateEvent.OutputTuple,
+      BatchMetadataUpdateEvent.OutputObject
+    >;
+    BatchMetadataUpdate: TypedContractEvent<
+      BatchMetadataUpdateEvent.InputTuple,
+      BatchMetadataUpdateEvent.OutputTuple,
+      BatchMetadataUpdateEvent.OutputObject
+    >;
+
+    "CanvasMinted(uint256,uint256,address)": TypedContractEvent<
       CanvasMintedEvent.InputTuple,
       CanvasMintedEvent.OutputTuple,
       CanvasMintedEvent.OutputObject
@@ -827,6 +2076,50 @@ export interface ColourMeNFT extends BaseContract {
       CanvasMintedEvent.OutputObject
     >;
 
+    "CanvasUpdated(tuple)": TypedContractEvent<
+      CanvasUpdatedEvent.InputTuple,
+      CanvasUpdatedEvent.OutputTuple,
+      CanvasUpdatedEvent.OutputObject
+    >;
+    CanvasUpdated: TypedContractEvent<
+      CanvasUpdatedEvent.InputTuple,
+      CanvasUpdatedEvent.OutputTuple,
+      CanvasUpdatedEvent.OutputObject
+    >;
+
+    "CollaboratorSet(uint256,address,uint64,uint32)": TypedContractEvent<
+      CollaboratorSetEvent.InputTuple,
+      CollaboratorSetEvent.OutputTuple,
+      CollaboratorSetEvent.OutputObject
+    >;
+    CollaboratorSet: TypedContractEvent<
+      CollaboratorSetEvent.InputTuple,
+      CollaboratorSetEvent.OutputTuple,
+      CollaboratorSetEvent.OutputObject
+    >;
+
+    "MetadataUpdate(uint256)": TypedContractEvent<
+      MetadataUpdateEvent.InputTuple,
+      MetadataUpdateEvent.OutputTuple,
+      MetadataUpdateEvent.OutputObject
+    >;
+    MetadataUpdate: TypedContractEvent<
+      MetadataUpdateEvent.InputTuple,
+      MetadataUpdateEvent.OutputTuple,
+      MetadataUpdateEvent.OutputObject
+    >;
+
+    "MintConfigUpdated(tuple)": TypedContractEvent<
+      MintConfigUpdatedEvent.InputTuple,
+      MintConfigUpdatedEvent.OutputTuple,
+      MintConfigUpdatedEvent.OutputObject
+    >;
+    MintConfigUpdated: TypedContractEvent<
+      MintConfigUpdatedEvent.InputTuple,
+      MintConfigUpdatedEvent.OutputTuple,
+      MintConfigUpdatedEvent.OutputObject
+    >;
+
     "OwnershipTransferred(address,address)": TypedContractEvent<
       OwnershipTransferredEvent.InputTuple,
       OwnershipTransferredEvent.OutputTuple,
@@ -838,6 +2131,83 @@ export interface ColourMeNFT extends BaseContract {
       OwnershipTransferredEvent.OutputObject
     >;
 
+    "PayeesUpdated(address[],uint256[])": TypedContractEvent<
+      PayeesUpdatedEvent.InputTuple,
+      PayeesUpdatedEvent.OutputTuple,
+      PayeesUpdatedEvent.OutputObject
+    >;
+    PayeesUpdated: TypedContractEvent<
+      PayeesUpdatedEvent.InputTuple,
+      PayeesUpdatedEvent.OutputTuple,
+      PayeesUpdatedEvent.OutputObject
+    >;
+
+    "PaymentReleased(address,uint256)": TypedContractEvent<
+      PaymentReleasedEvent.InputTuple,
+      PaymentReleasedEvent.OutputTuple,
+      PaymentReleasedEvent.OutputObject
+    >;
+    PaymentReleased: TypedContractEvent<
+      PaymentReleasedEvent.InputTuple,
+      PaymentReleasedEvent.OutputTuple,
+      PaymentReleasedEvent.OutputObject
+    >;
+
+    "PresaleUpdated(bytes32,uint256,uint256,uint256)": TypedContractEvent<
+      PresaleUpdatedEvent.InputTuple,
+      PresaleUpdatedEvent.OutputTuple,
+      PresaleUpdatedEvent.OutputObject
+    >;
+    PresaleUpdated: TypedContractEvent<
+      PresaleUpdatedEvent.InputTuple,
+      PresaleUpdatedEvent.OutputTuple,
+      PresaleUpdatedEvent.OutputObject
+    >;
+
+    "RendererUpdated(address)": TypedContractEvent<
+      RendererUpdatedEvent.InputTuple,
+      RendererUpdatedEvent.OutputTuple,
+      RendererUpdatedEvent.OutputObject
+    >;
+    RendererUpdated: TypedContractEvent<
+      RendererUpdatedEvent.InputTuple,
+      RendererUpdatedEvent.OutputTuple,
+      RendererUpdatedEvent.OutputObject
+    >;
+
+    "ThemeUpdated(uint256,address)": TypedContractEvent<
+      ThemeUpdatedEvent.InputTuple,
+      ThemeUpdatedEvent.OutputTuple,
+      ThemeUpdatedEvent.OutputObject
+    >;
+    ThemeUpdated: TypedContractEvent<
+      ThemeUpdatedEvent.InputTuple,
+      ThemeUpdatedEvent.OutputTuple,
+      ThemeUpdatedEvent.OutputObject
+    >;
+
+    "TokenThemeSet(uint256,uint256)": TypedContractEvent<
+      TokenThemeSetEvent.InputTuple,
+      TokenThemeSetEvent.OutputTuple,
+      TokenThemeSetEvent.OutputObject
+    >;
+    TokenThemeSet: TypedContractEvent<
+      TokenThemeSetEvent.InputTuple,
+      TokenThemeSetEvent.OutputTuple,
+      TokenThemeSetEvent.OutputObject
+    >;
+
+    "TraitsRevealed(uint256)": TypedContractEvent<
+      TraitsRevealedEvent.InputTuple,
+      TraitsRevealedEvent.OutputTuple,
+      TraitsRevealedEvent.OutputObject
+    >;
+    TraitsRevealed: TypedContractEvent<
+      TraitsRevealedEvent.InputTuple,
+      TraitsRevealedEvent.OutputTuple,
+      TraitsRevealedEvent.OutputObject
+    >;
+
     "Transfer(address,address,uint256)": TypedContractEvent<
       TransferEvent.InputTuple,
       TransferEvent.OutputTuple,
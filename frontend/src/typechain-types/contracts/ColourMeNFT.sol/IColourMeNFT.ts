@@ -46,7 +46,9 @@ export interface IColourMeNFTInterface extends Interface {
       | "setApprovalForAll"
       | "setArt"
       | "supportsInterface"
+      | "tokenArtSVG"
       | "tokenSVG"
+      | "tokenSVGAnimated"
       | "tokenURI"
       | "transferFrom"
   ): FunctionFragment;
@@ -104,10 +106,18 @@ export interface IColourMeNFTInterface extends Interface {
     functionFragment: "supportsInterface",
     values: [BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "tokenArtSVG",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "tokenSVG",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "tokenSVGAnimated",
+    values: [BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "tokenURI",
     values: [BigNumberish]
@@ -151,7 +161,15 @@ export interface IColourMeNFTInterface extends Interface {
     functionFragment: "supportsInterface",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenArtSVG",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "tokenSVG", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenSVGAnimated",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "tokenURI", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "transferFrom",
@@ -327,8 +345,16 @@ export interface IColourMeNFT extends BaseContract {
     "view"
   >;
 
+  tokenArtSVG: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+
   tokenSVG: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
 
+  tokenSVGAnimated: TypedContractMethod<
+    [tokenId: BigNumberish, msPerObject: BigNumberish],
+    [string],
+    "view"
+  >;
+
   tokenURI: TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
 
   transferFrom: TypedContractMethod<
@@ -417,9 +443,19 @@ export interface IColourMeNFT extends BaseContract {
   getFunction(
     nameOrSignature: "supportsInterface"
   ): TypedContractMethod<[interfaceId: BytesLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "tokenArtSVG"
+  ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
   getFunction(
     nameOrSignature: "tokenSVG"
   ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "tokenSVGAnimated"
+  ): TypedContractMethod<
+    [tokenId: BigNumberish, msPerObject: BigNumberish],
+    [string],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "tokenURI"
   ): TypedContractMethod<[tokenId: BigNumberish], [string], "view">;
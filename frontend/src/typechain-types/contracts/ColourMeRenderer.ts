@@ -8,6 +8,7 @@ import type {
   FunctionFragment,
   Result,
   Interface,
+  AddressLike,
   ContractRunner,
   ContractMethod,
   Listener,
@@ -58,19 +59,41 @@ export type ObjectStructOutput = [base: bigint, additionalPoints: string] & {
   additionalPoints: string;
 };
 
+export type CanvasRectStruct = {
+  x: BigNumberish;
+  y: BigNumberish;
+  width: BigNumberish;
+  height: BigNumberish;
+};
+
+export type CanvasRectStructOutput = [
+  x: bigint,
+  y: bigint,
+  width: bigint,
+  height: bigint
+] & { x: bigint; y: bigint; width: bigint; height: bigint };
+
 export type BaseObjectStruct = {
   shape: BigNumberish;
   color: BytesLike;
   stroke: BigNumberish;
   pointsLength: BigNumberish;
+  opacity: BigNumberish;
 };
 
 export type BaseObjectStructOutput = [
   shape: bigint,
   color: string,
   stroke: bigint,
-  pointsLength: bigint
-] & { shape: bigint; color: string; stroke: bigint; pointsLength: bigint };
+  pointsLength: bigint,
+  opacity: bigint
+] & {
+  shape: bigint;
+  color: string;
+  stroke: bigint;
+  pointsLength: bigint;
+  opacity: bigint;
+};
 
 export type PointStruct = { x: BigNumberish; y: BigNumberish };
 
@@ -84,25 +107,47 @@ export interface ColourMeRendererInterface extends Interface {
     nameOrSignature:
       | "getAttributes"
       | "getURI"
+      | "renderArtSVG"
       | "renderObjects"
+      | "renderObjectsAnimated"
       | "renderPath"
       | "renderPolygon"
       | "renderShapeTool"
       | "renderTrait"
+      | "themeName"
   ): FunctionFragment;
 
   encodeFunctionData(
     functionFragment: "getAttributes",
-    values: [TraitStruct]
+    values: [TraitStruct, BigNumberish, ObjectStruct[], AddressLike]
   ): string;
   encodeFunctionData(
     functionFragment: "getURI",
-    values: [string, BigNumberish, string, string, TraitStruct]
+    values: [
+      string,
+      BigNumberish,
+      string,
+      BytesLike,
+      string,
+      CanvasRectStruct,
+      TraitStruct,
+      BigNumberish,
+      ObjectStruct[],
+      AddressLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renderArtSVG",
+    values: [ObjectStruct[], CanvasRectStruct]
   ): string;
   encodeFunctionData(
     functionFragment: "renderObjects",
     values: [ObjectStruct[]]
   ): string;
+  encodeFunctionData(
+    functionFragment: "renderObjectsAnimated",
+    values: [ObjectStruct[], BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "renderPath",
     values: [BaseObjectStruct, PointStruct[]]
@@ -119,16 +164,25 @@ export interface ColourMeRendererInterface extends Interface {
     functionFragment: "renderTrait",
     values: [TraitStruct]
   ): string;
+  encodeFunctionData(functionFragment: "themeName", values?: undefined): string;
 
   decodeFunctionResult(
     functionFragment: "getAttributes",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "getURI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "renderArtSVG",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "renderObjects",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "renderObjectsAnimated",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "renderPath", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "renderPolygon",
@@ -142,6 +196,7 @@ export interface ColourMeRendererInterface extends Interface {
     functionFragment: "renderTrait",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "themeName", data: BytesLike): Result;
 }
 
 export interface ColourMeRenderer extends BaseContract {
@@ -187,26 +242,52 @@ export interface ColourMeRenderer extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
-  getAttributes: TypedContractMethod<[_trait: TraitStruct], [string], "view">;
+  getAttributes: TypedContractMethod<
+    [
+      _trait: TraitStruct,
+      _finalizedBlock: BigNumberish,
+      _art: ObjectStruct[],
+      _lastEditor: AddressLike
+    ],
+    [string],
+    "view"
+  >;
 
   getURI: TypedContractMethod<
     [
       _name: string,
       _tokenId: BigNumberish,
       _baseURL: string,
-      _svg: string,
-      _trait: TraitStruct
+      _drawing: BytesLike,
+      _editor: string,
+      _canvas: CanvasRectStruct,
+      _trait: TraitStruct,
+      _finalizedBlock: BigNumberish,
+      _art: ObjectStruct[],
+      _lastEditor: AddressLike
     ],
     [string],
     "view"
   >;
 
+  renderArtSVG: TypedContractMethod<
+    [_objects: ObjectStruct[], _canvas: CanvasRectStruct],
+    [string],
+    "view"
+  >;
+
   renderObjects: TypedContractMethod<
     [_objects: ObjectStruct[]],
     [string],
     "view"
   >;
 
+  renderObjectsAnimated: TypedContractMethod<
+    [_objects: ObjectStruct[], _msPerObject: BigNumberish],
+    [string],
+    "view"
+  >;
+
   renderPath: TypedContractMethod<
     [_object: BaseObjectStruct, _points: PointStruct[]],
     [string],
@@ -227,13 +308,24 @@ export interface ColourMeRenderer extends BaseContract {
 
   renderTrait: TypedContractMethod<[_traits: TraitStruct], [string], "view">;
 
+  themeName: TypedContractMethod<[], [string], "view">;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
   getFunction(
     nameOrSignature: "getAttributes"
-  ): TypedContractMethod<[_trait: TraitStruct], [string], "view">;
+  ): TypedContractMethod<
+    [
+      _trait: TraitStruct,
+      _finalizedBlock: BigNumberish,
+      _art: ObjectStruct[],
+      _lastEditor: AddressLike
+    ],
+    [string],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getURI"
   ): TypedContractMethod<
@@ -241,15 +333,34 @@ export interface ColourMeRenderer extends BaseContract {
       _name: string,
       _tokenId: BigNumberish,
       _baseURL: string,
-      _svg: string,
-      _trait: TraitStruct
+      _drawing: BytesLike,
+      _editor: string,
+      _canvas: CanvasRectStruct,
+      _trait: TraitStruct,
+      _finalizedBlock: BigNumberish,
+      _art: ObjectStruct[],
+      _lastEditor: AddressLike
     ],
     [string],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "renderArtSVG"
+  ): TypedContractMethod<
+    [_objects: ObjectStruct[], _canvas: CanvasRectStruct],
+    [string],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "renderObjects"
   ): TypedContractMethod<[_objects: ObjectStruct[]], [string], "view">;
+  getFunction(
+    nameOrSignature: "renderObjectsAnimated"
+  ): TypedContractMethod<
+    [_objects: ObjectStruct[], _msPerObject: BigNumberish],
+    [string],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "renderPath"
   ): TypedContractMethod<
@@ -266,6 +377,9 @@ export interface ColourMeRenderer extends BaseContract {
   getFunction(
     nameOrSignature: "renderTrait"
   ): TypedContractMethod<[_traits: TraitStruct], [string], "view">;
+  getFunction(
+    nameOrSignature: "themeName"
+  ): TypedContractMethod<[], [string], "view">;
 
   filters: {};
 }
@@ -0,0 +1,385 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export type TraitStruct = {
+  color0: BytesLike;
+  color1: BytesLike;
+  color2: BytesLike;
+  color3: BytesLike;
+  color4: BytesLike;
+  shape0: BigNumberish;
+  shape1: BigNumberish;
+  polygon: BigNumberish;
+};
+
+export type TraitStructOutput = [
+  color0: string,
+  color1: string,
+  color2: string,
+  color3: string,
+  color4: string,
+  shape0: bigint,
+  shape1: bigint,
+  polygon: bigint
+] & {
+  color0: string;
+  color1: string;
+  color2: string;
+  color3: string;
+  color4: string;
+  shape0: bigint;
+  shape1: bigint;
+  polygon: bigint;
+};
+
+export type ObjectStruct = { base: BigNumberish; additionalPoints: BytesLike };
+
+export type ObjectStructOutput = [base: bigint, additionalPoints: string] & {
+  base: bigint;
+  additionalPoints: string;
+};
+
+export type CanvasRectStruct = {
+  x: BigNumberish;
+  y: BigNumberish;
+  width: BigNumberish;
+  height: BigNumberish;
+};
+
+export type CanvasRectStructOutput = [
+  x: bigint,
+  y: bigint,
+  width: bigint,
+  height: bigint
+] & { x: bigint; y: bigint; width: bigint; height: bigint };
+
+export type BaseObjectStruct = {
+  shape: BigNumberish;
+  color: BytesLike;
+  stroke: BigNumberish;
+  pointsLength: BigNumberish;
+  opacity: BigNumberish;
+};
+
+export type BaseObjectStructOutput = [
+  shape: bigint,
+  color: string,
+  stroke: bigint,
+  pointsLength: bigint,
+  opacity: bigint
+] & {
+  shape: bigint;
+  color: string;
+  stroke: bigint;
+  pointsLength: bigint;
+  opacity: bigint;
+};
+
+export type PointStruct = { x: BigNumberish; y: BigNumberish };
+
+export type PointStructOutput = [x: bigint, y: bigint] & {
+  x: bigint;
+  y: bigint;
+};
+
+export interface ColourMeThemeRendererInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "getAttributes"
+      | "getURI"
+      | "renderArtSVG"
+      | "renderObjects"
+      | "renderObjectsAnimated"
+      | "renderPath"
+      | "renderPolygon"
+      | "renderShapeTool"
+      | "renderTrait"
+      | "themeName"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "getAttributes",
+    values: [TraitStruct, BigNumberish, ObjectStruct[], AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getURI",
+    values: [
+      string,
+      BigNumberish,
+      string,
+      BytesLike,
+      string,
+      CanvasRectStruct,
+      TraitStruct,
+      BigNumberish,
+      ObjectStruct[],
+      AddressLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renderArtSVG",
+    values: [ObjectStruct[], CanvasRectStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renderObjects",
+    values: [ObjectStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renderObjectsAnimated",
+    values: [ObjectStruct[], BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renderPath",
+    values: [BaseObjectStruct, PointStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renderPolygon",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renderShapeTool",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renderTrait",
+    values: [TraitStruct]
+  ): string;
+  encodeFunctionData(functionFragment: "themeName", values?: undefined): string;
+
+  decodeFunctionResult(
+    functionFragment: "getAttributes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getURI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "renderArtSVG",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renderObjects",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renderObjectsAnimated",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "renderPath", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "renderPolygon",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renderShapeTool",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renderTrait",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "themeName", data: BytesLike): Result;
+}
+
+export interface ColourMeThemeRenderer extends BaseContract {
+  connect(runner?: ContractRunner | null): ColourMeThemeRenderer;
+  waitForDeployment(): Promise<this>;
+
+  interface: ColourMeThemeRendererInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  getAttributes: TypedContractMethod<
+    [
+      _trait: TraitStruct,
+      _finalizedBlock: BigNumberish,
+      _art: ObjectStruct[],
+      _lastEditor: AddressLike
+    ],
+    [string],
+    "view"
+  >;
+
+  getURI: TypedContractMethod<
+    [
+      _name: string,
+      _tokenId: BigNumberish,
+      _baseURL: string,
+      _drawing: BytesLike,
+      _editor: string,
+      _canvas: CanvasRectStruct,
+      _trait: TraitStruct,
+      _finalizedBlock: BigNumberish,
+      _art: ObjectStruct[],
+      _lastEditor: AddressLike
+    ],
+    [string],
+    "view"
+  >;
+
+  renderArtSVG: TypedContractMethod<
+    [_objects: ObjectStruct[], _canvas: CanvasRectStruct],
+    [string],
+    "view"
+  >;
+
+  renderObjects: TypedContractMethod<
+    [_objects: ObjectStruct[]],
+    [string],
+    "view"
+  >;
+
+  renderObjectsAnimated: TypedContractMethod<
+    [_objects: ObjectStruct[], _msPerObject: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  renderPath: TypedContractMethod<
+    [_object: BaseObjectStruct, _points: PointStruct[]],
+    [string],
+    "view"
+  >;
+
+  renderPolygon: TypedContractMethod<
+    [_polygon: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  renderShapeTool: TypedContractMethod<
+    [_shape: BigNumberish],
+    [string],
+    "view"
+  >;
+
+  renderTrait: TypedContractMethod<[_traits: TraitStruct], [string], "view">;
+
+  themeName: TypedContractMethod<[], [string], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "getAttributes"
+  ): TypedContractMethod<
+    [
+      _trait: TraitStruct,
+      _finalizedBlock: BigNumberish,
+      _art: ObjectStruct[],
+      _lastEditor: AddressLike
+    ],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getURI"
+  ): TypedContractMethod<
+    [
+      _name: string,
+      _tokenId: BigNumberish,
+      _baseURL: string,
+      _drawing: BytesLike,
+      _editor: string,
+      _canvas: CanvasRectStruct,
+      _trait: TraitStruct,
+      _finalizedBlock: BigNumberish,
+      _art: ObjectStruct[],
+      _lastEditor: AddressLike
+    ],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "renderArtSVG"
+  ): TypedContractMethod<
+    [_objects: ObjectStruct[], _canvas: CanvasRectStruct],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "renderObjects"
+  ): TypedContractMethod<[_objects: ObjectStruct[]], [string], "view">;
+  getFunction(
+    nameOrSignature: "renderObjectsAnimated"
+  ): TypedContractMethod<
+    [_objects: ObjectStruct[], _msPerObject: BigNumberish],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "renderPath"
+  ): TypedContractMethod<
+    [_object: BaseObjectStruct, _points: PointStruct[]],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "renderPolygon"
+  ): TypedContractMethod<[_polygon: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "renderShapeTool"
+  ): TypedContractMethod<[_shape: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "renderTrait"
+  ): TypedContractMethod<[_traits: TraitStruct], [string], "view">;
+  getFunction(
+    nameOrSignature: "themeName"
+  ): TypedContractMethod<[], [string], "view">;
+
+  filters: {};
+}
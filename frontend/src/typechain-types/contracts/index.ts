@@ -8,3 +8,4 @@ export type { interfaces };
 import type * as test from "./test";
 export type { test };
 export type { ColourMeRenderer } from "./ColourMeRenderer";
+export type { ColourMeThemeRenderer } from "./ColourMeThemeRenderer";
@@ -32,14 +32,22 @@ export type BaseObjectStruct = {
   color: BytesLike;
   stroke: BigNumberish;
   pointsLength: BigNumberish;
+  opacity: BigNumberish;
 };
 
 export type BaseObjectStructOutput = [
   shape: bigint,
   color: string,
   stroke: bigint,
-  pointsLength: bigint
-] & { shape: bigint; color: string; stroke: bigint; pointsLength: bigint };
+  pointsLength: bigint,
+  opacity: bigint
+] & {
+  shape: bigint;
+  color: string;
+  stroke: bigint;
+  pointsLength: bigint;
+  opacity: bigint;
+};
 
 export type PointStruct = { x: BigNumberish; y: BigNumberish };
 
@@ -57,6 +65,9 @@ export interface EncodingTestInterface extends Interface {
       | "testDecodePointsLength"
       | "testDecodeShape"
       | "testDecodeStroke"
+      | "testGetBaseObject"
+      | "testGetObjectPoints"
+      | "testGetObjectPointsBytewise"
       | "unpackArt"
       | "userArt"
   ): FunctionFragment;
@@ -85,6 +96,18 @@ export interface EncodingTestInterface extends Interface {
     functionFragment: "testDecodeStroke",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "testGetBaseObject",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "testGetObjectPoints",
+    values: [ObjectStruct]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "testGetObjectPointsBytewise",
+    values: [ObjectStruct]
+  ): string;
   encodeFunctionData(
     functionFragment: "unpackArt",
     values: [BigNumberish]
@@ -112,6 +135,18 @@ export interface EncodingTestInterface extends Interface {
     functionFragment: "testDecodeStroke",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "testGetBaseObject",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "testGetObjectPoints",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "testGetObjectPointsBytewise",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "unpackArt", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "userArt", data: BytesLike): Result;
 }
@@ -195,6 +230,24 @@ export interface EncodingTest extends BaseContract {
     "view"
   >;
 
+  testGetBaseObject: TypedContractMethod<
+    [object: BigNumberish],
+    [BaseObjectStructOutput],
+    "view"
+  >;
+
+  testGetObjectPoints: TypedContractMethod<
+    [object: ObjectStruct],
+    [PointStructOutput[]],
+    "view"
+  >;
+
+  testGetObjectPointsBytewise: TypedContractMethod<
+    [object: ObjectStruct],
+    [PointStructOutput[]],
+    "view"
+  >;
+
   unpackArt: TypedContractMethod<
     [tokenId: BigNumberish],
     [[BaseObjectStructOutput[], PointStructOutput[][]]],
@@ -237,6 +290,19 @@ export interface EncodingTest extends BaseContract {
   getFunction(
     nameOrSignature: "testDecodeStroke"
   ): TypedContractMethod<[object: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "testGetBaseObject"
+  ): TypedContractMethod<
+    [object: BigNumberish],
+    [BaseObjectStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "testGetObjectPoints"
+  ): TypedContractMethod<[object: ObjectStruct], [PointStructOutput[]], "view">;
+  getFunction(
+    nameOrSignature: "testGetObjectPointsBytewise"
+  ): TypedContractMethod<[object: ObjectStruct], [PointStructOutput[]], "view">;
   getFunction(
     nameOrSignature: "unpackArt"
   ): TypedContractMethod<
@@ -82,6 +82,38 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "constructor",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "CanvasFinalized",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "collaborator",
+        type: "address",
+      },
+      {
+        internalType: "uint32",
+        name: "maxObjects",
+        type: "uint32",
+      },
+    ],
+    name: "CollaboratorLimitReached",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -249,6 +281,27 @@ const _abi = [
     name: "ERC721NonexistentToken",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "FailedCall",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "balance",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "needed",
+        type: "uint256",
+      },
+    ],
+    name: "InsufficientBalance",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -265,6 +318,11 @@ const _abi = [
     name: "InsufficientPayment",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "InvalidCanvas",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -276,6 +334,11 @@ const _abi = [
     name: "InvalidColor",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "InvalidPayees",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -292,6 +355,11 @@ const _abi = [
     name: "InvalidQuantity",
     type: "error",
   },
+  {
+    inputs: [],
+    name: "InvalidRenderer",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -314,6 +382,17 @@ const _abi = [
     name: "InvalidStroke",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "themeId",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidTheme",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -325,6 +404,86 @@ const _abi = [
     name: "MintingClosed",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "caller",
+        type: "address",
+      },
+    ],
+    name: "NotCanvasOwner",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NotOnAllowlist",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "NotPayee",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "OutOfBounds",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "int256",
+        name: "minX",
+        type: "int256",
+      },
+      {
+        internalType: "int256",
+        name: "minY",
+        type: "int256",
+      },
+      {
+        internalType: "int256",
+        name: "maxX",
+        type: "int256",
+      },
+      {
+        internalType: "int256",
+        name: "maxY",
+        type: "int256",
+      },
+    ],
+    name: "OutOfCanvas",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -347,6 +506,91 @@ const _abi = [
     name: "OwnableUnauthorizedAccount",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "allocation",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "minted",
+        type: "uint256",
+      },
+    ],
+    name: "PresaleAllocationExceeded",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "RefundFailed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "TraitsAlreadyRevealed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "revealBlock",
+        type: "uint256",
+      },
+    ],
+    name: "TraitsNotRevealed",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "minted",
+        type: "uint256",
+      },
+    ],
+    name: "WalletLimitReached",
+    type: "error",
+  },
   {
     anonymous: false,
     inputs: [
@@ -412,33 +656,39 @@ const _abi = [
         name: "artist",
         type: "address",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "blockNumber",
+        type: "uint256",
+      },
     ],
-    name: "ArtSaved",
+    name: "ArtFinalized",
     type: "event",
   },
   {
     anonymous: false,
     inputs: [
       {
-        indexed: false,
+        indexed: true,
         internalType: "uint256",
         name: "tokenId",
         type: "uint256",
       },
       {
-        indexed: false,
+        indexed: true,
         internalType: "address",
-        name: "to",
+        name: "artist",
         type: "address",
       },
       {
         indexed: false,
-        internalType: "uint256",
-        name: "qty",
-        type: "uint256",
+        internalType: "uint256[]",
+        name: "indices",
+        type: "uint256[]",
       },
     ],
-    name: "CanvasMinted",
+    name: "ArtRemoved",
     type: "event",
   },
   {
@@ -446,18 +696,18 @@ const _abi = [
     inputs: [
       {
         indexed: true,
-        internalType: "address",
-        name: "previousOwner",
-        type: "address",
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
       },
       {
         indexed: true,
         internalType: "address",
-        name: "newOwner",
+        name: "artist",
         type: "address",
       },
     ],
-    name: "OwnershipTransferred",
+    name: "ArtSaved",
     type: "event",
   },
   {
@@ -465,99 +715,1079 @@ const _abi = [
     inputs: [
       {
         indexed: true,
-        internalType: "address",
-        name: "from",
-        type: "address",
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
       },
       {
         indexed: true,
         internalType: "address",
-        name: "to",
+        name: "artist",
         type: "address",
       },
       {
-        indexed: true,
+        indexed: false,
         internalType: "uint256",
-        name: "tokenId",
+        name: "newLength",
         type: "uint256",
       },
     ],
-    name: "Transfer",
+    name: "ArtTruncated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "baseURL",
+        type: "string",
+      },
+    ],
+    name: "BaseURLUpdated",
     type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
+        indexed: false,
         internalType: "uint256",
-        name: "tokenId",
+        name: "_fromTokenId",
         type: "uint256",
       },
       {
-        components: [
-          {
-            internalType: "uint256",
-            name: "base",
-            type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+        name: "_toTokenId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchMetadataUpdate",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "firstTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "lastTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+    ],
+    name: "CanvasMinted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "int16",
+            name: "x",
+            type: "int16",
           },
           {
-            internalType: "bytes",
-            name: "additionalPoints",
-            type: "bytes",
+            internalType: "int16",
+            name: "y",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "width",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "height",
+            type: "int16",
           },
         ],
-        internalType: "struct Object[]",
-        name: "_object",
-        type: "tuple[]",
+        indexed: false,
+        internalType: "struct CanvasRect",
+        name: "canvas",
+        type: "tuple",
       },
     ],
-    name: "appendArt",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
+    name: "CanvasUpdated",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
         internalType: "address",
-        name: "to",
+        name: "collaborator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "expiry",
+        type: "uint64",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "maxObjects",
+        type: "uint32",
+      },
+    ],
+    name: "CollaboratorSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "MetadataUpdate",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "limit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "walletLimit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "start",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "duration",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxSupply",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "tokenCount",
+            type: "uint256",
+          },
+        ],
+        indexed: false,
+        internalType: "struct MintConfig",
+        name: "config",
+        type: "tuple",
+      },
+    ],
+    name: "MintConfigUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address[]",
+        name: "payees",
+        type: "address[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "shares",
+        type: "uint256[]",
+      },
+    ],
+    name: "PayeesUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "payee",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PaymentReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "duration",
+        type: "uint256",
+      },
+    ],
+    name: "PresaleUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "renderer",
+        type: "address",
+      },
+    ],
+    name: "RendererUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "themeId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "renderer",
         type: "address",
       },
+    ],
+    name: "ThemeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "themeId",
+        type: "uint256",
+      },
+    ],
+    name: "TokenThemeSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
+        indexed: true,
         internalType: "uint256",
         name: "tokenId",
         type: "uint256",
       },
     ],
-    name: "approve",
-    outputs: [],
-    stateMutability: "nonpayable",
+    name: "TraitsRevealed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_object",
+        type: "tuple[]",
+      },
+    ],
+    name: "appendArt",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "art",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "base",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "additionalPoints",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "artLength",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "artVersionCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "canvas",
+    outputs: [
+      {
+        internalType: "int16",
+        name: "x",
+        type: "int16",
+      },
+      {
+        internalType: "int16",
+        name: "y",
+        type: "int16",
+      },
+      {
+        internalType: "int16",
+        name: "width",
+        type: "int16",
+      },
+      {
+        internalType: "int16",
+        name: "height",
+        type: "int16",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "collaborators",
+    outputs: [
+      {
+        internalType: "address",
+        name: "grantor",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "expiry",
+        type: "uint64",
+      },
+      {
+        internalType: "uint32",
+        name: "maxObjects",
+        type: "uint32",
+      },
+      {
+        internalType: "uint32",
+        name: "objectsAdded",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "finalizeArt",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "finalizedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "getArt",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "page",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMintConfig",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "limit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "walletLimit",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "start",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "duration",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxSupply",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "tokenCount",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct MintConfig",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getPayees",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getProjectInfo",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "isCollaborator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "lastEditor",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "qty",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "mintedBy",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "presaleDuration",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "qty",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "allocation",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "presaleMint",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "presaleMinted",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "presalePrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "presaleRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "presaleStart",
+    outputs: [
       {
         internalType: "uint256",
         name: "",
         type: "uint256",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
+        internalType: "address",
+        name: "payee",
+        type: "address",
       },
     ],
-    name: "art",
+    name: "releasable",
     outputs: [
       {
         internalType: "uint256",
-        name: "base",
+        name: "",
         type: "uint256",
       },
-      {
-        internalType: "bytes",
-        name: "additionalPoints",
-        type: "bytes",
-      },
     ],
     stateMutability: "view",
     type: "function",
@@ -566,19 +1796,31 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "owner",
+        name: "payee",
         type: "address",
       },
     ],
-    name: "balanceOf",
-    outputs: [
+    name: "release",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "",
+        name: "tokenId",
         type: "uint256",
       },
+      {
+        internalType: "uint256[]",
+        name: "indices",
+        type: "uint256[]",
+      },
     ],
-    stateMutability: "view",
+    name: "removeArt",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
@@ -588,13 +1830,23 @@ const _abi = [
         name: "tokenId",
         type: "uint256",
       },
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
     ],
-    name: "getApproved",
+    name: "renderObjectsRange",
     outputs: [
       {
-        internalType: "address",
+        internalType: "string",
         name: "",
-        type: "address",
+        type: "string",
       },
     ],
     stateMutability: "view",
@@ -602,51 +1854,79 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "getProjectInfo",
+    name: "renderer",
     outputs: [
       {
-        internalType: "string",
-        name: "",
-        type: "string",
-      },
-      {
-        internalType: "string",
-        name: "",
-        type: "string",
-      },
-      {
-        internalType: "string",
+        internalType: "address",
         name: "",
-        type: "string",
+        type: "address",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "renounceOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
         name: "",
         type: "uint256",
       },
+    ],
+    name: "revealBlock",
+    outputs: [
       {
         internalType: "uint256",
         name: "",
         type: "uint256",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "",
+        name: "tokenId",
         type: "uint256",
       },
+    ],
+    name: "revealTraits",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "",
+        name: "tokenId",
         type: "uint256",
       },
       {
         internalType: "uint256",
-        name: "",
+        name: "salePrice",
         type: "uint256",
       },
+    ],
+    name: "royaltyInfo",
+    outputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
       {
         internalType: "uint256",
-        name: "",
+        name: "amount",
         type: "uint256",
       },
     ],
@@ -657,81 +1937,147 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "owner",
+        name: "from",
         type: "address",
       },
       {
         internalType: "address",
-        name: "operator",
+        name: "to",
         type: "address",
       },
-    ],
-    name: "isApprovedForAll",
-    outputs: [
       {
-        internalType: "bool",
-        name: "",
-        type: "bool",
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "maxSupply",
-    outputs: [
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
       {
         internalType: "uint256",
-        name: "",
+        name: "tokenId",
         type: "uint256",
       },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
     ],
-    stateMutability: "view",
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "address",
-        name: "to",
+        name: "operator",
         type: "address",
       },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "qty",
+        name: "tokenId",
         type: "uint256",
       },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_art",
+        type: "tuple[]",
+      },
     ],
-    name: "mint",
+    name: "setArt",
     outputs: [],
-    stateMutability: "payable",
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "name",
-    outputs: [
+    inputs: [
       {
         internalType: "string",
-        name: "",
+        name: "_baseURL",
         type: "string",
       },
     ],
-    stateMutability: "view",
+    name: "setBaseURL",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "owner",
-    outputs: [
+    inputs: [
       {
-        internalType: "address",
-        name: "",
-        type: "address",
+        components: [
+          {
+            internalType: "int16",
+            name: "x",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "y",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "width",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "height",
+            type: "int16",
+          },
+        ],
+        internalType: "struct CanvasRect",
+        name: "_canvas",
+        type: "tuple",
       },
     ],
-    stateMutability: "view",
+    name: "setCanvas",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
@@ -741,21 +2087,54 @@ const _abi = [
         name: "tokenId",
         type: "uint256",
       },
+      {
+        internalType: "address",
+        name: "collaborator",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "expiry",
+        type: "uint64",
+      },
+      {
+        internalType: "uint32",
+        name: "maxObjects",
+        type: "uint32",
+      },
     ],
-    name: "ownerOf",
-    outputs: [
+    name: "setCollaborator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "address",
-        name: "",
+        name: "receiver",
         type: "address",
       },
+      {
+        internalType: "uint96",
+        name: "feeNumerator",
+        type: "uint96",
+      },
     ],
-    stateMutability: "view",
+    name: "setDefaultRoyalty",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "renounceOwnership",
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_mintDuration",
+        type: "uint256",
+      },
+    ],
+    name: "setMintDuration",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -764,50 +2143,55 @@ const _abi = [
     inputs: [
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "_mintLimit",
         type: "uint256",
       },
+    ],
+    name: "setMintLimit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "salePrice",
+        name: "_mintPrice",
         type: "uint256",
       },
     ],
-    name: "royaltyInfo",
-    outputs: [
-      {
-        internalType: "address",
-        name: "receiver",
-        type: "address",
-      },
+    name: "setMintPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "amount",
+        name: "_mintStart",
         type: "uint256",
       },
     ],
-    stateMutability: "view",
+    name: "setMintStart",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "from",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "to",
-        type: "address",
+        internalType: "address[]",
+        name: "_payees",
+        type: "address[]",
       },
       {
-        internalType: "uint256",
-        name: "tokenId",
-        type: "uint256",
+        internalType: "uint256[]",
+        name: "_shares",
+        type: "uint256[]",
       },
     ],
-    name: "safeTransferFrom",
+    name: "setPayees",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -815,27 +2199,27 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "address",
-        name: "from",
-        type: "address",
+        internalType: "bytes32",
+        name: "root",
+        type: "bytes32",
       },
       {
-        internalType: "address",
-        name: "to",
-        type: "address",
+        internalType: "uint256",
+        name: "price",
+        type: "uint256",
       },
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "start",
         type: "uint256",
       },
       {
-        internalType: "bytes",
-        name: "data",
-        type: "bytes",
+        internalType: "uint256",
+        name: "duration",
+        type: "uint256",
       },
     ],
-    name: "safeTransferFrom",
+    name: "setPresale",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -844,16 +2228,11 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "operator",
+        name: "_renderer",
         type: "address",
       },
-      {
-        internalType: "bool",
-        name: "approved",
-        type: "bool",
-      },
     ],
-    name: "setApprovalForAll",
+    name: "setRenderer",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -861,29 +2240,17 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "uint256",
-        name: "tokenId",
-        type: "uint256",
+        internalType: "bytes",
+        name: "_svgStart",
+        type: "bytes",
       },
       {
-        components: [
-          {
-            internalType: "uint256",
-            name: "base",
-            type: "uint256",
-          },
-          {
-            internalType: "bytes",
-            name: "additionalPoints",
-            type: "bytes",
-          },
-        ],
-        internalType: "struct Object[]",
-        name: "_art",
-        type: "tuple[]",
+        internalType: "bytes",
+        name: "_svgEnd",
+        type: "bytes",
       },
     ],
-    name: "setArt",
+    name: "setSVG",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -892,21 +2259,16 @@ const _abi = [
     inputs: [
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "themeId",
         type: "uint256",
       },
       {
         internalType: "address",
-        name: "receiver",
+        name: "_renderer",
         type: "address",
       },
-      {
-        internalType: "uint96",
-        name: "feeNumerator",
-        type: "uint96",
-      },
     ],
-    name: "setArtistRoyalty",
+    name: "setTheme",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -914,17 +2276,17 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "address",
-        name: "receiver",
-        type: "address",
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
       },
       {
-        internalType: "uint96",
-        name: "feeNumerator",
-        type: "uint96",
+        internalType: "uint256",
+        name: "themeId",
+        type: "uint256",
       },
     ],
-    name: "setDefaultRoyalty",
+    name: "setTokenTheme",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -932,17 +2294,12 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "bytes",
-        name: "_svgStart",
-        type: "bytes",
-      },
-      {
-        internalType: "bytes",
-        name: "_svgEnd",
-        type: "bytes",
+        internalType: "uint256",
+        name: "_walletLimit",
+        type: "uint256",
       },
     ],
-    name: "setSVG",
+    name: "setWalletLimit",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
@@ -1005,6 +2362,57 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "themeCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "themes",
+    outputs: [
+      {
+        internalType: "contract IColourMeRenderer",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenArtSVG",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "tokenCount",
@@ -1044,8 +2452,37 @@ const _abi = [
         name: "tokenId",
         type: "uint256",
       },
+      {
+        internalType: "uint256",
+        name: "msPerObject",
+        type: "uint256",
+      },
     ],
-    name: "tokenURI",
+    name: "tokenSVGAnimated",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "tokenSVGAtVersion",
     outputs: [
       {
         internalType: "string",
@@ -1064,6 +2501,44 @@ const _abi = [
         type: "uint256",
       },
     ],
+    name: "tokenTheme",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
     name: "traitSVG",
     outputs: [
       {
@@ -1165,10 +2640,35 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "newLength",
+        type: "uint256",
+      },
+    ],
+    name: "truncateArt",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x608060405234801561001057600080fd5b50604051616b22380380616b2283398181016040528101906100329190610669565b858b8b816000908161004491906109c8565b50806001908161005491906109c8565b505050600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff16036100c95760006040517f1e4fbdf70000000000000000000000000000000000000000000000000000000081526004016100c09190610aa9565b60405180910390fd5b6100d88161017a60201b60201c565b5088600990816100e891906109c8565b5087600d8190555086600e60006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555061014e61014261024060201b60201c565b8661026a60201b60201c565b83600f819055508260108190555081601181905550806012819055505050505050505050505050610b2d565b6000600860009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905081600860006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508173ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e060405160405180910390a35050565b6000600860009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905090565b600061027a61041260201b60201c565b6bffffffffffffffffffffffff16905080826bffffffffffffffffffffffff1611156102df5781816040517f6f483d090000000000000000000000000000000000000000000000000000000081526004016102d6929190610b04565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff16036103515760006040517fb6d9900a0000000000000000000000000000000000000000000000000000000081526004016103489190610aa9565b60405180910390fd5b60405180604001604052808473ffffffffffffffffffffffffffffffffffffffff168152602001836bffffffffffffffffffffffff16815250600660008201518160000160006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555060208201518160000160146101000a8154816bffffffffffffffffffffffff02191690836bffffffffffffffffffffffff160217905550905050505050565b6000612710905090565b6000604051905090565b600080fd5b600080fd5b600080fd5b600080fd5b6000601f19601f8301169050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6104838261043a565b810181811067ffffffffffffffff821117156104a2576104a161044b565b5b80604052505050565b60006104b561041c565b90506104c1828261047a565b919050565b600067ffffffffffffffff8211156104e1576104e061044b565b5b6104ea8261043a565b9050602081019050919050565b60005b838110156105155780820151818401526020810190506104fa565b60008484015250505050565b600061053461052f846104c6565b6104ab565b9050828152602081018484840111156105505761054f610435565b5b61055b8482856104f7565b509392505050565b600082601f83011261057857610577610430565b5b8151610588848260208601610521565b91505092915050565b6000819050919050565b6105a481610591565b81146105af57600080fd5b50565b6000815190506105c18161059b565b92915050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b60006105f2826105c7565b9050919050565b610602816105e7565b811461060d57600080fd5b50565b60008151905061061f816105f9565b92915050565b60006bffffffffffffffffffffffff82169050919050565b61064681610625565b811461065157600080fd5b50565b6000815190506106638161063d565b92915050565b60008060008060008060008060008060006101608c8e03121561068f5761068e610426565b5b60008c015167ffffffffffffffff8111156106ad576106ac61042b565b5b6106b98e828f01610563565b9b505060208c015167ffffffffffffffff8111156106da576106d961042b565b5b6106e68e828f01610563565b9a505060408c015167ffffffffffffffff8111156107075761070661042b565b5b6107138e828f01610563565b99505060606107248e828f016105b2565b98505060806107358e828f01610610565b97505060a06107468e828f01610610565b96505060c06107578e828f01610654565b95505060e06107688e828f016105b2565b94505061010061077a8e828f016105b2565b93505061012061078c8e828f016105b2565b92505061014061079e8e828f016105b2565b9150509295989b509295989b9093969950565b600081519050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b6000600282049050600182168061080357607f821691505b602082108103610816576108156107bc565b5b50919050565b60008190508160005260206000209050919050565b60006020601f8301049050919050565b600082821b905092915050565b60006008830261087e7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff82610841565b6108888683610841565b95508019841693508086168417925050509392505050565b6000819050919050565b60006108c56108c06108bb84610591565b6108a0565b610591565b9050919050565b6000819050919050565b6108df836108aa565b6108f36108eb826108cc565b84845461084e565b825550505050565b600090565b6109086108fb565b6109138184846108d6565b505050565b5b818110156109375761092c600082610900565b600181019050610919565b5050565b601f82111561097c5761094d8161081c565b61095684610831565b81016020851015610965578190505b61097961097185610831565b830182610918565b50505b505050565b600082821c905092915050565b600061099f60001984600802610981565b1980831691505092915050565b60006109b8838361098e565b9150826002028217905092915050565b6109d1826107b1565b67ffffffffffffffff8111156109ea576109e961044b565b5b6109f482546107eb565b6109ff82828561093b565b600060209050601f831160018114610a325760008415610a20578287015190505b610a2a85826109ac565b865550610a92565b601f198416610a408661081c565b60005b82811015610a6857848901518255600182019150602085019450602081019050610a43565b86831015610a855784890151610a81601f89168261098e565b8355505b6001600288020188555050505b505050505050565b610aa3816105e7565b82525050565b6000602082019050610abe6000830184610a9a565b92915050565b6000610adf610ada610ad584610625565b6108a0565b610591565b9050919050565b610aef81610ac4565b82525050565b610afe81610591565b82525050565b6000604082019050610b196000830185610ae6565b610b266020830184610af5565b9392505050565b615fe680610b3c6000396000f3fe6080604052600436106101e25760003560e01c806370a0823111610102578063b88d4fde11610095578063d62f7a6711610064578063d62f7a6714610718578063d97ebf8414610756578063e985e9c51461077f578063f2fde38b146107bc576101e2565b8063b88d4fde1461065e578063c87b56dd14610687578063cdf6111e146106c4578063d5abeb01146106ed576101e2565b806395d89b41116100d157806395d89b41146105a25780639bac5f7a146105cd5780639f181b5e1461060a578063a22cb46514610635576101e2565b806370a08231146104f8578063715018a61461053557806388e992621461054c5780638da5cb5b14610577576101e2565b80632a55205a1161017a5780634dec73e9116101495780634dec73e91461043457806359f1d9c21461045f5780636352211e1461048857806367c897fe146104c5576101e2565b80632a55205a1461036d5780632d72225b146103ab57806340c10f19146103ef57806342842e0e1461040b576101e2565b8063081812fc116101b6578063081812fc146102b5578063095ea7b3146102f25780631565e0471461031b57806323b872dd14610344576101e2565b8062da1f59146101e757806301ffc9a71461022457806304634d8d1461026157806306fdde031461028a575b600080fd5b3480156101f357600080fd5b5061020e60048036038101906102099190614002565b6107e5565b60405161021b91906140bf565b60405180910390f35b34801561023057600080fd5b5061024b60048036038101906102469190614139565b610885565b6040516102589190614181565b60405180910390f35b34801561026d57600080fd5b506102886004803603810190610283919061423e565b6108ff565b005b34801561029657600080fd5b5061029f610915565b6040516102ac91906142d3565b60405180910390f35b3480156102c157600080fd5b506102dc60048036038101906102d79190614002565b6109a7565b6040516102e99190614304565b60405180910390f35b3480156102fe57600080fd5b506103196004803603810190610314919061431f565b6109c3565b005b34801561032757600080fd5b50610342600480360381019061033d91906143c4565b6109d9565b005b34801561035057600080fd5b5061036b60048036038101906103669190614424565b6109e9565b005b34801561037957600080fd5b50610394600480360381019061038f9190614477565b610aeb565b6040516103a29291906144c6565b60405180910390f35b3480156103b757600080fd5b506103d260048036038101906103cd9190614002565b610c1b565b6040516103e69897969594939291906145bd565b60405180910390f35b6104096004803603810190610404919061431f565b610ccb565b005b34801561041757600080fd5b50610432600480360381019061042d9190614424565b611104565b005b34801561044057600080fd5b50610449611124565b60405161045691906140bf565b60405180910390f35b34801561046b57600080fd5b506104866004803603810190610481919061476b565b6111b2565b005b34801561049457600080fd5b506104af60048036038101906104aa9190614002565b6111de565b6040516104bc9190614304565b60405180910390f35b3480156104d157600080fd5b506104da6111f0565b6040516104ef999897969594939291906147e3565b60405180910390f35b34801561050457600080fd5b5061051f600480360381019061051a9190614885565b6112cb565b60405161052c91906148b2565b60405180910390f35b34801561054157600080fd5b5061054a611385565b005b34801561055857600080fd5b50610561611399565b60405161056e91906140bf565b60405180910390f35b34801561058357600080fd5b5061058c611427565b6040516105999190614304565b60405180910390f35b3480156105ae57600080fd5b506105b7611451565b6040516105c491906142d3565b60405180910390f35b3480156105d957600080fd5b506105f460048036038101906105ef9190614002565b6114e3565b60405161060191906142d3565b60405180910390f35b34801561061657600080fd5b5061061f6115ec565b60405161062c91906148b2565b60405180910390f35b34801561064157600080fd5b5061065c600480360381019061065791906148f9565b6115f2565b005b34801561066a57600080fd5b5061068560048036038101906106809190614939565b611608565b005b34801561069357600080fd5b506106ae60048036038101906106a99190614002565b61162d565b6040516106bb91906142d3565b60405180910390f35b3480156106d057600080fd5b506106eb60048036038101906106e691906149bc565b61170b565b005b3480156106f957600080fd5b50610702611723565b60405161070f91906148b2565b60405180910390f35b34801561072457600080fd5b5061073f600480360381019061073a9190614477565b611729565b60405161074d929190614a0f565b60405180910390f35b34801561076257600080fd5b5061077d600480360381019061077891906143c4565b6117f2565b005b34801561078b57600080fd5b506107a660048036038101906107a19190614a3f565b611821565b6040516107b39190614181565b60405180910390f35b3480156107c857600080fd5b506107e360048036038101906107de9190614885565b6118b5565b005b6014602052806000526040600020600091509050805461080490614aae565b80601f016020809104026020016040519081016040528092919081815260200182805461083090614aae565b801561087d5780601f106108525761010080835404028352916020019161087d565b820191906000526020600020905b81548152906001019060200180831161086057829003601f168201915b505050505081565b60007f9266b9d8000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff191614806108f857506108f78261193b565b5b9050919050565b6109076119b5565b6109118282611a3c565b5050565b60606000805461092490614aae565b80601f016020809104026020016040519081016040528092919081815260200182805461095090614aae565b801561099d5780601f106109725761010080835404028352916020019161099d565b820191906000526020600020905b81548152906001019060200180831161098057829003601f168201915b5050505050905090565b60006109b282611bde565b506109bc82611c66565b9050919050565b6109d582826109d0611ca3565b611cab565b5050565b6109e4838383611cbd565b505050565b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff1603610a5b5760006040517f64a0ae92000000000000000000000000000000000000000000000000000000008152600401610a529190614304565b60405180910390fd5b6000610a6f8383610a6a611ca3565b611dc8565b90508373ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1614610ae5578382826040517f64283d7b000000000000000000000000000000000000000000000000000000008152600401610adc93929190614adf565b60405180910390fd5b50505050565b600080600060076000868152602001908152602001600020905060008160000160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905060008260000160149054906101000a90046bffffffffffffffffffffffff169050600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff1603610bcc57600660000160009054906101000a900473ffffffffffffffffffffffffffffffffffffffff169150600660000160149054906101000a90046bffffffffffffffffffffffff1690505b6000610bd6611fe2565b6bffffffffffffffffffffffff16826bffffffffffffffffffffffff1688610bfe9190614b45565b610c089190614bb6565b9050828195509550505050509250929050565b60136020528060005260406000206000915090508060000160009054906101000a900460e81b908060000160039054906101000a900460e81b908060000160069054906101000a900460e81b908060000160099054906101000a900460e81b9080600001600c9054906101000a900460e81b9080600001600f9054906101000a900460ff16908060000160109054906101000a900460ff16908060000160119054906101000a900460ff16905088565b601154421015610d10576040517ffa939ce6000000000000000000000000000000000000000000000000000000008152600401610d0790614c33565b60405180910390fd5b601254601154610d209190614c53565b421115610d62576040517ffa939ce6000000000000000000000000000000000000000000000000000000008152600401610d5990614cd3565b60405180910390fd5b600d54600c5410610da8576040517ffa939ce6000000000000000000000000000000000000000000000000000000008152600401610d9f90614d3f565b60405180910390fd5b601054811180610db85750600081145b15610def576040517f524f409b00000000000000000000000000000000000000000000000000000000815260040160405180910390fd5b80600f54610dfd9190614b45565b341015610e505780600f54610e129190614b45565b346040517fb99e2ab7000000000000000000000000000000000000000000000000000000008152600401610e47929190614d5f565b60405180910390fd5b60005b818110156110c257600c6000815480929190610e6e90614d88565b9190505550610e7f83600c54611fec565b610e8a600c546120e5565b60136000600c54815260200190815260200160002060008201518160000160006101000a81548162ffffff021916908360e81c021790555060208201518160000160036101000a81548162ffffff021916908360e81c021790555060408201518160000160066101000a81548162ffffff021916908360e81c021790555060608201518160000160096101000a81548162ffffff021916908360e81c0217905550608082015181600001600c6101000a81548162ffffff021916908360e81c021790555060a082015181600001600f6101000a81548160ff02191690836005811115610f7957610f7861452a565b5b021790555060c08201518160000160106101000a81548160ff02191690836005811115610fa957610fa861452a565b5b021790555060e08201518160000160116101000a81548160ff021916908360ff160217905550905050600e60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1663bce883ae60136000600c5481526020019081526020016000206040518263ffffffff1660e01b81526004016110419190615039565b600060405180830381865afa15801561105e573d6000803e3d6000fd5b505050506040513d6000823e3d601f19601f8201168201806040525081019061108791906150c5565b60146000600c54815260200190815260200160002090816110a891906152ba565b50600d54600c5403156110c2578080600101915050610e53565b507f8a379962b536b09db691f7d49ba660382ff2236335738e1e6e0275f428731b72600c5483836040516110f89392919061538c565b60405180910390a15050565b61111f83838360405180602001604052806000815250611608565b505050565b600a805461113190614aae565b80601f016020809104026020016040519081016040528092919081815260200182805461115d90614aae565b80156111aa5780601f1061117f576101008083540402835291602001916111aa565b820191906000526020600020905b81548152906001019060200180831161118d57829003601f168201915b505050505081565b6111ba6119b5565b81600a90816111c991906152ba565b5080600b90816111d991906152ba565b505050565b60006111e982611bde565b9050919050565b6060806060600080600080600080611206610915565b61120e611451565b6009600c54600d54600f5460105460115460125486805461122e90614aae565b80601f016020809104026020016040519081016040528092919081815260200182805461125a90614aae565b80156112a75780601f1061127c576101008083540402835291602001916112a7565b820191906000526020600020905b81548152906001019060200180831161128a57829003601f168201915b50505050509650985098509850985098509850985098509850909192939495969798565b60008073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff160361133e5760006040517f89c62b640000000000000000000000000000000000000000000000000000000081526004016113359190614304565b60405180910390fd5b600360008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020549050919050565b61138d6119b5565b61139760006126c3565b565b600b80546113a690614aae565b80601f01602080910402602001604051908101604052809291908181526020018280546113d290614aae565b801561141f5780601f106113f45761010080835404028352916020019161141f565b820191906000526020600020905b81548152906001019060200180831161140257829003601f168201915b505050505081565b6000600860009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905090565b60606001805461146090614aae565b80601f016020809104026020016040519081016040528092919081815260200182805461148c90614aae565b80156114d95780601f106114ae576101008083540402835291602001916114d9565b820191906000526020600020905b8154815290600101906020018083116114bc57829003601f168201915b5050505050905090565b60606114ee82611bde565b50600a6014600084815260200190815260200160002061150d84612789565b600e60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16637889b615601560008881526020019081526020016000206040518263ffffffff1660e01b815260040161157a919061559a565b600060405180830381865afa158015611597573d6000803e3d6000fd5b505050506040513d6000823e3d601f19601f820116820180604052508101906115c091906150c5565b600b6040516020016115d69594939291906157c1565b6040516020818303038152906040529050919050565b600c5481565b6116046115fd611ca3565b8383612857565b5050565b6116138484846109e9565b61162761161e611ca3565b858585856129c6565b50505050565b606061163882611bde565b50600e60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1663240c6a7761167f610915565b84600961168b876114e3565b601360008981526020019081526020016000206040518663ffffffff1660e01b81526004016116be9594939291906158c6565b600060405180830381865afa1580156116db573d6000803e3d6000fd5b505050506040513d6000823e3d601f19601f8201168201806040525081019061170491906150c5565b9050919050565b6117136119b5565b61171e838383612b77565b505050565b600d5481565b6015602052816000526040600020818154811061174557600080fd5b90600052602060002090600202016000915091505080600001549080600101805461176f90614aae565b80601f016020809104026020016040519081016040528092919081815260200182805461179b90614aae565b80156117e85780601f106117bd576101008083540402835291602001916117e8565b820191906000526020600020905b8154815290600101906020018083116117cb57829003601f168201915b5050505050905082565b6015600084815260200190815260200160002060006118119190613daf565b61181c838383611cbd565b505050565b6000600560008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff16905092915050565b6118bd6119b5565b600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff160361192f5760006040517f1e4fbdf70000000000000000000000000000000000000000000000000000000081526004016119269190614304565b60405180910390fd5b611938816126c3565b50565b60007f2a55205a000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff191614806119ae57506119ad82612d2f565b5b9050919050565b6119bd611ca3565b73ffffffffffffffffffffffffffffffffffffffff166119db611427565b73ffffffffffffffffffffffffffffffffffffffff1614611a3a576119fe611ca3565b6040517f118cdaa7000000000000000000000000000000000000000000000000000000008152600401611a319190614304565b60405180910390fd5b565b6000611a46611fe2565b6bffffffffffffffffffffffff16905080826bffffffffffffffffffffffff161115611aab5781816040517f6f483d09000000000000000000000000000000000000000000000000000000008152600401611aa2929190615960565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff1603611b1d5760006040517fb6d9900a000000000000000000000000000000000000000000000000000000008152600401611b149190614304565b60405180910390fd5b60405180604001604052808473ffffffffffffffffffffffffffffffffffffffff168152602001836bffffffffffffffffffffffff16815250600660008201518160000160006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555060208201518160000160146101000a8154816bffffffffffffffffffffffff02191690836bffffffffffffffffffffffff160217905550905050505050565b600080611bea83612e11565b9050600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1603611c5d57826040517f7e273289000000000000000000000000000000000000000000000000000000008152600401611c5491906148b2565b60405180910390fd5b80915050919050565b60006004600083815260200190815260200160002060009054906101000a900473ffffffffffffffffffffffffffffffffffffffff169050919050565b600033905090565b611cb88383836001612e4e565b505050565b60005b82829050811015611d7e57611d0284848484818110611ce257611ce1615989565b5b9050602002810190611cf491906159c7565b611cfd90615a65565b613013565b60156000858152602001908152602001600020838383818110611d2857611d27615989565b5b9050602002810190611d3a91906159c7565b90806001815401808255809150506001900390600052602060002090600202016000909190919091508181611d6f9190615c94565b50508080600101915050611cc0565b503373ffffffffffffffffffffffffffffffffffffffff16837fb921e941791c53f00f9f5e717e838912e6ff916fdf3fdaa86b8dbe0a0bcba9e960405160405180910390a3505050565b600080611dd484612e11565b9050600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff1614611e1657611e158184866137f7565b5b600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1614611ea757611e58600085600080612e4e565b6001600360008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600082825403925050819055505b600073ffffffffffffffffffffffffffffffffffffffff168573ffffffffffffffffffffffffffffffffffffffff1614611f2a576001600360008773ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600082825401925050819055505b846002600086815260200190815260200160002060006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550838573ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60405160405180910390a4809150509392505050565b6000612710905090565b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff160361205e5760006040517f64a0ae920000000000000000000000000000000000000000000000000000000081526004016120559190614304565b60405180910390fd5b600061206c83836000611dc8565b9050600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff16146120e05760006040517f73c6ac6e0000000000000000000000000000000000000000000000000000000081526004016120d79190614304565b60405180910390fd5b505050565b6120ed613dd3565b6000600567ffffffffffffffff81111561210a57612109614640565b5b6040519080825280602002602001820160405280156121385781602001602082028036833780820191505090505b50905061214a83600162fffffe6138bb565b8160008151811061215e5761215d615989565b5b602002602001019062ffffff16908162ffffff16815250506121a58160008151811061218d5761218c615989565b5b602002602001015162ffffff16600162fffffd6138bb565b816001815181106121b9576121b8615989565b5b602002602001019062ffffff16908162ffffff16815250506121dc816001613925565b905061220d816001815181106121f5576121f4615989565b5b602002602001015162ffffff16600162fffffc6138bb565b8160028151811061222157612220615989565b5b602002602001019062ffffff16908162ffffff1681525050612244816002613925565b90506122758160028151811061225d5761225c615989565b5b602002602001015162ffffff16600162fffffb6138bb565b8160038151811061228957612288615989565b5b602002602001019062ffffff16908162ffffff16815250506122ac816003613925565b90506122dd816003815181106122c5576122c4615989565b5b602002602001015162ffffff16600162fffffa6138bb565b816004815181106122f1576122f0615989565b5b602002602001019062ffffff16908162ffffff1681525050612314816004613925565b90506000600267ffffffffffffffff81111561233357612332614640565b5b6040519080825280602002602001820160405280156123615781602001602082028036833780820191505090505b5090506123918260048151811061237b5761237a615989565b5b602002602001015162ffffff16600060036138bb565b816000815181106123a5576123a4615989565b5b602002602001019060ff16908160ff16815250506123e4816000815181106123d0576123cf615989565b5b602002602001015160ff16600060026138bb565b816001815181106123f8576123f7615989565b5b602002602001019060ff16908160ff1681525050806000815181106124205761241f615989565b5b602002602001015160ff168160018151811061243f5761243e615989565b5b602002602001015160ff1610612483578060018151811061246357612462615989565b5b60200260200101805180919061247890615ca2565b60ff1660ff16815250505b60006124b08260018151811061249c5761249b615989565b5b602002602001015160ff16600460066138bb565b905060048160ff16036124c257600390505b604051806101000160405280846000815181106124e2576124e1615989565b5b602002602001015160e81b7cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff191681526020018460018151811061252657612525615989565b5b602002602001015160e81b7cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff191681526020018460028151811061256a57612569615989565b5b602002602001015160e81b7cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff19168152602001846003815181106125ae576125ad615989565b5b602002602001015160e81b7cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff19168152602001846004815181106125f2576125f1615989565b5b602002602001015160e81b7cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff191681526020018360008151811061263657612635615989565b5b602002602001015160ff1660058111156126535761265261452a565b5b60058111156126655761266461452a565b5b81526020018360018151811061267e5761267d615989565b5b602002602001015160ff16600581111561269b5761269a61452a565b5b60058111156126ad576126ac61452a565b5b81526020018260ff168152509350505050919050565b6000600860009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905081600860006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508173ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e060405160405180910390a35050565b606060006001612798846139d4565b01905060008167ffffffffffffffff8111156127b7576127b6614640565b5b6040519080825280601f01601f1916602001820160405280156127e95781602001600182028036833780820191505090505b509050600082602083010190505b60011561284c578080600190039150507f3031323334353637383961626364656600000000000000000000000000000000600a86061a8153600a85816128405761283f614b87565b5b049450600085036127f7575b819350505050919050565b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff16036128c857816040517f5b08ba180000000000000000000000000000000000000000000000000000000081526004016128bf9190614304565b60405180910390fd5b80600560008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff0219169083151502179055508173ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff167f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31836040516129b99190614181565b60405180910390a3505050565b60008373ffffffffffffffffffffffffffffffffffffffff163b1115612b70578273ffffffffffffffffffffffffffffffffffffffff1663150b7a02868685856040518563ffffffff1660e01b8152600401612a259493929190615ccb565b6020604051808303816000875af1925050508015612a6157506040513d601f19601f82011682018060405250810190612a5e9190615d2c565b60015b612ae5573d8060008114612a91576040519150601f19603f3d011682016040523d82523d6000602084013e612a96565b606091505b506000815103612add57836040517f64a0ae92000000000000000000000000000000000000000000000000000000008152600401612ad49190614304565b60405180910390fd5b805160208201fd5b63150b7a0260e01b7bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916817bffffffffffffffffffffffffffffffffffffffffffffffffffffffff191614612b6e57836040517f64a0ae92000000000000000000000000000000000000000000000000000000008152600401612b659190614304565b60405180910390fd5b505b5050505050565b6000612b81611fe2565b6bffffffffffffffffffffffff16905080826bffffffffffffffffffffffff161115612be8578382826040517fdfd1fc1b000000000000000000000000000000000000000000000000000000008152600401612bdf93929190615d59565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff1603612c5c578360006040517f969f0852000000000000000000000000000000000000000000000000000000008152600401612c53929190615d90565b60405180910390fd5b60405180604001604052808473ffffffffffffffffffffffffffffffffffffffff168152602001836bffffffffffffffffffffffff168152506007600086815260200190815260200160002060008201518160000160006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555060208201518160000160146101000a8154816bffffffffffffffffffffffff02191690836bffffffffffffffffffffffff16021790555090505050505050565b60007f80ac58cd000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff19161480612dfa57507f5b5e139f000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916145b80612e0a5750612e0982613b27565b5b9050919050565b60006002600083815260200190815260200160002060009054906101000a900473ffffffffffffffffffffffffffffffffffffffff169050919050565b8080612e875750600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff1614155b15612fbb576000612e9784611bde565b9050600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff1614158015612f0257508273ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1614155b8015612f155750612f138184611821565b155b15612f5757826040517fa9fbf51f000000000000000000000000000000000000000000000000000000008152600401612f4e9190614304565b60405180910390fd5b8115612fb957838573ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45b505b836004600085815260200190815260200160002060006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff16021790555050505050565b60006130228260000151613b91565b9050600060e81b817cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916148061307b575062ffffff60e81b817cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916145b806130e857506013600084815260200190815260200160002060000160009054906101000a900460e81b7cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916817cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916145b8061315557506013600084815260200190815260200160002060000160039054906101000a900460e81b7cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916817cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916145b806131c257506013600084815260200190815260200160002060000160069054906101000a900460e81b7cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916817cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916145b8061322f57506013600084815260200190815260200160002060000160099054906101000a900460e81b7cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916817cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916145b8061329c575060136000848152602001908152602001600020600001600c9054906101000a900460e81b7cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916817cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916145b6132dd57806040517ff30098e70000000000000000000000000000000000000000000000000000000081526004016132d49190615db9565b60405180910390fd5b60006132ec8360000151613ba2565b9050600060136000868152602001908152602001600020600001600f9054906101000a900460ff1660058111156133265761332561452a565b5b8260058111156133395761333861452a565b5b148061338b57506013600086815260200190815260200160002060000160109054906101000a900460ff1660058111156133765761337561452a565b5b8260058111156133895761338861452a565b5b145b806133ba5750600460058111156133a5576133a461452a565b5b8260058111156133b8576133b761452a565b5b145b806133e857506005808111156133d3576133d261452a565b5b8260058111156133e6576133e561452a565b5b145b90508015801561341c5750600060058111156134075761340661452a565b5b82600581111561341a5761341961452a565b5b145b156134e45760006134308560000151613c12565b9050600a8160006002811061344857613447615989565b5b60200201516000015160010b1480156134805750605a8160006002811061347257613471615989565b5b60200201516020015160010b145b80156134ac57506103d48160016002811061349e5761349d615989565b5b60200201516000015160010b145b80156134d85750610384816001600281106134ca576134c9615989565b5b60200201516020015160010b145b156134e257600191505b505b80613538578160058111156134fc576134fb61452a565b5b6040517fd353599c00000000000000000000000000000000000000000000000000000000815260040161352f9190615dd4565b60405180910390fd5b60006135478560000151613cd2565b905060028161ffff16101561359357806040517fd3c6c3ae00000000000000000000000000000000000000000000000000000000815260040161358a9190615e2e565b60405180910390fd5b600060058111156135a7576135a661452a565b5b8360058111156135ba576135b961452a565b5b14806135ea5750600260058111156135d5576135d461452a565b5b8360058111156135e8576135e761452a565b5b145b806136195750600160058111156136045761360361452a565b5b8360058111156136175761361661452a565b5b145b801561362a575060028161ffff1614155b1561366c57806040517fd3c6c3ae0000000000000000000000000000000000000000000000000000000081526004016136639190615e2e565b60405180910390fd5b600460058111156136805761367f61452a565b5b8360058111156136935761369261452a565b5b03613707576013600087815260200190815260200160002060000160119054906101000a900460ff1660ff168161ffff161461370657806040517fd3c6c3ae0000000000000000000000000000000000000000000000000000000081526004016136fd9190615e2e565b60405180910390fd5b5b60006137168660000151613ce0565b905060008160ff161480156137ac57506001600581111561373a5761373961452a565b5b84600581111561374d5761374c61452a565b5b148061377d5750600360058111156137685761376761452a565b5b84600581111561377b5761377a61452a565b5b145b806137ab57506005808111156137965761379561452a565b5b8460058111156137a9576137a861452a565b5b145b5b156137ee57806040517fdd76e3540000000000000000000000000000000000000000000000000000000081526004016137e59190615dd4565b60405180910390fd5b50505050505050565b613802838383613cee565b6138b657600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff160361387757806040517f7e27328900000000000000000000000000000000000000000000000000000000815260040161386e91906148b2565b60405180910390fd5b81816040517f177e802f0000000000000000000000000000000000000000000000000000000081526004016138ad9291906144c6565b60405180910390fd5b505050565b600082600184846138cc9190615e49565b6138d69190614c53565b85424443336040516020016138ef959493929190615ee6565b6040516020818303038152906040528051906020012060001c6139129190615f45565b61391c9190614c53565b90509392505050565b606060005b8260ff168160ff1610156139ca57838160ff168151811061394e5761394d615989565b5b602002602001015162ffffff16848460ff168151811061397157613970615989565b5b602002602001015162ffffff16106139bd57838360ff168151811061399957613998615989565b5b6020026020010180518091906139ae90615f85565b62ffffff1662ffffff16815250505b808060010191505061392a565b5082905092915050565b600080600090507a184f03e93ff9f4daa797ed6e38ed64bf6a1f0100000000000000008310613a32577a184f03e93ff9f4daa797ed6e38ed64bf6a1f0100000000000000008381613a2857613a27614b87565b5b0492506040810190505b6d04ee2d6d415b85acef81000000008310613a6f576d04ee2d6d415b85acef81000000008381613a6557613a64614b87565b5b0492506020810190505b662386f26fc100008310613a9e57662386f26fc100008381613a9457613a93614b87565b5b0492506010810190505b6305f5e1008310613ac7576305f5e1008381613abd57613abc614b87565b5b0492506008810190505b6127108310613aec576127108381613ae257613ae1614b87565b5b0492506004810190505b60648310613b0f5760648381613b0557613b04614b87565b5b0492506002810190505b600a8310613b1e576001810190505b80915050919050565b60007f01ffc9a7000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916149050919050565b6000600382901c60e81b9050919050565b60008060078316905060058160ff161115613bf457806040517fd353599c000000000000000000000000000000000000000000000000000000008152600401613beb9190615dd4565b60405180910390fd5b8060ff166005811115613c0a57613c0961452a565b5b915050919050565b613c1a613edf565b6000613c2583613cd2565b905060028161ffff161015613c7157806040517fd3c6c3ae000000000000000000000000000000000000000000000000000000008152600401613c689190615e2e565b60405180910390fd5b60405180604001604052806040518060400160405280603387901c60010b8152602001604387901c60010b81525081526020016040518060400160405280605387901c60010b8152602001606387901c60010b815250815250915050919050565b6000602382901c9050919050565b6000601b82901c9050919050565b60008073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff1614158015613da657508273ffffffffffffffffffffffffffffffffffffffff168473ffffffffffffffffffffffffffffffffffffffff161480613d675750613d668484611821565b5b80613da557508273ffffffffffffffffffffffffffffffffffffffff16613d8d83611c66565b73ffffffffffffffffffffffffffffffffffffffff16145b5b90509392505050565b5080546000825560020290600052602060002090810190613dd09190613f0c565b50565b60405180610100016040528060007cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916815260200160007cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916815260200160007cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916815260200160007cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916815260200160007cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916815260200160006005811115613eb657613eb561452a565b5b815260200160006005811115613ecf57613ece61452a565b5b8152602001600060ff1681525090565b60405180604001604052806002905b613ef6613f3b565b815260200190600190039081613eee5790505090565b5b80821115613f3757600080820160009055600182016000613f2e9190613f5b565b50600201613f0d565b5090565b6040518060400160405280600060010b8152602001600060010b81525090565b508054613f6790614aae565b6000825580601f10613f795750613f98565b601f016020900490600052602060002090810190613f979190613f9b565b5b50565b5b80821115613fb4576000816000905550600101613f9c565b5090565b6000604051905090565b600080fd5b600080fd5b6000819050919050565b613fdf81613fcc565b8114613fea57600080fd5b50565b600081359050613ffc81613fd6565b92915050565b60006020828403121561401857614017613fc2565b5b600061402684828501613fed565b91505092915050565b600081519050919050565b600082825260208201905092915050565b60005b8381101561406957808201518184015260208101905061404e565b60008484015250505050565b6000601f19601f8301169050919050565b60006140918261402f565b61409b818561403a565b93506140ab81856020860161404b565b6140b481614075565b840191505092915050565b600060208201905081810360008301526140d98184614086565b905092915050565b60007fffffffff0000000000000000000000000000000000000000000000000000000082169050919050565b614116816140e1565b811461412157600080fd5b50565b6000813590506141338161410d565b92915050565b60006020828403121561414f5761414e613fc2565b5b600061415d84828501614124565b91505092915050565b60008115159050919050565b61417b81614166565b82525050565b60006020820190506141966000830184614172565b92915050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b60006141c78261419c565b9050919050565b6141d7816141bc565b81146141e257600080fd5b50565b6000813590506141f4816141ce565b92915050565b60006bffffffffffffffffffffffff82169050919050565b61421b816141fa565b811461422657600080fd5b50565b60008135905061423881614212565b92915050565b6000806040838503121561425557614254613fc2565b5b6000614263858286016141e5565b925050602061427485828601614229565b9150509250929050565b600081519050919050565b600082825260208201905092915050565b60006142a58261427e565b6142af8185614289565b93506142bf81856020860161404b565b6142c881614075565b840191505092915050565b600060208201905081810360008301526142ed818461429a565b905092915050565b6142fe816141bc565b82525050565b600060208201905061431960008301846142f5565b92915050565b6000806040838503121561433657614335613fc2565b5b6000614344858286016141e5565b925050602061435585828601613fed565b9150509250929050565b600080fd5b600080fd5b600080fd5b60008083601f8401126143845761438361435f565b5b8235905067ffffffffffffffff8111156143a1576143a0614364565b5b6020830191508360208202830111156143bd576143bc614369565b5b9250929050565b6000806000604084860312156143dd576143dc613fc2565b5b60006143eb86828701613fed565b935050602084013567ffffffffffffffff81111561440c5761440b613fc7565b5b6144188682870161436e565b92509250509250925092565b60008060006060848603121561443d5761443c613fc2565b5b600061444b868287016141e5565b935050602061445c868287016141e5565b925050604061446d86828701613fed565b9150509250925092565b6000806040838503121561448e5761448d613fc2565b5b600061449c85828601613fed565b92505060206144ad85828601613fed565b9150509250929050565b6144c081613fcc565b82525050565b60006040820190506144db60008301856142f5565b6144e860208301846144b7565b9392505050565b60007fffffff000000000000000000000000000000000000000000000000000000000082169050919050565b614524816144ef565b82525050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b6006811061456a5761456961452a565b5b50565b600081905061457b82614559565b919050565b600061458b8261456d565b9050919050565b61459b81614580565b82525050565b600060ff82169050919050565b6145b7816145a1565b82525050565b6000610100820190506145d3600083018b61451b565b6145e0602083018a61451b565b6145ed604083018961451b565b6145fa606083018861451b565b614607608083018761451b565b61461460a0830186614592565b61462160c0830185614592565b61462e60e08301846145ae565b9998505050505050505050565b600080fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b61467882614075565b810181811067ffffffffffffffff8211171561469757614696614640565b5b80604052505050565b60006146aa613fb8565b90506146b6828261466f565b919050565b600067ffffffffffffffff8211156146d6576146d5614640565b5b6146df82614075565b9050602081019050919050565b82818337600083830152505050565b600061470e614709846146bb565b6146a0565b90508281526020810184848401111561472a5761472961463b565b5b6147358482856146ec565b509392505050565b600082601f8301126147525761475161435f565b5b81356147628482602086016146fb565b91505092915050565b6000806040838503121561478257614781613fc2565b5b600083013567ffffffffffffffff8111156147a05761479f613fc7565b5b6147ac8582860161473d565b925050602083013567ffffffffffffffff8111156147cd576147cc613fc7565b5b6147d98582860161473d565b9150509250929050565b60006101208201905081810360008301526147fe818c61429a565b90508181036020830152614812818b61429a565b90508181036040830152614826818a61429a565b905061483560608301896144b7565b61484260808301886144b7565b61484f60a08301876144b7565b61485c60c08301866144b7565b61486960e08301856144b7565b6148776101008301846144b7565b9a9950505050505050505050565b60006020828403121561489b5761489a613fc2565b5b60006148a9848285016141e5565b91505092915050565b60006020820190506148c760008301846144b7565b92915050565b6148d681614166565b81146148e157600080fd5b50565b6000813590506148f3816148cd565b92915050565b600080604083850312156149105761490f613fc2565b5b600061491e858286016141e5565b925050602061492f858286016148e4565b9150509250929050565b6000806000806080858703121561495357614952613fc2565b5b6000614961878288016141e5565b9450506020614972878288016141e5565b935050604061498387828801613fed565b925050606085013567ffffffffffffffff8111156149a4576149a3613fc7565b5b6149b08782880161473d565b91505092959194509250565b6000806000606084860312156149d5576149d4613fc2565b5b60006149e386828701613fed565b93505060206149f4868287016141e5565b9250506040614a0586828701614229565b9150509250925092565b6000604082019050614a2460008301856144b7565b8181036020830152614a368184614086565b90509392505050565b60008060408385031215614a5657614a55613fc2565b5b6000614a64858286016141e5565b9250506020614a75858286016141e5565b9150509250929050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b60006002820490506001821680614ac657607f821691505b602082108103614ad957614ad8614a7f565b5b50919050565b6000606082019050614af460008301866142f5565b614b0160208301856144b7565b614b0e60408301846142f5565b949350505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b6000614b5082613fcc565b9150614b5b83613fcc565b9250828202614b6981613fcc565b91508282048414831517614b8057614b7f614b16565b5b5092915050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601260045260246000fd5b6000614bc182613fcc565b9150614bcc83613fcc565b925082614bdc57614bdb614b87565b5b828204905092915050565b7f4d696e74206e6f74207374617274656400000000000000000000000000000000600082015250565b6000614c1d601083614289565b9150614c2882614be7565b602082019050919050565b60006020820190508181036000830152614c4c81614c10565b9050919050565b6000614c5e82613fcc565b9150614c6983613fcc565b9250828201905080821115614c8157614c80614b16565b5b92915050565b7f4d696e7420656e64656400000000000000000000000000000000000000000000600082015250565b6000614cbd600a83614289565b9150614cc882614c87565b602082019050919050565b60006020820190508181036000830152614cec81614cb0565b9050919050565b7f4d617820737570706c7920726561636865640000000000000000000000000000600082015250565b6000614d29601283614289565b9150614d3482614cf3565b602082019050919050565b60006020820190508181036000830152614d5881614d1c565b9050919050565b6000604082019050614d7460008301856144b7565b614d8160208301846144b7565b9392505050565b6000614d9382613fcc565b91507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8203614dc557614dc4614b16565b5b600182019050919050565b60008160001c9050919050565b60008160e81b9050919050565b6000614df582614ddd565b9050919050565b6000614e0f614e0a83614dd0565b614dea565b9050919050565b614e1f816144ef565b82525050565b60008160181c9050919050565b6000614e45614e4083614e25565b614dea565b9050919050565b60008160301c9050919050565b6000614e6c614e6783614e4c565b614dea565b9050919050565b60008160481c9050919050565b6000614e93614e8e83614e73565b614dea565b9050919050565b60008160601c9050919050565b6000614eba614eb583614e9a565b614dea565b9050919050565b60008160781c9050919050565b600060ff82169050919050565b6000614eee614ee983614ec1565b614ece565b9050919050565b614efe81614580565b82525050565b60008160801c9050919050565b6000614f24614f1f83614f04565b614ece565b9050919050565b60008160881c9050919050565b600060ff82169050919050565b6000614f58614f5383614f2b565b614f38565b9050919050565b614f68816145a1565b82525050565b61010082016000808301549050614f8481614dfc565b614f916000860182614e16565b50614f9b81614e32565b614fa86020860182614e16565b50614fb281614e59565b614fbf6040860182614e16565b50614fc981614e80565b614fd66060860182614e16565b50614fe081614ea7565b614fed6080860182614e16565b50614ff781614edb565b61500460a0860182614ef5565b5061500e81614f11565b61501b60c0860182614ef5565b5061502581614f45565b61503260e0860182614f5f565b5050505050565b60006101008201905061504f6000830184614f6e565b92915050565b6000615068615063846146bb565b6146a0565b9050828152602081018484840111156150845761508361463b565b5b61508f84828561404b565b509392505050565b600082601f8301126150ac576150ab61435f565b5b81516150bc848260208601615055565b91505092915050565b6000602082840312156150db576150da613fc2565b5b600082015167ffffffffffffffff8111156150f9576150f8613fc7565b5b61510584828501615097565b91505092915050565b60008190508160005260206000209050919050565b60006020601f8301049050919050565b600082821b905092915050565b6000600883026151707fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff82615133565b61517a8683615133565b95508019841693508086168417925050509392505050565b6000819050919050565b60006151b76151b26151ad84613fcc565b615192565b613fcc565b9050919050565b6000819050919050565b6151d18361519c565b6151e56151dd826151be565b848454615140565b825550505050565b600090565b6151fa6151ed565b6152058184846151c8565b505050565b5b818110156152295761521e6000826151f2565b60018101905061520b565b5050565b601f82111561526e5761523f8161510e565b61524884615123565b81016020851015615257578190505b61526b61526385615123565b83018261520a565b50505b505050565b600082821c905092915050565b600061529160001984600802615273565b1980831691505092915050565b60006152aa8383615280565b9150826002028217905092915050565b6152c38261402f565b67ffffffffffffffff8111156152dc576152db614640565b5b6152e68254614aae565b6152f182828561522d565b600060209050601f8311600181146153245760008415615312578287015190505b61531c858261529e565b865550615384565b601f1984166153328661510e565b60005b8281101561535a57848901518255600182019150602085019450602081019050615335565b868310156153775784890151615373601f891682615280565b8355505b6001600288020188555050505b505050505050565b60006060820190506153a160008301866144b7565b6153ae60208301856142f5565b6153bb60408301846144b7565b949350505050565b600081549050919050565b600082825260208201905092915050565b60008190508160005260206000209050919050565b6000819050919050565b600061541161540c83614dd0565b6153f4565b9050919050565b61542181613fcc565b82525050565b600082825260208201905092915050565b6000815461544581614aae565b61544f8186615427565b9450600182166000811461546a5760018114615480576154b3565b60ff1983168652811515602002860193506154b3565b6154898561510e565b60005b838110156154ab5781548189015260018201915060208101905061548c565b808801955050505b50505092915050565b60006040830160008084015490506154d3816153fe565b6154e06000870182615418565b506001840185830360208701526154f78382615438565b925050819250505092915050565b600061551183836154bc565b905092915050565b6000600282019050919050565b6000615531826153c3565b61553b81856153ce565b93508360208202850161554d856153df565b8060005b85811015615588578484038952816155698582615505565b945061557483615519565b925060208a01995050600181019050615551565b50829750879550505050505092915050565b600060208201905081810360008301526155b48184615526565b905092915050565b600081905092915050565b600081546155d481614aae565b6155de81866155bc565b945060018216600081146155f9576001811461560e57615641565b60ff1983168652811515820286019350615641565b6156178561510e565b60005b838110156156395781548189015260018201915060208101905061561a565b838801955050505b50505092915050565b600081905092915050565b7f3c672069643d2264726177696e672d617265612220636c69702d706174683d2260008201527f75726c282363616e7661732d636c6970292220646174612d746f6b656e3d2200602082015250565b60006156b1603f8361564a565b91506156bc82615655565b603f82019050919050565b60006156d28261427e565b6156dc818561564a565b93506156ec81856020860161404b565b80840191505092915050565b7f223e000000000000000000000000000000000000000000000000000000000000600082015250565b600061572e60028361564a565b9150615739826156f8565b600282019050919050565b600061574f8261402f565b61575981856155bc565b935061576981856020860161404b565b80840191505092915050565b7f3c2f673e00000000000000000000000000000000000000000000000000000000600082015250565b60006157ab60048361564a565b91506157b682615775565b600482019050919050565b60006157cd82886155c7565b91506157d982876155c7565b91506157e4826156a4565b91506157f082866156c7565b91506157fb82615721565b91506158078285615744565b91506158128261579e565b915061581e82846155c7565b91508190509695505050505050565b60008190508160005260206000209050919050565b6000815461584f81614aae565b6158598186614289565b94506001821660008114615874576001811461588a576158bd565b60ff1983168652811515602002860193506158bd565b6158938561582d565b60005b838110156158b557815481890152600182019150602081019050615896565b808801955050505b50505092915050565b60006101808201905081810360008301526158e1818861429a565b90506158f060208301876144b7565b81810360408301526159028186615842565b90508181036060830152615916818561429a565b90506159256080830184614f6e565b9695505050505050565b600061594a615945615940846141fa565b615192565b613fcc565b9050919050565b61595a8161592f565b82525050565b60006040820190506159756000830185615951565b61598260208301846144b7565b9392505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b600080fd5b600080fd5b600080fd5b6000823560016040038336030381126159e3576159e26159b8565b5b80830191505092915050565b600080fd5b600080fd5b600060408284031215615a0f57615a0e6159ef565b5b615a1960406146a0565b90506000615a2984828501613fed565b600083015250602082013567ffffffffffffffff811115615a4d57615a4c6159f4565b5b615a598482850161473d565b60208301525092915050565b6000615a7136836159f9565b9050919050565b60008135615a8581613fd6565b80915050919050565b60008160001b9050919050565b60007fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff615ac784615a8e565b9350801983169250808416831791505092915050565b615ae68261519c565b615af9615af2826151be565b8354615a9b565b8255505050565b60008083356001602003843603038112615b1d57615b1c6159b8565b5b80840192508235915067ffffffffffffffff821115615b3f57615b3e6159bd565b5b602083019250600182023603831315615b5b57615b5a6159c2565b5b509250929050565b600082905092915050565b615b788383615b63565b67ffffffffffffffff811115615b9157615b90614640565b5b615b9b8254614aae565b615ba682828561522d565b6000601f831160018114615bd55760008415615bc3578287013590505b615bcd858261529e565b865550615c35565b601f198416615be38661510e565b60005b82811015615c0b57848901358255600182019150602085019450602081019050615be6565b86831015615c285784890135615c24601f891682615280565b8355505b6001600288020188555050505b50505050505050565b615c49838383615b6e565b505050565b600081016000830180615c6081615a78565b9050615c6c8184615add565b5050506001810160208301615c818185615b00565b615c8c818386615c3e565b505050505050565b615c9e8282615c4e565b5050565b6000615cad826145a1565b915060ff8203615cc057615cbf614b16565b5b600182019050919050565b6000608082019050615ce060008301876142f5565b615ced60208301866142f5565b615cfa60408301856144b7565b8181036060830152615d0c8184614086565b905095945050505050565b600081519050615d268161410d565b92915050565b600060208284031215615d4257615d41613fc2565b5b6000615d5084828501615d17565b91505092915050565b6000606082019050615d6e60008301866144b7565b615d7b6020830185615951565b615d8860408301846144b7565b949350505050565b6000604082019050615da560008301856144b7565b615db260208301846142f5565b9392505050565b6000602082019050615dce600083018461451b565b92915050565b6000602082019050615de960008301846145ae565b92915050565b600061ffff82169050919050565b6000615e18615e13615e0e84615def565b615192565b613fcc565b9050919050565b615e2881615dfd565b82525050565b6000602082019050615e436000830184615e1f565b92915050565b6000615e5482613fcc565b9150615e5f83613fcc565b9250828203905081811115615e7757615e76614b16565b5b92915050565b6000819050919050565b615e98615e9382613fcc565b615e7d565b82525050565b60008160601b9050919050565b6000615eb682615e9e565b9050919050565b6000615ec882615eab565b9050919050565b615ee0615edb826141bc565b615ebd565b82525050565b6000615ef28288615e87565b602082019150615f028287615e87565b602082019150615f128286615e87565b602082019150615f228285615e87565b602082019150615f328284615ecf565b6014820191508190509695505050505050565b6000615f5082613fcc565b9150615f5b83613fcc565b925082615f6b57615f6a614b87565b5b828206905092915050565b600062ffffff82169050919050565b6000615f9082615f76565b915062ffffff8203615fa557615fa4614b16565b5b60018201905091905056fea2646970667358221220c34dc3e6efa9ac9b344059509a6e2ba5be2046c0bd2d47aff0d7ca9abdf380ed64736f6c634300081c0033";
+  "0x60806040523461068f576166fb8038038061001981610694565b9283398101906101608183031261068f5780516001600160401b03811161068f57826100469183016106b9565b60208201519092906001600160401b03811161068f57816100689184016106b9565b604083015190916001600160401b03821161068f576100889184016106b9565b606083015161009960808501610724565b916100a660a08601610724565b60c0860151909390926001600160601b0384169283850361068f5760e088015195610100890151976101406101208b01519a01519a80519060018060401b0382116103595760005490600182811c92168015610685575b60208310146104825781601f849311610616575b50602090601f83116001146105b0576000926105a5575b50508160011b916000199060031b1c1916176000555b8051906001600160401b0382116103595760015490600182811c9216801561059b575b60208310146104825781601f84931161052b575b50602090601f83116001146104c3576000926104b8575b50508160011b916000199060031b1c1916176001555b6001600160a01b031680156104a257600880546001600160a01b0319811683179091556001600160a01b03167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0600080a38051906001600160401b03821161035957600e5490600182811c92168015610498575b60208310146104825781601f849311610412575b50602090601f83116001146103aa5760009261039f575b50508160011b916000199060031b1c191617600e555b601355601480546001600160a01b0319166001600160a01b0392909216919091179055604051608081016001600160401b03811182821017610359576040908152600a8252605a60208301526103d490820152610384606090910152601180546001600160401b03191667038403d4005a000a1790556008546001600160a01b031690612710811161038557811561036f5760408051908101906001600160401b03821181831017610359576040918252838152602001919091526001600160a01b0390911660a09290921b6001600160a01b0319169190911760065560159190915560169190915560179190915560189190915551615fc290816107398239f35b634e487b7160e01b600052604160045260246000fd5b635b6cc80560e11b600052600060045260246000fd5b636f483d0960e01b60005260045261271060245260446000fd5b015190503880610241565b600e60009081528281209350601f198516905b8181106103fa57509084600195949392106103e1575b505050811b01600e55610257565b015160001960f88460031b161c191690553880806103d3565b929360206001819287860151815501950193016103bd565b600e6000529091507fbb7b4a454dc3493923482f07822329ed19e8244eff582cc204f8554c3620c3fd601f840160051c81019160208510610478575b90601f859493920160051c01905b818110610469575061022a565b6000815584935060010161045c565b909150819061044e565b634e487b7160e01b600052602260045260246000fd5b91607f1691610216565b631e4fbdf760e01b600052600060045260246000fd5b01519050388061018c565b600160009081528281209350601f198516905b81811061051357509084600195949392106104fa575b505050811b016001556101a2565b015160001960f88460031b161c191690553880806104ec565b929360206001819287860151815501950193016104d6565b60016000529091507fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6601f840160051c81019160208510610591575b90601f859493920160051c01905b8181106105825750610175565b60008155849350600101610575565b9091508190610567565b91607f1691610161565b015190503880610128565b60008080528281209350601f198516905b8181106105fe57509084600195949392106105e5575b505050811b0160005561013e565b015160001960f88460031b161c191690553880806105d7565b929360206001819287860151815501950193016105c1565b600080529091507f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e563601f840160051c8101916020851061067b575b90601f859493920160051c01905b81811061066c5750610111565b6000815584935060010161065f565b9091508190610651565b91607f16916100fd565b600080fd5b6040519190601f01601f191682016001600160401b0381118382101761035957604052565b81601f8201121561068f578051906001600160401b038211610359576106e8601f8301601f1916602001610694565b928284526020838301011161068f5760005b82811061070f57505060206000918301015290565b806020809284010151828287010152016106fa565b51906001600160a01b038216820361068f5756fe608080604052600436101561001357600080fd5b60003560e01c9081620e7fa814612e1957508062da1f5914612dfa57806301ffc9a714612d4057806304634d8d14612c8d57806306fdde0314612c69578063081812fc14612c2b578063095ea7b314612b3c5780630987561d14612aa05780630e83c7d7146128fc5780630f4d962b146128d657806310c35f781461285b5780631368e7c3146127df5780631565e0471461279857806319165587146127775780631c1e8d0c1461275b5780632102d43f146126235780632350826b146125ef57806323b872dd146125d857806327562bde1461255757806327f38113146123de5780632a55205a1461235e5780632d72225b146122b35780633ccfd60b146122325780633cef28d2146121f85780633d525d2f1461209d5780633ecd2b6c1461204657806340c10f1914611ed457806342842e0e14611eaa57806346dd18dd14611e7157806349f2553a14611c6d5780634dec73e914611bd757806353a0680414611bab578063542f324414611ab857806356d3163d14611a2d5780635868c32a14611a0f57806359f1d9c2146117835780636352211e1461175357806367c897fe146116955780636e50cea614611661578063706e9c931461158d57806370a0823114611537578063715018a6146114da5780637960c27f146114a1578063854496971461148357806388e99262146113c85780638ada6b0f1461139f5780638da5cb5b146113765780639338bb5d1461135a57806393f7c1011461109c57806395d89b41146110715780639b8e9b5e1461102c5780639bac5f7a14610f795780639e6a1d7d14610f405780639f181b5e14610f22578063a22cb46514610e81578063a3f8eace14610e56578063a48ea6de14610e2a578063b88d4fde14610ddc578063bae0b0a514610d6c578063bc660cac14610d32578063bcc7445f14610a48578063bdd3530914610a1c578063c87b56dd14610833578063cbb6160814610807578063d5abeb01146107e9578063d62f7a671461078d578063d8e1249a1461076f578063d97ebf841461073d578063dd843f8014610716578063de8801e5146106f8578063e4d61e9e14610641578063e5c0560314610611578063e985e9c5146105b6578063f1d5f5171461057d578063f222783b14610488578063f2fde38b146103fe5763f4a0a5281461036c57600080fd5b346103f95760203660031901126103f95761038561494c565b600435601555600080516020615f0d8339815191526103f46103a5614602565b6040519182918291909160c08060e0830194805184526020810151602085015260408101516040850152606081015160608501526080810151608085015260a081015160a08501520151910152565b0390a1005b600080fd5b346103f95760203660031901126103f957610417612e7c565b61041f61494c565b6001600160a01b0316801561047257600880546001600160a01b0319811683179091556001600160a01b03167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0600080a3005b631e4fbdf760e01b600052600060045260246000fd5b346103f95760203660031901126103f9576104ea60006004356104aa81614975565b506104c66001600160a01b036104bf836149ac565b1691614d93565b90604051808095819463a651e0c160e01b835260a0600484015260a483019061351f565b61051f6024830160606011548060010b83528060101c60010b60208401528060201c60010b604084015260301c60010b910152565b03915afa80156105715761054a9160009161054e575b50604051918291602083526020830190612e57565b0390f35b61056b91503d806000833e61056381836132dd565b810190613360565b82610535565b6040513d6000823e3d90fd5b346103f95760203660031901126103f95761059661494c565b600435601955600080516020615f0d8339815191526103f46103a5614602565b346103f95760403660031901126103f9576105cf612e7c565b6105d7612e92565b9060018060a01b0316600052600560205260406000209060018060a01b0316600052602052602060ff604060002054166040519015158152f35b346103f95760403660031901126103f957602061063761062f612e92565b600435614850565b6040519015158152f35b346103f95761064f36612ea8565b9061065981614d35565b61066281614d69565b811515806106d9575b6106c45780807f7cde6e504cb72bec4242d1b93f14b6917a6c02c81a3375410ec8cd76824038806020600080516020615f4d833981519152958195600052602a825280604060002055604051908152a2604051908152a1005b5063a58c2a2560e01b60005260045260246000fd5b506000828152602860205260409020546001600160a01b03161561066b565b346103f95760003660031901126103f9576020601d54604051908152f35b346103f95760203660031901126103f9576020610734600435614d93565b54604051908152f35b346103f95761076d61074e36612eee565b9061075883614d35565b82600052602460205260406000205492614e11565b005b346103f95760003660031901126103f9576020602954604051908152f35b346103f95760016107af6107aa6107a336612ea8565b9190614d93565b6135c1565b506107cd8154916107c660405180958193016131ed565b03836132dd565b61054a6040519283928352604060208401526040830190612e57565b346103f95760003660031901126103f9576020601354604051908152f35b346103f95760203660031901126103f957600435600052602a6020526020604060002054604051908152f35b346103f95760203660031901126103f95760043561085081614975565b5061085a816149ac565b9061086481614d93565b604051637889b61560e01b815260206004820152926001600160a01b0316919060008480610895602482018561351f565b0381865afa938415610571576000946109ff575b5060405190816108b881613043565b036108c390836132dd565b6108cd85846149e9565b6000848152602080805260408083206026835281842054602790935292819020549051633aa9902b60e21b8152610280600482015298899788976001600160a01b03909316969592610924906102848a0190612e57565b90602489015260031988820301604489015261093f90613168565b87810360031901606489015261095491612e57565b86810360031901608488015261096991612e57565b9160a486016109a09060606011548060010b83528060101c60010b60208401528060201c60010b604084015260301c60010b910152565b61012486016109ae91613a53565b610224850152838103600319016102448501526109ca9161351f565b9061026483015203815a93600094fa80156105715761054a9160009161054e5750604051918291602083526020830190612e57565b610a159194503d806000833e61056381836132dd565b92846108a9565b346103f95760203660031901126103f95760043560005260246020526020604060002054604051908152f35b346103f95760403660031901126103f9576004356001600160401b0381116103f957610a78903690600401612ebe565b906024356001600160401b0381116103f957610a98903690600401612ebe565b929091610aa361494c565b838203610c7f57610ab261582b565b60005b600954811015610aee5780610acb6001926145c7565b838060a01b0391549060031b1c16600052600a6020526000604081205501610ab5565b509091600954600060095580610cd0575b506000600b5560005b838110610b9b575060405192806040850160408652526060840192906000905b808210610b65577fe513d216117f51d2e3f1d22d007ed71d23a52c0bcc410e8258732d682fe3db9386806103f4888b8984830360208601526137b0565b91939091908435906001600160a01b03821682036103f9576001600160a01b039091168152602090810194019160010190610b28565b6001600160a01b03610bb6610bb183878761358c565b61483c565b16158015610cbd575b8015610c90575b610c7f57610bd8610bb182868661358c565b9060095491600160401b831015610c6957610bfa8360018095016009556145c7565b819291549060031b91858060a01b0316821b91858060a01b03901b1916179055610c2581878561358c565b35828060a01b03610c3a610bb184898961358c565b16600052600a602052604060002055610c60610c5782888661358c565b35600b546137f8565b600b5501610b08565b634e487b7160e01b600052604160045260246000fd5b630582b8e160e31b60005260046000fd5b506001600160a01b03610ca7610bb183878761358c565b16600052600a6020526040600020541515610bc6565b50610cc981868461358c565b3515610bbf565b60096000527f6e1540171b6c0c960b71a7020d9f60077f6af931a8bbf590da0223dacf75c7af017f6e1540171b6c0c960b71a7020d9f60077f6af931a8bbf590da0223dacf75c7af5b818110610d265750610aff565b60008155600101610d19565b346103f95760203660031901126103f9576001600160a01b03610d53612e7c565b16600052601f6020526020604060002054604051908152f35b346103f95760803660031901126103f9577f1b2f8f894211ac7f12917463adb7fc11bb80dec57f46ff148b23b4521968ed746080600435606435604435602435610db461494c565b83601b5580601c5581601d5582601e55604051938452602084015260408301526060820152a1005b346103f95760803660031901126103f957610df5612e7c565b610dfd612e92565b606435916001600160401b0383116103f957610e2061076d933690600401613319565b9160443591614716565b346103f95760203660031901126103f95760043560005260266020526020604060002054604051908152f35b346103f95760203660031901126103f9576020610e79610e74612e7c565b61467d565b604051908152f35b346103f95760403660031901126103f957610e9a612e7c565b602435908115158092036103f9576001600160a01b0316908115610f0d57336000526005602052604060002082600052602052604060002060ff1981541660ff83161790556040519081527f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c3160203392a3005b50630b61174360e31b60005260045260246000fd5b346103f95760003660031901126103f9576020601254604051908152f35b346103f95760203660031901126103f957610f5961494c565b600435601655600080516020615f0d8339815191526103f46103a5614602565b346103f95760203660031901126103f957600435610f9681614975565b50610fdb60006001600160a01b03610fad846149ac565b16610fb784614d93565b906040518080958194637889b61560e01b835260206004840152602483019061351f565b03915afa80156105715761054a92610ffb9260009261100f575b506149e9565b604051918291602083526020830190612e57565b6110259192503d806000833e61056381836132dd565b9084610ff5565b346103f95760003660031901126103f9576080601154604051908060010b82528060101c60010b60208301528060201c60010b604083015260301c60010b6060820152f35b346103f95760003660031901126103f95761054a604051610ffb81611095816130e3565b03826132dd565b60803660031901126103f9576110b0612e7c565b602435604435916064356001600160401b0381116103f9576110d6903690600401612ebe565b601b549193821561132757601d548042106112eb57601e546110f7916137f8565b42116112b557601254601354111561127a5780156112695761111b9094919461599c565b60408051336020820190815281830189905291815291959161113e6060826132dd565b519020604051602081019182526020815261115a6040826132dd565b519020916000915b80831061122657505050036112115733600052601f602052604060002054928061118c84866137f8565b116111f4575061119e82601c54613712565b928334106111db578261076d94926111bc6111d6956111d0946137f8565b33600052601f6020526040600020556159bd565b346137d4565b615b2f565b8363b99e2ab760e01b6000526004523460245260446000fd5b83906331f23ae960e01b6000523360045260245260445260646000fd5b636048a6a360e11b6000523360045260246000fd5b90919261123484838561358c565b35906000828210156112585750600052602052600160406000205b93019190611162565b60409160019382526020522061124f565b63524f409b60e01b60005260046000fd5b604051637d49ce7360e11b815260206004820152601260248201527113585e081cdd5c1c1b1e481c995858da195960721b6044820152606490fd5b604051637d49ce7360e11b815260206004820152600d60248201526c141c995cd85b1948195b991959609a1b6044820152606490fd5b604051637d49ce7360e11b8152602060048201526013602482015272141c995cd85b19481b9bdd081cdd185c9d1959606a1b6044820152606490fd5b604051637d49ce7360e11b815260206004820152600a6024820152694e6f2070726573616c6560b01b6044820152606490fd5b346103f95760003660031901126103f95761054a6103a5614602565b346103f95760003660031901126103f9576008546040516001600160a01b039091168152602090f35b346103f95760003660031901126103f9576014546040516001600160a01b039091168152602090f35b346103f95760003660031901126103f95760405160006010546113ea81613009565b808452906001811690811561145f5750600114611412575b61054a83610ffb818503826132dd565b60106000908152600080516020615f2d833981519152939250905b80821061144557509091508101602001610ffb611402565b91926001816020925483858801015201910190929161142d565b60ff191660208086019190915291151560051b84019091019150610ffb9050611402565b346103f95760003660031901126103f9576020601b54604051908152f35b346103f95760203660031901126103f9576114ba61494c565b600435601755600080516020615f0d8339815191526103f46103a5614602565b346103f95760003660031901126103f9576114f361494c565b600880546001600160a01b031981169091556000906001600160a01b03167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08280a3005b346103f95760203660031901126103f9576001600160a01b03611558612e7c565b1680156115775760005260036020526020604060002054604051908152f35b6322718ad960e21b600052600060045260246000fd5b346103f95761159b36612ea8565b906115a581614d35565b6115ae81614d69565b6115b781614d93565b90815480841161164957505b82825411156115da576115d582613725565b6115c3565b6020600080516020615f4d83398151915291848160005260278352604060002060018060a01b0333166001600160601b0360a01b825416179055604051908152817fd5dc858ec3654ab9c50889c48d85b4f145f6af84582ce85dd4961c05c9d0260a843393a3604051908152a1005b83633d71388b60e21b60005260045260245260446000fd5b346103f95760203660031901126103f9576004356000526027602052602060018060a01b0360406000205416604051908152f35b346103f95760003660031901126103f9576117136040516116b98161109581613043565b6040516116c981611095816130e3565b60125490601354601554601654906017549261172f60185495611721604051916116fd836116f681613168565b03846132dd565b6040519b8c9b6101208d526101208d0190612e57565b908b820360208d0152612e57565b9089820360408b0152612e57565b956060880152608087015260a086015260c085015260e08401526101008301520390f35b346103f95760203660031901126103f9576020611771600435614975565b6040516001600160a01b039091168152f35b346103f95760403660031901126103f9576004356001600160401b0381116103f9576117b3903690600401613319565b6024356001600160401b0381116103f9576117d2903690600401613319565b6117da61494c565b81516001600160401b038111610c69576117f5600f54613009565b601f81116119d2575b50602092601f82116001146119625761183192938291600092611957575b50508160011b916000199060031b1c19161790565b600f555b80516001600160401b038111610c6957611850601054613009565b601f811161190f575b50602091601f82116001146118a05761188992600091836118955750508160011b916000199060031b1c19161790565b6010555b61076d61595e565b01519050838061181c565b601f198216926010600052600080516020615f2d8339815191529160005b8581106118f7575083600195106118de575b505050811b0160105561188d565b015160001960f88460031b161c191690558280806118d0565b919260206001819286850151815501940192016118be565b601060005261194790600080516020615f2d833981519152601f840160051c8101916020851061194d575b601f0160051c01906135dd565b82611859565b909150819061193a565b01519050848061181c565b601f19821693600f600052600080516020615f6d8339815191529160005b8681106119ba57508360019596106119a1575b505050811b01600f55611835565b015160001960f88460031b161c19169055838080611993565b91926020600181928685015181550194019201611980565b600f600052611a0990600080516020615f6d833981519152601f840160051c8101916020851061194d57601f0160051c01906135dd565b836117fe565b346103f95760003660031901126103f9576020601e54604051908152f35b346103f95760203660031901126103f957611a46612e7c565b611a4e61494c565b803b15611aa757601480546001600160a01b0319166001600160a01b0390921691821790556040519081527f482cbbbcf912da3be80deb8503ae1e94c0b7d5d1d0ec0af3d9d6403e06e609ee90602090a161076d61595e565b630161139960e31b60005260046000fd5b346103f95760403660031901126103f957600435611ad4612e92565b611adc61494c565b81158015611b7f575b6106c4576001600160a01b038116908115159081611b75575b50611aa7577f86347a523789efa6db4d7342960a796fb0f879e04b0db6a885cd4bc6ca71b280916040916029548211611b6c575b6000828152602860209081529084902080546001600160a01b0319166001600160a01b0384161790558351928352820152a161076d61595e565b81602955611b32565b90503b1583611afe565b5060295460018101809111611b95578211611ae5565b634e487b7160e01b600052601160045260246000fd5b346103f95760203660031901126103f95760043560005260226020526020604060002054604051908152f35b346103f95760003660031901126103f9576040516000600f54611bf981613009565b808452906001811690811561145f5750600114611c205761054a83610ffb818503826132dd565b600f6000908152600080516020615f6d833981519152939250905b808210611c5357509091508101602001610ffb611402565b919260018160209254838588010152019101909291611c3b565b346103f95760203660031901126103f9576004356001600160401b0381116103f957366023820112156103f9578060040135906001600160401b0382116103f95736602483830101116103f957611cc261494c565b600090611cd0600e54613009565b601f8111611e23575b508192601f8111600114611d765760249181611d308160409487987ff2386706b3353800c70bbf31208c517b375cb676326bd56d010a4591d17b36e89891611d69575b508160011b916000199060031b1c19161790565b600e555b8083519485936020855282602086015201848401378181018301869052601f01601f19168101030190a1611d6661595e565b80f35b8791508501013589611d1c565b600e83527fbb7b4a454dc3493923482f07822329ed19e8244eff582cc204f8554c3620c3fd601f198216845b818110611e08575091602493917ff2386706b3353800c70bbf31208c517b375cb676326bd56d010a4591d17b36e895968260409510611dec575b5050600181811b01600e55611d34565b8301850135600019600384901b60f8161c191690558680611ddc565b84870160240135835560209687019660019093019201611da2565b600e8352611e6b907fbb7b4a454dc3493923482f07822329ed19e8244eff582cc204f8554c3620c3fd601f860160051c8101916020871061194d57601f0160051c01906135dd565b83611cd9565b346103f95760203660031901126103f957611e8a61494c565b600435601855600080516020615f0d8339815191526103f46103a5614602565b346103f95761076d611ebb36612fac565b9060405192611ecb6020856132dd565b60008452614716565b60403660031901126103f957611ee8612e7c565b60243560175480421061200d57601854611f01916137f8565b4211611fda57601254601354111561127a5760165481118015611fd2575b61126957611f2c9061599c565b611f3881601554613712565b90813410611fb95733600052601a6020526040600020549260195480151580611fa7575b611f8a5761076d6111d6856111d08686611f76828c6137f8565b33600052601a6020526040600020556159bd565b849063360b942360e01b6000523360045260245260445260646000fd5b5080611fb384876137f8565b11611f5c565b5063b99e2ab760e01b6000526004523460245260446000fd5b508015611f1f565b604051637d49ce7360e11b815260206004820152600a602482015269135a5b9d08195b99195960b21b6044820152606490fd5b604051637d49ce7360e11b815260206004820152601060248201526f135a5b9d081b9bdd081cdd185c9d195960821b6044820152606490fd5b346103f95761051f600061208161205c36612f21565b90612068839493614975565b506001600160a01b0361207a856149ac565b1693613866565b906040518080958194637889b61560e01b835260048301612f3b565b346103f95760803660031901126103f9576004356120b9612e92565b90604435916001600160401b0383168093036103f95760643563ffffffff81168091036103f9577fe0335ee81f6e0d614dfc05c8428656837dc128a3f618c7544349018c9e7b57659160409161210e85614d35565b85612152576000858152602560209081528482206001600160a01b03851683529052838120818155600101555b825195865260208601526001600160a01b031693a3005b61215b85614975565b8351906121678261328b565b6001600160a01b03908116825260208083018981528684018581526000606086018181528b825260258552898220898716835290945288902094519151905160a09190911b67ffffffffffffffff60a01b16919093161760e09290921b6001600160e01b03191691909117825551600191909101805463ffffffff191663ffffffff9290921691909117905561213b565b346103f95760203660031901126103f9576001600160a01b03612219612e7c565b16600052601a6020526020604060002054604051908152f35b346103f95760003660031901126103f95761224b61494c565b60018060a01b0360085416600b5415158061229d575b80612287575b6122745761076d90613984565b62a4bb1960e71b60005260045260246000fd5b5080600052600c60205260406000205415612267565b5080600052600a60205260406000205415612261565b346103f95760203660031901126103f9576004356000526020805261010060406000205460ff6040519162ffffff60e81b8160e81b16835262ffffff60e81b8160d01b16602084015262ffffff60e81b8160b81b16604084015262ffffff60e81b8160a01b16606084015262ffffff60e81b8160881b16608084015261234160a08401838360781c16612fe6565b61235360c08401838360801c16612fe6565b60881c1660e0820152f35b346103f95761236c36612ea8565b600091825260076020526040909120546001600160a01b038116919060a01c82156123c6575b612710916001600160601b036123a9921690613712565b604080516001600160a01b03949094168452919004602083015290f35b506006546001600160a01b038116925060a01c612392565b346103f95760003660031901126103f9576009546123fb816137e1565b9061240960405192836132dd565b808252612415816137e1565b602083019190601f190136833760005b81811061251e5750906040519160208382815201809160096000527f6e1540171b6c0c960b71a7020d9f60077f6af931a8bbf590da0223dacf75c7af9060005b8181106124ff575050508361247b9103846132dd565b6040519384936040850190604086525180915260608501929060005b8181106124dd5750505060209084830382860152519182815201919060005b8181106124c4575050500390f35b82518452859450602093840193909201916001016124b6565b82516001600160a01b0316855287965060209485019490920191600101612497565b82546001600160a01b0316845260209093019260019283019201612465565b8061252a6001926145c7565b838060a01b0391549060031b1c16600052600a6020526040600020546125508287613852565b5201612425565b346103f95761256536612ea8565b61256e82614975565b5060006125b36001600160a01b03612585856149ac565b1661258f85614d93565b6040518095819482936323fc67f360e21b845260406004850152604484019061351f565b90602483015203915afa80156105715761054a92610ffb9260009261100f57506149e9565b346103f95761076d6125e936612fac565b91614471565b346103f95760203660031901126103f9576004356000526028602052602060018060a01b0360406000205416604051908152f35b346103f95760803660031901126103f957600061263e61494c565b80612647614451565b60010b13801590612747575b612738576004358060010b8082036127305760115490602435908160010b9283830361273457612681614451565b60201b61268c614461565b60301b67ffff000000000000169167ffff000000000000199061ffff88169065ffffffffffff1916171663ffff00008560101b16179065ffff00000000161717601155604051935083525060208201526044358060010b8091036127305760408201526064358060010b809103612730578160809160607f2f348afd1cbddee0a8d94b1f8f39348459ee688fe2deb3b46a640e987f7e3978940152a1611d6661595e565b8280fd5b8580fd5b633d24eead60e11b8152600490fd5b5080612751614461565b60010b1315612653565b346103f95760203660031901126103f95761076d600435613ad8565b346103f95760203660031901126103f95761076d612793612e7c565b613984565b346103f9576127a636612eee565b6000838152602460205260409020549291836127c95761076d9350600092614e11565b6000198401938411611b955761076d9392614e11565b346103f95760403660031901126103f9576127f8612e92565b600435600052602560205260406000209060018060a01b03166000526020526080604060002063ffffffff60018254920154166040519160018060a01b03811683526001600160401b038160a01c16602084015260e01c60408301526060820152f35b346103f95760203660031901126103f957600080516020615f4d833981519152602060043561288981614d35565b61289281614d69565b806000526026825243604060002055604051438152817ff06715a25709a516aae5c2ee1165425ad5335e88afda769a213959c8dc7a4bd0843393a3604051908152a1005b346103f95761054a6128f06128ea36612f21565b91613866565b60405191829182612f3b565b346103f95761290a36612eee565b612915839293614d35565b61291e82614d69565b61292782614d93565b92835482156112695760008235805b838210612a015750508381036129de57505060005b8281106129cc5760008481526027602090815260409182902080546001600160a01b031916339081179091559151818152600080516020615f4d83398151915292879182907fc8a99620975aaa3c2e2c0baf2afa351afd1e87f01dd1eb071cb11058f214d31690806129c08188018c8c6137b0565b0390a3604051908152a1005b6001906129d886613725565b0161294b565b90926129e99261358c565b35633d71388b60e21b60005260045260245260446000fd5b85831080612a8c575b612a7957612a1882896135c1565b5090612a24818a6135c1565b919091612a63578282600194612a419403612a4a575b50506135b2565b915b0190612936565b848083612a5c94548455019101613630565b8a80612a3a565b634e487b7160e01b600052600060045260246000fd5b9091612a866001916135b2565b92612a43565b50612a9883878761358c565b358214612a0a565b346103f957612aae36612ea8565b612ab782614975565b5081600052602460205260406000205480821015612b245750610fdb906000906001600160a01b03612ae8856149ac565b169084835260236020526040832090835260205260408220906040518080958194637889b61560e01b835260206004840152602483019061351f565b90633d71388b60e21b60005260045260245260446000fd5b346103f95760403660031901126103f957612b55612e7c565b602435612b6181614975565b33151580612c18575b80612bea575b612bd55781906001600160a01b0384811691167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925600080a4600090815260046020526040902080546001600160a01b0319166001600160a01b03909216919091179055005b63a9fbf51f60e01b6000523360045260246000fd5b506001600160a01b038116600090815260056020908152604080832033845290915290205460ff1615612b70565b506001600160a01b038116331415612b6a565b346103f95760203660031901126103f957600435612c4881614975565b506000526004602052602060018060a01b0360406000205416604051908152f35b346103f95760003660031901126103f95761054a604051610ffb8161109581613043565b346103f95760403660031901126103f957612ca6612e7c565b602435906001600160601b038216908183036103f957612cc461494c565b6127108211612d25576001600160a01b0316908115612d0f576020604051612ceb81613270565b83815201526001600160a01b031660a09190911b6001600160a01b03191617600655005b635b6cc80560e11b600052600060045260246000fd5b50636f483d0960e01b60005260045261271060245260446000fd5b346103f95760203660031901126103f95760043563ffffffff60e01b81168091036103f957602090634712ea3d60e01b8114908115612de9575b8115612d8c575b506040519015158152f35b63152a902d60e11b811491508115612da6575b5082612d81565b6380ac58cd60e01b811491508115612dd8575b8115612dc7575b5082612d9f565b6301ffc9a760e01b14905082612dc0565b635b5e139f60e01b81149150612db9565b632483248360e11b81149150612d7a565b346103f95760203660031901126103f95761054a610ffb6004356133c1565b346103f95760003660031901126103f957602090601c548152f35b60005b838110612e475750506000910152565b8181015183820152602001612e37565b90602091612e7081518092818552858086019101612e34565b601f01601f1916010190565b600435906001600160a01b03821682036103f957565b602435906001600160a01b03821682036103f957565b60409060031901126103f9576004359060243590565b9181601f840112156103f9578235916001600160401b0383116103f9576020808501948460051b0101116103f957565b9060406003198301126103f95760043591602435906001600160401b0382116103f957612f1d91600401612ebe565b9091565b60609060031901126103f957600435906024359060443590565b602081016020825282518091526040820191602060408360051b8301019401926000915b838310612f6e57505050505090565b9091929394602080612f9d600193603f198682030187526040838b518051845201519181858201520190612e57565b97019301930191939290612f5f565b60609060031901126103f9576004356001600160a01b03811681036103f957906024356001600160a01b03811681036103f9579060443590565b906007821015612ff35752565b634e487b7160e01b600052602160045260246000fd5b90600182811c92168015613039575b602083101461302357565b634e487b7160e01b600052602260045260246000fd5b91607f1691613018565b906000916000549061305482613009565b80825291600181169081156130c7575060011461306f575050565b60008080529293509091907f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e5635b8383106130ad575060209250010190565b60018160209294939454838587010152019101919061309c565b9050602093945060ff929192191683830152151560051b010190565b600154600092916130f382613009565b80825291600181169081156130c7575060011461310e575050565b600160009081529293509091907fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf65b83831061314e575060209250010190565b60018160209294939454838587010152019101919061313d565b600e546000929161317882613009565b80825291600181169081156130c75750600114613193575050565b600e60009081529293509091907fbb7b4a454dc3493923482f07822329ed19e8244eff582cc204f8554c3620c3fd5b8383106131d3575060209250010190565b6001816020929493945483858701015201910191906131c2565b600092918154916131fd83613009565b8083529260018116908115613253575060011461321957505050565b60009081526020812093945091925b838310613239575060209250010190565b600181602092949394548385870101520191019190613228565b915050602093945060ff929192191683830152151560051b010190565b604081019081106001600160401b03821117610c6957604052565b608081019081106001600160401b03821117610c6957604052565b61010081019081106001600160401b03821117610c6957604052565b60e081019081106001600160401b03821117610c6957604052565b90601f801991011681019081106001600160401b03821117610c6957604052565b6001600160401b038111610c6957601f01601f191660200190565b81601f820112156103f957803590613330826132fe565b9261333e60405194856132dd565b828452602083830101116103f957816000926020809301838601378301015290565b6020818303126103f9578051906001600160401b0382116103f9570181601f820112156103f9578051613392816132fe565b926133a060405194856132dd565b818452602082840101116103f9576133be9160208085019101612e34565b90565b6000818152602260205260408120546133f4575060005260216020526110956133be6040600020604051928380926131ed565b6014549091506001600160a01b031661340b614903565b5081604051613419816132a6565b6211111160ea1b81526233333360e91b602082019081526211111160eb1b60408084019182526255555560e91b606085019081526233333360ea1b6080860190815260a08601878152600260c08801908152600360e089019081529451635e7441d760e11b815297516001600160e81b031990811660048a015296518716602489015294518616604488015291518516606487015251909316608485015291519294859361010493859360ff926134e491906134d99060a4880190612fe6565b5160c4860190612fe6565b511660e48301525afa9182156135135780926134ff57505090565b6133be92503d8091833e61056381836132dd565b604051903d90823e3d90fd5b90806020835491828152019160208260051b820101936000526020600020926000915b83831061355157505050505090565b90919293946020600261357d6040600194601f198782030188528a548152818582015201848a016131ed565b97019301930191939290613542565b919081101561359c5760051b0190565b634e487b7160e01b600052603260045260246000fd5b6000198114611b955760010190565b805482101561359c5760005260206000209060011b0190600090565b8181106135e8575050565b600081556001016135dd565b9190601f811161360357505050565b61362e926000526020600020906020601f840160051c8301931061194d57601f0160051c01906135dd565b565b91909182811461370d576136448354613009565b6001600160401b038111610c6957613666816136608454613009565b846135f4565b600093601f82116001146136a757613698929394829160009261369c5750508160011b916000199060031b1c19161790565b9055565b01549050388061181c565b845260208085208386529085209094601f198316815b8181106136f5575095836001959697106136dc575b505050811b019055565b015460001960f88460031b161c191690553880806136d2565b9192600180602092868b0154815501940192016136bd565b509050565b81810292918115918404141715611b9557565b8054801561379a57600019019061373c82826135c1565b612a635780600060019255016137528154613009565b908161375d57505055565b81601f6000931160011461377057505555565b8183526020832061378c91601f0160051c8101906001016135dd565b808252816020812091555555565b634e487b7160e01b600052603160045260246000fd5b81835290916001600160fb1b0383116103f95760209260051b809284830137010190565b91908203918211611b9557565b6001600160401b038111610c695760051b60200190565b91908201809211611b9557565b80511561359c5760200190565b80516001101561359c5760400190565b80516002101561359c5760600190565b80516003101561359c5760800190565b80516004101561359c5760a00190565b805182101561359c5760209160051b010190565b6138739093929193614d93565b805480851161396c57806138888680936137d4565b8411613959575b505061389a826137e1565b906138a860405192836132dd565b828252601f196138b7846137e1565b0160005b818110613934575050819460005b8481106138d7575050505050565b806138ed6138e7600193856137f8565b856135c1565b5082613913604051926138ff84613270565b8054845261109560405180948193016131ed565b60208201526139228287613852565b5261392d8186613852565b50016138c9565b60209060405161394381613270565b60008152606083820152828287010152016138bb565b6139649293506137d4565b90833861388f565b84633d71388b60e21b60005260045260245260446000fd5b61398c61582b565b6001600160a01b03166000818152600c6020526040902054908115613a4f5780600052600c602052600060408120556139c782600d546137d4565b600d55807fdf20fd1e76bc69d672e4814fafb2c449bba3a5369d8359adf9e05e6fde87b0566020604051858152a2814710613a3657600080809381935af1613a0d61591f565b9015613a165750565b805115613a2557602081519101fd5b63d6bda27560e01b60005260046000fd5b504763cf47918160e01b60005260045260245260446000fd5b5050565b60ff60e0915462ffffff60e81b8160e81b16845262ffffff60e81b8160d01b16602085015262ffffff60e81b8160b81b16604085015262ffffff60e81b8160a01b16606085015262ffffff60e81b8160881b166080850152613abd60a08501838360781c16612fe6565b613acf60c08501838360801c16612fe6565b60881c16910152565b613ae181614975565b50613aeb81614d69565b60009080825260226020526040822054801561443d5780431115614427578040806143fd57506040516020810191838352604082015260408152613b306060826132dd565b519020925b8183526022602052826040812055613b4b614903565b5060405191613b5b60c0846132dd565b6005835260a0366020850137604051602081019086825285604082015260408152613b876060826132dd565b51902062fffffd945062fffffe60009106600181018091116143e95762ffffff16613bb185613805565b5260405160208101908782526001604082015260408152613bd36060826132dd565b5190209462fffffc91506000950660018101809111613eda5762ffffff16613bfa85613812565b52845b60ff81166001811015613c8b5762ffffff613c2681613c1d60018a613852565b51169288613852565b51161115613c3a575b60010160ff16613bfd565b62ffffff613c49600187613852565b511662ffffff8114613c775760ff9160019162ffffff83613c6a818b613852565b9201169052915050613c2f565b634e487b7160e01b87526011600452602487fd5b5050939491909460405160208101908482526002604082015260408152613cb36060826132dd565b5190209462fffffb91506000950660018101809111613eda5762ffffff16613cda85613822565b52845b60ff81166002811015613d4f5762ffffff613cfd81613c1d60028a613852565b51161115613d11575b60010160ff16613cdd565b62ffffff613d20600287613852565b511662ffffff8114613c775760ff9160019162ffffff83613d4260028b613852565b9201169052915050613d06565b5050939194909460405160208101908282526003604082015260408152613d776060826132dd565b5190209462fffffa93506000950660018101809111613eda5762ffffff16613d9e85613832565b52845b60ff81166003811015613e135762ffffff613dc181613c1d60038a613852565b51161115613dd5575b60010160ff16613da1565b62ffffff613de4600387613852565b511662ffffff8114613c775760ff9160019162ffffff83613e0660038b613852565b9201169052915050613dca565b50509194909460405160208101908482526004604082015260408152613e3a6060826132dd565b519020945060009406600181018091116143d55762ffffff16613e5c84613842565b52835b60ff81166004811015613eee5762ffffff613e8881613e7f600489613852565b51169287613852565b51161115613e9c575b60010160ff16613e5f565b62ffffff613eab600486613852565b511662ffffff8114613eda5760ff9160019162ffffff83613ecd60048a613852565b9201169052915050613e91565b634e487b7160e01b86526011600452602486fd5b50509391929060609360405191613f0586846132dd565b60028352601f19860136602085013760405160208101908282526005604082015260408152613f3488826132dd565b519020600394508416613f4684613805565b5260ff60008560405160208101908582526006604082015260408152613f6c8b826132dd565b51902006905016613f7c84613812565b5260ff613f8884613812565b511660ff613f9585613805565b511611156143a9575b83600091604051602081019182526007604082015260408152613fc189826132dd565b519020069060048201809211614395575060ff166004811461438e575b6001600160e81b0319613ff083613805565b5160e81b16926001600160e81b031961400884613812565b5160e81b16906001600160e81b031961402085613822565b5160e81b16906001600160e81b031961403886613832565b5160e81b16946001600160e81b03199061405190613842565b5160e81b169161407960ff61406c6140738261406c87613805565b511661594f565b94613812565b9960405197614087896132a6565b885260208801948552604088019182528701958652608087019283526140b160a088019283614940565b6140bf60c088019a8b614940565b60ff60e088019516855288600052602080526040600020965160e81c9262ffffff60481b68ffffff00000000000065ffffff000000808b54985160d01c1616935160b81c16975160a01c169062ffffff60601b905160881c169251946007861015612ff35760009b5196600788101561437a575160ff60881b60889190911b1662ffffff60601b90941662ffffff60481b90921668ffffff000000000000989098166bffffffffffffffffffffffff19919091166bffffff0000000000000000001995909516949094179190911765ffffffffffff60601b191692909217949094171760ff60781b60789290921b919091161760ff60801b60809290921b91909116171790556014548284526020805260408085209051635e7441d760e11b815291859183916101049183916001600160a01b031690614203906004840190613a53565b5afa90811561436f578491614355575b50828452602160205260408420918151916001600160401b03831161434157614246836142408654613009565b866135f4565b602091601f84116001146142c65750826020959387959361428b93600080516020615f4d83398151915299926142bb5750508160011b916000199060031b1c19161790565b90555b807fa42efe4c39ff65de9d45bd5a868d965a35813768b562b308a75ea9488e25bb736040519380a28152a1565b01519050388061181c565b848752828720929091601f198516885b8181106143295750928592600080516020615f4d83398151915299979592602099976001961061430f575b50505050811b01905561428e565b01519060f884600019921b161c1916905538808080614301565b929460206001819288860151815501960193016142d6565b634e487b7160e01b86526041600452602486fd5b61436991503d8086833e61056381836132dd565b38614213565b6040513d86823e3d90fd5b634e487b7160e01b8d52602160045260248dfd5b5082613fde565b634e487b7160e01b81526011600452602490fd5b60ff6143b484613812565b511660ff8114611b955760ff60016143cb86613812565b9201169052613f9e565b634e487b7160e01b85526011600452602485fd5b634e487b7160e01b82526011600452602482fd5b9050604051602081019182528260408201526040815261441e6060826132dd565b51902092613b35565b60449291630e29318960e11b8352600452602452fd5b6327645a7360e01b83526004829052602483fd5b6044358060010b81036103f95790565b6064358060010b81036103f95790565b6001600160a01b03909116919082156145b1576000828152600260205260408120546001600160a01b0316938391859033614566575b7fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9082614531575b83815260036020526040812060018154019055848152600260205260408120846001600160601b0360a01b82541617905580a46001600160a01b031680830361451757505050565b6364283d7b60e01b60005260045260245260445260646000fd5b600085815260046020526040902080546001600160a01b031916905582815260036020526040812080546000190190556144cf565b919261457491503387615b6a565b1561458257908484926144a7565b83908561459b57602491637e27328960e01b8252600452fd5b60449163177e802f60e01b825233600452602452fd5b633250574960e11b600052600060045260246000fd5b60095481101561359c57600960005260206000200190600090565b81156145ec570490565b634e487b7160e01b600052601260045260246000fd5b600060c0604051614612816132c2565b8281528260208201528260408201528260608201528260808201528260a082015201526015546016546019546017546018549060135492601254946040519661465a886132c2565b8752602087015260408601526060850152608084015260a083015260c082015290565b61468a47600d54906137d4565b600b5480156146d6576146d0906146cb6133be9460018060a01b03169384600052600c60205260406000205494600052600a60205260406000205490613712565b6145e2565b906137f8565b506008546001600160a01b0392831692168203614704576133be91600052600c6020526040600020546137f8565b50600052600c60205260406000205490565b9291614723818386614471565b813b614730575b50505050565b604051630a85bd0160e11b81523360048201526001600160a01b039485166024820152604481019190915260806064820152921691906020908290819061477b906084830190612e57565b03816000865af180916000916147f2575b50906147bd575061479b61591f565b805190816147b85782633250574960e11b60005260045260246000fd5b602001fd5b6001600160e01b03191663757a42ff60e11b016147de57503880808061472a565b633250574960e11b60005260045260246000fd5b6020813d602011614834575b8161480b602093836132dd565b810103126148305751906001600160e01b03198216820361482d57503861478c565b80fd5b5080fd5b3d91506147fe565b356001600160a01b03811681036103f95790565b9081600052602560205260406000209060018060a01b03166000526020526040600020604051906148808261328b565b805491606063ffffffff6001808060a01b0386169485855260208501966001600160401b038160a01c16885260e01c604086015201541691015280151592836148e1575b5050816148cf575090565b6001600160401b039150511642111590565b6000908152600260205260409020546001600160a01b031614915038806148c4565b60405190614910826132a6565b600060e0838281528260208201528260408201528260608201528260808201528260a08201528260c08201520152565b6007821015612ff35752565b6008546001600160a01b0316330361496057565b63118cdaa760e01b6000523360045260246000fd5b6000818152600260205260409020546001600160a01b0316908115614998575090565b637e27328960e01b60005260045260246000fd5b600052602a602052604060002054600052602860205260018060a01b036040600020541680156000146133be57506014546001600160a01b031690565b9190916149f5816133c1565b926000828072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b811015614d0f575b50806d04ee2d6d415b85acef8100000000600a921015614cf4575b662386f26fc10000811015614ce0575b6305f5e100811015614ccf575b612710811015614cc0575b6064811015614cb2575b1015614caa575b6001810192600a6021614a98614a82876132fe565b96614a9060405198896132dd565b8088526132fe565b602087019490601f19013686378601015b60001901916f181899199a1a9b1b9c1cb0b131b232b360811b8282061a8353048015614ad857600a9091614aa9565b5050604051926000600f54614aec81613009565b9060018116908115614c8a5750600114614c44575b50602081614b1c89614b7394603f999a9b5194859201612e34565b01917f3c672069643d2264726177696e672d617265612220636c69702d706174683d2283527f75726c282363616e7661732d636c6970292220646174612d746f6b656e3d2200602084015251809386840190612e34565b0161111f60f11b83820152614b92825180936020604185019101612e34565b0101631e17b39f60e11b600282015281600060105492614bb184613009565b9360018116908115614c265750600114614bda575b506133be925003601f1981018352826132dd565b60106000908152909150600080516020615f2d8339815191525b848210614c0c5750506133be92600691010138614bc6565b805460068385010152859350602090910190600101614bf4565b600693506133be95915060ff19168383015280151502010138614bc6565b600f6000908152909150600080516020615f6d8339815191525b828210614c745750508401602090810190614b01565b6001816020925483858b01015201910190614c5e565b60ff1916602080890191909152821515909202870182019250614b019050565b600101614a6d565b606460029104920191614a66565b61271060049104920191614a5c565b6305f5e10060089104920191614a51565b662386f26fc1000060109104920191614a44565b6d04ee2d6d415b85acef810000000060209104920191614a34565b6040925072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b90049050600a614a19565b614d4981614d4281614975565b3390615b6a565b15614d515750565b63622f24e760e01b6000526004523360245260446000fd5b806000526026602052604060002054614d7f5750565b6311693a8f60e01b60005260045260246000fd5b8060005260246020526040600020549060005260236020526040600020908015600014614dcc575060005b600052602052604060002090565b600019810190811115614dbe57634e487b7160e01b600052601160045260246000fd5b919081101561359c5760051b81013590603e19813603018212156103f9570190565b929190614e2a84614e2181614975565b614d4282614d69565b15808061581a575b615801578460005260226020526040600020546157f3575b615769575b836000526023602052604060002083600052602052604060002060005b838110614efa575050505060018101809111611b955781602091600080516020615f4d83398151915293600052602483526040600020558060005260278252604060002060018060a01b0333166001600160601b0360a01b8254161790556040519033817fb921e941791c53f00f9f5e717e838912e6ff916fdf3fdaa86b8dbe0a0bcba9e9600080a38152a1565b614f0981858598969995614def565b966040883603126103f95760405197614f2189613270565b803589526020810135906001600160401b0382116103f957614f4591369101613319565b966020890197885262ffffff60e81b895160e51b1680158015615758575b8015615735575b8015615712575b80156156ef575b80156156cc575b80156156a9575b15615695575060078951169460068611615680576007861015612ff357866000526020805260ff60406000205460781c166007811015612ff35760009087148015615647575b818115615637575b8115615627575b8115615617575b81159081615609575b50615576575b1561555c5761ffff8b5160231c169060028210818115615510575b81156154cd575b811561548c575b5061547757612ff357600487148061545a575b61544657508951601b1c60ff1690600587146000811561543b575b811561542a575b811561541a575b5080615412575b6153fd5761ffff8b5160231c1697615074896137e1565b996150826040519b8c6132dd565b898b52601f196150918b6137e1565b0160005b8181106153d757505060005b60068110806153ce575b15615127578060051b9080820460201481151715611b95578160330180603311611b95578f60439051930192838211611b95578e61511c9261ffff8361512297828896604051956150fb87613270565b1c1660010b84521c1660010b60208201526151168383613852565b52613852565b506135b2565b6150a1565b50929496989b50989996929496519860005b60038101808211611b95578b5111806153b7575b156151c6576020818c01015161ffff6040519161516983613270565b8060f01d60010b835260e01c1660010b60208201528160021c60060180600611611b95576151a39161519c8f8390613852565b528d613852565b50600481018091111561513957634e487b7160e01b600052601160045260246000fd5b509992909a506151db93919850959395615c7b565b916151e4615bf9565b805160010b908184129182156153a6575b8215615389575b508115615366575b5061533e5750505050615218818385614def565b8454600160401b811015610c695780600161523692018755866135c1565b612a6357813581556001019060208101359036819003601e19018212156103f957018035906001600160401b0382116103f95781360360208201136103f957600090615286836142408654613009565b81601f84116001146152d15760019594936152b7939092836152c35750508160011b916000199060031b1c19161790565b90555b01929092614e6c565b60209250010135388061181c565b91601f19841685845260208420935b818110615324575091600196959492918388959310615307575b505050811b0190556152ba565b0160200135600019600384901b60f8161c191690553880806152fa565b9193602060018192828888010135815501950192016152e0565b6084945060405193630af6d72b60e21b85526004850152602484015260448301526064820152fd5b61538191506060602082015160010b91015160010b90615c35565b811338615204565b819250604061539d92015160010b90615c35565b851390386151fc565b602082015160010b861292506151f5565b508060021c60060180600611611b95578d1161514d565b508a81106150ab565b808d60208093604051926153ea84613270565b6000845260008385015201015201615095565b5063375db8d560e21b60005260045260246000fd5b50811561505d565b9050612ff3576003871438615056565b809150612ff357600188149061504f565b600689149150615048565b6369e361d760e11b60005260045260246000fd5b50876000526020805260ff60406000205460881c1681141561502d565b506369e361d760e11b60005260045260246000fd5b9050612ff35760068814806154a2575b8161501a565b50600382108061549c5750600019820161ffff8111611b955761ffff6003816001931606161461549c565b9050612ff3576004881480615505575b806154fa575b806154ef575b81615013565b5060068214156154e9565b5060058214156154e3565b5060038214156154dd565b9050612ff3578715801561554f575b81811561553f575b5080615534575b8161500c565b50600282141561552e565b9050612ff3576001881481615527565b505060006002881461551f565b8690612ff3576334d4d66760e21b60005260045260246000fd5b8b51615580615bf9565b90815160010b61ffff8260331c1660010b1491826155ed575b826155d1575b826155b4575b505015614ff157506001614ff1565b61ffff9192506060015160010b9160631c1660010b1438806155a5565b9150604082015160010b61ffff8260531c1660010b149161559f565b9150602082015160010b61ffff8260431c1660010b1491615599565b9050612ff357871582614feb565b9050612ff3576006871481614fe2565b9050612ff3576005871481614fdb565b9050612ff3576004871481614fd4565b508781526020805260ff604082205460801c1690600782101561566c57908714614fcc565b634e487b7160e01b81526021600452602490fd5b856334d4d66760e21b60005260045260246000fd5b63f30098e760e01b60005260045260246000fd5b50600087815260208052604090205460881b6001600160e81b0319168114614f86565b50600087815260208052604090205460a01b6001600160e81b0319168114614f7f565b50600087815260208052604090205460b81b6001600160e81b0319168114614f78565b50600087815260208052604090205460d01b6001600160e81b0319168114614f71565b50600087815260208052604090205460e81b6001600160e81b0319168114614f6a565b506001600160e81b03198114614f63565b836000526025602052604060002060018060a01b033316600052602052604060002060018101906157a18463ffffffff8454166137f8565b905460e01c801515806157ea575b6157ce5750815463ffffffff191663ffffffff91909116179055614e4f565b86634c98282160e11b6000526004523360245260445260646000fd5b508082116157af565b6157fc85613ad8565b614e4a565b8463622f24e760e01b6000526004523360245260446000fd5b506158253386614850565b15614e32565b61583847600d54906137d4565b90811561591b57600b54156158e9576000805b6009548210156158d4576158cc600191615864846145c7565b848060a01b0391549060031b1c16600052600a60205261589561588c60406000205488613712565b600b54906145e2565b9061589f856145c7565b858060a01b0391549060031b1c16600052600c60205260406000206158c58382546137f8565b90556137f8565b91019061584b565b90506158e4919250600d546137f8565b600d55565b906158e49060018060a01b0360085416600052600c60205260406000206159118282546137f8565b9055600d546137f8565b9050565b3d1561594a573d90615930826132fe565b9161593e60405193846132dd565b82523d6000602084013e565b606090565b60ff166007811015612ff35790565b601254806159695750565b60407f6bd5c950a8d8df17f772f5af37cb3655737899cbf903264b9795592da439661c91815190600182526020820152a1565b6159ab601354601254906137d4565b90818111156159b8575090565b905090565b6012549160018301809311611b95576000906001430191824311905b828110615a2757505050507fda28264af231e2a4e4ef9ab5a1ccd2d6392bab3d490493dbbfee7c8d0b05514091606091601254604051928352602083015260018060a01b03166040820152a1565b615a326012546135b2565b60128190556001600160a01b03861680156145b157600091808352600260205260018060a01b0360408420541691827fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8115159586615afa575b83815260036020526040812060018154019055848152600260205260408120846001600160601b0360a01b82541617905580a450615ae45781611b9557600190601254600052602260205284604060002055016159d9565b6339e3563760e11b600052600060045260246000fd5b600085815260046020526040902080546001600160a01b03191690558281526003602052604081208054600019019055615a8c565b8015615b6757600080808084335af1615b4661591f565b5015615b4f5750565b6357b9d85960e11b6000523360045260245260446000fd5b50565b6001600160a01b03909116801515929183615b86575b50505090565b6001600160a01b031680821493509091908315615bd2575b508215615bb0575b5050388080615b80565b6000908152600460205260409020546001600160a01b03161490503880615ba6565b909250600052600560205260406000208160005260205260ff604060002054169138615b9e565b60405190615c068261328b565b8160606011548060010b83528060101c60010b60208401528060201c60010b604084015260301c60010b910152565b91909160008382019384129112908015821691151617611b9557565b600160ff1b8114611b955760000390565b81810392916000138015828513169184121617611b9557565b91909160078110159081612ff35780158015615efe575b615deb575050615ca181613805565b515160010b9283906020615cb484613805565b51015160010b91829160015b8551811015615d925782615cd48288613852565b515160010b12615d7b575b87615cea8288613852565b515160010b13615d64575b836020615d028389613852565b51015160010b12615d4a575b846020615d1b8389613852565b51015160010b13615d2f575b600101615cc0565b935060016020615d3f8688613852565b510151900b93615d27565b92506020615d588487613852565b51015160010b92615d0e565b9650615d708786613852565b515160010b96615cf5565b9150615d878286613852565b515160010b91615cdf565b50929460ff91929450169060018201916000600184129112908015821691151617611b9557615dde615dd291615dd86002615de495058094818094615c62565b97615c62565b97615c35565b94615c35565b9193929190565b91925092615df883613805565b515160010b916020615e0985613805565b51015160010b906020615e29615e1e87613812565b515160010b96613812565b51015160010b95612ff357600214615eaa5760008412948515615ea457615e508585615c35565b935b60008212958615615e9d57615e678385615c35565b975b15615e8e5750945b15615e7f5750915b93929190565b615e8891615c35565b91615e79565b615e9791615c35565b94615e71565b8397615e69565b83615e52565b92919360008312615ee9575b806000615de49212615edb575b615dde615ed08588615c62565b94615dd88388615c62565b615ee490615c51565b615ec3565b91615ef6615de491615c51565b929050615eb6565b506000915060028114615c9256fe33ae6b64ebf0f0a32e7190a07252921f10955b6c40804917c63e0ff68bc458271b6847dc741a1b0cd08d278845f9d819d87b734759afb55fe2de5cb82a9ae672f8e1a15aba9398e019f0b49df1a4fde98ee17ae345cb5f6b5e2c27f5033e8ce78d1108e10bcb7c27dddfc02ed9d693a074039d026cf4ea4240b40f7d581ac802a2646970667358221220cdbe3ca937222403c7fbd51e70d6c9ae735e37ed99eeca3d9666a7d11c0be9f164736f6c634300081c0033";
 
 type ColourMeNFTConstructorParams =
   | [signer?: Signer]
@@ -59,6 +59,22 @@ const _abi = [
     name: "InvalidStroke",
     type: "error",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "StringsInsufficientHexLength",
+    type: "error",
+  },
   {
     inputs: [
       {
@@ -108,6 +124,33 @@ const _abi = [
         name: "_trait",
         type: "tuple",
       },
+      {
+        internalType: "uint256",
+        name: "_finalizedBlock",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_art",
+        type: "tuple[]",
+      },
+      {
+        internalType: "address",
+        name: "_lastEditor",
+        type: "address",
+      },
     ],
     name: "getAttributes",
     outputs: [
@@ -137,11 +180,43 @@ const _abi = [
         name: "_baseURL",
         type: "string",
       },
+      {
+        internalType: "bytes",
+        name: "_drawing",
+        type: "bytes",
+      },
       {
         internalType: "string",
-        name: "_svg",
+        name: "_editor",
         type: "string",
       },
+      {
+        components: [
+          {
+            internalType: "int16",
+            name: "x",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "y",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "width",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "height",
+            type: "int16",
+          },
+        ],
+        internalType: "struct CanvasRect",
+        name: "_canvas",
+        type: "tuple",
+      },
       {
         components: [
           {
@@ -189,6 +264,33 @@ const _abi = [
         name: "_trait",
         type: "tuple",
       },
+      {
+        internalType: "uint256",
+        name: "_finalizedBlock",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_art",
+        type: "tuple[]",
+      },
+      {
+        internalType: "address",
+        name: "_lastEditor",
+        type: "address",
+      },
     ],
     name: "getURI",
     outputs: [
@@ -201,6 +303,64 @@ const _abi = [
     stateMutability: "pure",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_objects",
+        type: "tuple[]",
+      },
+      {
+        components: [
+          {
+            internalType: "int16",
+            name: "x",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "y",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "width",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "height",
+            type: "int16",
+          },
+        ],
+        internalType: "struct CanvasRect",
+        name: "_canvas",
+        type: "tuple",
+      },
+    ],
+    name: "renderArtSVG",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -232,6 +392,42 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_objects",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "_msPerObject",
+        type: "uint256",
+      },
+    ],
+    name: "renderObjectsAnimated",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "paths",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -256,6 +452,11 @@ const _abi = [
             name: "pointsLength",
             type: "uint16",
           },
+          {
+            internalType: "uint8",
+            name: "opacity",
+            type: "uint8",
+          },
         ],
         internalType: "struct BaseObject",
         name: "_object",
@@ -389,10 +590,23 @@ const _abi = [
     stateMutability: "pure",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "themeName",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x6080604052348015600f57600080fd5b506153368061001f6000396000f3fe608060405234801561001057600080fd5b506004361061007d5760003560e01c8063bce883ae1161005b578063bce883ae14610112578063c18ac46414610142578063cc719f8f14610172578063f15c370f146101a25761007d565b8063062c06f914610082578063240c6a77146100b25780637889b615146100e2575b600080fd5b61009c60048036038101906100979190612c97565b6101d2565b6040516100a99190612d72565b60405180910390f35b6100cc60048036038101906100c79190612f49565b61071d565b6040516100d99190612d72565b60405180910390f35b6100fc60048036038101906100f79190613207565b610774565b6040516101099190612d72565b60405180910390f35b61012c60048036038101906101279190613250565b610977565b6040516101399190612d72565b60405180910390f35b61015c6004803603810190610157919061327e565b610a0e565b6040516101699190612d72565b60405180910390f35b61018c600480360381019061018791906132ab565b610c78565b6040516101999190612d72565b60405180910390f35b6101bc60048036038101906101b79190613250565b610de8565b6040516101c99190612d72565b60405180910390f35b6060600060058111156101e8576101e76132d8565b5b836000015160058111156101ff576101fe6132d8565b5b036102e7576102118360200151610e7f565b61023c8360008151811061022857610227613307565b5b60200260200101516000015160010b611021565b6102678460008151811061025357610252613307565b5b60200260200101516020015160010b611021565b6102928560018151811061027e5761027d613307565b5b60200260200101516000015160010b611021565b6102bd866001815181106102a9576102a8613307565b5b60200260200101516020015160010b611021565b6040516020016102d1959493929190613581565b6040516020818303038152906040529050610717565b600260058111156102fb576102fa6132d8565b5b83600001516005811115610312576103116132d8565b5b036103fa576103248360200151610e7f565b61034f8360008151811061033b5761033a613307565b5b60200260200101516000015160010b611021565b61037a8460008151811061036657610365613307565b5b60200260200101516020015160010b611021565b6103a58560018151811061039157610390613307565b5b60200260200101516000015160010b611021565b6103d0866001815181106103bc576103bb613307565b5b60200260200101516020015160010b611021565b6040516020016103e495949392919061378a565b6040516020818303038152906040529050610716565b6001600581111561040e5761040d6132d8565b5b83600001516005811115610425576104246132d8565b5b0361051e576104378360200151610e7f565b610447846040015160ff166110af565b6104728460008151811061045e5761045d613307565b5b60200260200101516000015160010b611021565b61049d8560008151811061048957610488613307565b5b60200260200101516020015160010b611021565b6104c8866001815181106104b4576104b3613307565b5b60200260200101516000015160010b611021565b6104f3876001815181106104df576104de613307565b5b60200260200101516020015160010b611021565b604051602001610508969594939291906139df565b6040516020818303038152906040529050610715565b60036005811115610532576105316132d8565b5b83600001516005811115610549576105486132d8565b5b148061057d575060046005811115610564576105636132d8565b5b8360000151600581111561057b5761057a6132d8565b5b145b1561063c57600061058d8361117d565b9050600360058111156105a3576105a26132d8565b5b846000015160058111156105ba576105b96132d8565b5b03610605576105cc8460200151610e7f565b6105dc856040015160ff166110af565b826040516020016105ef93929190613b1c565b6040516020818303038152906040529150610636565b6106128460200151610e7f565b81604051602001610624929190613bc5565b60405160208183030381529060405291505b50610714565b60058081111561064f5761064e6132d8565b5b83600001516005811115610666576106656132d8565b5b0361071357600061067683611676565b90506106858460200151610e7f565b610695856040015160ff166110af565b6106c0856000815181106106ac576106ab613307565b5b60200260200101516000015160010b611021565b6106eb866000815181106106d7576106d6613307565b5b60200260200101516020015160010b611021565b84604051602001610700959493929190613d3a565b6040516020818303038152906040529150505b5b5b5b5b92915050565b606085610729866110af565b85610733886110af565b61073c87611c45565b61074587610de8565b60405160200161075a96959493929190614100565b604051602081830303815290604052905095945050505050565b606060008251036107a45760405160200161078e906141ec565b6040516020818303038152906040529050610972565b600080835167ffffffffffffffff8111156107c2576107c1612959565b5b6040519080825280602002602001820160405280156107f557816020015b60608152602001906001900390816107e05790505b50905060005b84518110156108b657600061082d86838151811061081c5761081b613307565b5b602002602001015160000151611c72565b9050600061085487848151811061084757610846613307565b5b6020026020010151611d27565b905061086082826101d2565b84848151811061087357610872613307565b5b602002602001018190525083838151811061089157610890613307565b5b602002602001015151856108a59190614230565b9450505080806001019150506107fb565b5060008267ffffffffffffffff8111156108d3576108d2612959565b5b6040519080825280601f01601f1916602001820160405280156109055781602001600182028036833780820191505090505b5090506000805b835181101561096957600084828151811061092a57610929613307565b5b602002602001015190508051602082018460208701018281848460045afa505050508051836109599190614230565b925050808060010191505061090c565b50819450505050505b919050565b60606109868260000151610e7f565b6109938360200151610e7f565b6109a08460400151610e7f565b6109ad8560600151610e7f565b6109ba8660800151610e7f565b6109c78760a00151610a0e565b6109d48860c00151610a0e565b6109e18960e00151610c78565b6040516020016109f8989796959493929190614640565b6040516020818303038152906040529050919050565b606060006005811115610a2457610a236132d8565b5b826005811115610a3757610a366132d8565b5b03610a955760405180608001604052806045815260200161523c6045913960405180606001604052806040815260200161528160409139604051602001610a7f929190614787565b6040516020818303038152906040529050610c73565b60026005811115610aa957610aa86132d8565b5b826005811115610abc57610abb6132d8565b5b03610b1a5760405180608001604052806045815260200161523c6045913960405180606001604052806040815260200161528160409139604051602001610b04929190614828565b6040516020818303038152906040529050610c73565b60016005811115610b2e57610b2d6132d8565b5b826005811115610b4157610b406132d8565b5b03610b9f5760405180608001604052806045815260200161523c6045913960405180606001604052806040815260200161528160409139604051602001610b899291906148c9565b6040516020818303038152906040529050610c73565b60036005811115610bb357610bb26132d8565b5b826005811115610bc657610bc56132d8565b5b03610c245760405180608001604052806045815260200161523c6045913960405180606001604052806040815260200161528160409139604051602001610c0e92919061496a565b6040516020818303038152906040529050610c73565b816005811115610c3757610c366132d8565b5b6040517fd353599c000000000000000000000000000000000000000000000000000000008152600401610c6a91906149a8565b60405180910390fd5b919050565b606060038260ff1603610cde5760405180608001604052806045815260200161523c6045913960405180606001604052806040815260200161528160409139604051602001610cc8929190614a35565b6040516020818303038152906040529050610de3565b60058260ff1603610d425760405180608001604052806045815260200161523c6045913960405180606001604052806040815260200161528160409139604051602001610d2c929190614ad6565b6040516020818303038152906040529050610de3565b60068260ff1603610da65760405180608001604052806045815260200161523c6045913960405180606001604052806040815260200161528160409139604051602001610d90929190614b77565b6040516020818303038152906040529050610de3565b816040517fc4b8d4e3000000000000000000000000000000000000000000000000000000008152600401610dda9190614be1565b60405180910390fd5b919050565b6060610df78260000151610e7f565b610e048360200151610e7f565b610e118460400151610e7f565b610e1e8560600151610e7f565b610e2b8660800151610e7f565b610e388760a00151611fd5565b610e458860c00151611fd5565b610e528960e001516121cf565b604051602001610e69989796959493929190614fd8565b6040516020818303038152906040529050919050565b606060007f303132333435363738396162636465660000000000000000000000000000000090506000600667ffffffffffffffff811115610ec357610ec2612959565b5b6040519080825280601f01601f191660200182016040528015610ef55781602001600182028036833780820191505090505b50905060005b6003811015611016576000858260038110610f1957610f18613307565b5b1a60f81b60f81c90508360048260ff16901c60ff1660108110610f3f57610f3e613307565b5b1a60f81b83600284610f5191906150ad565b81518110610f6257610f61613307565b5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a90535083600f821660ff1660108110610faa57610fa9613307565b5b1a60f81b836001600285610fbe91906150ad565b610fc89190614230565b81518110610fd957610fd8613307565b5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a905350508080600101915050610efb565b508092505050919050565b6060600082126110405760405180602001604052806000815250611077565b6040518060400160405280600181526020017f2d000000000000000000000000000000000000000000000000000000000000008152505b611088611083846122eb565b6110af565b6040516020016110999291906150ef565b6040516020818303038152906040529050919050565b6060600060016110be84612302565b01905060008167ffffffffffffffff8111156110dd576110dc612959565b5b6040519080825280601f01601f19166020018201604052801561110f5781602001600182028036833780820191505090505b509050600082602083010190505b600115611172578080600190039150507f3031323334353637383961626364656600000000000000000000000000000000600a86061a8153600a858161116657611165615113565b5b0494506000850361111d575b819350505050919050565b606060008251036111dd57600067ffffffffffffffff8111156111a3576111a2612959565b5b6040519080825280601f01601f1916602001820160405280156111d55781602001600182028036833780820191505090505b509050611671565b600080835167ffffffffffffffff8111156111fb576111fa612959565b5b60405190808252806020026020018201604052801561122e57816020015b60608152602001906001900390816112195790505b50905060005b84518110156115b557600061126986838151811061125557611254613307565b5b60200260200101516000015160010b611021565b9050600061129787848151811061128357611282613307565b5b60200260200101516020015160010b611021565b905060018151600184516112ab9190614230565b6112b59190614230565b6112bf9190614230565b67ffffffffffffffff8111156112d8576112d7612959565b5b6040519080825280601f01601f19166020018201604052801561130a5781602001600182028036833780820191505090505b5084848151811061131e5761131d613307565b5b602002602001018190525060005b82518110156113bc5782818151811061134857611347613307565b5b602001015160f81c60f81b85858151811061136657611365613307565b5b602002602001015182815181106113805761137f613307565b5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a905350808060010191505061132c565b507f2c000000000000000000000000000000000000000000000000000000000000008484815181106113f1576113f0613307565b5b602002602001015183518151811061140c5761140b613307565b5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a90535060005b81518110156114e65781818151811061145a57611459613307565b5b602001015160f81c60f81b85858151811061147857611477613307565b5b6020026020010151826001865161148f9190614230565b6114999190614230565b815181106114aa576114a9613307565b5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a905350808060010191505061143e565b507f200000000000000000000000000000000000000000000000000000000000000084848151811061151b5761151a613307565b5b60200260200101518251600185516115339190614230565b61153d9190614230565b8151811061154e5761154d613307565b5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a9053508383815181106115905761158f613307565b5b602002602001015151856115a49190614230565b945050508080600101915050611234565b5060008267ffffffffffffffff8111156115d2576115d1612959565b5b6040519080825280601f01601f1916602001820160405280156116045781602001600182028036833780820191505090505b5090506000805b835181101561166857600084828151811061162957611628613307565b5b602002602001015190508051602082018460208701018281848460045afa505050508051836116589190614230565b925050808060010191505061160b565b50819450505050505b919050565b606060018251116116d657600067ffffffffffffffff81111561169c5761169b612959565b5b6040519080825280601f01601f1916602001820160405280156116ce5781602001600182028036833780820191505090505b509050611c40565b600080600184516116e79190615142565b67ffffffffffffffff811115611700576116ff612959565b5b60405190808252806020026020018201604052801561173357816020015b606081526020019060019003908161171e5790505b5090506000600190505b8451811015611b8457600061177286838151811061175e5761175d613307565b5b60200260200101516000015160010b611021565b905060006117a087848151811061178c5761178b613307565b5b60200260200101516020015160010b611021565b90508051825160036117b29190614230565b6117bc9190614230565b67ffffffffffffffff8111156117d5576117d4612959565b5b6040519080825280601f01601f1916602001820160405280156118075781602001600182028036833780820191505090505b50846001856118169190615142565b8151811061182757611826613307565b5b60200260200101819052507f2000000000000000000000000000000000000000000000000000000000000000846001856118619190615142565b8151811061187257611871613307565b5b602002602001015160008151811061188d5761188c613307565b5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a9053507f4c00000000000000000000000000000000000000000000000000000000000000846001856118eb9190615142565b815181106118fc576118fb613307565b5b602002602001015160018151811061191757611916613307565b5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a90535060005b82518110156119f15782818151811061196557611964613307565b5b602001015160f81c60f81b8560018661197e9190615142565b8151811061198f5761198e613307565b5b60200260200101518260026119a49190614230565b815181106119b5576119b4613307565b5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a9053508080600101915050611949565b507f200000000000000000000000000000000000000000000000000000000000000084600185611a219190615142565b81518110611a3257611a31613307565b5b602002602001015183516002611a489190614230565b81518110611a5957611a58613307565b5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a90535060005b8151811015611b3f57818181518110611aa757611aa6613307565b5b602001015160f81c60f81b85600186611ac09190615142565b81518110611ad157611ad0613307565b5b60200260200101518285516003611ae89190614230565b611af29190614230565b81518110611b0357611b02613307565b5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a9053508080600101915050611a8b565b5083600184611b4e9190615142565b81518110611b5f57611b5e613307565b5b60200260200101515185611b739190614230565b94505050808060010191505061173d565b5060008267ffffffffffffffff811115611ba157611ba0612959565b5b6040519080825280601f01601f191660200182016040528015611bd35781602001600182028036833780820191505090505b5090506000805b8351811015611c37576000848281518110611bf857611bf7613307565b5b602002602001015190508051602082018460208701018281848460045afa50505050805183611c279190614230565b9250508080600101915050611bda565b50819450505050505b919050565b6060611c6b826040518060600160405280604081526020016152c1604091396001612455565b9050919050565b611c7a6128ae565b6000611c85836125e9565b90506000611c9284612659565b90506000611c9f8561266a565b90506000611cac86612678565b9050611cb88483612686565b611cc28482612760565b6040518060800160405280856005811115611ce057611cdf6132d8565b5b8152602001847cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff191681526020018360ff1681526020018261ffff16815250945050505050919050565b60606000611d388360000151612678565b905060008161ffff1667ffffffffffffffff811115611d5a57611d59612959565b5b604051908082528060200260200182016040528015611d9357816020015b611d8061290f565b815260200190600190039081611d785790505b50905060005b600681108015611dac57508261ffff1681105b15611e41576000602082611dc091906150ad565b6033611dcc9190614230565b90506000818760000151901c90506000601083611de99190614230565b8860000151901c905060405180604001604052808360010b81526020018260010b815250858581518110611e2057611e1f613307565b5b60200260200101819052505050508080611e3990615176565b915050611d99565b5060005b846020015151600382611e589190614230565b108015611e8057508261ffff16600482611e7291906151be565b6006611e7e9190614230565b105b15611fca5760008560200151600183611e999190614230565b81518110611eaa57611ea9613307565b5b602001015160f81c60f81b60f81c60ff16600887602001518481518110611ed457611ed3613307565b5b602001015160f81c60f81b60f81c60ff1661ffff16901b17905060008660200151600384611f029190614230565b81518110611f1357611f12613307565b5b602001015160f81c60f81b60f81c60ff1660088860200151600286611f389190614230565b81518110611f4957611f48613307565b5b602001015160f81c60f81b60f81c60ff1661ffff16901b17905060405180604001604052808360010b81526020018260010b81525084600485611f8c91906151be565b6006611f989190614230565b81518110611fa957611fa8613307565b5b60200260200101819052505050600481611fc39190614230565b9050611e45565b508092505050919050565b606060006005811115611feb57611fea6132d8565b5b826005811115611ffe57611ffd6132d8565b5b03612040576040518060400160405280600981526020017f52656374616e676c65000000000000000000000000000000000000000000000081525090506121ca565b60026005811115612054576120536132d8565b5b826005811115612067576120666132d8565b5b036120a9576040518060400160405280600781526020017f456c6c697073650000000000000000000000000000000000000000000000000081525090506121ca565b600160058111156120bd576120bc6132d8565b5b8260058111156120d0576120cf6132d8565b5b03612112576040518060400160405280600481526020017f4c696e650000000000000000000000000000000000000000000000000000000081525090506121ca565b60036005811115612126576121256132d8565b5b826005811115612139576121386132d8565b5b0361217b576040518060400160405280600881526020017f506f6c796c696e6500000000000000000000000000000000000000000000000081525090506121ca565b81600581111561218e5761218d6132d8565b5b6040517fd353599c0000000000000000000000000000000000000000000000000000000081526004016121c191906149a8565b60405180910390fd5b919050565b606060038260ff1603612219576040518060400160405280600881526020017f547269616e676c6500000000000000000000000000000000000000000000000081525090506122e6565b60058260ff1603612261576040518060400160405280600881526020017f50656e7461676f6e00000000000000000000000000000000000000000000000081525090506122e6565b60068260ff16036122a9576040518060400160405280600781526020017f48657861676f6e0000000000000000000000000000000000000000000000000081525090506122e6565b816040517fc4b8d4e30000000000000000000000000000000000000000000000000000000081526004016122dd9190614be1565b60405180910390fd5b919050565b60008060ff83901d90508081840118915050919050565b600080600090507a184f03e93ff9f4daa797ed6e38ed64bf6a1f0100000000000000008310612360577a184f03e93ff9f4daa797ed6e38ed64bf6a1f010000000000000000838161235657612355615113565b5b0492506040810190505b6d04ee2d6d415b85acef8100000000831061239d576d04ee2d6d415b85acef8100000000838161239357612392615113565b5b0492506020810190505b662386f26fc1000083106123cc57662386f26fc1000083816123c2576123c1615113565b5b0492506010810190505b6305f5e10083106123f5576305f5e10083816123eb576123ea615113565b5b0492506008810190505b612710831061241a5761271083816124105761240f615113565b5b0492506004810190505b6064831061243d576064838161243357612432615113565b5b0492506002810190505b600a831061244c576001810190505b80915050919050565b60606000845103612477576040518060200160405280600081525090506125e2565b6000826124a957600360028651600461249091906150ad565b61249a9190614230565b6124a491906151be565b6124d0565b6003600286516124b99190614230565b6124c391906151be565b60046124cf91906150ad565b5b905060008167ffffffffffffffff8111156124ee576124ed612959565b5b6040519080825280601f01601f1916602001820160405280156125205781602001600182028036833780820191505090505b50905060018501602082018788518901602081018051600082525b82841015612596576003840193508351603f8160121c168701518653600186019550603f81600c1c168701518653600186019550603f8160061c168701518653600186019550603f811687015186536001860195505061253b565b80825289156125d65760038c5106600181146125b957600281146125cc576125d4565b603d6001870353603d60028703536125d4565b603d60018703535b505b50505050505080925050505b9392505050565b60008060078316905060058160ff16111561263b57806040517fd353599c00000000000000000000000000000000000000000000000000000000815260040161263291906149a8565b60405180910390fd5b8060ff166005811115612651576126506132d8565b5b915050919050565b6000600382901c60e81b9050919050565b6000601b82901c9050919050565b6000602382901c9050919050565b600580811115612699576126986132d8565b5b8260058111156126ac576126ab6132d8565b5b14806126dc5750600160058111156126c7576126c66132d8565b5b8260058111156126da576126d96132d8565b5b145b8061270b5750600360058111156126f6576126f56132d8565b5b826005811115612709576127086132d8565b5b145b801561271a575060008160ff16145b1561275c57806040517fdd76e35400000000000000000000000000000000000000000000000000000000815260040161275391906149a8565b60405180910390fd5b5050565b60028161ffff161080612806575060006005811115612782576127816132d8565b5b826005811115612795576127946132d8565b5b14806127c55750600260058111156127b0576127af6132d8565b5b8260058111156127c3576127c26132d8565b5b145b806127f45750600160058111156127df576127de6132d8565b5b8260058111156127f2576127f16132d8565b5b145b8015612805575060028161ffff1614155b5b806128685750600460058111156128205761281f6132d8565b5b826005811115612833576128326132d8565b5b148015612845575060038161ffff1614155b8015612856575060058161ffff1614155b8015612867575060068161ffff1614155b5b156128aa57806040517fd3c6c3ae0000000000000000000000000000000000000000000000000000000081526004016128a19190615220565b60405180910390fd5b5050565b6040518060800160405280600060058111156128cd576128cc6132d8565b5b815260200160007cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff19168152602001600060ff168152602001600061ffff1681525090565b6040518060400160405280600060010b8152602001600060010b81525090565b6000604051905090565b600080fd5b600080fd5b600080fd5b6000601f19601f8301169050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b61299182612948565b810181811067ffffffffffffffff821117156129b0576129af612959565b5b80604052505050565b60006129c361292f565b90506129cf8282612988565b919050565b600080fd5b600681106129e657600080fd5b50565b6000813590506129f8816129d9565b92915050565b60007fffffff000000000000000000000000000000000000000000000000000000000082169050919050565b612a33816129fe565b8114612a3e57600080fd5b50565b600081359050612a5081612a2a565b92915050565b600060ff82169050919050565b612a6c81612a56565b8114612a7757600080fd5b50565b600081359050612a8981612a63565b92915050565b600061ffff82169050919050565b612aa681612a8f565b8114612ab157600080fd5b50565b600081359050612ac381612a9d565b92915050565b600060808284031215612adf57612ade612943565b5b612ae960806129b9565b90506000612af9848285016129e9565b6000830152506020612b0d84828501612a41565b6020830152506040612b2184828501612a7a565b6040830152506060612b3584828501612ab4565b60608301525092915050565b600080fd5b600067ffffffffffffffff821115612b6157612b60612959565b5b602082029050602081019050919050565b600080fd5b60008160010b9050919050565b612b8d81612b77565b8114612b9857600080fd5b50565b600081359050612baa81612b84565b92915050565b600060408284031215612bc657612bc5612943565b5b612bd060406129b9565b90506000612be084828501612b9b565b6000830152506020612bf484828501612b9b565b60208301525092915050565b6000612c13612c0e84612b46565b6129b9565b90508083825260208201905060408402830185811115612c3657612c35612b72565b5b835b81811015612c5f5780612c4b8882612bb0565b845260208401935050604081019050612c38565b5050509392505050565b600082601f830112612c7e57612c7d612b41565b5b8135612c8e848260208601612c00565b91505092915050565b60008060a08385031215612cae57612cad612939565b5b6000612cbc85828601612ac9565b925050608083013567ffffffffffffffff811115612cdd57612cdc61293e565b5b612ce985828601612c69565b9150509250929050565b600081519050919050565b600082825260208201905092915050565b60005b83811015612d2d578082015181840152602081019050612d12565b60008484015250505050565b6000612d4482612cf3565b612d4e8185612cfe565b9350612d5e818560208601612d0f565b612d6781612948565b840191505092915050565b60006020820190508181036000830152612d8c8184612d39565b905092915050565b600080fd5b600067ffffffffffffffff821115612db457612db3612959565b5b612dbd82612948565b9050602081019050919050565b82818337600083830152505050565b6000612dec612de784612d99565b6129b9565b905082815260208101848484011115612e0857612e07612d94565b5b612e13848285612dca565b509392505050565b600082601f830112612e3057612e2f612b41565b5b8135612e40848260208601612dd9565b91505092915050565b6000819050919050565b612e5c81612e49565b8114612e6757600080fd5b50565b600081359050612e7981612e53565b92915050565b60006101008284031215612e9657612e95612943565b5b612ea16101006129b9565b90506000612eb184828501612a41565b6000830152506020612ec584828501612a41565b6020830152506040612ed984828501612a41565b6040830152506060612eed84828501612a41565b6060830152506080612f0184828501612a41565b60808301525060a0612f15848285016129e9565b60a08301525060c0612f29848285016129e9565b60c08301525060e0612f3d84828501612a7a565b60e08301525092915050565b60008060008060006101808688031215612f6657612f65612939565b5b600086013567ffffffffffffffff811115612f8457612f8361293e565b5b612f9088828901612e1b565b9550506020612fa188828901612e6a565b945050604086013567ffffffffffffffff811115612fc257612fc161293e565b5b612fce88828901612e1b565b935050606086013567ffffffffffffffff811115612fef57612fee61293e565b5b612ffb88828901612e1b565b925050608061300c88828901612e7f565b9150509295509295909350565b600067ffffffffffffffff82111561303457613033612959565b5b602082029050602081019050919050565b600067ffffffffffffffff8211156130605761305f612959565b5b61306982612948565b9050602081019050919050565b600061308961308484613045565b6129b9565b9050828152602081018484840111156130a5576130a4612d94565b5b6130b0848285612dca565b509392505050565b600082601f8301126130cd576130cc612b41565b5b81356130dd848260208601613076565b91505092915050565b6000604082840312156130fc576130fb612943565b5b61310660406129b9565b9050600061311684828501612e6a565b600083015250602082013567ffffffffffffffff81111561313a576131396129d4565b5b613146848285016130b8565b60208301525092915050565b600061316561316084613019565b6129b9565b9050808382526020820190506020840283018581111561318857613187612b72565b5b835b818110156131cf57803567ffffffffffffffff8111156131ad576131ac612b41565b5b8086016131ba89826130e6565b8552602085019450505060208101905061318a565b5050509392505050565b600082601f8301126131ee576131ed612b41565b5b81356131fe848260208601613152565b91505092915050565b60006020828403121561321d5761321c612939565b5b600082013567ffffffffffffffff81111561323b5761323a61293e565b5b613247848285016131d9565b91505092915050565b6000610100828403121561326757613266612939565b5b600061327584828501612e7f565b91505092915050565b60006020828403121561329457613293612939565b5b60006132a2848285016129e9565b91505092915050565b6000602082840312156132c1576132c0612939565b5b60006132cf84828501612a7a565b91505092915050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b600081905092915050565b7f3c726563742066696c6c3d222300000000000000000000000000000000000000600082015250565b6000613377600d83613336565b915061338282613341565b600d82019050919050565b600081905092915050565b60006133a382612cf3565b6133ad818561338d565b93506133bd818560208601612d0f565b80840191505092915050565b7f2220783d22000000000000000000000000000000000000000000000000000000600082015250565b60006133ff600583613336565b915061340a826133c9565b600582019050919050565b600081519050919050565b600061342b82613415565b6134358185613336565b9350613445818560208601612d0f565b80840191505092915050565b7f2220793d22000000000000000000000000000000000000000000000000000000600082015250565b6000613487600583613336565b915061349282613451565b600582019050919050565b7f222077696474683d220000000000000000000000000000000000000000000000600082015250565b60006134d3600983613336565b91506134de8261349d565b600982019050919050565b7f22206865696768743d2200000000000000000000000000000000000000000000600082015250565b600061351f600a83613336565b915061352a826134e9565b600a82019050919050565b7f222f3e0000000000000000000000000000000000000000000000000000000000600082015250565b600061356b600383613336565b915061357682613535565b600382019050919050565b600061358c8261336a565b91506135988288613398565b91506135a3826133f2565b91506135af8287613420565b91506135ba8261347a565b91506135c68286613420565b91506135d1826134c6565b91506135dd8285613420565b91506135e882613512565b91506135f48284613420565b91506135ff8261355e565b91508190509695505050505050565b7f3c656c6c697073652066696c6c3d222300000000000000000000000000000000600082015250565b6000613644601083613336565b915061364f8261360e565b601082019050919050565b7f222063783d220000000000000000000000000000000000000000000000000000600082015250565b6000613690600683613336565b915061369b8261365a565b600682019050919050565b7f222063793d220000000000000000000000000000000000000000000000000000600082015250565b60006136dc600683613336565b91506136e7826136a6565b600682019050919050565b7f222072783d220000000000000000000000000000000000000000000000000000600082015250565b6000613728600683613336565b9150613733826136f2565b600682019050919050565b7f222072793d220000000000000000000000000000000000000000000000000000600082015250565b6000613774600683613336565b915061377f8261373e565b600682019050919050565b600061379582613637565b91506137a18288613398565b91506137ac82613683565b91506137b88287613420565b91506137c3826136cf565b91506137cf8286613420565b91506137da8261371b565b91506137e68285613420565b91506137f182613767565b91506137fd8284613420565b91506138088261355e565b91508190509695505050505050565b7f3c6c696e652066696c6c3d226e6f6e6522207374726f6b653d22230000000000600082015250565b600061384d601b83613336565b915061385882613817565b601b82019050919050565b7f22207374726f6b652d77696474683d2200000000000000000000000000000000600082015250565b6000613899601083613336565b91506138a482613863565b601082019050919050565b7f222078313d220000000000000000000000000000000000000000000000000000600082015250565b60006138e5600683613336565b91506138f0826138af565b600682019050919050565b7f222079313d220000000000000000000000000000000000000000000000000000600082015250565b6000613931600683613336565b915061393c826138fb565b600682019050919050565b7f222078323d220000000000000000000000000000000000000000000000000000600082015250565b600061397d600683613336565b915061398882613947565b600682019050919050565b7f222079323d220000000000000000000000000000000000000000000000000000600082015250565b60006139c9600683613336565b91506139d482613993565b600682019050919050565b60006139ea82613840565b91506139f68289613398565b9150613a018261388c565b9150613a0d8288613420565b9150613a18826138d8565b9150613a248287613420565b9150613a2f82613924565b9150613a3b8286613420565b9150613a4682613970565b9150613a528285613420565b9150613a5d826139bc565b9150613a698284613420565b9150613a748261355e565b9150819050979650505050505050565b7f3c706f6c796c696e652066696c6c3d226e6f6e6522207374726f6b653d222300600082015250565b6000613aba601f83613336565b9150613ac582613a84565b601f82019050919050565b7f2220706f696e74733d2200000000000000000000000000000000000000000000600082015250565b6000613b06600a83613336565b9150613b1182613ad0565b600a82019050919050565b6000613b2782613aad565b9150613b338286613398565b9150613b3e8261388c565b9150613b4a8285613420565b9150613b5582613af9565b9150613b618284613398565b9150613b6c8261355e565b9150819050949350505050565b7f3c706f6c79676f6e2066696c6c3d222300000000000000000000000000000000600082015250565b6000613baf601083613336565b9150613bba82613b79565b601082019050919050565b6000613bd082613ba2565b9150613bdc8285613398565b9150613be782613af9565b9150613bf38284613398565b9150613bfe8261355e565b91508190509392505050565b7f3c70617468207374726f6b652d6c696e656361703d22726f756e64222073747260008201527f6f6b652d6c696e656a6f696e3d22726f756e64222066696c6c3d226e6f6e652260208201527f207374726f6b653d222300000000000000000000000000000000000000000000604082015250565b6000613c8c604a83613336565b9150613c9782613c0a565b604a82019050919050565b7f2220643d224d0000000000000000000000000000000000000000000000000000600082015250565b6000613cd8600683613336565b9150613ce382613ca2565b600682019050919050565b7f2000000000000000000000000000000000000000000000000000000000000000600082015250565b6000613d24600183613336565b9150613d2f82613cee565b600182019050919050565b6000613d4582613c7f565b9150613d518288613398565b9150613d5c8261388c565b9150613d688287613420565b9150613d7382613ccb565b9150613d7f8286613420565b9150613d8a82613d17565b9150613d968285613420565b9150613da28284613398565b9150613dad8261355e565b91508190509695505050505050565b7f7b226e616d65223a220000000000000000000000000000000000000000000000600082015250565b6000613df2600983613336565b9150613dfd82613dbc565b600982019050919050565b7f2023000000000000000000000000000000000000000000000000000000000000600082015250565b6000613e3e600283613336565b9150613e4982613e08565b600282019050919050565b7f222c000000000000000000000000000000000000000000000000000000000000600082015250565b6000613e8a600283613336565b9150613e9582613e54565b600282019050919050565b7f226465736372697074696f6e223a22436f6c6f757220796f7572204e4654207960008201527f6f7572207761792e2050726f76696e6720796f752063616e206372656174652060208201527f616e20535647207573696e6720616e20535647206f6e2074686520626c6f636b60408201527f636861696e222c00000000000000000000000000000000000000000000000000606082015250565b6000613f48606783613336565b9150613f5382613ea0565b606782019050919050565b7f2265787465726e616c5f75726c223a2200000000000000000000000000000000600082015250565b6000613f94601083613336565b9150613f9f82613f5e565b601082019050919050565b7f2300000000000000000000000000000000000000000000000000000000000000600082015250565b6000613fe0600183613336565b9150613feb82613faa565b600182019050919050565b7f22696d6167655f64617461223a22646174613a696d6167652f7376672b786d6c60008201527f3b6261736536342c000000000000000000000000000000000000000000000000602082015250565b6000614052602883613336565b915061405d82613ff6565b602882019050919050565b7f222c2261747472696275746573223a0000000000000000000000000000000000600082015250565b600061409e600f83613336565b91506140a982614068565b600f82019050919050565b7f7d00000000000000000000000000000000000000000000000000000000000000600082015250565b60006140ea600183613336565b91506140f5826140b4565b600182019050919050565b600061410b82613de5565b91506141178289613420565b915061412282613e31565b915061412e8288613420565b915061413982613e7d565b915061414482613f3b565b915061414f82613f87565b915061415b8287613420565b915061416682613fd3565b91506141728286613420565b915061417d82613e7d565b915061418882614045565b91506141948285613420565b915061419f82614091565b91506141ab8284613398565b91506141b6826140dd565b9150819050979650505050505050565b50565b60006141d6600083613336565b91506141e1826141c6565b600082019050919050565b60006141f7826141c9565b9150819050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b600061423b82612e49565b915061424683612e49565b925082820190508082111561425e5761425d614201565b5b92915050565b7f3c636972636c652063783d223930222063793d2233352220723d22313522206360008201527f6c6173733d22636f6c6f722d62746e222066696c6c3d22230000000000000000602082015250565b60006142c0603883613336565b91506142cb82614264565b603882019050919050565b7f222f3e3c636972636c652063783d22313330222063793d2233352220723d223160008201527f352220636c6173733d22636f6c6f722d62746e222066696c6c3d222300000000602082015250565b6000614332603c83613336565b915061433d826142d6565b603c82019050919050565b7f222f3e3c636972636c652063783d22313730222063793d2233352220723d223160008201527f352220636c6173733d22636f6c6f722d62746e222066696c6c3d222300000000602082015250565b60006143a4603c83613336565b91506143af82614348565b603c82019050919050565b7f222f3e3c636972636c652063783d22323130222063793d2233352220723d223160008201527f352220636c6173733d22636f6c6f722d62746e222066696c6c3d222300000000602082015250565b6000614416603c83613336565b9150614421826143ba565b603c82019050919050565b7f222f3e3c636972636c652063783d22323530222063793d2233352220723d223160008201527f352220636c6173733d22636f6c6f722d62746e222066696c6c3d222300000000602082015250565b6000614488603c83613336565b91506144938261442c565b603c82019050919050565b7f222f3e3c6720636c6173733d2273686170652d67726f757022207472616e736660008201527f6f726d3d227472616e736c617465283434352c20323029223e00000000000000602082015250565b60006144fa603983613336565b91506145058261449e565b603982019050919050565b7f3c2f673e3c6720636c6173733d2273686170652d67726f757022207472616e7360008201527f666f726d3d227472616e736c617465283438352c20323029223e000000000000602082015250565b600061456c603a83613336565b915061457782614510565b603a82019050919050565b7f3c2f673e3c6720636c6173733d2273686170652d67726f757022207472616e7360008201527f666f726d3d227472616e736c617465283532352c20323029223e000000000000602082015250565b60006145de603a83613336565b91506145e982614582565b603a82019050919050565b7f3c2f673e00000000000000000000000000000000000000000000000000000000600082015250565b600061462a600483613336565b9150614635826145f4565b600482019050919050565b600061464b826142b3565b9150614657828b613398565b915061466282614325565b915061466e828a613398565b915061467982614397565b91506146858289613398565b915061469082614409565b915061469c8288613398565b91506146a78261447b565b91506146b38287613398565b91506146be826144ed565b91506146ca8286613398565b91506146d58261455f565b91506146e18285613398565b91506146ec826145d1565b91506146f88284613398565b91506147038261461d565b91508190509998505050505050505050565b7f72656374222f3e3c7265637420783d22352220793d22372e352220776964746860008201527f3d22323022206865696768743d22313522000000000000000000000000000000602082015250565b6000614771603183613336565b915061477c82614715565b603182019050919050565b60006147938285613398565b915061479e82614764565b91506147aa8284613398565b91508190509392505050565b7f656c6c69707365222f3e3c656c6c697073652063783d223135222063793d223160008201527f35222072783d2238222072793d22382200000000000000000000000000000000602082015250565b6000614812603083613336565b915061481d826147b6565b603082019050919050565b60006148348285613398565b915061483f82614805565b915061484b8284613398565b91508190509392505050565b7f6c696e65222f3e3c6c696e652078313d2235222079313d223130222078323d2260008201527f3235222079323d22323022000000000000000000000000000000000000000000602082015250565b60006148b3602b83613336565b91506148be82614857565b602b82019050919050565b60006148d58285613398565b91506148e0826148a6565b91506148ec8284613398565b91508190509392505050565b7f706f6c796c696e65222f3e3c706f6c796c696e6520706f696e74733d22352c3160008201527f352031322e352c31302031372e352c32302032352c3135220000000000000000602082015250565b6000614954603883613336565b915061495f826148f8565b603882019050919050565b60006149768285613398565b915061498182614947565b915061498d8284613398565b91508190509392505050565b6149a281612a56565b82525050565b60006020820190506149bd6000830184614999565b92915050565b7f706f6c79676f6e2d33222f3e3c706f6c79676f6e20706f696e74733d2231352c60008201527f372032352c323320352c32332200000000000000000000000000000000000000602082015250565b6000614a1f602d83613336565b9150614a2a826149c3565b602d82019050919050565b6000614a418285613398565b9150614a4c82614a12565b9150614a588284613398565b91508190509392505050565b7f706f6c79676f6e2d35222f3e3c706f6c79676f6e20706f696e74733d2231352c60008201527f352032352c31322032302c32322e352031302c32322e3520352c313222000000602082015250565b6000614ac0603d83613336565b9150614acb82614a64565b603d82019050919050565b6000614ae28285613398565b9150614aed82614ab3565b9150614af98284613398565b91508190509392505050565b7f706f6c79676f6e2d36222f3e3c706f6c79676f6e20706f696e74733d2231302c60008201527f362032302c362032352c31352032302c32342031302c323420352c3135220000602082015250565b6000614b61603e83613336565b9150614b6c82614b05565b603e82019050919050565b6000614b838285613398565b9150614b8e82614b54565b9150614b9a8284613398565b91508190509392505050565b6000819050919050565b6000614bcb614bc6614bc184612a56565b614ba6565b612e49565b9050919050565b614bdb81614bb0565b82525050565b6000602082019050614bf66000830184614bd2565b92915050565b7f5b7b2274726169745f74797065223a22436f6c6f757231222c2276616c75652260008201527f3a22230000000000000000000000000000000000000000000000000000000000602082015250565b6000614c58602383613336565b9150614c6382614bfc565b602382019050919050565b7f227d2c7b2274726169745f74797065223a22436f6c6f757232222c2276616c7560008201527f65223a2223000000000000000000000000000000000000000000000000000000602082015250565b6000614cca602583613336565b9150614cd582614c6e565b602582019050919050565b7f227d2c7b2274726169745f74797065223a22436f6c6f757233222c2276616c7560008201527f65223a2223000000000000000000000000000000000000000000000000000000602082015250565b6000614d3c602583613336565b9150614d4782614ce0565b602582019050919050565b7f227d2c7b2274726169745f74797065223a22436f6c6f757234222c2276616c7560008201527f65223a2223000000000000000000000000000000000000000000000000000000602082015250565b6000614dae602583613336565b9150614db982614d52565b602582019050919050565b7f227d2c7b2274726169745f74797065223a22436f6c6f757235222c2276616c7560008201527f65223a2223000000000000000000000000000000000000000000000000000000602082015250565b6000614e20602583613336565b9150614e2b82614dc4565b602582019050919050565b7f227d2c7b2274726169745f74797065223a22536861706531222c2276616c756560008201527f223a220000000000000000000000000000000000000000000000000000000000602082015250565b6000614e92602383613336565b9150614e9d82614e36565b602382019050919050565b7f227d2c7b2274726169745f74797065223a22536861706532222c2276616c756560008201527f223a220000000000000000000000000000000000000000000000000000000000602082015250565b6000614f04602383613336565b9150614f0f82614ea8565b602382019050919050565b7f227d2c7b2274726169745f74797065223a22536861706533222c2276616c756560008201527f223a220000000000000000000000000000000000000000000000000000000000602082015250565b6000614f76602383613336565b9150614f8182614f1a565b602382019050919050565b7f227d5d0000000000000000000000000000000000000000000000000000000000600082015250565b6000614fc2600383613336565b9150614fcd82614f8c565b600382019050919050565b6000614fe382614c4b565b9150614fef828b613398565b9150614ffa82614cbd565b9150615006828a613398565b915061501182614d2f565b915061501d8289613398565b915061502882614da1565b91506150348288613398565b915061503f82614e13565b915061504b8287613398565b915061505682614e85565b91506150628286613398565b915061506d82614ef7565b91506150798285613398565b915061508482614f69565b91506150908284613398565b915061509b82614fb5565b91508190509998505050505050505050565b60006150b882612e49565b91506150c383612e49565b92508282026150d181612e49565b915082820484148315176150e8576150e7614201565b5b5092915050565b60006150fb8285613420565b91506151078284613420565b91508190509392505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601260045260246000fd5b600061514d82612e49565b915061515883612e49565b92508282039050818111156151705761516f614201565b5b92915050565b600061518182612e49565b91507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff82036151b3576151b2614201565b5b600182019050919050565b60006151c982612e49565b91506151d483612e49565b9250826151e4576151e3615113565b5b828204905092915050565b600061520a61520561520084612a8f565b614ba6565b612e49565b9050919050565b61521a816151ef565b82525050565b60006020820190506152356000830184615211565b9291505056fe3c7265637420783d22302220793d2230222077696474683d22333022206865696768743d2233302220636c6173733d22746f6f6c2d62672220646174612d73686170653d222066696c6c3d226e6f6e6522207374726f6b653d222333333322207374726f6b652d77696474683d22322220636c6173733d2273686170652d69636f6e222f3e4142434445464748494a4b4c4d4e4f505152535455565758595a6162636465666768696a6b6c6d6e6f707172737475767778797a303132333435363738392b2fa2646970667358221220d8a4d223821f3d8bdf26e1e5496dd55042fe7456f21ed86c2fdccd70ad4f9ae864736f6c634300081c0033";
+  "0x6080806040523460155761410c908161001b8239f35b600080fdfe6080604052600436101561001257600080fd5b60003560e01c80631ef64051146100b75780633665dc3b146100b25780637889b615146100ad5780638ff19fcc146100a8578063a651e0c1146100a3578063bce883ae1461009e578063c18ac46414610099578063cc719f8f14610094578063e27594091461008f5763eaa640ac1461008a57600080fd5b610bdc565b610b93565b610b69565b610b45565b6107ce565b610730565b610697565b61065c565b6105e6565b3461015357366003190160c081126101535760a013610153576100db610120604052565b6100e3610206565b6080526100ee610222565b60a0526100f961024e565b60c05260643561ffff811681036101535760e05261011561025e565b6101005260a4356001600160401b0381116101535761014361013e61014f9236906004016102a1565b610e0b565b60405191829182610377565b0390f35b600080fd5b634e487b7160e01b600052604160045260246000fd5b604081019081106001600160401b0382111761018957604052565b610158565b61010081019081106001600160401b0382111761018957604052565b608081019081106001600160401b0382111761018957604052565b90601f801991011681019081106001600160401b0382111761018957604052565b604051906101f560a0836101c5565b565b604051906101f56040836101c5565b60043590600782101561015357565b3590600782101561015357565b602435906001600160e81b03198216820361015357565b35906001600160e81b03198216820361015357565b6044359060ff8216820361015357565b6084359060ff8216820361015357565b359060ff8216820361015357565b6001600160401b0381116101895760051b60200190565b35908160010b820361015357565b81601f82011215610153578035906102b88261027c565b926102c660405194856101c5565b82845260208085019360061b8301019181831161015357602001925b8284106102f0575050505090565b604084830312610153576020604091825161030a8161016e565b61031387610293565b8152610320838801610293565b838201528152019301926102e2565b60005b8381106103425750506000910152565b8181015183820152602001610332565b9060209161036b8151809281855285808601910161032f565b601f01601f1916010190565b906020610388928181520190610352565b90565b61010090600319011261015357604051906103a58261018e565b816103b06004610239565b81526103bc6024610239565b60208201526103cb6044610239565b60408201526103da6064610239565b60608201526103e96084610239565b60808201526103f860a4610215565b60a082015261040760c4610215565b60c082015260e061041860e461026e565b910152565b6101009061012319011261015357604051906104388261018e565b81610444610124610239565b8152610451610144610239565b6020820152610461610164610239565b6040820152610471610184610239565b60608201526104816101a4610239565b60808201526104916101c4610215565b60a08201526104a16101e4610215565b60c082015260e061041861020461026e565b6001600160401b03811161018957601f01601f191660200190565b81601f82011215610153576020813591016104e8826104b3565b926104f660405194856101c5565b828452828201116101535781600092602092838601378301015290565b9080601f830112156101535781359161052b8361027c565b9261053960405194856101c5565b80845260208085019160051b830101918383116101535760208101915b83831061056557505050505090565b82356001600160401b038111610153578201906040828703601f19011261015357604051906105938261016e565b602083013582526040830135916001600160401b038311610153576105c0886020809695819601016104ce565b83820152815201920191610556565b61026435906001600160a01b038216820361015357565b3461015357610160366003190112610153576106013661038b565b6101043590610124356001600160401b03811161015357610626903690600401610513565b61014435906001600160a01b03821682036101535761014f93610648936118af565b604051918291602083526020830190610352565b34610153576020366003190112610153576004356001600160401b0381116101535761064861069261014f923690600401610513565b611d9a565b34610153576040366003190112610153576004356001600160401b038111610153576106486106cd61014f923690600401610513565b60243590611e99565b60809060a319011261015357604051906106ef826101aa565b8160a4358060010b810361015357815260c4358060010b810361015357602082015260e4358060010b81036101535760408201526060610418610104610293565b346101535760a0366003190112610153576004356001600160401b03811161015357610760903690600401610513565b60803660231901126101535760405190610779826101aa565b6024358060010b8103610153578252604435918260010b8303610153576107c96101439261014f9460208401526107b06064610293565b60408401526107bf6084610293565b6060840152611d9a565b613b1d565b3461015357610100366003190112610153576107e93661038b565b80516001600160e81b0319166107fe90612bc0565b60208201516001600160e81b03191661081690612bc0565b60408301519092906001600160e81b03191661083190612bc0565b60608201519091906001600160e81b03191661084c90612bc0565b60808201516001600160e81b03191661086490612bc0565b60a083015161087281610d19565b61087b906120cc565b9160c084015161088a81610d19565b610893906120cc565b60e09094015160ff166108a59061229f565b9460405197889760208901610904906038907f3c636972636c652063783d223930222063793d2233352220723d22313522206381527f6c6173733d22636f6c6f722d62746e222066696c6c3d2223000000000000000060208201520190565b61090d91610de7565b7f222f3e3c636972636c652063783d22313330222063793d2233352220723d223181526000805160206140b78339815191526020820152603c0161095091610de7565b7f222f3e3c636972636c652063783d22313730222063793d2233352220723d223181526000805160206140b78339815191526020820152603c0161099391610de7565b7f222f3e3c636972636c652063783d22323130222063793d2233352220723d223181526000805160206140b78339815191526020820152603c016109d691610de7565b7f222f3e3c636972636c652063783d22323530222063793d2233352220723d223181526000805160206140b78339815191526020820152603c01610a1991610de7565b7f222f3e3c6720636c6173733d2273686170652d67726f757022207472616e736681527f6f726d3d227472616e736c617465283434352c20323029223e000000000000006020820152603901610a6e91610de7565b7f3c2f673e3c6720636c6173733d2273686170652d67726f757022207472616e7381527f666f726d3d227472616e736c617465283438352c20323029223e0000000000006020820152603a01610ac391610de7565b7f3c2f673e3c6720636c6173733d2273686170652d67726f757022207472616e7381527f666f726d3d227472616e736c617465283532352c20323029223e0000000000006020820152603a01610b1891610de7565b631e17b39f60e11b815260040103601f1981018252610b3790826101c5565b60405161014f819282610377565b346101535760203660031901126101535761014f610648610b64610206565b6120cc565b346101535760203660031901126101535760043560ff811681036101535761064861014f9161229f565b346101535760003660031901126101535761014f6040805190610bb681836101c5565b6007825266436c617373696360c81b602083015251918291602083526020830190610352565b3461015357610280366003190112610153576004356001600160401b03811161015357610c0d9036906004016104ce565b6024356044356001600160401b03811161015357610c2f9036906004016104ce565b916064356001600160401b03811161015357610c4f9036906004016104ce565b916084356001600160401b03811161015357610c6f9036906004016104ce565b610c78366106d6565b610c813661041d565b90610224359261024435966001600160401b0388116101535761014f98610caf610143993690600401610513565b96610cb86105cf565b986123dd565b60405190610ccd6020836101c5565b60008252565b60405190610ce26040836101c5565b6004825263199a5b1b60e21b6020830152565b60405190610d046040836101c5565b60068252657374726f6b6560d01b6020830152565b60071115610d2357565b634e487b7160e01b600052602160045260246000fd5b634e487b7160e01b600052603260045260246000fd5b805115610d5c5760200190565b610d39565b805160011015610d5c5760400190565b8051821015610d5c5760209160051b010190565b7f3c70617468207374726f6b652d6c696e656361703d22726f756e64222073747281527f6f6b652d6c696e656a6f696e3d22726f756e64222066696c6c3d226e6f6e6522602082015269207374726f6b653d222360b01b6040820152604a0190565b90610dfa6020928281519485920161032f565b0190565b600160fd1b815260010190565b606090610e2b610e1e6101005160ff1690565b610e26610cd3565b6126f5565b90610e44610e3c6101005160ff1690565b610e26610cf5565b92608051610e5181610d19565b610e5a81610d19565b610f99575060a051919250906001600160e81b0319165b610e7a90612bc0565b90610e8481610d4f565b5151610e929060010b612dcf565b90610e9c81610d4f565b5160200151610ead9060010b612dcf565b610eb682610d61565b5151610ec49060010b612dcf565b91610ece90610d61565b5160200151610edf9060010b612dcf565b6040516c3c726563742066696c6c3d222360981b6020820152958695919491602d8701610f0b91610de7565b610f1491610de7565b6411103c1e9160d91b8152600501610f2b91610de7565b6411103c9e9160d91b8152600501610f4291610de7565b6811103bb4b23a341e9160b91b8152600901610f5d91610de7565b6911103432b4b3b43a1e9160b11b8152600a015b610f7a91610de7565b6211179f60e91b81526003015b03601f198101825261038890826101c5565b6002608051610fa781610d19565b610fb081610d19565b036110ca575060a051919250906001600160e81b0319165b610fd190612bc0565b90610fdb81610d4f565b5151610fe99060010b612dcf565b90610ff381610d4f565b51602001516110049060010b612dcf565b61100d82610d61565b515161101b9060010b612dcf565b9161102590610d61565b51602001516110369060010b612dcf565b6040516f3c656c6c697073652066696c6c3d222360801b60208201529586959194916030870161106591610de7565b61106e91610de7565b65111031bc1e9160d11b815260060161108691610de7565b65111031bc9e9160d11b815260060161109e91610de7565b651110393c1e9160d11b81526006016110b691610de7565b651110393c9e9160d11b8152600601610f71565b60016080516110d881610d19565b6110e181610d19565b03611246575060a0519091506001600160e81b03191661110090612bc0565b9060c05161110e9060ff1690565b60ff1661111a90612c7c565b9061112481610d4f565b51516111329060010b612dcf565b61113b82610d4f565b516020015161114c9060010b612dcf565b9061115683610d61565b51516111649060010b612dcf565b9261116e90610d61565b516020015161117f9060010b612dcf565b6040517f3c6c696e652066696c6c3d226e6f6e6522207374726f6b653d222300000000006020820152968796919591603b88016111bb91610de7565b6111c491610de7565b6f111039ba3937b5b296bbb4b23a341e9160811b81526010016111e691610de7565b6511103c189e9160d11b81526006016111fe91610de7565b6511103c989e9160d11b815260060161121691610de7565b6511103c191e9160d11b815260060161122e91610de7565b6511103c991e9160d11b8152600601610f7a91610de7565b600360805161125481610d19565b61125d81610d19565b148015611517575b156113c2575061127490612e69565b90600360805161128381610d19565b61128c81610d19565b03611370575061131b916113626113536103889361131b61133d6112bf6112ba60a05162ffffff60e81b1690565b612bc0565b9561131b6113216112e36112de6112d860c05160ff1690565b60ff1690565b612c7c565b926040519b8c9a61131b60208d01601f907f3c706f6c796c696e652066696c6c3d226e6f6e6522207374726f6b653d22230081520190565b90610de7565b6f111039ba3937b5b296bbb4b23a341e9160811b815260100190565b6911103837b4b73a399e9160b11b8152600a0190565b6211179f60e91b815260030190565b03601f1981018352826101c5565b61131b92506113626113536103889361131b61133d6113996112ba60a05162ffffff60e81b1690565b6040516f3c706f6c79676f6e2066696c6c3d222360801b6020820152988997916030890161131b565b92915060056080516113d381610d19565b6113dc81610d19565b1480156114f9575b6113ee575b505090565b90915060056080516113ff81610d19565b61140881610d19565b036114eb57611416816129a4565b60a0516001600160e81b03191661142c90612bc0565b9160c05161143a9060ff1690565b60ff1661144690612c7c565b9061145081610d4f565b515161145e9060010b612dcf565b9061146890610d4f565b51602001516114799060010b612dcf565b916040519586956020870161148d90610d85565b61149691610de7565b61149f91610de7565b6f111039ba3937b5b296bbb4b23a341e9160811b81526010016114c191610de7565b652220643d224d60d01b81526006016114d991610de7565b6114e290610dfe565b610f7191610de7565b6114f481612813565b611416565b50600660805161150881610d19565b61151181610d19565b146113e4565b50600460805161152681610d19565b61152f81610d19565b14611265565b6060916080820191611559610e3c611551610e1e865160ff1690565b945160ff1690565b93815161156581610d19565b61156e81610d19565b61158a575060200151919250906001600160e81b031916610e71565b6002825161159781610d19565b6115a081610d19565b036115bd575060200151919250906001600160e81b031916610fc8565b6001829492516115cc81610d19565b6115d581610d19565b0361160257505060208201516001600160e81b0319166115f490612bc0565b60409092015160ff1661110e565b600384959392945161161381610d19565b61161c81610d19565b148015611842575b156116c0575061163390612e69565b916003845161164181610d19565b61164a81610d19565b036116955750916113626113536103889361131b61133d61131b9761131b6113216112e36112de6112d8604061168c6112ba60208f015162ffffff60e81b1690565b9c015160ff1690565b90506113626113536103889361131b61133d6113996112ba602061131b9a015162ffffff60e81b1690565b93919250600582516116d181610d19565b6116da81610d19565b148015611825575b6116ed575b50505090565b90919250600582516116fe81610d19565b61170781610d19565b0361181657611715816129a4565b905b60208301516001600160e81b03191661172f90612bc0565b604093909301516117429060ff16612c7c565b9061174c81610d4f565b515161175a9060010b612dcf565b9061176490610d4f565b51602001516117759060010b612dcf565b916040519586956020870161178990610d85565b61179291610de7565b61179b91610de7565b6f111039ba3937b5b296bbb4b23a341e9160811b81526010016117bd91610de7565b652220643d224d60d01b81526006016117d591610de7565b6117de90610dfe565b6117e791610de7565b6117f091610de7565b6211179f60e91b815260030103601f198101825261180e90826101c5565b3880806116e7565b61181f81612813565b90611717565b506006825161183381610d19565b61183c81610d19565b146116e2565b506004855161185081610d19565b61185981610d19565b14611624565b6040519061186e6060836101c5565b602c82527f7b2274726169745f74797065223a22547261697473222c2276616c7565223a2260208301526b556e72657665616c6564227d60a01b6040830152565b9080611c9557506118be610cbe565b925b6001600160a01b038116611c2957506118d7610cbe565b905b60e081019060ff6118eb835160ff1690565b1661193e5750509061136261193161131b9461131b6103889561131b61191861191261185f565b9761338a565b604051605b60f81b6020820152998a9860218a0161131b565b605d60f81b815260010190565b80519293926001600160e81b03191661195690612bc0565b60208201519091906001600160e81b03191661197190612bc0565b60408201519093906001600160e81b03191661198c90612bc0565b60608301519092906001600160e81b0319166119a790612bc0565b60808201516001600160e81b0319166119bf90612bc0565b9060a08301516119ce81610d19565b6119d79061319a565b9260c001516119e581610d19565b6119ee9061319a565b935160ff166119fc90613280565b9460405197889760208901611a40906022907f7b2274726169745f74797065223a22436f6c6f757231222c2276616c7565223a815261222360f01b60208201520190565b611a4991610de7565b7f227d2c7b2274726169745f74797065223a22436f6c6f757232222c2276616c7581526465223a222360d81b6020820152602501611a8691610de7565b7f227d2c7b2274726169745f74797065223a22436f6c6f757233222c2276616c7581526465223a222360d81b6020820152602501611ac391610de7565b7f227d2c7b2274726169745f74797065223a22436f6c6f757234222c2276616c7581526465223a222360d81b6020820152602501611b0091610de7565b7f227d2c7b2274726169745f74797065223a22436f6c6f757235222c2276616c7581526465223a222360d81b6020820152602501611b3d91610de7565b7f227d2c7b2274726169745f74797065223a22536861706531222c2276616c7565815262111d1160e91b6020820152602301611b7891610de7565b7f227d2c7b2274726169745f74797065223a22536861706532222c2276616c7565815262111d1160e91b6020820152602301611bb391610de7565b7f227d2c7b2274726169745f74797065223a22536861706533222c2276616c7565815262111d1160e91b6020820152602301611bee91610de7565b61227d60f01b815260020103601f1981018252611c0b90826101c5565b9061193161131b9461131b6103889561131b6119186113629661338a565b611c8f611c38611c8192612fee565b61136260405193849261131b602085016026907f2c7b2274726169745f74797065223a224c61737420456469746f72222c227661815265363ab2911d1160d11b60208201520190565b61227d60f01b815260020190565b906118d9565b611d4a611ca4611d3d92612c7c565b61136260405193849261131b611cf660208601602c907f2c7b2274726169745f74797065223a22537461747573222c2276616c7565223a81526b2246696e616c697a6564227d60a01b60208201520190565b60008051602061409783398151915281527f5f74797065223a2246696e616c697a656420426c6f636b222c2276616c7565226020820152601d60f91b604082015260410190565b607d60f81b815260010190565b926118c0565b90611d5a8261027c565b611d6760405191826101c5565b8281528092611d78601f199161027c565b019060005b828110611d8957505050565b806060602080938501015201611d7d565b90815115611e1357611dac8251611d50565b60005b8351811015611e075780611deb611dd2611dcb60019488610d71565b51516136b5565b611de5611ddf8489610d71565b516137ec565b90611535565b611df58285610d71565b52611e008184610d71565b5001611daf565b50610388919250613968565b9050604051600081526103886020826101c5565b634e487b7160e01b600052601160045260246000fd5b908160011b9180830460021490151715611e5357565b611e27565b908160051b9180830460201490151715611e5357565b600281901b91906001600160fe1b03811603611e5357565b81810292918115918404141715611e5357565b919091805115611fe757611ead8151611d50565b9060005b8151811015611fda5780611f2f611fbe87611362611fb18761131b611f90611f1b611f0b6112de611efd611ef7611ddf60019f611ef1611dcb828c610d71565b99610d71565b87611535565b988d198a51018a528c611e86565b9351611f1681610d19565b613a7c565b9261131b604051998a9860208a0190610de7565b7f207669736962696c6974793d2268696464656e223e3c7365742061747472696281527f7574654e616d653d227669736962696c6974792220746f3d2276697369626c6560208201526811103132b3b4b71e9160b91b604082015260490190565b746d73222066696c6c3d22667265657a65222f3e3c2f60581b815260150190565b601f60f91b815260010190565b611fc88286610d71565b52611fd38185610d71565b5001611eb1565b5050610388919250613968565b509050604051600081526103886020826101c5565b6040519061200b6080836101c5565b604582527f3c7265637420783d22302220793d2230222077696474683d223330222068656960208301527f6768743d2233302220636c6173733d22746f6f6c2d62672220646174612d736860408301526430b8329e9160d91b6060830152565b6040519061207a6060836101c5565b604082527f652d77696474683d22322220636c6173733d2273686170652d69636f6e222f3e6040837f2066696c6c3d226e6f6e6522207374726f6b653d222333333322207374726f6b60208201520152565b6120d581610d19565b8061214a57506121076103886120e9611ffc565b6113626120f461206b565b61131b6040519586946020860190610de7565b7f72656374222f3e3c7265637420783d22352220793d22372e35222077696474688152701e91191811103432b4b3b43a1e91189a9160791b602082015260310190565b61215381610d19565b600281036121ac575061216a6103886120e9611ffc565b7f656c6c69707365222f3e3c656c6c697073652063783d223135222063793d223181526f1a9110393c1e911c1110393c9e911c1160811b602082015260300190565b6121b581610d19565b6001810361220957506121cc6103886120e9611ffc565b7f6c696e65222f3e3c6c696e652078313d2235222079313d223130222078323d2281526a191a91103c991e9119181160a91b6020820152602b0190565b61221281610d19565b6003810361227857506122296103886120e9611ffc565b7f706f6c796c696e65222f3e3c706f6c796c696e6520706f696e74733d22352c3181527f352031322e352c31302031372e352c32302032352c3135220000000000000000602082015260380190565b8061228561229b92610d19565b6334d4d66760e21b60005260ff16600452602490565b6000fd5b60ff8116600381036122fa5750506122bb6103886120e9611ffc565b7f706f6c79676f6e2d33222f3e3c706f6c79676f6e20706f696e74733d2231352c81526c1b90191a961919901a9619199160991b6020820152602d0190565b600581036123615750506123126103886120e9611ffc565b7f706f6c79676f6e2d35222f3e3c706f6c79676f6e20706f696e74733d2231352c81527f352032352c31322032302c32322e352031302c32322e3520352c3132220000006020820152603d0190565b6006036123c657506123776103886120e9611ffc565b7f706f6c79676f6e2d36222f3e3c706f6c79676f6e20706f696e74733d2231302c81527f362032302c362032352c31352032302c32342031302c323420352c31352200006020820152603e0190565b63c4b8d4e360e01b60005260ff1660045260246000fd5b97989093929896959194966123f185612c7c565b996123fb86612c7c565b9861240591613b1d565b61240e90613d36565b9361241890613d36565b9461242290612c7c565b9661242c936118af565b94604051978897683d913730b6b2911d1160b91b60208a01528051908160298b01916020019161245b9261032f565b61202360f01b6029918a0191820152602b0161247691610de7565b61088b60f21b81526002017f226465736372697074696f6e223a22436f6c6f757220796f7572204e4654207981527f6f7572207761792e2050726f76696e6720796f752063616e206372656174652060208201527f616e20535647207573696e6720616e20535647206f6e2074686520626c6f636b60408201526618da185a5b888b60ca1b60608201526067016f1132bc3a32b93730b62fbab936111d1160811b81526010016125269085610de7565b602360f81b815260010161253991610de7565b61088b60f21b81526002017f22696d616765223a22646174613a696d6167652f7376672b786d6c3b626173658152620d8d0b60ea1b602082015260230161257f91610de7565b7f222c22616e696d6174696f6e5f75726c223a22646174613a696d6167652f737681526c19cade1b5b0ed8985cd94d8d0b609a1b6020820152602d016125c491610de7565b721116113a34b6b2b630b839b2afbab936111d1160691b81526013016125e991610de7565b602360f81b81526001016125fc91610de7565b7f2f74696d656c61707365222c2261747472696275746573223a00000000000000815260190161262b91610de7565b607d60f81b8152600101610f87565b906103e88201809211611e5357565b6003019081600311611e5357565b6002019081600211611e5357565b9060018201809211611e5357565b9060028201809211611e5357565b6033019081603311611e5357565b9060108201809211611e5357565b9060048201809211611e5357565b9060038201809211611e5357565b6006019081600611611e5357565b91908201809211611e5357565b805160011015610d5c5760210190565b908151811015610d5c570160200190565b9060ff1660ff8114612781576103e88102908082046103e81490151715611e5357607f8101809111611e535761276a916113626127416112de61273c6103889560ff900490565b61263a565b602e61274c82610d4f565b5360405161011160f51b602082015294859361131b91906022860183565b6a02d6f7061636974793d22360ac1b8152600b0190565b50506040516127916020826101c5565b6000815290565b600019810191908211611e5357565b91908203918211611e5357565b604051906127c36040836101c5565b6002825261205160f01b6020830152565b604051906127e36040836101c5565b6002825261204360f01b6020830152565b604051906128036040836101c5565b60018252600160fd1b6020830152565b9060019060605b83518084101561294f57612830846002926127a7565b036129405761131b61286560ff60025b169260038403612930576113626128556127d4565b6040519485936020850190610de7565b9260005b858382106128835750509061287d916126c7565b9161281a565b81839296811560001461292657818461289a610cbe565b9061291a60019761131b6129096128ef6128e9602061290061131b9d6128fa61291f9e6128f46128ef6113629f6128e161131b9f6128e9926128db916126c7565b87610d71565b515160010b90565b60010b90565b612dcf565b996126c7565b90610d71565b51015160010b90565b94604051998a9860208a0190610de7565b610dfe565b9401612869565b818461289a6127f4565b61136261293b6127b4565b612855565b61131b61286560ff6003612840565b5092509050565b604051906129656020836101c5565b6000808352366020840137565b9061297c826104b3565b61298960405191826101c5565b828152809261299a601f19916104b3565b0190602036910137565b600181511115612bb7576000916129c36129be8351612798565b611d50565b6001905b8351821015612b62576129e36128ef6128e96128e18588610d71565b936129f96128ef6128e960206129008786610d71565b93612a35612a1a612a15612a0d8951612649565b8851906126c7565b612972565b612a2386612798565b90612a2e8287610d71565b5284610d71565b506020612a53612a4d612a4787612798565b86610d71565b51610d4f565b53604c612a6b612a65612a4787612798565b516126d4565b5360005b8651811015612ac75780612a96612a886001938a6126e4565b516001600160f81b03191690565b612ac0612aab612aa589612798565b88610d71565b5191612ab684612657565b9060001a926126e4565b5301612a6f565b50959493906020612aee612add612a4787612798565b51612ae88851612657565b906126e4565b5360005b8251811015612b365780612b0b612a88600193866126e4565b612b2f612b1a612aa589612798565b5191612ab684612b2a8c51612649565b6126c7565b5301612af2565b509460019296939450612b589150612b50612aa586612798565b5151906126c7565b92019091936129c7565b939050612b70919250612972565b600092835b8151851015612bb057612ba8600191612b8e8785610d71565b518051602083880101816020840160045afa5051906126c7565b940193612b75565b5090925050565b50610388612956565b604080519190612bd081846101c5565b60068352601f190136602084013760005b60038110612bee57505090565b81811a612c01600482901c600f166112d8565b906010821015610d5c57600f916f181899199a1a9b1b9c1cb0b131b232b360811b901a612c36612c3085611e3d565b876126e4565b5316906010821015610d5c576001916f181899199a1a9b1b9c1cb0b131b232b360811b901a612c75612c6f612c6a84611e3d565b612665565b866126e4565b5301612be1565b8060009172184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b821015612dac575b806d04ee2d6d415b85acef8100000000600a921015612d90575b662386f26fc10000811015612d7b575b6305f5e100811015612d69575b612710811015612d59575b6064811015612d4a575b1015612d3f575b612d2f6021612d0360018501612972565b938401015b60001901916f181899199a1a9b1b9c1cb0b131b232b360811b600a82061a8353600a900490565b80156113e957612d2f9091612d08565b600190910190612cf2565b60029060649004930192612ceb565b6004906127109004930192612ce1565b6008906305f5e1009004930192612cd6565b601090662386f26fc100009004930192612cc9565b6020906d04ee2d6d415b85acef81000000009004930192612cb9565b506040915072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b8104612c9f565b600080821215612e4a5750610388612e0b604051612dee6040826101c5565b60018152602d60f81b6020820152925b8060ff1d80910118612c7c565b9160206040519382612e26869451809285808801910161032f565b8301612e3a8251809385808501910161032f565b010103601f1981018352826101c5565b60405161038891612e0b9190612e616020836101c5565b815292612dfe565b805115612bb757600091612e7d8251611d50565b60005b8351811015612fbb57612e9c6128ef6128e96128e18488610d71565b93612eb26128ef6128e960206129008686610d71565b93612ec6612a15612c6a612a0d8951612665565b612ed08486610d71565b52612edb8385610d71565b5060005b8651811015612f185780612ef8612a886001938a6126e4565b612f1182612f06888a610d71565b519260001a926126e4565b5301612edf565b5095949390602c612f35612f2c8587610d71565b518751906126e4565b5360005b8251811015612f765780612f52612a88600193866126e4565b612f6f612f5f8789610d71565b5191612ab684612b2a8c51612665565b5301612f39565b50946020612fa78496612ae8612fb295612f9f612f976001998b9e9b610d71565b519351612665565b9051906126c7565b53612b508588610d71565b94919201612e80565b5092612fc8919250612972565b600092835b8151851015612bb057612fe6600191612b8e8785610d71565b940193612fcd565b6001600160a01b031680613005612a156028612673565b91603061301184610d4f565b53607861301d846126d4565b536130286028612665565b600181116130525750613039575090565b63e22e27eb60e01b600052600452601460245260446000fd5b90600f8116906010821015610d5c5761308c916f181899199a1a9b1b9c1cb0b131b232b360811b901a61308584876126e4565b5360041c90565b908015611e535760001901613028565b604051906130ab6040836101c5565b600982526852656374616e676c6560b81b6020830152565b604051906130d26040836101c5565b6007825266456c6c6970736560c81b6020830152565b604051906130f76040836101c5565b60048252634c696e6560e01b6020830152565b604051906131196040836101c5565b6008825267506f6c796c696e6560c01b6020830152565b6040519061313f6040836101c5565b60078252662837b63cb3b7b760c91b6020830152565b604051906131646040836101c5565b60048252630a0c2e8d60e31b6020830152565b604051906131866040836101c5565b6005825264437572766560d81b6020830152565b6131a381610d19565b8015613252576131b281610d19565b60028114613249576131c381610d19565b60018114613240576131d481610d19565b60038114613237576131e581610d19565b6004811461322e576131f681610d19565b600581146132255761320781610d19565b6006811461321c578061228561229b92610d19565b50610388613177565b50610388613155565b50610388613130565b5061038861310a565b506103886130e8565b506103886130c3565b5061038861309c565b6040519061326a6040836101c5565b60078252662432bc30b3b7b760c91b6020830152565b60ff8116600381146132e357600581146132bb576006146132b25763c4b8d4e360e01b60005260ff1660045260246000fd5b5061038861325b565b50506040516132cb6040826101c5565b60088152672832b73a30b3b7b760c11b602082015290565b50506040516132f36040826101c5565b6008815267547269616e676c6560c01b602082015290565b906133158261027c565b61332260405191826101c5565b828152809261299a601f199161027c565b6040519060e061334381846101c5565b368337565b906007811015610d5c5760051b0190565b6000198114611e535760010190565b604051906133776040836101c5565b60048252634e6f6e6560e01b6020830152565b90613395825161330b565b9160009283926133a3613333565b85915b84518310156134cb576133df6133bf611dcb8588610d71565b966133d96133d260608a015161ffff1690565b61ffff1690565b906126c7565b916133f787516133ee81610d19565b6112d881610d19565b61341461340d6134078385613348565b51613359565b9183613348565b5260009660200195875b898910806134c3575b15613470575061346a61344b61343d8a89610d71565b516001600160e81b03191690565b88516001600160e81b0319166001600160e81b03199091161498613359565b9761341e565b60019397919498509491941561348b575b50019190936133a6565b516134bd906001600160e81b0319166134ad6134a68b613359565b9a88610d71565b6001600160e81b03199091169052565b38613481565b508015613427565b6000969591949350915060015b60ff81166007811015613517576134ef9086613348565b516134fd60ff891687613348565b511061350f575b60010160ff166134d8565b955085613504565b50509392509361353361352d61352d8451612c7c565b94612c7c565b915161368e5750613542613368565b905b604051938493602085016135909060399060008051602061409783398151915281527f5f74797065223a224f626a65637473222c2276616c7565223a0000000000000060208201520190565b61359991610de7565b607d60f81b815260010160008051602061409783398151915281527f5f74797065223a22436f6c6f7572732055736564222c2276616c7565223a00006020820152603e016135e691610de7565b607d60f81b815260010160008051602061409783398151915281527f5f74797065223a22506f696e7473222c2276616c7565223a0000000000000000602082015260380161363391610de7565b607d60f81b81526001017f2c7b2274726169745f74797065223a22446f6d696e616e74205368617065222c815268113b30b63ab2911d1160b91b602082015260290161367e91610de7565b61227d60f01b8152600201610f87565b60ff6136a3911661369e81610d19565b61319a565b90613544565b6007821015610d235752565b60405160a081018181106001600160401b038211176101895760009160809160405282815282602082015282604082015282606082015201526103886136fa82613d9d565b916137846001600160e81b031960e583901b169161377961371e601b83901c6112d8565b61376f613737613731602386901c6133d2565b94613dc8565b95613742838a613ddd565b61374c858a613e84565b61375e6137576101e6565b998a6136a9565b6001600160e81b0319166020890152565b60ff166040870152565b61ffff166060850152565b60ff166080830152565b906137988261027c565b6137a560405191826101c5565b82815280926137b6601f199161027c565b019060005b8281106137c757505050565b6020906040516137d68161016e565b60008152600083820152828285010152016137bb565b80516137fe9060231c61ffff166133d2565b906138088261378e565b9160005b600681108061395f575b156138a5578061383061382b6138a093611e58565b612681565b61388561386661384e875161385e61385861384e83881c61ffff1690565b61ffff1660010b90565b9561268f565b1c61ffff1690565b61387b6138716101f7565b93849060010b9052565b60010b6020830152565b61388f8287610d71565b5261389a8186610d71565b50613359565b61380c565b509290602001519060005b6138b9816126ab565b8351118061394a575b156139435780613938602061393e938601015160e01c61391461ffff6138f361384e6133d28561ffff9060101c1690565b926139096138ff6101f7565b94859060010b9052565b1660010b6020830152565b6139266139218460021c90565b6126b9565b906139318289610d71565b5286610d71565b5061269d565b6138b0565b5092505090565b50846139596139218360021c90565b106138c2565b50818110613816565b60009190825b8151841015613997576139818483610d71565b51518101809111611e535760019093019261396e565b6139a2919350612972565b600092835b8151851015612bb0576139c0600191612b8e8785610d71565b9401936139a7565b604051906139d76040836101c5565b60048252636c696e6560e01b6020830152565b604051906139f96040836101c5565b6007825266656c6c6970736560c81b6020830152565b60405190613a1e6040836101c5565b6008825267706f6c796c696e6560c01b6020830152565b60405190613a446040836101c5565b60078252663837b63cb3b7b760c91b6020830152565b60405190613a696040836101c5565b60048252630e0c2e8d60e31b6020830152565b613a8581610d19565b8015613afa57613a9481610d19565b60018114613af157613aa581610d19565b60028114613ae857613ab681610d19565b60038114613adf5780613aca600492610d19565b14613ad757610388613a5a565b610388613a35565b50610388613a0f565b506103886139ea565b506103886139c8565b50604051613b096040826101c5565b60048152631c9958dd60e21b602082015290565b9060408101918251613b2f9060010b90565b60010b613b3b90612dcf565b606083018051613b4d9060010b612dcf565b9160405192839160208301613b6191610de7565b6911103432b4b3b43a1e9160b11b8152600a01613b7d91610de7565b03601f1981018352613b8f90836101c5565b8351613b9d9060010b612dcf565b9360208101908151613baf9060010b90565b60010b613bbb90612dcf565b9651613bc99060010b612dcf565b9251613bd79060010b612dcf565b9051613be59060010b612dcf565b9151613bf39060010b612dcf565b9260405197889760208901613c4490602f907f3c73766720786d6c6e733d22687474703a2f2f7777772e77332e6f72672f323081526e181817b9bb3391103bb4b23a341e9160891b60208201520190565b613c4e9088610de7565b6a11103b34b2bba137bc1e9160a91b8152600b01613c6b91610de7565b613c7490610dfe565b613c7d91610de7565b613c8690610dfe565b613c8f91610de7565b613c9890610dfe565b613ca191610de7565b61111f60f11b81526002017f3c726563742066696c6c3d22236666666666662220783d2200000000000000008152601801613cdb91610de7565b6411103c9e9160d91b8152600501613cf291610de7565b6811103bb4b23a341e9160b91b8152600901613d0d91610de7565b6211179f60e91b8152600301613d2291610de7565b651e17b9bb339f60d11b8152600601610f87565b60405161038891613d486060836101c5565b604082527f4142434445464748494a4b4c4d4e4f505152535455565758595a61626364656660208301527f6768696a6b6c6d6e6f707172737475767778797a303132333435363738392b2f6040830152613fb7565b60071660068111613db4576007811015610d235790565b6334d4d66760e21b60005260045260246000fd5b60ff9060f31c1660ff0360ff8111611e535790565b613de681610d19565b60058114908115613e5a575b8115613e45575b8115613e31575b5080613e26575b613e0e5750565b60ff9063375db8d560e21b6000521660045260246000fd5b5060ff811615613e07565b60039150613e3e81610d19565b1438613e00565b9050613e5081610d19565b6001811490613df9565b9050613e6581610d19565b6006811490613df2565b61ffff6000199116019061ffff8211611e5357565b61ffff821660028110918215613f5f575b8215613f17575b8215613ec4575b5050613eac5750565b6369e361d760e11b60005261ffff1660045260246000fd5b6006919250613ed281610d19565b149081613ee2575b503880613ea3565b60039150108015613ef4575b38613eda565b506001613f116133d2613f0684613e6f565b61ffff600391160690565b14613eee565b9150613f2282610d19565b6004821480613f54575b80613f49575b80613f3e575b91613e9c565b506006811415613f38565b506005811415613f32565b506003811415613f2c565b9150613f6a82610d19565b81158015613fa4575b8015613f91575b80613f86575b91613e95565b506002811415613f80565b50613f9b82610d19565b60018214613f7a565b50613fae82610d19565b60028214613f73565b91909180511561408b57613fe0612a15613fdb613fd48451612673565b6003900490565b611e6e565b9060208201908081518201956020870190815192600083525b88811061403d575050600393949596505251068060011461402a5760021461401f575090565b603d90600019015390565b50603d9081600019820153600119015390565b600360049199969901986001603f8b5182828260121c16870101518453828282600c1c16870101518385015382828260061c1687010151600285015316840101516003820153019497613ff9565b509050610388610cbe56fe2c7b22646973706c61795f74797065223a226e756d626572222c227472616974352220636c6173733d22636f6c6f722d62746e222066696c6c3d222300000000a26469706673582212204639ade8daba206feb14d8bb571aca76a5a49a68422e9aa56c2154627d22469464736f6c634300081c0033";
 
 type ColourMeRendererConstructorParams =
   | [signer?: Signer]
@@ -0,0 +1,683 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  ColourMeThemeRenderer,
+  ColourMeThemeRendererInterface,
+} from "../../contracts/ColourMeThemeRenderer";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_style",
+        type: "string",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "points",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidPoints",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "points",
+        type: "uint256",
+      },
+    ],
+    name: "InvalidPolygon",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "shape",
+        type: "uint8",
+      },
+    ],
+    name: "InvalidShape",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "stroke",
+        type: "uint8",
+      },
+    ],
+    name: "InvalidStroke",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "length",
+        type: "uint256",
+      },
+    ],
+    name: "StringsInsufficientHexLength",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "bytes3",
+            name: "color0",
+            type: "bytes3",
+          },
+          {
+            internalType: "bytes3",
+            name: "color1",
+            type: "bytes3",
+          },
+          {
+            internalType: "bytes3",
+            name: "color2",
+            type: "bytes3",
+          },
+          {
+            internalType: "bytes3",
+            name: "color3",
+            type: "bytes3",
+          },
+          {
+            internalType: "bytes3",
+            name: "color4",
+            type: "bytes3",
+          },
+          {
+            internalType: "enum Path",
+            name: "shape0",
+            type: "uint8",
+          },
+          {
+            internalType: "enum Path",
+            name: "shape1",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "polygon",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct Trait",
+        name: "_trait",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256",
+        name: "_finalizedBlock",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_art",
+        type: "tuple[]",
+      },
+      {
+        internalType: "address",
+        name: "_lastEditor",
+        type: "address",
+      },
+    ],
+    name: "getAttributes",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "_baseURL",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "_drawing",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "_editor",
+        type: "string",
+      },
+      {
+        components: [
+          {
+            internalType: "int16",
+            name: "x",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "y",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "width",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "height",
+            type: "int16",
+          },
+        ],
+        internalType: "struct CanvasRect",
+        name: "_canvas",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "bytes3",
+            name: "color0",
+            type: "bytes3",
+          },
+          {
+            internalType: "bytes3",
+            name: "color1",
+            type: "bytes3",
+          },
+          {
+            internalType: "bytes3",
+            name: "color2",
+            type: "bytes3",
+          },
+          {
+            internalType: "bytes3",
+            name: "color3",
+            type: "bytes3",
+          },
+          {
+            internalType: "bytes3",
+            name: "color4",
+            type: "bytes3",
+          },
+          {
+            internalType: "enum Path",
+            name: "shape0",
+            type: "uint8",
+          },
+          {
+            internalType: "enum Path",
+            name: "shape1",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "polygon",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct Trait",
+        name: "_trait",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256",
+        name: "_finalizedBlock",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_art",
+        type: "tuple[]",
+      },
+      {
+        internalType: "address",
+        name: "_lastEditor",
+        type: "address",
+      },
+    ],
+    name: "getURI",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_objects",
+        type: "tuple[]",
+      },
+      {
+        components: [
+          {
+            internalType: "int16",
+            name: "x",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "y",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "width",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "height",
+            type: "int16",
+          },
+        ],
+        internalType: "struct CanvasRect",
+        name: "_canvas",
+        type: "tuple",
+      },
+    ],
+    name: "renderArtSVG",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_objects",
+        type: "tuple[]",
+      },
+    ],
+    name: "renderObjects",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "paths",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_objects",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "_msPerObject",
+        type: "uint256",
+      },
+    ],
+    name: "renderObjectsAnimated",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "paths",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "enum Path",
+            name: "shape",
+            type: "uint8",
+          },
+          {
+            internalType: "bytes3",
+            name: "color",
+            type: "bytes3",
+          },
+          {
+            internalType: "uint8",
+            name: "stroke",
+            type: "uint8",
+          },
+          {
+            internalType: "uint16",
+            name: "pointsLength",
+            type: "uint16",
+          },
+          {
+            internalType: "uint8",
+            name: "opacity",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct BaseObject",
+        name: "_object",
+        type: "tuple",
+      },
+      {
+        components: [
+          {
+            internalType: "int16",
+            name: "x",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "y",
+            type: "int16",
+          },
+        ],
+        internalType: "struct Point[]",
+        name: "_points",
+        type: "tuple[]",
+      },
+    ],
+    name: "renderPath",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "path",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "_polygon",
+        type: "uint8",
+      },
+    ],
+    name: "renderPolygon",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum Path",
+        name: "_shape",
+        type: "uint8",
+      },
+    ],
+    name: "renderShapeTool",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "bytes3",
+            name: "color0",
+            type: "bytes3",
+          },
+          {
+            internalType: "bytes3",
+            name: "color1",
+            type: "bytes3",
+          },
+          {
+            internalType: "bytes3",
+            name: "color2",
+            type: "bytes3",
+          },
+          {
+            internalType: "bytes3",
+            name: "color3",
+            type: "bytes3",
+          },
+          {
+            internalType: "bytes3",
+            name: "color4",
+            type: "bytes3",
+          },
+          {
+            internalType: "enum Path",
+            name: "shape0",
+            type: "uint8",
+          },
+          {
+            internalType: "enum Path",
+            name: "shape1",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "polygon",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct Trait",
+        name: "_traits",
+        type: "tuple",
+      },
+    ],
+    name: "renderTrait",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "themeName",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346102b8576146a180380380610019816102bd565b9283398101906040818303126102b85780516001600160401b0381116102b857826100459183016102e2565b60208201519092906001600160401b0381116102b85761006592016102e2565b81516001600160401b0381116101f05761008060005461034d565b601f811161026a575b50602092601f8211600114610206576100bc92938291600092610127575b50508160011b916000199060031b1c19161790565b6000555b80516001600160401b0381116101f0576100db60015461034d565b601f8111610196575b50602091601f82116001146101325761011492600091836101275750508160011b916000199060031b1c19161790565b6001555b604051614302908161039f8239f35b0151905038806100a7565b601f198216926001600052806000209160005b85811061017e57508360019510610165575b505050811b01600155610118565b015160001960f88460031b161c19169055388080610157565b91926020600181928685015181550194019201610145565b60016000526101e0907fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf6601f840160051c810191602085106101e6575b601f0160051c0190610387565b386100e4565b90915081906101d3565b634e487b7160e01b600052604160045260246000fd5b601f1982169360008052806000209160005b8681106102525750836001959610610239575b505050811b016000556100c0565b015160001960f88460031b161c1916905538808061022b565b91926020600181928685015181550194019201610218565b600080526102b2907f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e563601f840160051c810191602085106101e657601f0160051c0190610387565b38610089565b600080fd5b6040519190601f01601f191682016001600160401b038111838210176101f057604052565b81601f820112156102b8578051906001600160401b0382116101f057610311601f8301601f19166020016102bd565b92828452602083830101116102b85760005b82811061033857505060206000918301015290565b80602080928401015182828701015201610323565b90600182811c9216801561037d575b602083101461036757565b634e487b7160e01b600052602260045260246000fd5b91607f169161035c565b818110610392575050565b6000815560010161038756fe6080604052600436101561001257600080fd5b60003560e01c80631ef64051146100b75780633665dc3b146100b25780637889b615146100ad5780638ff19fcc146100a8578063a651e0c1146100a3578063bce883ae1461009e578063c18ac46414610099578063cc719f8f14610094578063e27594091461008f5763eaa640ac1461008a57600080fd5b610c3b565b610b71565b610b47565b610b23565b6107ac565b61070e565b610675565b61063a565b6105d8565b3461015357366003190160c081126101535760a013610153576100db610120604052565b6100e3610206565b6080526100ee610222565b60a0526100f961024e565b60c05260643561ffff811681036101535760e05261011561025e565b6101005260a4356001600160401b0381116101535761014361013e61014f9236906004016102a1565b610df7565b60405191829182610352565b0390f35b600080fd5b634e487b7160e01b600052604160045260246000fd5b604081019081106001600160401b0382111761018957604052565b610158565b61010081019081106001600160401b0382111761018957604052565b608081019081106001600160401b0382111761018957604052565b90601f801991011681019081106001600160401b0382111761018957604052565b604051906101f560a0836101c5565b565b604051906101f56040836101c5565b60043590600782101561015357565b3590600782101561015357565b602435906001600160e81b03198216820361015357565b35906001600160e81b03198216820361015357565b6044359060ff8216820361015357565b6084359060ff8216820361015357565b359060ff8216820361015357565b6001600160401b0381116101895760051b60200190565b35908160010b820361015357565b81601f82011215610153578035906102b88261027c565b926102c660405194856101c5565b82845260208085019360061b8301019181831161015357602001925b8284106102f0575050505090565b604084830312610153576020604091825161030a8161016e565b61031387610293565b8152610320838801610293565b838201528152019301926102e2565b60005b8381106103425750506000910152565b8181015183820152602001610332565b906020809281815201906103718151809281855285808601910161032f565b601f01601f1916010190565b61010090600319011261015357604051906103978261018e565b816103a26004610239565b81526103ae6024610239565b60208201526103bd6044610239565b60408201526103cc6064610239565b60608201526103db6084610239565b60808201526103ea60a4610215565b60a08201526103f960c4610215565b60c082015260e061040a60e461026e565b910152565b61010090610123190112610153576040519061042a8261018e565b81610436610124610239565b8152610443610144610239565b6020820152610453610164610239565b6040820152610463610184610239565b60608201526104736101a4610239565b60808201526104836101c4610215565b60a08201526104936101e4610215565b60c082015260e061040a61020461026e565b6001600160401b03811161018957601f01601f191660200190565b81601f82011215610153576020813591016104da826104a5565b926104e860405194856101c5565b828452828201116101535781600092602092838601378301015290565b9080601f830112156101535781359161051d8361027c565b9261052b60405194856101c5565b80845260208085019160051b830101918383116101535760208101915b83831061055757505050505090565b82356001600160401b038111610153578201906040828703601f19011261015357604051906105858261016e565b602083013582526040830135916001600160401b038311610153576105b2886020809695819601016104c0565b83820152815201920191610548565b61026435906001600160a01b038216820361015357565b3461015357610160366003190112610153576105f33661037d565b6101043590610124356001600160401b03811161015357610618903690600401610505565b61014435906001600160a01b03821682036101535761014f9361014393611991565b34610153576020366003190112610153576004356001600160401b0381116101535761014361067061014f923690600401610505565b611ec8565b34610153576040366003190112610153576004356001600160401b038111610153576101436106ab61014f923690600401610505565b60243590611fc7565b60809060a319011261015357604051906106cd826101aa565b8160a4358060010b810361015357815260c4358060010b810361015357602082015260e4358060010b8103610153576040820152606061040a610104610293565b346101535760a0366003190112610153576004356001600160401b0381116101535761073e903690600401610505565b60803660231901126101535760405190610757826101aa565b6024358060010b8103610153578252604435918260010b8303610153576107a76101439261014f94602084015261078e6064610293565b604084015261079d6084610293565b6060840152611ec8565b61369d565b3461015357610100366003190112610153576107c73661037d565b80516001600160e81b0319166107dc90612b3f565b60208201516001600160e81b0319166107f490612b3f565b60408301519092906001600160e81b03191661080f90612b3f565b60608201519091906001600160e81b03191661082a90612b3f565b60808201516001600160e81b03191661084290612b3f565b60a083015161085081611921565b610859906121fa565b9160c084015161086881611921565b610871906121fa565b60e09094015160ff16610883906123cd565b94604051978897602089016108e2906038907f3c636972636c652063783d223930222063793d2233352220723d22313522206381527f6c6173733d22636f6c6f722d62746e222066696c6c3d2223000000000000000060208201520190565b6108eb91610d1d565b7f222f3e3c636972636c652063783d22313330222063793d2233352220723d223181526000805160206142ad8339815191526020820152603c0161092e91610d1d565b7f222f3e3c636972636c652063783d22313730222063793d2233352220723d223181526000805160206142ad8339815191526020820152603c0161097191610d1d565b7f222f3e3c636972636c652063783d22323130222063793d2233352220723d223181526000805160206142ad8339815191526020820152603c016109b491610d1d565b7f222f3e3c636972636c652063783d22323530222063793d2233352220723d223181526000805160206142ad8339815191526020820152603c016109f791610d1d565b7f222f3e3c6720636c6173733d2273686170652d67726f757022207472616e736681527f6f726d3d227472616e736c617465283434352c20323029223e000000000000006020820152603901610a4c91610d1d565b7f3c2f673e3c6720636c6173733d2273686170652d67726f757022207472616e7381527f666f726d3d227472616e736c617465283438352c20323029223e0000000000006020820152603a01610aa191610d1d565b7f3c2f673e3c6720636c6173733d2273686170652d67726f757022207472616e7381527f666f726d3d227472616e736c617465283532352c20323029223e0000000000006020820152603a01610af691610d1d565b631e17b39f60e11b815260040103601f1981018252610b1590826101c5565b60405161014f819282610352565b346101535760203660031901126101535761014f610143610b42610206565b6121fa565b346101535760203660031901126101535760043560ff811681036101535761014361014f916123cd565b346101535760003660031901126101535760405160008054610b9281610d34565b8084529060018116908115610c175750600114610bba575b61014f83610143818503826101c5565b60008080527f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e563939250905b808210610bfd57509091508101602001610143610baa565b919260018160209254838588010152019101909291610be5565b60ff191660208086019190915291151560051b840190910191506101439050610baa565b3461015357610280366003190112610153576004356001600160401b03811161015357610c6c9036906004016104c0565b6024356044356001600160401b03811161015357610c8e9036906004016104c0565b916064356001600160401b03811161015357610cae9036906004016104c0565b916084356001600160401b03811161015357610cce9036906004016104c0565b610cd7366106b4565b610ce03661040f565b90610224359261024435966001600160401b0388116101535761014f98610d0e610143993690600401610505565b96610d176105c1565b9861250b565b90610d306020928281519485920161032f565b0190565b90600182811c92168015610d64575b6020831014610d4e57565b634e487b7160e01b600052602260045260246000fd5b91607f1691610d43565b60015460009291610d7e82610d34565b9160018116908115610de55750600114610d96575050565b6001600090815292935090917fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf65b838210610dd15750500190565b600181602092548486015201910190610dc4565b60ff1916825250811515909102019150565b6060610e16610e096101005160ff1690565b610e11612776565b61391d565b91610e2f610e276101005160ff1690565b610e11612798565b91608051610e3c81611921565b610e4581611921565b610fe3575060a0519091506001600160e81b0319165b610e6490612b3f565b90610e6e81611e92565b5151610e7c9060010b613d74565b90610e8681611e92565b5160200151610e979060010b613d74565b610ea082611ea4565b5151610eae9060010b613d74565b91610eb890611ea4565b5160200151610ec99060010b613d74565b6040516c3c726563742066696c6c3d222360981b6020820152958695919491602d8701610ef591610d1d565b610efe91610d1d565b6411103c1e9160d91b8152600501610f1591610d1d565b6411103c9e9160d91b8152600501610f2c91610d1d565b6811103bb4b23a341e9160b91b8152600901610f4791610d1d565b6911103432b4b3b43a1e9160b11b8152600a01610f6391610d1d565b6211179f60e91b815260030103601f1981018252610f8190826101c5565b610fe0610faa915b6001198151018152610fd2610fc3610fbe6040519586946020860190610d1d565b671039ba3cb6329e9160c11b815260080190565b610d6e565b6211179f60e91b815260030190565b03601f1981018352826101c5565b90565b6002608051610ff181611921565b610ffa81611921565b03611142575060a0519091506001600160e81b0319165b61101a90612b3f565b9061102481611e92565b51516110329060010b613d74565b9061103c81611e92565b516020015161104d9060010b613d74565b61105682611ea4565b51516110649060010b613d74565b9161106e90611ea4565b516020015161107f9060010b613d74565b6040516f3c656c6c697073652066696c6c3d222360801b6020820152958695919491603087016110ae91610d1d565b6110b791610d1d565b65111031bc1e9160d11b81526006016110cf91610d1d565b65111031bc9e9160d11b81526006016110e791610d1d565b651110393c1e9160d11b81526006016110ff91610d1d565b651110393c9e9160d11b81526006015b61111891610d1d565b6211179f60e91b815260030103601f198101825261113690826101c5565b610fe0610faa91610f89565b600160805161115081611921565b61115981611921565b036112bb575060a051919250906001600160e81b03191661117990612b3f565b9060c0516111879060ff1690565b60ff166111939061285d565b9061119d81611e92565b51516111ab9060010b613d74565b6111b482611e92565b51602001516111c59060010b613d74565b906111cf83611ea4565b51516111dd9060010b613d74565b926111e790611ea4565b51602001516111f89060010b613d74565b6040517f3c6c696e652066696c6c3d226e6f6e6522207374726f6b653d222300000000006020820152968796919591603b880161123491610d1d565b61123d91610d1d565b6f111039ba3937b5b296bbb4b23a341e9160811b815260100161125f91610d1d565b6511103c189e9160d11b815260060161127791610d1d565b6511103c989e9160d11b815260060161128f91610d1d565b6511103c191e9160d11b81526006016112a791610d1d565b6511103c991e9160d11b815260060161110f565b60036080516112c981611921565b6112d281611921565b1480156115b2575b15611427575090610faa926112f1610fe093613e0e565b90600360805161130081611921565b61130981611921565b036113d5575061139891610fd2610fc36113d0936113986113ba61133c61133760a05162ffffff60e81b1690565b612b3f565b9561139861139e61136061135b61135560c05160ff1690565b60ff1690565b61285d565b926040519b8c9a61139860208d01601f907f3c706f6c796c696e652066696c6c3d226e6f6e6522207374726f6b653d22230081520190565b90610d1d565b6f111039ba3937b5b296bbb4b23a341e9160811b815260100190565b6911103837b4b73a399e9160b11b8152600a0190565b610f89565b6113989250610fd2610fc36113d0936113986113ba6113fe61133760a05162ffffff60e81b1690565b6040516f3c706f6c79676f6e2066696c6c3d222360801b60208201529889979160308901611398565b9250600560805161143781611921565b61144081611921565b148015611594575b61145b575b5050610fe0610faa91610f89565b909150600560805161146c81611921565b61147581611921565b036115865761148381613b7e565b60a0516001600160e81b03191661149990612b3f565b9160c0516114a79060ff1690565b60ff166114b39061285d565b906114bd81611e92565b51516114cb9060010b613d74565b906114d590611e92565b51602001516114e69060010b613d74565b91604051958695602087016114fa906127bc565b61150391610d1d565b61150c91610d1d565b6f111039ba3937b5b296bbb4b23a341e9160811b815260100161152e91610d1d565b652220643d224d60d01b815260060161154691610d1d565b61154f9061281e565b61155891610d1d565b61156191610d1d565b6211179f60e91b815260030103601f198101825261157f90826101c5565b388061144d565b61158f81613a3b565b611483565b5060066080516115a381611921565b6115ac81611921565b14611448565b5060046080516115c181611921565b6115ca81611921565b146112da565b60609160808201916115f4610e276115ec610e09865160ff1690565b945160ff1690565b93815161160081611921565b61160981611921565b611625575060200151919250906001600160e81b031916610e5b565b6002825161163281611921565b61163b81611921565b03611658575060200151919250906001600160e81b031916611011565b60018294925161166781611921565b61167081611921565b0361169d57505060208201516001600160e81b03191661168f90612b3f565b60409092015160ff16611187565b60038495939294516116ae81611921565b6116b781611921565b1480156118ef575b15611764575091610faa93916116d7610fe094613e0e565b91600384516116e581611921565b6116ee81611921565b03611739575091610fd2610fc36113d0936113986113ba6113989761139861139e61136061135b611355604061173061133760208f015162ffffff60e81b1690565b9c015160ff1690565b9050610fd2610fc36113d0936113986113ba6113fe61133760206113989a015162ffffff60e81b1690565b939192506005825161177581611921565b61177e81611921565b1480156118d2575b61179a575b505050610fe0610faa91610f89565b90919250600582516117ab81611921565b6117b481611921565b036118c3576117c281613b7e565b905b60208301516001600160e81b0319166117dc90612b3f565b604093909301516117ef9060ff1661285d565b906117f981611e92565b51516118079060010b613d74565b9061181190611e92565b51602001516118229060010b613d74565b9160405195869560208701611836906127bc565b61183f91610d1d565b61184891610d1d565b6f111039ba3937b5b296bbb4b23a341e9160811b815260100161186a91610d1d565b652220643d224d60d01b815260060161188291610d1d565b61188b9061281e565b61189491610d1d565b61189d91610d1d565b6211179f60e91b815260030103601f19810182526118bb90826101c5565b38808061178b565b6118cc81613a3b565b906117c4565b50600682516118e081611921565b6118e981611921565b14611786565b50600485516118fd81611921565b61190681611921565b146116bf565b6040519061191b6020836101c5565b60008252565b6007111561192b57565b634e487b7160e01b600052602160045260246000fd5b604051906119506060836101c5565b602c82527f7b2274726169745f74797065223a22547261697473222c2276616c7565223a2260208301526b556e72657665616c6564227d60a01b6040830152565b9080611d7757506119a061190c565b925b6001600160a01b038116611d0b57506119b961190c565b905b60e081019060ff6119cd835160ff1690565b16611a2057505090610fd2611a1361139894611398610fe0956113986119fa6119f4611941565b97612ee9565b604051605b60f81b6020820152998a9860218a01611398565b605d60f81b815260010190565b80519293926001600160e81b031916611a3890612b3f565b60208201519091906001600160e81b031916611a5390612b3f565b60408201519093906001600160e81b031916611a6e90612b3f565b60608301519092906001600160e81b031916611a8990612b3f565b60808201516001600160e81b031916611aa190612b3f565b9060a0830151611ab081611921565b611ab990612cf9565b9260c00151611ac781611921565b611ad090612cf9565b935160ff16611ade90612ddf565b9460405197889760208901611b22906022907f7b2274726169745f74797065223a22436f6c6f757231222c2276616c7565223a815261222360f01b60208201520190565b611b2b91610d1d565b7f227d2c7b2274726169745f74797065223a22436f6c6f757232222c2276616c7581526465223a222360d81b6020820152602501611b6891610d1d565b7f227d2c7b2274726169745f74797065223a22436f6c6f757233222c2276616c7581526465223a222360d81b6020820152602501611ba591610d1d565b7f227d2c7b2274726169745f74797065223a22436f6c6f757234222c2276616c7581526465223a222360d81b6020820152602501611be291610d1d565b7f227d2c7b2274726169745f74797065223a22436f6c6f757235222c2276616c7581526465223a222360d81b6020820152602501611c1f91610d1d565b7f227d2c7b2274726169745f74797065223a22536861706531222c2276616c7565815262111d1160e91b6020820152602301611c5a91610d1d565b7f227d2c7b2274726169745f74797065223a22536861706532222c2276616c7565815262111d1160e91b6020820152602301611c9591610d1d565b7f227d2c7b2274726169745f74797065223a22536861706533222c2276616c7565815262111d1160e91b6020820152602301611cd091610d1d565b61227d60f01b815260020103601f1981018252611ced90826101c5565b90611a1361139894611398610fe0956113986119fa610fd296612ee9565b611d71611d1a611d63926129b5565b610fd2604051938492611398602085016026907f2c7b2274726169745f74797065223a224c61737420456469746f72222c227661815265363ab2911d1160d11b60208201520190565b61227d60f01b815260020190565b906119bb565b611e2c611d86611e1f9261285d565b610fd2604051938492611398611dd860208601602c907f2c7b2274726169745f74797065223a22537461747573222c2276616c7565223a81526b2246696e616c697a6564227d60a01b60208201520190565b60008051602061428d83398151915281527f5f74797065223a2246696e616c697a656420426c6f636b222c2276616c7565226020820152601d60f91b604082015260410190565b607d60f81b815260010190565b926119a2565b90611e3c8261027c565b611e4960405191826101c5565b8281528092611e5a601f199161027c565b019060005b828110611e6b57505050565b806060602080938501015201611e5f565b634e487b7160e01b600052603260045260246000fd5b805115611e9f5760200190565b611e7c565b805160011015611e9f5760400190565b8051821015611e9f5760209160051b010190565b90815115611f4157611eda8251611e32565b60005b8351811015611f355780611f19611f00611ef960019488611eb4565b5151613214565b611f13611f0d8489611eb4565b5161334b565b906115d0565b611f238285611eb4565b52611f2e8184611eb4565b5001611edd565b50610fe09192506134c7565b905060405160008152610fe06020826101c5565b634e487b7160e01b600052601160045260246000fd5b908160011b9180830460021490151715611f8157565b611f55565b908160051b9180830460201490151715611f8157565b600281901b91906001600160fe1b03811603611f8157565b81810292918115918404141715611f8157565b91909180511561211557611fdb8151611e32565b9060005b8151811015612108578061205d6120ec87610fd26120df876113986120be61204961203961135b61202b612025611f0d60019f61201f611ef9828c611eb4565b99611eb4565b876115d0565b988d198a51018a528c611fb4565b935161204481611921565b6135fc565b92611398604051998a9860208a0190610d1d565b7f207669736962696c6974793d2268696464656e223e3c7365742061747472696281527f7574654e616d653d227669736962696c6974792220746f3d2276697369626c6560208201526811103132b3b4b71e9160b91b604082015260490190565b746d73222066696c6c3d22667265657a65222f3e3c2f60581b815260150190565b601f60f91b815260010190565b6120f68286611eb4565b526121018185611eb4565b5001611fdf565b5050610fe09192506134c7565b50905060405160008152610fe06020826101c5565b604051906121396080836101c5565b604582527f3c7265637420783d22302220793d2230222077696474683d223330222068656960208301527f6768743d2233302220636c6173733d22746f6f6c2d62672220646174612d736860408301526430b8329e9160d91b6060830152565b604051906121a86060836101c5565b604082527f652d77696474683d22322220636c6173733d2273686170652d69636f6e222f3e6040837f2066696c6c3d226e6f6e6522207374726f6b653d222333333322207374726f6b60208201520152565b61220381611921565b806122785750612235610fe061221761212a565b610fd2612222612199565b6113986040519586946020860190610d1d565b7f72656374222f3e3c7265637420783d22352220793d22372e35222077696474688152701e91191811103432b4b3b43a1e91189a9160791b602082015260310190565b61228181611921565b600281036122da5750612298610fe061221761212a565b7f656c6c69707365222f3e3c656c6c697073652063783d223135222063793d223181526f1a9110393c1e911c1110393c9e911c1160811b602082015260300190565b6122e381611921565b6001810361233757506122fa610fe061221761212a565b7f6c696e65222f3e3c6c696e652078313d2235222079313d223130222078323d2281526a191a91103c991e9119181160a91b6020820152602b0190565b61234081611921565b600381036123a65750612357610fe061221761212a565b7f706f6c796c696e65222f3e3c706f6c796c696e6520706f696e74733d22352c3181527f352031322e352c31302031372e352c32302032352c3135220000000000000000602082015260380190565b806123b36123c992611921565b6334d4d66760e21b60005260ff16600452602490565b6000fd5b60ff8116600381036124285750506123e9610fe061221761212a565b7f706f6c79676f6e2d33222f3e3c706f6c79676f6e20706f696e74733d2231352c81526c1b90191a961919901a9619199160991b6020820152602d0190565b6005810361248f575050612440610fe061221761212a565b7f706f6c79676f6e2d35222f3e3c706f6c79676f6e20706f696e74733d2231352c81527f352032352c31322032302c32322e352031302c32322e3520352c3132220000006020820152603d0190565b6006036124f457506124a5610fe061221761212a565b7f706f6c79676f6e2d36222f3e3c706f6c79676f6e20706f696e74733d2231302c81527f362032302c362032352c31352032302c32342031302c323420352c31352200006020820152603e0190565b63c4b8d4e360e01b60005260ff1660045260246000fd5b979890939298969591949661251f8561285d565b996125298661285d565b986125339161369d565b61253c906138b6565b93612546906138b6565b946125509061285d565b9661255a93611991565b94604051978897683d913730b6b2911d1160b91b60208a01528051908160298b0191602001916125899261032f565b61202360f01b6029918a0191820152602b016125a491610d1d565b61088b60f21b81526002017f226465736372697074696f6e223a22436f6c6f757220796f7572204e4654207981527f6f7572207761792e2050726f76696e6720796f752063616e206372656174652060208201527f616e20535647207573696e6720616e20535647206f6e2074686520626c6f636b60408201526618da185a5b888b60ca1b60608201526067016f1132bc3a32b93730b62fbab936111d1160811b81526010016126549085610d1d565b602360f81b815260010161266791610d1d565b61088b60f21b81526002017f22696d616765223a22646174613a696d6167652f7376672b786d6c3b626173658152620d8d0b60ea1b60208201526023016126ad91610d1d565b7f222c22616e696d6174696f6e5f75726c223a22646174613a696d6167652f737681526c19cade1b5b0ed8985cd94d8d0b609a1b6020820152602d016126f291610d1d565b721116113a34b6b2b630b839b2afbab936111d1160691b815260130161271791610d1d565b602360f81b815260010161272a91610d1d565b7f2f74696d656c61707365222c2261747472696275746573223a00000000000000815260190161275991610d1d565b607d60f81b81526001015b03601f1981018252610fe090826101c5565b604051906127856040836101c5565b6004825263199a5b1b60e21b6020830152565b604051906127a76040836101c5565b60068252657374726f6b6560d01b6020830152565b7f3c70617468207374726f6b652d6c696e656361703d22726f756e64222073747281527f6f6b652d6c696e656a6f696e3d22726f756e64222066696c6c3d226e6f6e6522602082015269207374726f6b653d222360b01b6040820152604a0190565b600160fd1b815260010190565b90612835826104a5565b61284260405191826101c5565b8281528092612853601f19916104a5565b0190602036910137565b8060009172184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b821015612992575b806d04ee2d6d415b85acef8100000000600a921015612976575b662386f26fc10000811015612961575b6305f5e10081101561294f575b61271081101561293f575b6064811015612930575b1015612925575b61291060216128e46001850161282b565b938401015b60001901916f181899199a1a9b1b9c1cb0b131b232b360811b600a82061a8353600a900490565b80156129205761291090916128e9565b505090565b6001909101906128d3565b600290606490049301926128cc565b60049061271090049301926128c2565b6008906305f5e10090049301926128b7565b601090662386f26fc1000090049301926128aa565b6020906d04ee2d6d415b85acef8100000000900493019261289a565b506040915072184f03e93ff9f4daa797ed6e38ed64bf6a1f0160401b8104612880565b6001600160a01b0316806129d16129cc6028612aa5565b61282b565b9160306129dd84611e92565b5360786129e984612a84565b536129f46028612ab3565b60018111612a1e5750612a05575090565b63e22e27eb60e01b600052600452601460245260446000fd5b90600f8116906010821015611e9f57612a58916f181899199a1a9b1b9c1cb0b131b232b360811b901a612a518487612a94565b5360041c90565b908015611f8157600019016129f4565b60405190612a776020836101c5565b6000808352366020840137565b805160011015611e9f5760210190565b908151811015611e9f570160200190565b9060028201809211611f8157565b9060018201809211611f8157565b6033019081603311611f8157565b9060108201809211611f8157565b9060048201809211611f8157565b9060038201809211611f8157565b6006019081600611611f8157565b906103e88201809211611f8157565b6003019081600311611f8157565b6002019081600211611f8157565b91908201809211611f8157565b604080519190612b4f81846101c5565b60068352601f190136602084013760005b60038110612b6d57505090565b81811a612b80600482901c600f16611355565b906010821015611e9f57600f916f181899199a1a9b1b9c1cb0b131b232b360811b901a612bb5612baf85611f6b565b87612a94565b5316906010821015611e9f576001916f181899199a1a9b1b9c1cb0b131b232b360811b901a612bf4612bee612be984611f6b565b612ab3565b86612a94565b5301612b60565b60405190612c0a6040836101c5565b600982526852656374616e676c6560b81b6020830152565b60405190612c316040836101c5565b6007825266456c6c6970736560c81b6020830152565b60405190612c566040836101c5565b60048252634c696e6560e01b6020830152565b60405190612c786040836101c5565b6008825267506f6c796c696e6560c01b6020830152565b60405190612c9e6040836101c5565b60078252662837b63cb3b7b760c91b6020830152565b60405190612cc36040836101c5565b60048252630a0c2e8d60e31b6020830152565b60405190612ce56040836101c5565b6005825264437572766560d81b6020830152565b612d0281611921565b8015612db157612d1181611921565b60028114612da857612d2281611921565b60018114612d9f57612d3381611921565b60038114612d9657612d4481611921565b60048114612d8d57612d5581611921565b60058114612d8457612d6681611921565b60068114612d7b57806123b36123c992611921565b50610fe0612cd6565b50610fe0612cb4565b50610fe0612c8f565b50610fe0612c69565b50610fe0612c47565b50610fe0612c22565b50610fe0612bfb565b60405190612dc96040836101c5565b60078252662432bc30b3b7b760c91b6020830152565b60ff811660038114612e425760058114612e1a57600614612e115763c4b8d4e360e01b60005260ff1660045260246000fd5b50610fe0612dba565b5050604051612e2a6040826101c5565b60088152672832b73a30b3b7b760c11b602082015290565b5050604051612e526040826101c5565b6008815267547269616e676c6560c01b602082015290565b90612e748261027c565b612e8160405191826101c5565b8281528092612853601f199161027c565b6040519060e0612ea281846101c5565b368337565b906007811015611e9f5760051b0190565b6000198114611f815760010190565b60405190612ed66040836101c5565b60048252634e6f6e6560e01b6020830152565b90612ef48251612e6a565b916000928392612f02612e92565b85915b845183101561302a57612f3e612f1e611ef98588611eb4565b96612f38612f3160608a015161ffff1690565b61ffff1690565b90612b32565b91612f568751612f4d81611921565b61135581611921565b612f73612f6c612f668385612ea7565b51612eb8565b9183612ea7565b5260009660200195875b89891080613022575b15612fcf5750612fc9612faa612f9c8a89611eb4565b516001600160e81b03191690565b88516001600160e81b0319166001600160e81b03199091161498612eb8565b97612f7d565b600193979194985094919415612fea575b5001919093612f05565b5161301c906001600160e81b03191661300c6130058b612eb8565b9a88611eb4565b6001600160e81b03199091169052565b38612fe0565b508015612f86565b6000969591949350915060015b60ff811660078110156130765761304e9086612ea7565b5161305c60ff891687612ea7565b511061306e575b60010160ff16613037565b955085613063565b50509392509361309261308c61308c845161285d565b9461285d565b91516131ed57506130a1612ec7565b905b604051938493602085016130ef9060399060008051602061428d83398151915281527f5f74797065223a224f626a65637473222c2276616c7565223a0000000000000060208201520190565b6130f891610d1d565b607d60f81b815260010160008051602061428d83398151915281527f5f74797065223a22436f6c6f7572732055736564222c2276616c7565223a00006020820152603e0161314591610d1d565b607d60f81b815260010160008051602061428d83398151915281527f5f74797065223a22506f696e7473222c2276616c7565223a0000000000000000602082015260380161319291610d1d565b607d60f81b81526001017f2c7b2274726169745f74797065223a22446f6d696e616e74205368617065222c815268113b30b63ab2911d1160b91b60208201526029016131dd91610d1d565b61227d60f01b8152600201612764565b60ff61320291166131fd81611921565b612cf9565b906130a3565b600782101561192b5752565b60405160a081018181106001600160401b03821117610189576000916080916040528281528260208201528260408201528260608201520152610fe061325982613f93565b916132e36001600160e81b031960e583901b16916132d861327d601b83901c611355565b6132ce613296613290602386901c612f31565b94613fbe565b956132a1838a613fd3565b6132ab858a61407a565b6132bd6132b66101e6565b998a613208565b6001600160e81b0319166020890152565b60ff166040870152565b61ffff166060850152565b60ff166080830152565b906132f78261027c565b61330460405191826101c5565b8281528092613315601f199161027c565b019060005b82811061332657505050565b6020906040516133358161016e565b600081526000838201528282850101520161331a565b805161335d9060231c61ffff16612f31565b90613367826132ed565b9160005b60068110806134be575b15613404578061338f61338a6133ff93611f86565b612ac1565b6133e46133c56133ad87516133bd6133b76133ad83881c61ffff1690565b61ffff1660010b90565b95612acf565b1c61ffff1690565b6133da6133d06101f7565b93849060010b9052565b60010b6020830152565b6133ee8287611eb4565b526133f98186611eb4565b50612eb8565b61336b565b509290602001519060005b61341881612aeb565b835111806134a9575b156134a25780613497602061349d938601015160e01c61347361ffff6134526133ad612f318561ffff9060101c1690565b9261346861345e6101f7565b94859060010b9052565b1660010b6020830152565b6134856134808460021c90565b612af9565b906134908289611eb4565b5286611eb4565b50612add565b61340f565b5092505090565b50846134b86134808360021c90565b10613421565b50818110613375565b60009190825b81518410156134f6576134e08483611eb4565b51518101809111611f81576001909301926134cd565b61350191935061282b565b600092835b81518510156135415761353960019161351f8785611eb4565b518051602083880101816020840160045afa505190612b32565b940193613506565b5090925050565b604051906135576040836101c5565b60048252636c696e6560e01b6020830152565b604051906135796040836101c5565b6007825266656c6c6970736560c81b6020830152565b6040519061359e6040836101c5565b6008825267706f6c796c696e6560c01b6020830152565b604051906135c46040836101c5565b60078252663837b63cb3b7b760c91b6020830152565b604051906135e96040836101c5565b60048252630e0c2e8d60e31b6020830152565b61360581611921565b801561367a5761361481611921565b600181146136715761362581611921565b600281146136685761363681611921565b6003811461365f578061364a600492611921565b1461365757610fe06135da565b610fe06135b5565b50610fe061358f565b50610fe061356a565b50610fe0613548565b506040516136896040826101c5565b60048152631c9958dd60e21b602082015290565b90604081019182516136af9060010b90565b60010b6136bb90613d74565b6060830180516136cd9060010b613d74565b91604051928391602083016136e191610d1d565b6911103432b4b3b43a1e9160b11b8152600a016136fd91610d1d565b03601f198101835261370f90836101c5565b835161371d9060010b613d74565b936020810190815161372f9060010b90565b60010b61373b90613d74565b96516137499060010b613d74565b92516137579060010b613d74565b90516137659060010b613d74565b91516137739060010b613d74565b92604051978897602089016137c490602f907f3c73766720786d6c6e733d22687474703a2f2f7777772e77332e6f72672f323081526e181817b9bb3391103bb4b23a341e9160891b60208201520190565b6137ce9088610d1d565b6a11103b34b2bba137bc1e9160a91b8152600b016137eb91610d1d565b6137f49061281e565b6137fd91610d1d565b6138069061281e565b61380f91610d1d565b6138189061281e565b61382191610d1d565b61111f60f11b81526002017f3c726563742066696c6c3d22236666666666662220783d220000000000000000815260180161385b91610d1d565b6411103c9e9160d91b815260050161387291610d1d565b6811103bb4b23a341e9160b91b815260090161388d91610d1d565b6211179f60e91b81526003016138a291610d1d565b651e17b9bb339f60d11b8152600601612764565b604051610fe0916138c86060836101c5565b604082527f4142434445464748494a4b4c4d4e4f505152535455565758595a61626364656660208301527f6768696a6b6c6d6e6f707172737475767778797a303132333435363738392b2f60408301526141ad565b9060ff1660ff81146139a9576103e88102908082046103e81490151715611f8157607f8101809111611f815761399291610fd261396961135b613964610fe09560ff900490565b612b07565b602e61397482611e92565b5360405161011160f51b602082015294859361139891906022860183565b6a02d6f7061636974793d22360ac1b8152600b0190565b50506040516139b96020826101c5565b6000815290565b600019810191908211611f8157565b91908203918211611f8157565b604051906139eb6040836101c5565b6002825261205160f01b6020830152565b60405190613a0b6040836101c5565b6002825261204360f01b6020830152565b60405190613a2b6040836101c5565b60018252600160fd1b6020830152565b9060019060605b835180841015613b7757613a58846002926139cf565b03613b6857611398613a8d60ff60025b169260038403613b5857610fd2613a7d6139fc565b6040519485936020850190610d1d565b9260005b85838210613aab57505090613aa591612b32565b91613a42565b818392968115600014613b4e578184613ac261190c565b90613b42600197611398613b31613b17613b116020613b286113989d613b22613b479e613b1c613b17610fd29f613b096113989f613b1192613b0391612b32565b87611eb4565b515160010b90565b60010b90565b613d74565b99612b32565b90611eb4565b51015160010b90565b94604051998a9860208a0190610d1d565b61281e565b9401613a91565b8184613ac2613a1c565b610fd2613b636139dc565b613a7d565b611398613a8d60ff6003613a68565b5092509050565b600181511115613d6b57600091613b9d613b9883516139c0565b611e32565b6001905b8351821015613d3757613bbd613b17613b11613b098588611eb4565b93613bd3613b17613b116020613b288786611eb4565b93613c0a613bef6129cc613be78951612b16565b885190612b32565b613bf8866139c0565b90613c038287611eb4565b5284611eb4565b506020613c28613c22613c1c876139c0565b86611eb4565b51611e92565b53604c613c40613c3a613c1c876139c0565b51612a84565b5360005b8651811015613c9c5780613c6b613c5d6001938a612a94565b516001600160f81b03191690565b613c95613c80613c7a896139c0565b88611eb4565b5191613c8b84612b24565b9060001a92612a94565b5301613c44565b50959493906020613cc3613cb2613c1c876139c0565b51613cbd8851612b24565b90612a94565b5360005b8251811015613d0b5780613ce0613c5d60019386612a94565b613d04613cef613c7a896139c0565b5191613c8b84613cff8c51612b16565b612b32565b5301613cc7565b509460019296939450613d2d9150613d25613c7a866139c0565b515190612b32565b9201909193613ba1565b939050613d4591925061282b565b600092835b815185101561354157613d6360019161351f8785611eb4565b940193613d4a565b50610fe0612a68565b600080821215613def5750610fe0613db0604051613d936040826101c5565b60018152602d60f81b6020820152925b8060ff1d8091011861285d565b9160206040519382613dcb869451809285808801910161032f565b8301613ddf8251809385808501910161032f565b010103601f1981018352826101c5565b604051610fe091613db09190613e066020836101c5565b815292613da3565b805115613d6b57600091613e228251611e32565b60005b8351811015613f6057613e41613b17613b11613b098488611eb4565b93613e57613b17613b116020613b288686611eb4565b93613e6b6129cc612be9613be78951612ab3565b613e758486611eb4565b52613e808385611eb4565b5060005b8651811015613ebd5780613e9d613c5d6001938a612a94565b613eb682613eab888a611eb4565b519260001a92612a94565b5301613e84565b5095949390602c613eda613ed18587611eb4565b51875190612a94565b5360005b8251811015613f1b5780613ef7613c5d60019386612a94565b613f14613f048789611eb4565b5191613c8b84613cff8c51612ab3565b5301613ede565b50946020613f4c8496613cbd613f5795613f44613f3c6001998b9e9b611eb4565b519351612ab3565b905190612b32565b53613d258588611eb4565b94919201613e25565b5092613f6d91925061282b565b600092835b815185101561354157613f8b60019161351f8785611eb4565b940193613f72565b60071660068111613faa57600781101561192b5790565b6334d4d66760e21b60005260045260246000fd5b60ff9060f31c1660ff0360ff8111611f815790565b613fdc81611921565b60058114908115614050575b811561403b575b8115614027575b508061401c575b6140045750565b60ff9063375db8d560e21b6000521660045260246000fd5b5060ff811615613ffd565b6003915061403481611921565b1438613ff6565b905061404681611921565b6001811490613fef565b905061405b81611921565b6006811490613fe8565b61ffff6000199116019061ffff8211611f8157565b61ffff821660028110918215614155575b821561410d575b82156140ba575b50506140a25750565b6369e361d760e11b60005261ffff1660045260246000fd5b60069192506140c881611921565b1490816140d8575b503880614099565b600391501080156140ea575b386140d0565b506001614107612f316140fc84614065565b61ffff600391160690565b146140e4565b915061411882611921565b600482148061414a575b8061413f575b80614134575b91614092565b50600681141561412e565b506005811415614128565b506003811415614122565b915061416082611921565b8115801561419a575b8015614187575b8061417c575b9161408b565b506002811415614176565b5061419182611921565b60018214614170565b506141a482611921565b60028214614169565b919091805115614281576141d66129cc6141d16141ca8451612aa5565b6003900490565b611f9c565b9060208201908081518201956020870190815192600083525b888110614233575050600393949596505251068060011461422057600214614215575090565b603d90600019015390565b50603d9081600019820153600119015390565b600360049199969901986001603f8b5182828260121c16870101518453828282600c1c16870101518385015382828260061c16870101516002850153168401015160038201530194976141ef565b509050610fe061190c56fe2c7b22646973706c61795f74797065223a226e756d626572222c227472616974352220636c6173733d22636f6c6f722d62746e222066696c6c3d222300000000a2646970667358221220b06626e30a19a9747697562878313b2274e43d35ed7283d9234d4394a6abfb8764736f6c634300081c0033";
+
+type ColourMeThemeRendererConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: ColourMeThemeRendererConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class ColourMeThemeRenderer__factory extends ContractFactory {
+  constructor(...args: ColourMeThemeRendererConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    _name: string,
+    _style: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(_name, _style, overrides || {});
+  }
+  override deploy(
+    _name: string,
+    _style: string,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(_name, _style, overrides || {}) as Promise<
+      ColourMeThemeRenderer & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): ColourMeThemeRenderer__factory {
+    return super.connect(runner) as ColourMeThemeRenderer__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): ColourMeThemeRendererInterface {
+    return new Interface(_abi) as ColourMeThemeRendererInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): ColourMeThemeRenderer {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as ColourMeThemeRenderer;
+  }
+}
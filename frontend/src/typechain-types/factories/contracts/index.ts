@@ -5,3 +5,4 @@ export * as colourMeNftSol from "./ColourMeNFT.sol";
 export * as interfaces from "./interfaces";
 export * as test from "./test";
 export { ColourMeRenderer__factory } from "./ColourMeRenderer__factory";
+export { ColourMeThemeRenderer__factory } from "./ColourMeThemeRenderer__factory";
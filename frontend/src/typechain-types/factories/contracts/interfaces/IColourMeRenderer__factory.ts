@@ -58,6 +58,33 @@ const _abi = [
         name: "_trait",
         type: "tuple",
       },
+      {
+        internalType: "uint256",
+        name: "_finalizedBlock",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_art",
+        type: "tuple[]",
+      },
+      {
+        internalType: "address",
+        name: "_lastEditor",
+        type: "address",
+      },
     ],
     name: "getAttributes",
     outputs: [
@@ -87,11 +114,43 @@ const _abi = [
         name: "_baseURL",
         type: "string",
       },
+      {
+        internalType: "bytes",
+        name: "_drawing",
+        type: "bytes",
+      },
       {
         internalType: "string",
-        name: "_svg",
+        name: "_editor",
         type: "string",
       },
+      {
+        components: [
+          {
+            internalType: "int16",
+            name: "x",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "y",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "width",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "height",
+            type: "int16",
+          },
+        ],
+        internalType: "struct CanvasRect",
+        name: "_canvas",
+        type: "tuple",
+      },
       {
         components: [
           {
@@ -139,6 +198,33 @@ const _abi = [
         name: "_trait",
         type: "tuple",
       },
+      {
+        internalType: "uint256",
+        name: "_finalizedBlock",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_art",
+        type: "tuple[]",
+      },
+      {
+        internalType: "address",
+        name: "_lastEditor",
+        type: "address",
+      },
     ],
     name: "getURI",
     outputs: [
@@ -151,6 +237,64 @@ const _abi = [
     stateMutability: "pure",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_objects",
+        type: "tuple[]",
+      },
+      {
+        components: [
+          {
+            internalType: "int16",
+            name: "x",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "y",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "width",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "height",
+            type: "int16",
+          },
+        ],
+        internalType: "struct CanvasRect",
+        name: "_canvas",
+        type: "tuple",
+      },
+    ],
+    name: "renderArtSVG",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -182,6 +326,42 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object[]",
+        name: "_objects",
+        type: "tuple[]",
+      },
+      {
+        internalType: "uint256",
+        name: "_msPerObject",
+        type: "uint256",
+      },
+    ],
+    name: "renderObjectsAnimated",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "paths",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -206,6 +386,11 @@ const _abi = [
             name: "pointsLength",
             type: "uint16",
           },
+          {
+            internalType: "uint8",
+            name: "opacity",
+            type: "uint8",
+          },
         ],
         internalType: "struct BaseObject",
         name: "_object",
@@ -339,6 +524,19 @@ const _abi = [
     stateMutability: "pure",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "themeName",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
 ] as const;
 
 export class IColourMeRenderer__factory {
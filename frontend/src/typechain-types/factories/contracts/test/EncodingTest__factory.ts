@@ -185,6 +185,138 @@ const _abi = [
     stateMutability: "pure",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "object",
+        type: "uint256",
+      },
+    ],
+    name: "testGetBaseObject",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "enum Path",
+            name: "shape",
+            type: "uint8",
+          },
+          {
+            internalType: "bytes3",
+            name: "color",
+            type: "bytes3",
+          },
+          {
+            internalType: "uint8",
+            name: "stroke",
+            type: "uint8",
+          },
+          {
+            internalType: "uint16",
+            name: "pointsLength",
+            type: "uint16",
+          },
+          {
+            internalType: "uint8",
+            name: "opacity",
+            type: "uint8",
+          },
+        ],
+        internalType: "struct BaseObject",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object",
+        name: "object",
+        type: "tuple",
+      },
+    ],
+    name: "testGetObjectPoints",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "int16",
+            name: "x",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "y",
+            type: "int16",
+          },
+        ],
+        internalType: "struct Point[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "base",
+            type: "uint256",
+          },
+          {
+            internalType: "bytes",
+            name: "additionalPoints",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Object",
+        name: "object",
+        type: "tuple",
+      },
+    ],
+    name: "testGetObjectPointsBytewise",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "int16",
+            name: "x",
+            type: "int16",
+          },
+          {
+            internalType: "int16",
+            name: "y",
+            type: "int16",
+          },
+        ],
+        internalType: "struct Point[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -217,6 +349,11 @@ const _abi = [
             name: "pointsLength",
             type: "uint16",
           },
+          {
+            internalType: "uint8",
+            name: "opacity",
+            type: "uint8",
+          },
         ],
         internalType: "struct BaseObject[]",
         name: "",
@@ -275,7 +412,7 @@ const _abi = [
 ] as const;
 
 const _bytecode =
-  "0x6080604052348015600f57600080fd5b50611e578061001f6000396000f3fe608060405234801561001057600080fd5b50600436106100885760003560e01c8063a7a3ec111161005b578063a7a3ec1114610139578063b842bc341461016a578063e0d9bb7e1461019a578063f7b7f3da146101ca57610088565b8063402818741461008d5780635617aaf3146100bd5780639301a7c0146100ed578063a6df62a314610109575b600080fd5b6100a760048036038101906100a29190610ef5565b6101fb565b6040516100b49190610f3e565b60405180910390f35b6100d760048036038101906100d29190610f93565b61020d565b6040516100e4919061115e565b60405180910390f35b61010760048036038101906101029190611411565b610322565b005b610123600480360381019061011e9190610ef5565b6103e6565b60405161013091906114a8565b60405180910390f35b610153600480360381019061014e9190610f93565b6103f8565b604051610161929190611827565b60405180910390f35b610184600480360381019061017f9190610ef5565b610665565b604051610191919061186d565b60405180910390f35b6101b460048036038101906101af9190610ef5565b610677565b6040516101c19190611897565b60405180910390f35b6101e460048036038101906101df91906118b2565b610689565b6040516101f292919061194b565b60405180910390f35b600061020682610752565b9050919050565b60606000808361ffff1661ffff168152602001908152602001600020805480602002602001604051908101604052809291908181526020016000905b82821015610317578382906000526020600020906002020160405180604001604052908160008201548152602001600182018054610286906119aa565b80601f01602080910402602001604051908101604052809291908181526020018280546102b2906119aa565b80156102ff5780601f106102d4576101008083540402835291602001916102ff565b820191906000526020600020905b8154815290600101906020018083116102e257829003601f168201915b50505050508152505081526020019060010190610249565b505050509050919050565b6000808361ffff1661ffff16815260200190815260200160002060006103489190610d7a565b60005b81518110156103e1576000808461ffff1661ffff168152602001908152602001600020828281518110610381576103806119db565b5b602002602001015190806001815401808255809150506001900390600052602060002090600202016000909190919091506000820151816000015560208201518160010190816103d19190611bb6565b505050808060010191505061034b565b505050565b60006103f182610760565b9050919050565b60608060008060008561ffff1661ffff168152602001908152602001600020805480602002602001604051908101604052809291908181526020016000905b82821015610505578382906000526020600020906002020160405180604001604052908160008201548152602001600182018054610474906119aa565b80601f01602080910402602001604051908101604052809291908181526020018280546104a0906119aa565b80156104ed5780601f106104c2576101008083540402835291602001916104ed565b820191906000526020600020905b8154815290600101906020018083116104d057829003601f168201915b50505050508152505081526020019060010190610437565b5050505090506000815167ffffffffffffffff81111561052857610527611185565b5b60405190808252806020026020018201604052801561056157816020015b61054e610d9e565b8152602001906001900390816105465790505b5090506000825167ffffffffffffffff81111561058157610580611185565b5b6040519080825280602002602001820160405280156105b457816020015b606081526020019060019003908161059f5790505b50905060005b8351811015610656576105ea8482815181106105d9576105d86119db565b5b602002602001015160000151610771565b8382815181106105fd576105fc6119db565b5b602002602001018190525061062b84828151811061061e5761061d6119db565b5b6020026020010151610826565b82828151811061063e5761063d6119db565b5b602002602001018190525080806001019150506105ba565b50818194509450505050915091565b600061067082610ad4565b9050919050565b600061068282610b44565b9050919050565b600060205281600052604060002081815481106106a557600080fd5b9060005260206000209060020201600091509150508060000154908060010180546106cf906119aa565b80601f01602080910402602001604051908101604052809291908181526020018280546106fb906119aa565b80156107485780601f1061071d57610100808354040283529160200191610748565b820191906000526020600020905b81548152906001019060200180831161072b57829003601f168201915b5050505050905082565b6000601b82901c9050919050565b6000600382901c60e81b9050919050565b610779610d9e565b600061078483610ad4565b9050600061079184610760565b9050600061079e85610752565b905060006107ab86610b44565b90506107b78483610b52565b6107c18482610c2c565b60405180608001604052808560058111156107df576107de6114ef565b5b8152602001847cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff191681526020018360ff1681526020018261ffff16815250945050505050919050565b606060006108378360000151610b44565b905060008161ffff1667ffffffffffffffff81111561085957610858611185565b5b60405190808252806020026020018201604052801561089257816020015b61087f610dff565b8152602001906001900390816108775790505b50905060005b6006811080156108ab57508261ffff1681105b156109405760006020826108bf9190611cb7565b60336108cb9190611cf9565b90506000818760000151901c905060006010836108e89190611cf9565b8860000151901c905060405180604001604052808360010b81526020018260010b81525085858151811061091f5761091e6119db565b5b6020026020010181905250505050808061093890611d2d565b915050610898565b5060005b8460200151516003826109579190611cf9565b10801561097f57508261ffff166004826109719190611da4565b600661097d9190611cf9565b105b15610ac957600085602001516001836109989190611cf9565b815181106109a9576109a86119db565b5b602001015160f81c60f81b60f81c60ff166008876020015184815181106109d3576109d26119db565b5b602001015160f81c60f81b60f81c60ff1661ffff16901b17905060008660200151600384610a019190611cf9565b81518110610a1257610a116119db565b5b602001015160f81c60f81b60f81c60ff1660088860200151600286610a379190611cf9565b81518110610a4857610a476119db565b5b602001015160f81c60f81b60f81c60ff1661ffff16901b17905060405180604001604052808360010b81526020018260010b81525084600485610a8b9190611da4565b6006610a979190611cf9565b81518110610aa857610aa76119db565b5b60200260200101819052505050600481610ac29190611cf9565b9050610944565b508092505050919050565b60008060078316905060058160ff161115610b2657806040517fd353599c000000000000000000000000000000000000000000000000000000008152600401610b1d9190610f3e565b60405180910390fd5b8060ff166005811115610b3c57610b3b6114ef565b5b915050919050565b6000602382901c9050919050565b600580811115610b6557610b646114ef565b5b826005811115610b7857610b776114ef565b5b1480610ba8575060016005811115610b9357610b926114ef565b5b826005811115610ba657610ba56114ef565b5b145b80610bd7575060036005811115610bc257610bc16114ef565b5b826005811115610bd557610bd46114ef565b5b145b8015610be6575060008160ff16145b15610c2857806040517fdd76e354000000000000000000000000000000000000000000000000000000008152600401610c1f9190610f3e565b60405180910390fd5b5050565b60028161ffff161080610cd2575060006005811115610c4e57610c4d6114ef565b5b826005811115610c6157610c606114ef565b5b1480610c91575060026005811115610c7c57610c7b6114ef565b5b826005811115610c8f57610c8e6114ef565b5b145b80610cc0575060016005811115610cab57610caa6114ef565b5b826005811115610cbe57610cbd6114ef565b5b145b8015610cd1575060028161ffff1614155b5b80610d34575060046005811115610cec57610ceb6114ef565b5b826005811115610cff57610cfe6114ef565b5b148015610d11575060038161ffff1614155b8015610d22575060058161ffff1614155b8015610d33575060068161ffff1614155b5b15610d7657806040517fd3c6c3ae000000000000000000000000000000000000000000000000000000008152600401610d6d9190611e06565b60405180910390fd5b5050565b5080546000825560020290600052602060002090810190610d9b9190610e1f565b50565b604051806080016040528060006005811115610dbd57610dbc6114ef565b5b815260200160007cffffffffffffffffffffffffffffffffffffffffffffffffffffffffff19168152602001600060ff168152602001600061ffff1681525090565b6040518060400160405280600060010b8152602001600060010b81525090565b5b80821115610e4a57600080820160009055600182016000610e419190610e4e565b50600201610e20565b5090565b508054610e5a906119aa565b6000825580601f10610e6c5750610e8b565b601f016020900490600052602060002090810190610e8a9190610e8e565b5b50565b5b80821115610ea7576000816000905550600101610e8f565b5090565b6000604051905090565b600080fd5b600080fd5b6000819050919050565b610ed281610ebf565b8114610edd57600080fd5b50565b600081359050610eef81610ec9565b92915050565b600060208284031215610f0b57610f0a610eb5565b5b6000610f1984828501610ee0565b91505092915050565b600060ff82169050919050565b610f3881610f22565b82525050565b6000602082019050610f536000830184610f2f565b92915050565b600061ffff82169050919050565b610f7081610f59565b8114610f7b57600080fd5b50565b600081359050610f8d81610f67565b92915050565b600060208284031215610fa957610fa8610eb5565b5b6000610fb784828501610f7e565b91505092915050565b600081519050919050565b600082825260208201905092915050565b6000819050602082019050919050565b610ff581610ebf565b82525050565b600081519050919050565b600082825260208201905092915050565b60005b8381101561103557808201518184015260208101905061101a565b60008484015250505050565b6000601f19601f8301169050919050565b600061105d82610ffb565b6110678185611006565b9350611077818560208601611017565b61108081611041565b840191505092915050565b60006040830160008301516110a36000860182610fec565b50602083015184820360208601526110bb8282611052565b9150508091505092915050565b60006110d4838361108b565b905092915050565b6000602082019050919050565b60006110f482610fc0565b6110fe8185610fcb565b93508360208202850161111085610fdc565b8060005b8581101561114c578484038952815161112d85826110c8565b9450611138836110dc565b925060208a01995050600181019050611114565b50829750879550505050505092915050565b6000602082019050818103600083015261117881846110e9565b905092915050565b600080fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6111bd82611041565b810181811067ffffffffffffffff821117156111dc576111db611185565b5b80604052505050565b60006111ef610eab565b90506111fb82826111b4565b919050565b600067ffffffffffffffff82111561121b5761121a611185565b5b602082029050602081019050919050565b600080fd5b600080fd5b600080fd5b600080fd5b600067ffffffffffffffff82111561125b5761125a611185565b5b61126482611041565b9050602081019050919050565b82818337600083830152505050565b600061129361128e84611240565b6111e5565b9050828152602081018484840111156112af576112ae61123b565b5b6112ba848285611271565b509392505050565b600082601f8301126112d7576112d6611180565b5b81356112e7848260208601611280565b91505092915050565b60006040828403121561130657611305611231565b5b61131060406111e5565b9050600061132084828501610ee0565b600083015250602082013567ffffffffffffffff81111561134457611343611236565b5b611350848285016112c2565b60208301525092915050565b600061136f61136a84611200565b6111e5565b905080838252602082019050602084028301858111156113925761139161122c565b5b835b818110156113d957803567ffffffffffffffff8111156113b7576113b6611180565b5b8086016113c489826112f0565b85526020850194505050602081019050611394565b5050509392505050565b600082601f8301126113f8576113f7611180565b5b813561140884826020860161135c565b91505092915050565b6000806040838503121561142857611427610eb5565b5b600061143685828601610f7e565b925050602083013567ffffffffffffffff81111561145757611456610eba565b5b611463858286016113e3565b9150509250929050565b60007fffffff000000000000000000000000000000000000000000000000000000000082169050919050565b6114a28161146d565b82525050565b60006020820190506114bd6000830184611499565b92915050565b600081519050919050565b600082825260208201905092915050565b6000819050602082019050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b6006811061152f5761152e6114ef565b5b50565b60008190506115408261151e565b919050565b600061155082611532565b9050919050565b61156081611545565b82525050565b61156f8161146d565b82525050565b61157e81610f22565b82525050565b61158d81610f59565b82525050565b6080820160008201516115a96000850182611557565b5060208201516115bc6020850182611566565b5060408201516115cf6040850182611575565b5060608201516115e26060850182611584565b50505050565b60006115f48383611593565b60808301905092915050565b6000602082019050919050565b6000611618826114c3565b61162281856114ce565b935061162d836114df565b8060005b8381101561165e57815161164588826115e8565b975061165083611600565b925050600181019050611631565b5085935050505092915050565b600081519050919050565b600082825260208201905092915050565b6000819050602082019050919050565b600081519050919050565b600082825260208201905092915050565b6000819050602082019050919050565b60008160010b9050919050565b6116d9816116c3565b82525050565b6040820160008201516116f560008501826116d0565b50602082015161170860208501826116d0565b50505050565b600061171a83836116df565b60408301905092915050565b6000602082019050919050565b600061173e82611697565b61174881856116a2565b9350611753836116b3565b8060005b8381101561178457815161176b888261170e565b975061177683611726565b925050600181019050611757565b5085935050505092915050565b600061179d8383611733565b905092915050565b6000602082019050919050565b60006117bd8261166b565b6117c78185611676565b9350836020820285016117d985611687565b8060005b8581101561181557848403895281516117f68582611791565b9450611801836117a5565b925060208a019950506001810190506117dd565b50829750879550505050505092915050565b60006040820190508181036000830152611841818561160d565b9050818103602083015261185581846117b2565b90509392505050565b61186781611545565b82525050565b6000602082019050611882600083018461185e565b92915050565b61189181610f59565b82525050565b60006020820190506118ac6000830184611888565b92915050565b600080604083850312156118c9576118c8610eb5565b5b60006118d785828601610f7e565b92505060206118e885828601610ee0565b9150509250929050565b6118fb81610ebf565b82525050565b600082825260208201905092915050565b600061191d82610ffb565b6119278185611901565b9350611937818560208601611017565b61194081611041565b840191505092915050565b600060408201905061196060008301856118f2565b81810360208301526119728184611912565b90509392505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b600060028204905060018216806119c257607f821691505b6020821081036119d5576119d461197b565b5b50919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b60008190508160005260206000209050919050565b60006020601f8301049050919050565b600082821b905092915050565b600060088302611a6c7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff82611a2f565b611a768683611a2f565b95508019841693508086168417925050509392505050565b6000819050919050565b6000611ab3611aae611aa984610ebf565b611a8e565b610ebf565b9050919050565b6000819050919050565b611acd83611a98565b611ae1611ad982611aba565b848454611a3c565b825550505050565b600090565b611af6611ae9565b611b01818484611ac4565b505050565b5b81811015611b2557611b1a600082611aee565b600181019050611b07565b5050565b601f821115611b6a57611b3b81611a0a565b611b4484611a1f565b81016020851015611b53578190505b611b67611b5f85611a1f565b830182611b06565b50505b505050565b600082821c905092915050565b6000611b8d60001984600802611b6f565b1980831691505092915050565b6000611ba68383611b7c565b9150826002028217905092915050565b611bbf82610ffb565b67ffffffffffffffff811115611bd857611bd7611185565b5b611be282546119aa565b611bed828285611b29565b600060209050601f831160018114611c205760008415611c0e578287015190505b611c188582611b9a565b865550611c80565b601f198416611c2e86611a0a565b60005b82811015611c5657848901518255600182019150602085019450602081019050611c31565b86831015611c735784890151611c6f601f891682611b7c565b8355505b6001600288020188555050505b505050505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b6000611cc282610ebf565b9150611ccd83610ebf565b9250828202611cdb81610ebf565b91508282048414831517611cf257611cf1611c88565b5b5092915050565b6000611d0482610ebf565b9150611d0f83610ebf565b9250828201905080821115611d2757611d26611c88565b5b92915050565b6000611d3882610ebf565b91507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8203611d6a57611d69611c88565b5b600182019050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601260045260246000fd5b6000611daf82610ebf565b9150611dba83610ebf565b925082611dca57611dc9611d75565b5b828204905092915050565b6000611df0611deb611de684610f59565b611a8e565b610ebf565b9050919050565b611e0081611dd5565b82525050565b6000602082019050611e1b6000830184611df7565b9291505056fea264697066735822122084d84fbcfbf0ab33626d927696c78cafafcb493aa62b7627927ae148a290e6ea64736f6c634300081c0033";
+  "0x60808060405234601557611207908161001b8239f35b600080fdfe608080604052600436101561001357600080fd5b60003560e01c9081634028187414610a63575080635617aaf31461095757806387268c8e146107575780639301a7c01461044d578063a6df62a314610422578063a7a3ec11146101e3578063b842bc34146101b8578063daeb0c6a14610182578063db2d13a914610132578063e0d9bb7e1461010e5763f7b7f3da1461009857600080fd5b34610109576040366003190112610109576100b1610a84565b61ffff602435911660005260006020526040600020908154811015610109576100d991610c81565b506100e8600182549201610ced565b906101056040519283928352604060208401526040830190610a95565b0390f35b600080fd5b3461010957602036600319011261010957602060405161ffff60043560231c168152f35b346101095760203660031901126101095760043567ffffffffffffffff81116101095761016e610169610105923690600401610b30565b611053565b604051918291602083526020830190610bbd565b346101095760203660031901126101095761019b610e3a565b5060a06101a9600435610e65565b6101b66040518092610c3c565bf35b346101095760203660031901126101095760206101d66004356111a6565b6101b66040518092610c19565b346101095760203660031901126101095761ffff6101ff610a84565b1660005260006020526040600020805461021881610c01565b916102266040519384610b0e565b818352602083019060005260206000206000915b8383106103ee5784518561024d82610c01565b9161025b6040519384610b0e565b80835261026a601f1991610c01565b0160005b8181106103d7575050805161028281610c01565b906102906040519283610b0e565b80825261029f601f1991610c01565b0160005b8181106103c657505060005b825181101561031457806102cf6102c860019386610dfe565b5151610e65565b6102d98287610dfe565b526102e48186610dfe565b506102f86102f28286610dfe565b51611053565b6103028285610dfe565b5261030d8184610dfe565b50016102af565b81846040519182916040830160408452815180915260206060850192019060005b8181106103a0575050508281036020840152815180825260208201916020808360051b8301019401926000915b83831061036f5786860387f35b91939550919360208061038e600193601f198682030187528951610bbd565b97019301930190928695949293610362565b9193945091602060a0826103b76001948851610c3c565b01940191019185949392610335565b8060606020809386010152016102a3565b6020906103e2610e3a565b8282870101520161026e565b6002602060019260405161040181610ad6565b85548152610410858701610ced565b8382015281520192019201919061023a565b346101095760203660031901126101095760405160043560e51b6001600160e81b0319168152602090f35b3461010957604036600319011261010957610466610a84565b6024359067ffffffffffffffff8211610109573660238301121561010957816004013561049281610c01565b926104a06040519485610b0e565b8184526024602085019260051b820101903682116101095760248101925b828410610727578561ffff861680600052600060205260406000208054906000815581610681575b5050906000915b815183101561067f5780600052600060205260406000209261050f8184610dfe565b51938054680100000000000000008110156106535761053391600182018155610c81565b610669576001602091865181550194015193845167ffffffffffffffff8111610653576105608254610cb3565b601f8111610616575b506020601f82116001146105ad57819060019596976000926105a2575b5050600019600383901b1c191690841b1790555b0191906104ed565b015190508780610586565b601f1982169683600052816000209760005b8181106105fe57509160019697989184889594106105e5575b505050811b01905561059a565b015160001960f88460031b161c191690558780806105d8565b92986020600181928c8601518155019a0193016105bf565b61064390836000526020600020601f840160051c81019160208510610649575b601f0160051c0190610e23565b86610569565b9091508190610636565b634e487b7160e01b600052604160045260246000fd5b634e487b7160e01b600052600060045260246000fd5b005b6001600160ff1b03821682036107115760005260206000209060011b8101905b818110156104e65780600060029255600181016106be8154610cb3565b90816106cd575b5050016106a1565b81601f600093116001146106e55750555b85806106c5565b8183526020832061070191601f0160051c810190600101610e23565b80825281602081209155556106de565b634e487b7160e01b600052601160045260246000fd5b833567ffffffffffffffff81116101095760209161074c839260243691870101610b30565b8152019301926104be565b346101095760203660031901126101095760043567ffffffffffffffff811161010957610788903690600401610b30565b61ffff815160231c1661079a81610d91565b60005b600681108061094e575b15610820578060051b908082046020148115171561071157816033018060331161071157604386519301808211610711578361ffff918261081b96604051956107ef87610ad6565b1c1660010b84521c1660010b602082015261080a8285610dfe565b526108158184610dfe565b50610def565b61079d565b506020830160005b6003810180821161071157825151811080610937575b156109215761ff0080610852848651610e12565b5160f01c16168351600184018085116107115761086e91610e12565b5160f81c8451600285018086116107115761088e61ff0092918392610e12565b5160f01c16166108a2865194600095610e12565b5160f81c91604051936108b485610ad6565b1760010b83521760010b60208201528260021c600601918260061161090d5750906108ea916108e38287610dfe565b5284610dfe565b50600481018091111561082857634e487b7160e01b600052601160045260246000fd5b634e487b7160e01b81526011600452602490fd5b6040516020808252819061010590820187610bbd565b508160021c6006018060061161071157851161083e565b508281106107a7565b346101095760203660031901126101095761ffff610973610a84565b166000526000602052604060002080549061098d82610c01565b9161099b6040519384610b0e565b80835260208301809260005260206000206000915b838310610a2f57848660405191829160208301906020845251809152604083019060408160051b85010192916000905b8282106109ef57505050500390f35b91936001919395506020610a1f8192603f198a82030186526040838a518051845201519181858201520190610a95565b96019201920185949391926109e0565b60026020600192604051610a4281610ad6565b85548152610a51858701610ced565b838201528152019201920191906109b0565b346101095760203660031901126101095760209060ff600435601b1c168152f35b6004359061ffff8216820361010957565b919082519283825260005b848110610ac1575050826000602080949584010152601f8019910116010190565b80602080928401015182828601015201610aa0565b6040810190811067ffffffffffffffff82111761065357604052565b60a0810190811067ffffffffffffffff82111761065357604052565b90601f8019910116810190811067ffffffffffffffff82111761065357604052565b919060408382031261010957604051610b4881610ad6565b80938035825260208101359067ffffffffffffffff821161010957019082601f8301121561010957813567ffffffffffffffff81116106535760405193610b99601f8301601f191660200186610b0e565b81855260208285010111610109576020816000928280960183880137850101520152565b906020808351928381520192019060005b818110610bdb5750505090565b82518051600190810b8652602091820151810b8287015260409095019493019201610bce565b67ffffffffffffffff81116106535760051b60200190565b906007821015610c265752565b634e487b7160e01b600052602160045260246000fd5b60ff60808092610c4d858251610c19565b62ffffff60e81b602082015116602086015282604082015116604086015261ffff6060820151166060860152015116910152565b8054821015610c9d5760005260206000209060011b0190600090565b634e487b7160e01b600052603260045260246000fd5b90600182811c92168015610ce3575b6020831014610ccd57565b634e487b7160e01b600052602260045260246000fd5b91607f1691610cc2565b9060405191826000825492610d0184610cb3565b8084529360018116908115610d6f5750600114610d28575b50610d2692500383610b0e565b565b90506000929192526020600020906000915b818310610d53575050906020610d269282010138610d19565b6020919350806001915483858901015201910190918492610d3a565b905060209250610d2694915060ff191682840152151560051b82010138610d19565b90610d9b82610c01565b610da86040519182610b0e565b8281528092610db9601f1991610c01565b019060005b828110610dca57505050565b602090604051610dd981610ad6565b6000815260008382015282828501015201610dbe565b60001981146107115760010190565b8051821015610c9d5760209160051b010190565b908151811015610c9d570160200190565b818110610e2e575050565b60008155600101610e23565b60405190610e4782610af2565b60006080838281528260208201528260408201528260608201520152565b610e6d610e3a565b50610e77816111a6565b60ff82601b1c1661ffff8360231c1660ff8460f31c1660ff039160ff83116107115760078410159485610c2657600585148015611045575b868115611035575b8115611025575b508061101d575b6110085760028310868115610fbb575b8115610f78575b8115610f37575b50610f225760405195610ef587610af2565b610c265760ff94865262ffffff60e81b9060e51b1660208601526040850152606084015216608082015290565b826369e361d760e11b60005260045260246000fd5b9050610c26576006851480610f4d575b86610ee3565b506003831080610f475750600019830161ffff81116107115761ffff60038160019316061614610f47565b9050610c26576004851480610fb0575b80610fa5575b80610f9a575b86610edc565b506006831415610f94565b506005831415610f8e565b506003831415610f88565b9050610c265784158015610ffa575b868115610fea575b5080610fdf575b86610ed5565b506002831415610fd9565b9050610c26576001851486610fd2565b506000955060028514610fca565b5063375db8d560e21b60005260045260246000fd5b508115610ec5565b9050610c26576003851486610ebe565b9050610c26576001851486610eb7565b506000955060068514610eaf565b9061ffff825160231c1661106681610d91565b9060005b600681108061119d575b156110e7578060051b908082046020148115171561071157816033018060331161071157604387519301808211610711578361ffff91826110e296604051956110bc87610ad6565b1c1660010b84521c1660010b60208201526110d78286610dfe565b526108158185610dfe565b61106a565b50602090930151909160005b600381018082116107115783511180611186575b1561117f576020818401015161ffff6040519161112383610ad6565b8060f01d60010b835260e01c1660010b60208201528160021c600601806006116107115761115c916111558288610dfe565b5285610dfe565b5060048101809111156110f357634e487b7160e01b600052601160045260246000fd5b5092505090565b508060021c60060180600611610711578511611107565b50818110611074565b600716600681116111bd576007811015610c265790565b6334d4d66760e21b60005260045260246000fdfea26469706673582212202950975c346da0192f12958e09b6669935c67431ae4c6ff72927e6182e4fe85e64736f6c634300081c0033";
 
 type EncodingTestConstructorParams =
   | [signer?: Signer]
@@ -1,8 +1,13 @@
 import { ethers } from 'ethers';
 import { ColourMeNFT__factory } from '../typechain-types/factories/contracts/ColourMeNFT.sol/ColourMeNFT__factory';
 import type { ColourMeNFT } from '../typechain-types/contracts/ColourMeNFT.sol/ColourMeNFT';
+import { ColourMeRenderer__factory } from '../typechain-types/factories/contracts/ColourMeRenderer__factory';
 import type { ObjectStruct } from '../typechain-types/contracts/ColourMeNFT.sol/ColourMeNFT';
-import { encodeObject, encodeObjects, type ObjectStruct as FrontendObject } from './encoding';
+import type { TypedContractEvent, TypedDeferredTopicFilter, TypedEventLog } from '../typechain-types/common';
+import { encodeObject, encodeObjects, findInvalidObject, DEFAULT_CANVAS, type CanvasRect, type TokenTrait } from './encoding';
+import { renderTokenSVG } from './renderer';
+import type { ImportPalette } from './svgImport';
+import presaleData from '../assets/presale.json';
 
 // Format address for display (truncate middle)
 export const formatAddress = (address: string): string => {
@@ -46,7 +51,7 @@ export const networkConfigs = {
     contracts: {
       ColourMeNFT: {
         address: "0x900aA8EB88147EFAC46dcc047389562E0822B66D", // Live testnet deployment
-        deployedBlock: 0,
+        deployedBlock: 9218072, // event queries start here, from ignition/deployments/chain-11155111
       }
     }
   },
@@ -65,7 +70,7 @@ export const networkConfigs = {
     contracts: {
       ColourMeNFT: {
         address: "0x0000000000000000000000000000000000000000", // TODO: Deploy to Polygon mainnet
-        deployedBlock: 0,
+        deployedBlock: 0, // TODO: set with the address, event queries start here
       }
     }
   }
@@ -103,10 +108,19 @@ export interface ContractData {
   mintDuration: number; // in milliseconds
   mintPrice: string; // in ETH string format
   mintLimit: number;
+  walletLimit: number; // lifetime public mints per wallet, 0 = unlimited
+  presaleOpen: Date;
+  presaleDuration: number; // in milliseconds
+  presalePrice: string; // in ETH string format
+  baseURL: string;
+  renderer: string;
   
   // Derived
   mintEnd: Date;
   isMintActive: boolean;
+  presaleEnd: Date;
+  hasPresale: boolean; // a presale root is set
+  isPresaleActive: boolean;
 }
 
 // Get current contract data
@@ -148,10 +162,28 @@ export const getContractData = async (contract: ColourMeNFT | null): Promise<{ d
     const mintDuration = projectInfo.mintDuration * 1000; // convert to milliseconds
     const mintPrice = projectInfo?.mintPrice > 0n ? (ethers.formatEther(projectInfo.mintPrice) + ' ' + (chain?.symbol || 'ETH')) : 'FREE'; // convert wei to ETH
     const mintLimit = projectInfo.mintLimit;
+    
+    // Wallet limit and presale live outside getProjectInfo
+    const [mintConfig, presaleRoot, presalePriceWei, presaleStart, presaleDurationSeconds, renderer] = await Promise.all([
+      contract.getMintConfig(),
+      contract.presaleRoot(),
+      contract.presalePrice(),
+      contract.presaleStart(),
+      contract.presaleDuration(),
+      contract.renderer()
+    ]);
+    const walletLimit = Number(mintConfig.walletLimit);
+    const presaleOpen = new Date(Number(presaleStart) * 1000);
+    const presaleDuration = Number(presaleDurationSeconds) * 1000;
+    const presalePrice = presalePriceWei > 0n ? (ethers.formatEther(presalePriceWei) + ' ' + (chain?.symbol || 'ETH')) : 'FREE';
+    
     // Calculate derived values
     const mintEnd = new Date(mintOpen.getTime() + mintDuration);
+    const presaleEnd = new Date(presaleOpen.getTime() + presaleDuration);
     const now = new Date();
     const isMintActive = now >= mintOpen && now <= mintEnd;
+    const hasPresale = presaleRoot !== ethers.ZeroHash;
+    const isPresaleActive = hasPresale && now >= presaleOpen && now <= presaleEnd;
     
     const contractData: ContractData = {
       chain,
@@ -165,7 +197,16 @@ export const getContractData = async (contract: ColourMeNFT | null): Promise<{ d
       mintPrice,
       mintEnd,
       mintLimit,
-      isMintActive
+      walletLimit,
+      isMintActive,
+      presaleOpen,
+      presaleDuration,
+      presalePrice,
+      presaleEnd,
+      hasPresale,
+      isPresaleActive,
+      baseURL: projectInfo.baseURL,
+      renderer
     };
     
     return {
@@ -225,6 +266,7 @@ export interface ContractObject {
   color: string;
   stroke: number;
   points: { x: number; y: number }[];
+  opacity?: number; // uint8, 255 (default) = opaque
 }
 
 // New packed contract object (matches the updated Object struct)
@@ -250,15 +292,8 @@ export interface ConnectionResult {
 
 // Legacy function for backwards compatibility
 export const convertToObjectStruct = (obj: ContractObject): ObjectStruct => {
-  // Convert to frontend object first, then encode to packed format
-  const frontendObj: FrontendObject = {
-    shape: obj.shape,
-    color: obj.color,
-    stroke: obj.stroke,
-    points: obj.points
-  };
-  
-  const packed = encodeObject(frontendObj);
+  // Encode straight to packed format, copying fields would drop any the encoder learns later
+  const packed = encodeObject(obj);
   
   return {
     base: packed.base,
@@ -268,14 +303,7 @@ export const convertToObjectStruct = (obj: ContractObject): ObjectStruct => {
 
 // New function for converting multiple objects with packed encoding
 export const convertToPackedObjects = (objects: ContractObject[]): ObjectStruct[] => {
-  const frontendObjects: FrontendObject[] = objects.map(obj => ({
-    shape: obj.shape,
-    color: obj.color,
-    stroke: obj.stroke,
-    points: obj.points
-  }));
-  
-  const packedObjects = encodeObjects(frontendObjects);
+  const packedObjects = encodeObjects(objects);
   
   return packedObjects.map(packed => ({
     base: packed.base,
@@ -297,7 +325,7 @@ export const estimateObjectGasSize = (obj: ContractObject): number => {
   gasEstimate += additionalPoints * 30; // Still cheaper than unpacked
   
   // Additional cost for complex shapes (reduced due to packed encoding)
-  if (obj.shape === 4 || obj.shape === 5) { // polyline or polygon
+  if (obj.shape === 4 || obj.shape === 5 || obj.shape === 6) { // polygon, path or curve
     gasEstimate += obj.points.length * 10; // Reduced from 20
   }
   
@@ -575,6 +603,99 @@ const getGasEstimateForMint = async (
   }
 };
 
+// Messages for the custom errors setArt/appendArt/setCollaborator can revert with
+const ART_ERROR_MESSAGES: Record<string, string> = {
+  NotCanvasOwner: "You don't own this canvas",
+  CollaboratorLimitReached: 'You have added all the objects this canvas was shared with',
+  OutOfBounds: 'The canvas changed since it was loaded, reload it and try again',
+  CanvasFinalized: 'This canvas is finalized and can no longer be changed',
+  InvalidTheme: 'That theme is not available',
+  OutOfCanvas: 'An object is fully outside the canvas',
+  TraitsNotRevealed: 'The traits for this canvas are not revealed yet, try again after the next block',
+  TraitsAlreadyRevealed: 'The traits for this canvas are already revealed',
+};
+
+// Messages for the custom errors presaleMint can revert with
+const PRESALE_ERROR_MESSAGES: Record<string, string> = {
+  NotOnAllowlist: 'This wallet is not on the presale list',
+  PresaleAllocationExceeded: 'This would go over your presale allocation',
+  InsufficientPayment: 'Insufficient payment for the presale price',
+};
+
+// Decode a ColourMeNFT custom error into a readable message (null if not one of ours)
+const getArtErrorMessage = (
+  contract: ColourMeNFT,
+  error: unknown,
+  messages: Record<string, string> = ART_ERROR_MESSAGES
+): string | null => {
+  const err = error as { revert?: { name?: string }; data?: unknown; info?: { error?: { data?: unknown } } } | null;
+  let name = err?.revert?.name;
+
+  const data = err?.data ?? err?.info?.error?.data;
+  if (!name && typeof data === 'string') {
+    try {
+      name = contract.interface.parseError(data)?.name;
+    } catch {
+      return null;
+    }
+  }
+  return (name && messages[name]) || null;
+};
+
+export const getCanvas = async (contract: ColourMeNFT): Promise<CanvasRect> => {
+  try {
+    const [x, y, width, height] = await contract.canvas();
+    return { x: Number(x), y: Number(y), width: Number(width), height: Number(height) };
+  } catch {
+    return DEFAULT_CANVAS;
+  }
+};
+
+// Catch objects the contract would reject (bad encoding, colours or shapes outside the traits,
+// wrong polygon size, OutOfCanvas) before any gas is spent
+export const findObjectNotAllowed = async (
+  contract: ColourMeNFT,
+  tokenId: number,
+  artData: ContractObject[]
+): Promise<string | null> => {
+  const [{ trait, result }, canvas] = await Promise.all([getTraits(contract, tokenId), getCanvas(contract)]);
+  if (!trait) return result.error || 'Could not read the token traits';
+  return findInvalidObject(artData, trait, canvas);
+};
+
+// Mirrors the contract check: owner, approved address or operator may paint
+const canPaintToken = async (
+  contract: ColourMeNFT,
+  tokenId: number,
+  signerAddress: string
+): Promise<boolean> => {
+  const owner = await contract.ownerOf(tokenId);
+  const signer = signerAddress.toLowerCase();
+  if (owner.toLowerCase() === signer) return true;
+
+  const [approved, isOperator] = await Promise.all([
+    contract.getApproved(tokenId),
+    contract.isApprovedForAll(owner, signerAddress)
+  ]);
+  return approved.toLowerCase() === signer || isOperator;
+};
+
+// Paint access for an account: owners can set and append, collaborators can only append
+export const getPaintAccess = async (
+  contract: ColourMeNFT,
+  tokenId: number,
+  account: string
+): Promise<'owner' | 'collaborator' | 'none'> => {
+  if (!account || tokenId <= 0) return 'none';
+  try {
+    if (await canPaintToken(contract, tokenId, account)) return 'owner';
+    return (await contract.isCollaborator(tokenId, account)) ? 'collaborator' : 'none';
+  } catch (error) {
+    console.warn('Paint access check failed:', error);
+    return 'none';
+  }
+};
+
 // Helper function to get gas estimate with fallback for setArt
 const getGasEstimateForSetArt = async (
   contract: ColourMeNFT,
@@ -585,6 +706,8 @@ const getGasEstimateForSetArt = async (
     const estimatedGas = await contract.setArt.estimateGas(tokenId, artData);
     return (estimatedGas * 120n) / 100n; // Add 20% buffer
   } catch (error) {
+    // A permission revert will fail on-chain too, don't send it with a fallback limit
+    if (getArtErrorMessage(contract, error)) throw error;
     console.warn('Gas estimation failed for setArt, using fallback:', error);
     return 500000n;
   }
@@ -600,6 +723,8 @@ const getGasEstimateForAppendArt = async (
     const estimatedGas = await contract.appendArt.estimateGas(tokenId, artData);
     return (estimatedGas * 120n) / 100n; // Add 20% buffer
   } catch (error) {
+    // A permission revert will fail on-chain too, don't send it with a fallback limit
+    if (getArtErrorMessage(contract, error)) throw error;
     console.warn('Gas estimation failed for appendArt, using fallback:', error);
     return 300000n;
   }
@@ -611,7 +736,8 @@ export interface TransactionChunk {
   chunkIndex: number;
   totalChunks: number;
   objects: ContractObject[];
-  type: 'set' | 'append';
+  type: 'set' | 'append' | 'truncate';
+  truncateLength?: number; // truncate chunks only
   status: 'pending' | 'processing' | 'completed' | 'failed';
   error?: string;
   txHash?: string;
@@ -638,10 +764,13 @@ const chunkArray = <T>(array: T[], chunkSize: number): T[][] => {
 export const createTransactionQueue = (
   tokenId: number,
   artData: ContractObject[],
-  saveType: 'set' | 'append' = 'set',
-  maxGasLimit: number = 500000
+  saveType: 'set' | 'append' | 'truncate+append' = 'set',
+  maxGasLimit: number = 500000,
+  truncateLength: number = 0
 ): TransactionQueue => {
-  if (artData.length === 0) {
+  // truncate+append keeps the first truncateLength objects, then appends the rest
+  const truncate = saveType === 'truncate+append';
+  if (artData.length === 0 && saveType === 'append') {
     return {
       tokenId,
       chunks: [],
@@ -650,18 +779,35 @@ export const createTransactionQueue = (
     };
   }
 
-  const { chunkSize } = calculateOptimalChunkSize(artData, maxGasLimit);
-  const chunkedData = chunkArray(artData, chunkSize);
+  const { chunkSize } = artData.length > 0
+    ? calculateOptimalChunkSize(artData, maxGasLimit)
+    : { chunkSize: 1 };
+  // setting no objects still needs its transaction, it clears the canvas
+  const chunkedData = artData.length > 0 || truncate ? chunkArray(artData, chunkSize) : [[]];
+  const totalChunks = chunkedData.length + (truncate ? 1 : 0);
   
   const chunks: TransactionChunk[] = chunkedData.map((chunkObjects, index) => ({
     id: `${tokenId}-${index}-${Date.now()}`,
     chunkIndex: index,
-    totalChunks: chunkedData.length,
+    totalChunks,
     objects: chunkObjects,
-    type: index === 0 ? saveType : 'append', // First chunk uses saveType, rest use append
+    type: index === 0 && saveType === 'set' ? 'set' : 'append', // First chunk uses saveType, rest use append
     status: 'pending'
   }));
 
+  if (truncate) {
+    chunks.unshift({
+      id: `${tokenId}-truncate-${Date.now()}`,
+      chunkIndex: 0,
+      totalChunks,
+      objects: [],
+      type: 'truncate',
+      truncateLength,
+      status: 'pending'
+    });
+    chunks.forEach((chunk, index) => { chunk.chunkIndex = index; });
+  }
+
   return {
     tokenId,
     chunks,
@@ -681,6 +827,8 @@ export const executeTransactionChunk = async (
     
     if (chunk.type === 'set') {
       result = await setArt(contract, tokenId, chunk.objects);
+    } else if (chunk.type === 'truncate') {
+      result = await truncateArt(contract, tokenId, chunk.truncateLength ?? 0);
     } else {
       result = await appendArt(contract, tokenId, chunk.objects);
     }
@@ -844,6 +992,27 @@ export const getProjectInfo = async (
   }
 };
 
+// Reads the token IDs actually minted from the CanvasMinted log,
+// the last mint before max supply can get fewer than it asked for
+export const getMintedRange = (
+  contract: ColourMeNFT,
+  receipt: ethers.TransactionReceipt
+): { firstTokenId: number; lastTokenId: number; quantity: number } => {
+  for (const log of receipt.logs) {
+    try {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === 'CanvasMinted') {
+        const firstTokenId = Number(parsed.args.firstTokenId);
+        const lastTokenId = Number(parsed.args.lastTokenId);
+        return { firstTokenId, lastTokenId, quantity: lastTokenId - firstTokenId + 1 };
+      }
+    } catch {
+      // not one of ours
+    }
+  }
+  return { firstTokenId: 0, lastTokenId: 0, quantity: 0 };
+};
+
 // Contract Write Methods
 export const mintToken = async (
   contract: ColourMeNFT,
@@ -860,8 +1029,19 @@ export const mintToken = async (
       return { success: false, error: 'Collection is sold out' };
     }
 
+    // The contract mints whatever is left and refunds the rest, only send enough for that
     if (tokenCount + BigInt(quantity) > maxSupply) {
-      return { success: false, error: `Only ${Number(maxSupply - tokenCount)} tokens remaining` };
+      quantity = Number(maxSupply - tokenCount);
+      console.log(`⚠️ Only ${quantity} tokens remaining, minting ${quantity}`);
+    }
+
+    // The wallet limit counts mints sent from this wallet
+    const runner = contract.runner as { getAddress?: () => Promise<string> } | null;
+    if (runner && typeof runner.getAddress === 'function') {
+      const { remaining } = await getMintAllowance(contract, await runner.getAddress());
+      if (remaining !== null && quantity > remaining) {
+        return { success: false, error: remaining === 0 ? 'This wallet has reached its mint limit' : `You can only mint ${remaining} more` };
+      }
     }
 
     // Get the mint price from the contract
@@ -893,7 +1073,8 @@ export const mintToken = async (
         hash: receipt.hash,
         blockNumber: receipt.blockNumber,
         to: toAddress,
-        gasUsed: receipt.gasUsed?.toString()
+        gasUsed: receipt.gasUsed?.toString(),
+        ...getMintedRange(contract, receipt)
       }
     };
   } catch (error: any) {
@@ -920,6 +1101,143 @@ export const mintToken = async (
   }
 };
 
+// Public mints left for a wallet, null when there is no wallet limit
+export const getMintAllowance = async (
+  contract: ColourMeNFT,
+  account: string
+): Promise<{ remaining: number | null; result: ConnectionResult }> => {
+  try {
+    const [config, minted] = await Promise.all([
+      contract.getMintConfig(),
+      contract.mintedBy(account)
+    ]);
+    const remaining = config.walletLimit === 0n ? null : Math.max(0, Number(config.walletLimit - minted));
+    return { remaining, result: { success: true, data: { account, remaining } } };
+  } catch (error) {
+    return {
+      remaining: null,
+      result: { success: false, error: `Get mint allowance failed: ${error}` }
+    };
+  }
+};
+
+// Presale
+export interface PresaleAllowance {
+  allocation: number;
+  minted: number;
+  proof: string[];
+}
+
+// Proofs ship with the frontend in assets/presale.json, built by the presale-tree task
+export const getPresaleProof = (account: string): { allocation: number; proof: string[] } | null => {
+  if (!ethers.isAddress(account)) return null;
+  const proofs: Record<string, { allocation: number; proof: string[] }> = presaleData.proofs;
+  return proofs[ethers.getAddress(account)] || null;
+};
+
+// Allocation and how much of it is used, null when the wallet isn't on the list
+export const getPresaleAllowance = async (
+  contract: ColourMeNFT,
+  account: string
+): Promise<{ allowance: PresaleAllowance | null; result: ConnectionResult }> => {
+  try {
+    const entry = getPresaleProof(account);
+    if (!entry) {
+      return { allowance: null, result: { success: true, data: { account, listed: false } } };
+    }
+
+    const [root, minted] = await Promise.all([
+      contract.presaleRoot(),
+      contract.presaleMinted(account)
+    ]);
+    if (root !== presaleData.root) {
+      console.warn('⚠️ Bundled presale proofs do not match the contract root:', { bundled: presaleData.root, contract: root });
+      return { allowance: null, result: { success: false, error: 'Presale list is out of date' } };
+    }
+
+    const allowance = { allocation: entry.allocation, minted: Number(minted), proof: entry.proof };
+    return { allowance, result: { success: true, data: { account, listed: true, ...allowance } } };
+  } catch (error) {
+    return {
+      allowance: null,
+      result: { success: false, error: `Get presale allowance failed: ${error}` }
+    };
+  }
+};
+
+export const presaleMintToken = async (
+  contract: ColourMeNFT,
+  toAddress: string,
+  quantity: number = 1
+): Promise<ConnectionResult> => {
+  try {
+    console.log('🎟️ Presale minting token:', toAddress, 'quantity:', quantity);
+
+    // The allocation belongs to the wallet sending the mint
+    const runner = contract.runner as { getAddress?: () => Promise<string> } | null;
+    if (!runner || typeof runner.getAddress !== 'function') {
+      return { success: false, error: 'No signer available' };
+    }
+    const signerAddress = await runner.getAddress();
+
+    const { allowance, result } = await getPresaleAllowance(contract, signerAddress);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    if (!allowance) {
+      return { success: false, error: PRESALE_ERROR_MESSAGES.NotOnAllowlist };
+    }
+    if (allowance.minted + quantity > allowance.allocation) {
+      return { success: false, error: `You can only presale mint ${allowance.allocation - allowance.minted} more` };
+    }
+
+    const totalValue = (await contract.presalePrice()) * BigInt(quantity);
+    console.log('💰 Presale total value (ETH):', ethers.formatEther(totalValue));
+
+    const tx = await contract.presaleMint(toAddress, quantity, allowance.allocation, allowance.proof, {
+      value: totalValue
+    });
+
+    console.log('🎟️ Presale mint transaction sent:', tx.hash);
+    const receipt = await tx.wait();
+
+    if (!receipt) {
+      throw new Error('Transaction receipt not received');
+    }
+
+    return {
+      success: true,
+      data: {
+        hash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        to: toAddress,
+        gasUsed: receipt.gasUsed?.toString(),
+        ...getMintedRange(contract, receipt)
+      }
+    };
+  } catch (error) {
+    console.error('Presale mint error:', error);
+
+    const err = error as { message?: string; reason?: string } | null;
+    let errorMessage = 'Presale mint failed';
+    const presaleErrorMessage = getArtErrorMessage(contract, error, PRESALE_ERROR_MESSAGES);
+
+    if (presaleErrorMessage) {
+      errorMessage = presaleErrorMessage;
+    } else if (err?.message?.includes('user rejected')) {
+      errorMessage = 'Transaction was rejected by user';
+    } else if (err?.message?.includes('insufficient funds')) {
+      errorMessage = 'Insufficient funds for transaction';
+    } else if (err?.reason) {
+      errorMessage = `Transaction failed: ${err.reason}`;
+    } else if (err?.message) {
+      errorMessage = `Presale mint failed: ${err.message}`;
+    }
+
+    return { success: false, error: errorMessage };
+  }
+};
+
 export const setArt = async (
   contract: ColourMeNFT,
   tokenId: number,
@@ -932,9 +1250,7 @@ export const setArt = async (
     
     // Pre-flight check - verify token ownership
     try {
-      console.log('🔐 [blockchain.ts] Checking token ownership for token:', tokenId);
-      const owner = await contract.ownerOf(tokenId);
-      console.log('👤 [blockchain.ts] Token owner:', owner);
+      console.log('🔐 [blockchain.ts] Checking paint permission for token:', tokenId);
       
       const runner = contract.runner;
       if (!runner || typeof (runner as any).getAddress !== 'function') {
@@ -944,16 +1260,26 @@ export const setArt = async (
       const signerAddress = await (runner as any).getAddress();
       console.log('✏️ [blockchain.ts] Signer address:', signerAddress);
       
-      if (owner.toLowerCase() !== signerAddress?.toLowerCase()) {
-        console.error('❌ [blockchain.ts] Ownership mismatch:', { owner: owner.toLowerCase(), signer: signerAddress?.toLowerCase() });
-        return { success: false, error: 'You do not own this token' };
+      const access = await getPaintAccess(contract, tokenId, signerAddress);
+      if (access === 'collaborator') {
+        console.error('❌ [blockchain.ts] Collaborators cannot replace art:', signerAddress);
+        return { success: false, error: 'Collaborators can only add to a shared canvas, not replace it' };
+      } else if (access !== 'owner') {
+        console.error('❌ [blockchain.ts] Signer is not owner, approved or operator:', signerAddress);
+        return { success: false, error: ART_ERROR_MESSAGES.NotCanvasOwner };
       }
-      console.log('✅ [blockchain.ts] Ownership verified');
+      console.log('✅ [blockchain.ts] Paint permission verified');
     } catch (error) {
       console.error('❌ [blockchain.ts] Ownership check failed:', error);
       return { success: false, error: 'Token does not exist or ownership check failed' };
     }
 
+    const notAllowed = await findObjectNotAllowed(contract, tokenId, artData);
+    if (notAllowed) {
+      console.error('❌ [blockchain.ts] Art failed validation:', notAllowed);
+      return { success: false, error: notAllowed };
+    }
+
     console.log('⛽ [blockchain.ts] Getting gas estimate...');
     const gasLimit = await getGasEstimateForSetArt(contract, tokenId, contractObjects);
     console.log('⛽ [blockchain.ts] Gas limit estimated:', gasLimit.toString());
@@ -986,7 +1312,11 @@ export const setArt = async (
     
     let errorMessage = 'Set art failed';
     
-    if (error?.code === -32603) {
+    const artErrorMessage = getArtErrorMessage(contract, error);
+    
+    if (artErrorMessage) {
+      errorMessage = artErrorMessage;
+    } else if (error?.code === -32603) {
       errorMessage = 'Transaction failed (Internal JSON-RPC error). Please try again.';
     } else if (error?.message?.includes('user rejected')) {
       errorMessage = 'Transaction was rejected by user';
@@ -1012,9 +1342,7 @@ export const appendArt = async (
     
     // Pre-flight check - verify token ownership
     try {
-      console.log('🔐 [blockchain.ts] Checking token ownership for token:', tokenId);
-      const owner = await contract.ownerOf(tokenId);
-      console.log('👤 [blockchain.ts] Token owner:', owner);
+      console.log('🔐 [blockchain.ts] Checking paint permission for token:', tokenId);
       
       const runner = contract.runner;
       if (!runner || typeof (runner as any).getAddress !== 'function') {
@@ -1024,16 +1352,23 @@ export const appendArt = async (
       const signerAddress = await (runner as any).getAddress();
       console.log('✏️ [blockchain.ts] Signer address:', signerAddress);
       
-      if (owner.toLowerCase() !== signerAddress?.toLowerCase()) {
-        console.error('❌ [blockchain.ts] Ownership mismatch:', { owner: owner.toLowerCase(), signer: signerAddress?.toLowerCase() });
-        return { success: false, error: 'You do not own this token' };
+      const access = await getPaintAccess(contract, tokenId, signerAddress);
+      if (access === 'none') {
+        console.error('❌ [blockchain.ts] Signer is not owner, approved, operator or collaborator:', signerAddress);
+        return { success: false, error: ART_ERROR_MESSAGES.NotCanvasOwner };
       }
-      console.log('✅ [blockchain.ts] Ownership verified');
+      console.log('✅ [blockchain.ts] Paint permission verified:', access);
     } catch (error) {
       console.error('❌ [blockchain.ts] Ownership check failed:', error);
       return { success: false, error: 'Token does not exist or ownership check failed' };
     }
 
+    const notAllowed = await findObjectNotAllowed(contract, tokenId, artData);
+    if (notAllowed) {
+      console.error('❌ [blockchain.ts] Art failed validation:', notAllowed);
+      return { success: false, error: notAllowed };
+    }
+
     console.log('⛽ [blockchain.ts] Getting gas estimate...');
     const gasLimit = await getGasEstimateForAppendArt(contract, tokenId, contractObjects);
     console.log('⛽ [blockchain.ts] Gas limit estimated:', gasLimit.toString());
@@ -1066,7 +1401,11 @@ export const appendArt = async (
     
     let errorMessage = 'Append art failed';
     
-    if (error?.code === -32603) {
+    const artErrorMessage = getArtErrorMessage(contract, error);
+    
+    if (artErrorMessage) {
+      errorMessage = artErrorMessage;
+    } else if (error?.code === -32603) {
       errorMessage = 'Transaction failed (Internal JSON-RPC error). Please try again.';
     } else if (error?.message?.includes('user rejected')) {
       errorMessage = 'Transaction was rejected by user';
@@ -1080,45 +1419,875 @@ export const appendArt = async (
   }
 };
 
-// Contract Read Methods
-export const getTokenURI = async (
+export const truncateArt = async (
   contract: ColourMeNFT,
-  tokenId: number
-): Promise<{ uri: string; result: ConnectionResult }> => {
+  tokenId: number,
+  newLength: number
+): Promise<ConnectionResult> => {
   try {
-    const uri = await contract.tokenURI(tokenId);
+    console.log('✂️ [blockchain.ts] truncateArt called with:', { tokenId, newLength });
+
+    // Pre-flight check - removing art needs the same rights as setArt
+    try {
+      const runner = contract.runner as { getAddress?: () => Promise<string> } | null;
+      if (!runner || typeof runner.getAddress !== 'function') {
+        console.error('❌ [blockchain.ts] No signer available');
+        return { success: false, error: 'No signer available' };
+      }
+      const signerAddress = await runner.getAddress();
+
+      const access = await getPaintAccess(contract, tokenId, signerAddress);
+      if (access === 'collaborator') {
+        console.error('❌ [blockchain.ts] Collaborators cannot remove art:', signerAddress);
+        return { success: false, error: 'Collaborators can only add to a shared canvas, not remove from it' };
+      } else if (access !== 'owner') {
+        console.error('❌ [blockchain.ts] Signer is not owner, approved or operator:', signerAddress);
+        return { success: false, error: ART_ERROR_MESSAGES.NotCanvasOwner };
+      }
+    } catch (error) {
+      console.error('❌ [blockchain.ts] Ownership check failed:', error);
+      return { success: false, error: 'Token does not exist or ownership check failed' };
+    }
+
+    const tx = await contract.truncateArt(tokenId, newLength);
+    console.log('✂️ TruncateArt transaction sent:', tx.hash);
+    const receipt = await tx.wait();
+
+    if (!receipt) {
+      throw new Error('Transaction receipt not received');
+    }
+
     return {
-      uri,
-      result: {
-        success: true,
-        data: { tokenId, uri }
+      success: true,
+      data: {
+        hash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        tokenId,
+        newLength,
+        gasUsed: receipt.gasUsed?.toString()
       }
     };
+  } catch (error) {
+    console.error('TruncateArt error:', error);
+
+    const err = error as { message?: string; reason?: string } | null;
+    let errorMessage = 'Truncate art failed';
+    const artErrorMessage = getArtErrorMessage(contract, error);
+
+    if (artErrorMessage) {
+      errorMessage = artErrorMessage;
+    } else if (err?.message?.includes('user rejected')) {
+      errorMessage = 'Transaction was rejected by user';
+    } else if (err?.reason) {
+      errorMessage = `Truncate art failed: ${err.reason}`;
+    } else if (err?.message) {
+      errorMessage = `Truncate art failed: ${err.message}`;
+    }
+
+    return { success: false, error: errorMessage };
+  }
+};
+
+// Block whose hash the traits are revealed from, 0 once they're revealed
+export const getRevealBlock = async (
+  contract: ColourMeNFT,
+  tokenId: number
+): Promise<{ revealBlock: number; result: ConnectionResult }> => {
+  try {
+    const revealBlock = Number(await contract.revealBlock(tokenId));
+    return {
+      revealBlock,
+      result: { success: true, data: { tokenId, revealBlock } }
+    };
   } catch (error) {
     return {
-      uri: '',
-      result: { success: false, error: `Get token URI failed: ${error}` }
+      revealBlock: 0,
+      result: { success: false, error: `Get reveal block failed: ${error}` }
     };
   }
 };
 
-export const getTokenSVG = async (
+// A token's traits, all zeros until they're revealed
+export const getTraits = async (
   contract: ColourMeNFT,
   tokenId: number
-): Promise<{ svg: string; result: ConnectionResult }> => {
+): Promise<{ trait: TokenTrait | null; result: ConnectionResult }> => {
   try {
-    const svg = await contract.tokenSVG(tokenId);
+    const raw = await contract.traits(tokenId);
+    const trait: TokenTrait = {
+      color0: raw.color0,
+      color1: raw.color1,
+      color2: raw.color2,
+      color3: raw.color3,
+      color4: raw.color4,
+      shape0: Number(raw.shape0),
+      shape1: Number(raw.shape1),
+      polygon: Number(raw.polygon)
+    };
     return {
-      svg,
-      result: {
-        success: true,
-        data: { tokenId, svgLength: svg.length }
+      trait,
+      result: { success: true, data: { tokenId, trait } }
+    };
+  } catch (error) {
+    return {
+      trait: null,
+      result: { success: false, error: `Get traits failed: ${error}` }
+    };
+  }
+};
+
+// Colours and shapes a token may paint with, for converting outside art into something it can save
+export const getImportPalette = async (
+  contract: ColourMeNFT,
+  tokenId: number
+): Promise<{ palette: ImportPalette | null; result: ConnectionResult }> => {
+  const { trait, result } = await getTraits(contract, tokenId);
+  if (!trait) return { palette: null, result };
+  // a revealed polygon always has at least 3 sides
+  if (trait.polygon === 0) {
+    return {
+      palette: null,
+      result: { success: false, error: `Get import palette failed: traits of token ${tokenId} are not revealed yet` }
+    };
+  }
+  const palette: ImportPalette = {
+    colors: [trait.color0, trait.color1, trait.color2, trait.color3, trait.color4],
+    shapes: [trait.shape0, trait.shape1],
+    polygon: trait.polygon
+  };
+  return {
+    palette,
+    result: { success: true, data: { tokenId, palette } }
+  };
+};
+
+// Anyone can reveal once the committed block is mined, painting reveals too but fails
+// if the art uses colours the placeholder palette doesn't match
+export const revealTraits = async (
+  contract: ColourMeNFT,
+  tokenId: number
+): Promise<ConnectionResult> => {
+  try {
+    console.log('🎲 Revealing traits for token:', tokenId);
+    const tx = await contract.revealTraits(tokenId);
+    const receipt = await tx.wait();
+
+    if (!receipt) {
+      throw new Error('Transaction receipt not received');
+    }
+
+    return {
+      success: true,
+      data: {
+        hash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        tokenId,
+        gasUsed: receipt.gasUsed?.toString()
       }
     };
   } catch (error) {
+    console.error('RevealTraits error:', error);
+
+    const err = error as { message?: string; reason?: string } | null;
+    let errorMessage = 'Reveal traits failed';
+    const artErrorMessage = getArtErrorMessage(contract, error);
+
+    if (artErrorMessage) {
+      errorMessage = artErrorMessage;
+    } else if (err?.message?.includes('user rejected')) {
+      errorMessage = 'Transaction was rejected by user';
+    } else if (err?.reason) {
+      errorMessage = `Reveal traits failed: ${err.reason}`;
+    } else if (err?.message) {
+      errorMessage = `Reveal traits failed: ${err.message}`;
+    }
+
+    return { success: false, error: errorMessage };
+  }
+};
+
+export const finalizeArt = async (
+  contract: ColourMeNFT,
+  tokenId: number
+): Promise<ConnectionResult> => {
+  try {
+    console.log('🔒 Finalizing art for token:', tokenId);
+    const tx = await contract.finalizeArt(tokenId);
+    const receipt = await tx.wait();
+
+    if (!receipt) {
+      throw new Error('Transaction receipt not received');
+    }
+
     return {
-      svg: '',
-      result: { success: false, error: `Get token SVG failed: ${error}` }
+      success: true,
+      data: {
+        hash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        tokenId,
+        gasUsed: receipt.gasUsed?.toString()
+      }
+    };
+  } catch (error) {
+    console.error('FinalizeArt error:', error);
+
+    const err = error as { message?: string; reason?: string } | null;
+    let errorMessage = 'Finalize art failed';
+    const artErrorMessage = getArtErrorMessage(contract, error);
+
+    if (artErrorMessage) {
+      errorMessage = artErrorMessage;
+    } else if (err?.message?.includes('user rejected')) {
+      errorMessage = 'Transaction was rejected by user';
+    } else if (err?.reason) {
+      errorMessage = `Finalize art failed: ${err.reason}`;
+    } else if (err?.message) {
+      errorMessage = `Finalize art failed: ${err.message}`;
+    }
+
+    return { success: false, error: errorMessage };
+  }
+};
+
+// Block the token was finalized in, 0 while the canvas is still open
+export const getFinalizedBlock = async (
+  contract: ColourMeNFT,
+  tokenId: number
+): Promise<{ blockNumber: number; result: ConnectionResult }> => {
+  try {
+    const blockNumber = Number(await contract.finalizedAt(tokenId));
+    return {
+      blockNumber,
+      result: { success: true, data: { tokenId, blockNumber } }
+    };
+  } catch (error) {
+    return {
+      blockNumber: 0,
+      result: { success: false, error: `Get finalized block failed: ${error}` }
+    };
+  }
+};
+
+// Public RPCs reject or truncate eth_getLogs over long ranges, so history is read in windows of this many blocks
+const LOG_QUERY_WINDOW = 10_000;
+
+// Every matching event since the contract was deployed, oldest first
+const queryEventsSinceDeploy = async <TCEvent extends TypedContractEvent>(
+  contract: ColourMeNFT,
+  filter: TypedDeferredTopicFilter<TCEvent>
+): Promise<TypedEventLog<TCEvent>[]> => {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error('Contract has no provider to read events from');
+  const latestBlock = await provider.getBlockNumber();
+  const events: TypedEventLog<TCEvent>[] = [];
+  for (let fromBlock = dappConfig.contracts.ColourMeNFT.deployedBlock; fromBlock <= latestBlock; fromBlock += LOG_QUERY_WINDOW) {
+    const toBlock = Math.min(fromBlock + LOG_QUERY_WINDOW - 1, latestBlock);
+    events.push(...await contract.queryFilter(filter, fromBlock, toBlock));
+  }
+  return events;
+};
+
+// Finalization is permanent, so every ArtFinalized event is still current
+export const getFinalizedTokens = async (
+  contract: ColourMeNFT
+): Promise<{ tokenIds: Set<number>; result: ConnectionResult }> => {
+  try {
+    const events = await queryEventsSinceDeploy(contract, contract.filters.ArtFinalized());
+    const tokenIds = new Set(events.map(event => Number(event.args.tokenId)));
+    return {
+      tokenIds,
+      result: { success: true, data: { count: tokenIds.size } }
+    };
+  } catch (error) {
+    return {
+      tokenIds: new Set(),
+      result: { success: false, error: `Get finalized tokens failed: ${error}` }
+    };
+  }
+};
+
+// Themes
+export interface ThemeInfo {
+  id: number; // 0 is the default renderer
+  name: string;
+  renderer: string;
+}
+
+// The default renderer plus every theme the owner has curated, retired themes are left out
+export const getThemes = async (
+  contract: ColourMeNFT
+): Promise<{ themes: ThemeInfo[]; result: ConnectionResult }> => {
+  try {
+    const themeCount = Number(await contract.themeCount());
+    const renderers = await Promise.all([
+      contract.renderer(),
+      ...Array.from({ length: themeCount }, (_, i) => contract.themes(i + 1))
+    ]);
+
+    const themes = await Promise.all(renderers.map(async (renderer, id) => {
+      if (renderer === ethers.ZeroAddress) return null;
+      // renderers deployed before themes existed have no name
+      const name = await ColourMeRenderer__factory.connect(renderer, contract.runner)
+        .themeName()
+        .catch(() => (id === 0 ? 'Classic' : `Theme ${id}`));
+      return { id, name, renderer };
+    }));
+
+    const available = themes.filter((theme): theme is ThemeInfo => theme !== null);
+    return {
+      themes: available,
+      result: { success: true, data: { count: available.length } }
+    };
+  } catch (error) {
+    return {
+      themes: [],
+      result: { success: false, error: `Get themes failed: ${error}` }
+    };
+  }
+};
+
+export const getTokenTheme = async (
+  contract: ColourMeNFT,
+  tokenId: number
+): Promise<{ themeId: number; result: ConnectionResult }> => {
+  try {
+    const themeId = Number(await contract.tokenTheme(tokenId));
+    return {
+      themeId,
+      result: { success: true, data: { tokenId, themeId } }
+    };
+  } catch (error) {
+    return {
+      themeId: 0,
+      result: { success: false, error: `Get token theme failed: ${error}` }
+    };
+  }
+};
+
+export const setTokenTheme = async (
+  contract: ColourMeNFT,
+  tokenId: number,
+  themeId: number
+): Promise<ConnectionResult> => {
+  try {
+    console.log('🎨 Setting theme for token:', { tokenId, themeId });
+    const tx = await contract.setTokenTheme(tokenId, themeId);
+    const receipt = await tx.wait();
+
+    if (!receipt) {
+      throw new Error('Transaction receipt not received');
+    }
+
+    return {
+      success: true,
+      data: {
+        hash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        tokenId,
+        themeId,
+        gasUsed: receipt.gasUsed?.toString()
+      }
+    };
+  } catch (error) {
+    console.error('SetTokenTheme error:', error);
+
+    const err = error as { message?: string; reason?: string } | null;
+    let errorMessage = 'Set theme failed';
+    const artErrorMessage = getArtErrorMessage(contract, error);
+
+    if (artErrorMessage) {
+      errorMessage = artErrorMessage;
+    } else if (err?.message?.includes('user rejected')) {
+      errorMessage = 'Transaction was rejected by user';
+    } else if (err?.reason) {
+      errorMessage = `Set theme failed: ${err.reason}`;
+    } else if (err?.message) {
+      errorMessage = `Set theme failed: ${err.message}`;
+    }
+
+    return { success: false, error: errorMessage };
+  }
+};
+
+// Collaborators
+export const NO_EXPIRY = 2n ** 64n - 1n; // type(uint64).max, grant never expires
+
+export interface CollaboratorInfo {
+  address: string;
+  expiry: bigint; // unix seconds, NO_EXPIRY for none
+  maxObjects: number; // 0 = unlimited
+  objectsAdded: number;
+  active: boolean;
+}
+
+// Collaborators can't be enumerated on-chain, so collect them from CollaboratorSet events
+export const getCollaborators = async (
+  contract: ColourMeNFT,
+  tokenId: number
+): Promise<{ collaborators: CollaboratorInfo[]; result: ConnectionResult }> => {
+  try {
+    const events = await queryEventsSinceDeploy(contract, contract.filters.CollaboratorSet(tokenId));
+    const addresses = [...new Set(events.map(event => event.args.collaborator))];
+
+    const collaborators: CollaboratorInfo[] = [];
+    for (const address of addresses) {
+      const [grant, active] = await Promise.all([
+        contract.collaborators(tokenId, address),
+        contract.isCollaborator(tokenId, address)
+      ]);
+      if (grant.expiry === 0n) continue; // revoked
+      collaborators.push({
+        address,
+        expiry: grant.expiry,
+        maxObjects: Number(grant.maxObjects),
+        objectsAdded: Number(grant.objectsAdded),
+        active
+      });
+    }
+
+    return {
+      collaborators,
+      result: { success: true, data: { tokenId, count: collaborators.length } }
+    };
+  } catch (error) {
+    return {
+      collaborators: [],
+      result: { success: false, error: `Get collaborators failed: ${error}` }
+    };
+  }
+};
+
+// Shared by setCollaborator and revokeCollaborator, the contract treats expiry 0 as a revoke
+const writeCollaborator = async (
+  contract: ColourMeNFT,
+  tokenId: number,
+  collaborator: string,
+  expiry: bigint,
+  maxObjects: number
+): Promise<ConnectionResult> => {
+  try {
+    if (!ethers.isAddress(collaborator)) {
+      return { success: false, error: 'Invalid collaborator address' };
+    }
+
+    console.log('🤝 Setting collaborator:', { tokenId, collaborator, expiry: expiry.toString(), maxObjects });
+    const tx = await contract.setCollaborator(tokenId, collaborator, expiry, maxObjects);
+    const receipt = await tx.wait();
+
+    if (!receipt) {
+      throw new Error('Transaction receipt not received');
+    }
+
+    return {
+      success: true,
+      data: {
+        hash: receipt.hash,
+        blockNumber: receipt.blockNumber,
+        tokenId,
+        collaborator,
+        gasUsed: receipt.gasUsed?.toString()
+      }
+    };
+  } catch (error) {
+    console.error('SetCollaborator error:', error);
+
+    const err = error as { message?: string; reason?: string } | null;
+    let errorMessage = 'Share canvas failed';
+    const artErrorMessage = getArtErrorMessage(contract, error);
+
+    if (artErrorMessage) {
+      errorMessage = artErrorMessage;
+    } else if (err?.message?.includes('user rejected')) {
+      errorMessage = 'Transaction was rejected by user';
+    } else if (err?.reason) {
+      errorMessage = `Share canvas failed: ${err.reason}`;
+    } else if (err?.message) {
+      errorMessage = `Share canvas failed: ${err.message}`;
+    }
+
+    return { success: false, error: errorMessage };
+  }
+};
+
+// Grants append access until expiry (unix seconds), pass NO_EXPIRY for a grant that never expires.
+// Expiry 0 would revoke on-chain, so it's refused here and revoking goes through revokeCollaborator
+export const setCollaborator = async (
+  contract: ColourMeNFT,
+  tokenId: number,
+  collaborator: string,
+  expiry: bigint,
+  maxObjects: number
+): Promise<ConnectionResult> => {
+  if (expiry === 0n) {
+    return { success: false, error: 'Expiry 0 revokes the grant, use NO_EXPIRY for a grant that never expires' };
+  }
+  return writeCollaborator(contract, tokenId, collaborator, expiry, maxObjects);
+};
+
+// Revoking is a grant with expiry 0
+export const revokeCollaborator = async (
+  contract: ColourMeNFT,
+  tokenId: number,
+  collaborator: string
+): Promise<ConnectionResult> => {
+  return writeCollaborator(contract, tokenId, collaborator, 0n, 0);
+};
+
+// Contract Read Methods
+export const getTokenURI = async (
+  contract: ColourMeNFT,
+  tokenId: number
+): Promise<{ uri: string; result: ConnectionResult }> => {
+  try {
+    const uri = await contract.tokenURI(tokenId);
+    return {
+      uri,
+      result: {
+        success: true,
+        data: { tokenId, uri }
+      }
+    };
+  } catch (error) {
+    return {
+      uri: '',
+      result: { success: false, error: `Get token URI failed: ${error}` }
+    };
+  }
+};
+
+export interface TokenAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: string;
+}
+
+// Attributes straight from the on-chain tokenURI JSON, mint traits first then the art stats
+export const getTokenAttributes = async (
+  contract: ColourMeNFT,
+  tokenId: number
+): Promise<{ attributes: TokenAttribute[]; result: ConnectionResult }> => {
+  const { uri, result } = await getTokenURI(contract, tokenId);
+  if (!result.success) {
+    return { attributes: [], result };
+  }
+  try {
+    const attributes: TokenAttribute[] = JSON.parse(uri).attributes || [];
+    return {
+      attributes,
+      result: { success: true, data: { tokenId, count: attributes.length } }
+    };
+  } catch (error) {
+    return {
+      attributes: [],
+      result: { success: false, error: `Parse token attributes failed: ${error}` }
+    };
+  }
+};
+
+// Only the traits rolled at mint count towards rarity, the art stats change every save
+const traitKeys = (trait: Awaited<ReturnType<ColourMeNFT['traits']>>): string[] => [
+  trait.color0, trait.color1, trait.color2, trait.color3, trait.color4,
+  trait.shape0.toString(), trait.shape1.toString(), trait.polygon.toString()
+];
+
+// Rarity score is the sum of revealed / (tokens sharing that trait) over the token's mint traits,
+// so a token with only common traits scores 8 and rarer traits push it higher.
+// Unrevealed tokens have no traits yet, they score 0 and don't count towards anyone else's score
+export const getRarityScore = async (
+  contract: ColourMeNFT,
+  tokenId: number,
+  batchSize: number = 50
+): Promise<{ score: number; result: ConnectionResult }> => {
+  try {
+    const tokenCount = Number(await contract.tokenCount());
+    if (tokenId < 1 || tokenId > tokenCount) throw new Error(`Token ${tokenId} has not been minted`);
+
+    const allTraits: (string[] | null)[] = [];
+    for (let start = 1; start <= tokenCount; start += batchSize) {
+      const ids = Array.from({ length: Math.min(batchSize, tokenCount - start + 1) }, (_, i) => start + i);
+      const batch = await Promise.all(ids.map(id => contract.traits(id)));
+      // a revealed polygon always has at least 3 sides
+      allTraits.push(...batch.map(trait => trait.polygon === 0n ? null : traitKeys(trait)));
+    }
+
+    const revealed = allTraits.filter((traits): traits is string[] => traits !== null);
+    const own = allTraits[tokenId - 1];
+    const score = own ? own.reduce((total, key, index) => {
+      const sharing = revealed.filter(traits => traits[index] === key).length;
+      return total + revealed.length / sharing;
+    }, 0) : 0;
+    return {
+      score,
+      result: { success: true, data: { tokenId, score, tokenCount, revealed: revealed.length } }
+    };
+  } catch (error) {
+    return {
+      score: 0,
+      result: { success: false, error: `Get rarity score failed: ${error}` }
+    };
+  }
+};
+
+export const getTokenSVG = async (
+  contract: ColourMeNFT,
+  tokenId: number
+): Promise<{ svg: string; result: ConnectionResult }> => {
+  try {
+    const svg = await contract.tokenSVG(tokenId);
+    return {
+      svg,
+      result: {
+        success: true,
+        data: { tokenId, svgLength: svg.length }
+      }
+    };
+  } catch (error) {
+    // Big canvases can blow the RPC gas cap in one call, render them in pages instead
+    console.warn(`⚠️ tokenSVG(${tokenId}) failed, falling back to paged rendering:`, error);
+    const paged = await getTokenSVGPaged(contract, tokenId);
+    if (paged.result.success) return paged;
+    return {
+      svg: '',
+      result: { success: false, error: `Get token SVG failed: ${error}` }
+    };
+  }
+};
+
+// Renders the art a page of objects at a time and stitches it together the same way
+// ColourMeNFT._renderSVG does, so each eth_call stays under the RPC gas cap
+export const getTokenSVGPaged = async (
+  contract: ColourMeNFT,
+  tokenId: number,
+  pageSize: number = 50
+): Promise<{ svg: string; result: ConnectionResult }> => {
+  try {
+    const [svgStart, traitSVG, svgEnd, artLength] = await Promise.all([
+      contract.svgStart(),
+      contract.traitSVG(tokenId),
+      contract.svgEnd(),
+      contract.artLength(tokenId)
+    ]);
+
+    const length = Number(artLength);
+    const pages: string[] = [];
+    for (let start = 0; start < length; start += pageSize) {
+      pages.push(await contract.renderObjectsRange(tokenId, start, pageSize));
+    }
+    console.log(`📄 Rendered token ${tokenId} in ${pages.length} pages of ${pageSize}`);
+
+    const svg = ethers.toUtf8String(svgStart) +
+      ethers.toUtf8String(traitSVG) +
+      `<g id="drawing-area" clip-path="url(#canvas-clip)" data-token="${tokenId}">` +
+      pages.join('') +
+      '</g>' +
+      ethers.toUtf8String(svgEnd);
+
+    return {
+      svg,
+      result: {
+        success: true,
+        data: { tokenId, svgLength: svg.length, pages: pages.length }
+      }
+    };
+  } catch (error) {
+    return {
+      svg: '',
+      result: { success: false, error: `Get paged token SVG failed: ${error}` }
+    };
+  }
+};
+
+// The current art as stored, read a page at a time
+export const getTokenArt = async (
+  contract: ColourMeNFT,
+  tokenId: number,
+  pageSize: number = 50
+): Promise<{ art: PackedContractObject[]; result: ConnectionResult }> => {
+  try {
+    const length = Number(await contract.artLength(tokenId));
+    const art: PackedContractObject[] = [];
+    for (let start = 0; start < length; start += pageSize) {
+      const page = await contract.getArt(tokenId, start, pageSize);
+      art.push(...page.map(object => ({
+        base: object.base,
+        additionalPoints: ethers.getBytes(object.additionalPoints)
+      })));
+    }
+    return {
+      art,
+      result: { success: true, data: { tokenId, length } }
+    };
+  } catch (error) {
+    return {
+      art: [],
+      result: { success: false, error: `Get token art failed: ${error}` }
+    };
+  }
+};
+
+// Everything a local render needs, kept until the token changes on-chain.
+// Themed tokens are marked so they keep rendering through the contract
+interface CachedToken {
+  themed: boolean;
+  traitSVG: string;
+  art: PackedContractObject[];
+}
+const tokenCache = new Map<number, CachedToken>();
+// classic is whether the default renderer runs the code renderer.ts ports, anything else renders on-chain
+let templateCache: { address: string; svgStart: string; svgEnd: string; classic: boolean } | null = null;
+
+// Call after a save, reveal or theme change so the next preview reads the token again.
+// Returns whether there was anything cached to drop
+export const clearTokenCache = (tokenId?: number): boolean => {
+  if (tokenId === undefined) {
+    tokenCache.clear();
+    templateCache = null;
+    return true;
+  }
+  return tokenCache.delete(tokenId);
+};
+
+// Keeps the cache in step with changes made by anyone else: collaborators painting, reveals,
+// theme picks and the owner swapping the template or renderers. onChange gets the token that
+// changed, or nothing when every token did. Returns the cleanup
+export const watchTokenCache = (
+  contract: ColourMeNFT,
+  onChange: (tokenId?: number) => void
+): (() => void) => {
+  // a save emits both ArtSaved and MetadataUpdate, only the first finds the token cached
+  const tokenListener = (tokenId: bigint) => {
+    if (clearTokenCache(Number(tokenId))) onChange(Number(tokenId));
+  };
+  const allListener = () => {
+    clearTokenCache();
+    onChange();
+  };
+
+  const tokenFilters = [contract.filters.ArtSaved(), contract.filters.MetadataUpdate()];
+  // setSVG only emits BatchMetadataUpdate, the rest name what changed
+  const allFilters = [
+    contract.filters.BatchMetadataUpdate(),
+    contract.filters.RendererUpdated(),
+    contract.filters.ThemeUpdated(),
+    contract.filters.CanvasUpdated()
+  ];
+  tokenFilters.forEach(filter => contract.on(filter, tokenListener));
+  allFilters.forEach(filter => contract.on(filter, allListener));
+  return () => {
+    tokenFilters.forEach(filter => contract.off(filter, tokenListener));
+    allFilters.forEach(filter => contract.off(filter, allListener));
+  };
+};
+
+// The default renderer can be swapped for one renderer.ts doesn't match. ColourMeRenderer has no
+// constructor, so its deployed code sits unchanged inside the creation bytecode this build ships
+const isClassicRenderer = async (contract: ColourMeNFT): Promise<boolean> => {
+  const provider = contract.runner?.provider;
+  if (!provider) return false;
+  const code = await provider.getCode(await contract.renderer());
+  return code !== '0x' && ColourMeRenderer__factory.bytecode.includes(code.slice(2));
+};
+
+// Same SVG as tokenSVG, rendered in the browser from cached art so previews skip the eth_call
+export const getTokenSVGLocal = async (
+  contract: ColourMeNFT,
+  tokenId: number
+): Promise<{ svg: string; result: ConnectionResult }> => {
+  try {
+    const address = await contract.getAddress();
+    if (templateCache?.address !== address) {
+      const [svgStart, svgEnd, classic] = await Promise.all([contract.svgStart(), contract.svgEnd(), isClassicRenderer(contract)]);
+      templateCache = { address, svgStart: ethers.toUtf8String(svgStart), svgEnd: ethers.toUtf8String(svgEnd), classic };
+    }
+    if (!templateCache.classic) return getTokenSVG(contract, tokenId);
+
+    let cached = tokenCache.get(tokenId);
+    if (!cached) {
+      const [themeId, traitSVG, { art, result }] = await Promise.all([
+        contract.tokenTheme(tokenId),
+        contract.traitSVG(tokenId),
+        getTokenArt(contract, tokenId)
+      ]);
+      if (!result.success) throw new Error(result.error);
+      cached = { themed: themeId !== 0n, traitSVG: ethers.toUtf8String(traitSVG), art };
+      tokenCache.set(tokenId, cached);
+    }
+    if (cached.themed) return getTokenSVG(contract, tokenId);
+
+    const svg = renderTokenSVG(templateCache.svgStart, cached.traitSVG, cached.art, templateCache.svgEnd, tokenId);
+    return {
+      svg,
+      result: {
+        success: true,
+        data: { tokenId, svgLength: svg.length, local: true }
+      }
+    };
+  } catch (error) {
+    console.warn(`⚠️ Local render of token ${tokenId} failed, falling back to tokenSVG:`, error);
+    return getTokenSVG(contract, tokenId);
+  }
+};
+
+// Timelapse of the art, each object appears msPerObject after the one before it
+export const getTokenSVGAnimated = async (
+  contract: ColourMeNFT,
+  tokenId: number,
+  msPerObject: number = 200
+): Promise<{ svg: string; result: ConnectionResult }> => {
+  try {
+    const svg = await contract.tokenSVGAnimated(tokenId, msPerObject);
+    return {
+      svg,
+      result: {
+        success: true,
+        data: { tokenId, msPerObject, svgLength: svg.length }
+      }
+    };
+  } catch (error) {
+    return {
+      svg: '',
+      result: { success: false, error: `Get animated token SVG failed: ${error}` }
+    };
+  }
+};
+
+export const getArtVersionCount = async (
+  contract: ColourMeNFT,
+  tokenId: number
+): Promise<{ count: number; result: ConnectionResult }> => {
+  try {
+    const count = Number(await contract.artVersionCount(tokenId));
+    return {
+      count,
+      result: { success: true, data: { tokenId, count } }
+    };
+  } catch (error) {
+    return {
+      count: 0,
+      result: { success: false, error: `Get art version count failed: ${error}` }
+    };
+  }
+};
+
+// Versions are 0-based, the last one is what tokenSVG renders
+export const getTokenSVGAtVersion = async (
+  contract: ColourMeNFT,
+  tokenId: number,
+  version: number
+): Promise<{ svg: string; result: ConnectionResult }> => {
+  try {
+    const svg = await contract.tokenSVGAtVersion(tokenId, version);
+    return {
+      svg,
+      result: {
+        success: true,
+        data: { tokenId, version, svgLength: svg.length }
+      }
+    };
+  } catch (error) {
+    return {
+      svg: '',
+      result: { success: false, error: `Get token SVG at version failed: ${error}` }
     };
   }
 };
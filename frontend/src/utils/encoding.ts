@@ -7,10 +7,11 @@ export interface Point {
 }
 
 export interface ObjectStruct {
-  shape: number; // Path enum: 0=rect, 1=line, 2=ellipse, 3=polyline, 4=polygon, 5=path
+  shape: number; // Path enum: 0=rect, 1=line, 2=ellipse, 3=polyline, 4=polygon, 5=path, 6=curve
   color: string; // hex color as bytes3
   stroke: number; // uint8
   points: Point[];
+  opacity?: number; // uint8, 255 (default) = opaque
 }
 
 export interface PackedObject {
@@ -18,6 +19,16 @@ export interface PackedObject {
   additionalPoints: Uint8Array; // bytes
 }
 
+// Drawing region of the SVG template, ColourMeNFT.canvas() on-chain
+export interface CanvasRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_CANVAS: CanvasRect = { x: 10, y: 90, width: 980, height: 900 };
+
 // Helper function to convert hex color to bytes3
 export function hexToBytes3(hex: string): string {
   if (hex.startsWith('#')) {
@@ -40,6 +51,11 @@ function int16ToUint16(value: number): number {
   return value < 0 ? 65536 + value : value;
 }
 
+// Inverse of int16ToUint16, the int16(uint16(...)) cast the contract decoder does
+function uint16ToInt16(value: number): number {
+  return value >= 32768 ? value - 65536 : value;
+}
+
 // Convert color string to number for encoding
 export function colorToNumber(color: string): number {
   // Handle both formats: "#FF0000" or "0xFF0000"
@@ -59,7 +75,8 @@ export function colorToNumber(color: string): number {
 // 3. bits 27-34: stroke (8 bits)
 // 4. bits 35-50: pointsLength (16 bits)
 // 5. bits 51-242: points (192 bits) // 6 points max
-// 6. bits 243-255: unused (12 bits)
+// 6. bits 243-250: transparency (8 bits) // 255 - opacity, so opaque objects leave it 0
+// 7. bits 251-255: unused (5 bits)
 export function encodeObject(obj: ObjectStruct): PackedObject {
   let encoded = 0n;
   
@@ -95,6 +112,9 @@ export function encodeObject(obj: ObjectStruct): PackedObject {
     encoded |= BigInt(y_uint16 & 0xFFFF) << (pointStartBit + 16n);
   }
   
+  // 6. Transparency in bits 243-250 (8 bits)
+  encoded |= BigInt((255 - (obj.opacity ?? 255)) & 0xFF) << 243n;
+  
   // Encode additional points as bytes (4 bytes per point: x_high, x_low, y_high, y_low)
   const additionalBytes = new Uint8Array(additionalPoints.length * 4);
   for (let i = 0; i < additionalPoints.length; i++) {
@@ -123,6 +143,264 @@ export function encodeObjects(objects: ObjectStruct[]): PackedObject[] {
   return objects.map(encodeObject);
 }
 
+// Decode a PackedObject back to an ObjectStruct, the inverse of encodeObject.
+// Points follow getObjectPoints in types.sol: pointsLength points, the first 6 from the base,
+// the rest from additionalPoints, and any the bytes run out for are left at (0, 0)
+export function decodeObject(packed: PackedObject): ObjectStruct {
+  const { base, additionalPoints } = packed;
+
+  const shape = Number(base & 0x7n);
+  if (shape > 6) {
+    throw new Error(`Invalid shape ${shape}`);
+  }
+  const color = '0x' + ((base >> 3n) & 0xFFFFFFn).toString(16).padStart(6, '0');
+  const stroke = Number((base >> 27n) & 0xFFn);
+  const pointsLength = Number((base >> 35n) & 0xFFFFn);
+  const opacity = 255 - Number((base >> 243n) & 0xFFn);
+
+  const points: Point[] = Array.from({ length: pointsLength }, () => ({ x: 0, y: 0 }));
+  for (let i = 0; i < 6 && i < pointsLength; i++) {
+    const pointStartBit = 51n + BigInt(i * 32);
+    points[i] = {
+      x: uint16ToInt16(Number((base >> pointStartBit) & 0xFFFFn)),
+      y: uint16ToInt16(Number((base >> (pointStartBit + 16n)) & 0xFFFFn))
+    };
+  }
+  for (let i = 0; i + 3 < additionalPoints.length && 6 + i / 4 < pointsLength; i += 4) {
+    points[6 + i / 4] = {
+      x: uint16ToInt16((additionalPoints[i] << 8) | additionalPoints[i + 1]),
+      y: uint16ToInt16((additionalPoints[i + 2] << 8) | additionalPoints[i + 3])
+    };
+  }
+
+  // opaque objects leave opacity out, the same as they're usually built
+  return opacity === 255
+    ? { shape, color, stroke, points }
+    : { shape, color, stroke, points, opacity };
+}
+
+// Decode multiple objects
+export function decodeObjects(packed: PackedObject[]): ObjectStruct[] {
+  return packed.map(decodeObject);
+}
+
+// Curve fitting for freehand strokes
+// A curve (shape 6) is a start point followed by cubic segments [control1, control2, end],
+// the same layout ColourMeRenderer turns into " C" commands
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function cubicAt(p0: Point, c1: Point, c2: Point, p1: Point, t: number): Point {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * p1.x,
+    y: u * u * u * p0.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * p1.y
+  };
+}
+
+// Unit tangent at points[index], taken from its neighbours so joined segments stay smooth
+function tangentAt(points: Point[], index: number): Point {
+  const before = points[Math.max(0, index - 1)];
+  const after = points[Math.min(points.length - 1, index + 1)];
+  const length = distance(before, after) || 1;
+  return { x: (after.x - before.x) / length, y: (after.y - before.y) / length };
+}
+
+// Fits a dense freehand stroke with as few cubic segments as keep every
+// original point within `tolerance` pixels of the curve
+export function fitCurve(points: Point[], tolerance: number = 2): Point[] {
+  // drop repeated points, mouse move events often report the same position
+  const stroke = points.filter((point, i) => i === 0 || distance(point, points[i - 1]) > 0);
+  if (stroke.length < 2) return stroke;
+
+  // cumulative arc length, used to place each original point along its segment
+  const arc = [0];
+  for (let i = 1; i < stroke.length; i++) {
+    arc.push(arc[i - 1] + distance(stroke[i - 1], stroke[i]));
+  }
+
+  const segment = (start: number, end: number): [Point, Point] => {
+    const handle = distance(stroke[start], stroke[end]) / 3;
+    const t0 = tangentAt(stroke, start);
+    const t1 = tangentAt(stroke, end);
+    return [
+      { x: stroke[start].x + t0.x * handle, y: stroke[start].y + t0.y * handle },
+      { x: stroke[end].x - t1.x * handle, y: stroke[end].y - t1.y * handle }
+    ];
+  };
+
+  // split at the worst fitting point until every segment is within tolerance
+  const keys = [0, stroke.length - 1];
+  const split = (start: number, end: number) => {
+    if (end - start < 2) return;
+    const [c1, c2] = segment(start, end);
+    let worst = -1;
+    let worstError = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const t = (arc[i] - arc[start]) / ((arc[end] - arc[start]) || 1);
+      const error = distance(cubicAt(stroke[start], c1, c2, stroke[end], t), stroke[i]);
+      if (error > worstError) {
+        worst = i;
+        worstError = error;
+      }
+    }
+    if (worst === -1) return;
+    keys.push(worst);
+    split(start, worst);
+    split(worst, end);
+  };
+  split(0, stroke.length - 1);
+  keys.sort((a, b) => a - b);
+
+  const round = (point: Point): Point => ({ x: Math.round(point.x), y: Math.round(point.y) });
+  const fitted: Point[] = [round(stroke[0])];
+  for (let k = 1; k < keys.length; k++) {
+    const [c1, c2] = segment(keys[k - 1], keys[k]);
+    fitted.push(round(c1), round(c2), round(stroke[keys[k]]));
+  }
+  return fitted;
+}
+
+// Swaps a freehand path for a fitted curve when the curve needs fewer points
+export function strokeToCurve(obj: ObjectStruct, tolerance: number = 2): ObjectStruct {
+  if (obj.shape !== 5) return obj;
+  const points = fitCurve(obj.points, tolerance);
+  if (points.length < 4 || points.length >= obj.points.length) return obj;
+  return { ...obj, shape: 6, points };
+}
+
+// Distance from a point to the segment a-b
+function segmentDistance(point: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return distance(point, a);
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return distance(point, { x: a.x + t * dx, y: a.y + t * dy });
+}
+
+// Drops points that repeat the one before them
+export function removeDuplicatePoints(points: Point[]): Point[] {
+  return points.filter((point, i) => i === 0 || point.x !== points[i - 1].x || point.y !== points[i - 1].y);
+}
+
+// Drops points that sit exactly on the straight run between their neighbours,
+// a point where the stroke doubles back is kept even though it's collinear
+export function mergeCollinearPoints(points: Point[]): Point[] {
+  if (points.length < 3) return points;
+  const merged = [points[0]];
+  for (let i = 1; i < points.length - 1; i++) {
+    const a = merged[merged.length - 1];
+    const b = points[i];
+    const c = points[i + 1];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    const forward = (b.x - a.x) * (c.x - b.x) + (b.y - a.y) * (c.y - b.y) > 0;
+    if (cross !== 0 || !forward) merged.push(b);
+  }
+  merged.push(points[points.length - 1]);
+  return merged;
+}
+
+// Ramer-Douglas-Peucker, keeps the fewest points that leave every dropped one within `tolerance` pixels
+export function simplifyPoints(points: Point[], tolerance: number): Point[] {
+  if (points.length < 3 || tolerance <= 0) return points;
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+
+  // iterative so long strokes can't overflow the stack
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let worst = -1;
+    let worstDistance = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const d = segmentDistance(points[i], points[start], points[end]);
+      if (d > worstDistance) {
+        worst = i;
+        worstDistance = d;
+      }
+    }
+    if (worst === -1) continue;
+    keep[worst] = true;
+    stack.push([start, worst], [worst, end]);
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+// Bytes an object takes in storage and calldata, the base uint256 plus 4 bytes per point past six
+export function getPackedSize(obj: ObjectStruct): number {
+  return 32 + Math.max(0, obj.points.length - 6) * 4;
+}
+
+// Gas to store an object's additionalPoints: calldata at 16 per byte, a new slot per 32 bytes
+// and a length slot once the bytes no longer fit inline. The base uint256 costs the same either way.
+function estimateAdditionalPointsGas(obj: ObjectStruct): number {
+  const bytes = Math.max(0, obj.points.length - 6) * 4;
+  if (bytes === 0) return 0;
+  const slots = bytes < 32 ? 1 : 1 + Math.ceil(bytes / 32);
+  return bytes * 16 + slots * 20000;
+}
+
+export interface OptimizationReport {
+  objects: number;
+  optimizedObjects: number; // objects that lost at least one point
+  pointsBefore: number;
+  pointsAfter: number;
+  bytesBefore: number;
+  bytesAfter: number;
+  bytesSaved: number;
+  gasSaved: number; // rough, storage writes dominate
+  maxError: number; // furthest any original point now is from the stroke, in pixels
+  meanError: number; // average over every original point of the optimized objects
+}
+
+// Dedupe, collinear merge and RDP on freehand strokes (paths and polylines). Other shapes
+// either have a fixed point count or treat points as curve controls, so they pass through unchanged.
+export function optimizeObjects(objects: ObjectStruct[], tolerance: number = 1): {
+  objects: ObjectStruct[];
+  report: OptimizationReport;
+} {
+  const report: OptimizationReport = {
+    objects: objects.length, optimizedObjects: 0, pointsBefore: 0, pointsAfter: 0,
+    bytesBefore: 0, bytesAfter: 0, bytesSaved: 0, gasSaved: 0, maxError: 0, meanError: 0
+  };
+  let errorTotal = 0;
+  let errorPoints = 0;
+
+  const optimized = objects.map(obj => {
+    let result = obj;
+    if (obj.shape === 3 || obj.shape === 5) {
+      let points = simplifyPoints(mergeCollinearPoints(removeDuplicatePoints(obj.points)), tolerance);
+      // a stroke needs 2 points even if it was a single dot
+      if (points.length === 1) points = [points[0], points[0]];
+      if (points.length >= 2 && points.length < obj.points.length) {
+        result = { ...obj, points };
+        report.optimizedObjects++;
+        for (const point of obj.points) {
+          const error = points.slice(1).reduce(
+            (nearest, end, i) => Math.min(nearest, segmentDistance(point, points[i], end)), Infinity
+          );
+          report.maxError = Math.max(report.maxError, error);
+          errorTotal += error;
+          errorPoints++;
+        }
+      }
+    }
+    report.pointsBefore += obj.points.length;
+    report.pointsAfter += result.points.length;
+    report.bytesBefore += getPackedSize(obj);
+    report.bytesAfter += getPackedSize(result);
+    report.gasSaved += estimateAdditionalPointsGas(obj) - estimateAdditionalPointsGas(result);
+    return result;
+  });
+
+  report.bytesSaved = report.bytesBefore - report.bytesAfter;
+  report.meanError = errorPoints > 0 ? errorTotal / errorPoints : 0;
+  return { objects: optimized, report };
+}
+
 // Helper function to estimate packed size savings
 export function estimatePackedSizeReduction(objects: ObjectStruct[]): {
   unpackedSize: number;
@@ -161,7 +439,7 @@ export function getMaxEfficientPoints(): number {
 }
 
 // Helper function to validate object before encoding
-export function validateObjectForEncoding(obj: ObjectStruct): {
+export function validateObjectForEncoding(obj: ObjectStruct, canvas: CanvasRect = DEFAULT_CANVAS): {
   valid: boolean;
   errors: string[];
   warnings: string[];
@@ -170,8 +448,8 @@ export function validateObjectForEncoding(obj: ObjectStruct): {
   const warnings: string[] = [];
   
   // Validate shape
-  if (obj.shape < 0 || obj.shape > 5) {
-    errors.push(`Invalid shape: ${obj.shape}. Must be 0-5.`);
+  if (obj.shape < 0 || obj.shape > 6) {
+    errors.push(`Invalid shape: ${obj.shape}. Must be 0-6.`);
   }
   
   // Validate color
@@ -186,9 +464,14 @@ export function validateObjectForEncoding(obj: ObjectStruct): {
     errors.push(`Invalid stroke: ${obj.stroke}. Must be 0-255.`);
   }
   
+  // Validate opacity
+  if (obj.opacity !== undefined && (!Number.isInteger(obj.opacity) || obj.opacity < 0 || obj.opacity > 255)) {
+    errors.push(`Invalid opacity: ${obj.opacity}. Must be an integer 0-255.`);
+  }
+  
   // Validate stroke requirements
-  if ((obj.shape === 5 || obj.shape === 1 || obj.shape === 3) && obj.stroke === 0) {
-    errors.push(`Shape ${obj.shape} (path/line/polyline) requires stroke > 0.`);
+  if ((obj.shape === 5 || obj.shape === 6 || obj.shape === 1 || obj.shape === 3) && obj.stroke === 0) {
+    errors.push(`Shape ${obj.shape} (path/curve/line/polyline) requires stroke > 0.`);
   }
   
   // Validate points
@@ -209,6 +492,10 @@ export function validateObjectForEncoding(obj: ObjectStruct): {
     errors.push(`Shape ${obj.shape} (polyline/path) must have at least 2 points.`);
   }
   
+  if (obj.shape === 6 && (obj.points.length < 3 || (obj.points.length - 1) % 3 === 1)) {
+    errors.push(`Shape ${obj.shape} (curve) must have a start point followed by 3 point segments, the last may have 2.`);
+  }
+  
   // Validate coordinate ranges (int16: -32768 to 32767)
   for (const point of obj.points) {
     if (point.x < -32768 || point.x > 32767 || point.y < -32768 || point.y > 32767) {
@@ -216,6 +503,12 @@ export function validateObjectForEncoding(obj: ObjectStruct): {
     }
   }
   
+  // Canvas bounds, only meaningful once the points themselves are valid
+  if (errors.length === 0 && !isObjectOnCanvas(obj, canvas)) {
+    const { minX, minY, maxX, maxY } = getObjectBounds(obj);
+    errors.push(`Object spans (${minX}, ${minY}) to (${maxX}, ${maxY}), fully outside the canvas ${canvas.x},${canvas.y} to ${canvas.x + canvas.width},${canvas.y + canvas.height}.`);
+  }
+  
   // Warnings for efficiency
   if (obj.points.length > 6) {
     warnings.push(`Object has ${obj.points.length} points. Points beyond 6 use additional storage.`);
@@ -232,15 +525,132 @@ export function validateObjectForEncoding(obj: ObjectStruct): {
   };
 }
 
+// Mirrors getObjectBounds in types.sol: rects are a corner and size, ellipses a centre and radii,
+// everything else grows by half its stroke
+export function getObjectBounds(obj: ObjectStruct): { minX: number; minY: number; maxX: number; maxY: number } {
+  if (obj.shape === 0 || obj.shape === 2) {
+    const [{ x, y }, { x: w, y: h }] = obj.points;
+    if (obj.shape === 2) {
+      const rx = Math.abs(w);
+      const ry = Math.abs(h);
+      return { minX: x - rx, minY: y - ry, maxX: x + rx, maxY: y + ry };
+    }
+    return { minX: Math.min(x, x + w), minY: Math.min(y, y + h), maxX: Math.max(x, x + w), maxY: Math.max(y, y + h) };
+  }
+
+  const xs = obj.points.map(point => point.x);
+  const ys = obj.points.map(point => point.y);
+  const margin = Math.floor((obj.stroke + 1) / 2);
+  return {
+    minX: Math.min(...xs) - margin,
+    minY: Math.min(...ys) - margin,
+    maxX: Math.max(...xs) + margin,
+    maxY: Math.max(...ys) + margin
+  };
+}
+
+// The contract rejects objects that can't touch the canvas, they would be clipped away anyway
+export function isObjectOnCanvas(obj: ObjectStruct, canvas: CanvasRect = DEFAULT_CANVAS): boolean {
+  const { minX, minY, maxX, maxY } = getObjectBounds(obj);
+  return !(
+    maxX < canvas.x ||
+    maxY < canvas.y ||
+    minX > canvas.x + canvas.width ||
+    minY > canvas.y + canvas.height
+  );
+}
+
+// A token's traits, ColourMeNFT.traits(tokenId). Unrevealed tokens read back as all zeros.
+export interface TokenTrait {
+  color0: string; // bytes3
+  color1: string;
+  color2: string;
+  color3: string;
+  color4: string;
+  shape0: number; // Path enum
+  shape1: number;
+  polygon: number; // 3, 5 or 6 once revealed
+}
+
+// Same checks, in the same order, as ColourMeNFT._objectAllowed, so an object that passes here
+// won't revert the save. Runs on the object as the contract will decode it.
+export function validateObjectForToken(obj: ObjectStruct, trait: TokenTrait, canvas: CanvasRect = DEFAULT_CANVAS): {
+  valid: boolean;
+  errors: string[];
+} {
+  const invalid = (message: string) => ({ valid: false, errors: [message] });
+
+  // painting reveals the traits first, which ones aren't known until then
+  if (trait.polygon === 0) {
+    return invalid('Token traits are not revealed yet, reveal them before painting (TraitsNotRevealed).');
+  }
+
+  let decoded: ObjectStruct;
+  try {
+    decoded = decodeObject(encodeObject(obj));
+  } catch (e) {
+    return invalid(`Object can't be encoded: ${e instanceof Error ? e.message : e}`);
+  }
+  const { shape, color, stroke, points } = decoded;
+
+  const colors = [trait.color0, trait.color1, trait.color2, trait.color3, trait.color4]
+    .map(c => c.toLowerCase());
+  if (color !== '0x000000' && color !== '0xffffff' && !colors.includes(color)) {
+    return invalid(`Color ${color} is not one of the token's colours, black or white (InvalidColor).`);
+  }
+
+  let shapeAllowed = shape === trait.shape0 || shape === trait.shape1 || shape === 4 || shape === 5 || shape === 6;
+  // the bucket tool fills the whole canvas with a rect, even on tokens without rects
+  if (!shapeAllowed && shape === 0) {
+    // the contract reads the packed bits, points that were never set are (0, 0)
+    const [position, size] = [points[0] ?? { x: 0, y: 0 }, points[1] ?? { x: 0, y: 0 }];
+    shapeAllowed = position.x === canvas.x && position.y === canvas.y &&
+      size.x === canvas.width && size.y === canvas.height;
+  }
+  if (!shapeAllowed) {
+    return invalid(`Shape ${shape} is not allowed for this token (InvalidShape).`);
+  }
+
+  if (points.length < 2 || ((shape === 0 || shape === 1 || shape === 2) && points.length !== 2)) {
+    return invalid(`Shape ${shape} can't have ${points.length} points (InvalidPoints).`);
+  }
+  if (shape === 4 && points.length !== trait.polygon) {
+    return invalid(`Polygons on this token must have ${trait.polygon} points, found ${points.length} (InvalidPoints).`);
+  }
+  if (shape === 6 && (points.length < 3 || (points.length - 1) % 3 === 1)) {
+    return invalid(`Curve can't have ${points.length} points (InvalidPoints).`);
+  }
+
+  if (stroke === 0 && (shape === 1 || shape === 3 || shape === 5 || shape === 6)) {
+    return invalid(`Shape ${shape} (line/polyline/path/curve) requires stroke > 0 (InvalidStroke).`);
+  }
+
+  if (!isObjectOnCanvas(decoded, canvas)) {
+    const { minX, minY, maxX, maxY } = getObjectBounds(decoded);
+    return invalid(`Object spans (${minX}, ${minY}) to (${maxX}, ${maxY}), fully outside the canvas (OutOfCanvas).`);
+  }
+
+  return { valid: true, errors: [] };
+}
+
+// First object in a save the contract would reject, as "Object N: reason", or null if it all passes
+export function findInvalidObject(objects: ObjectStruct[], trait: TokenTrait, canvas: CanvasRect = DEFAULT_CANVAS): string | null {
+  for (let i = 0; i < objects.length; i++) {
+    const encoding = validateObjectForEncoding(objects[i], canvas);
+    if (!encoding.valid) return `Object ${i + 1}: ${encoding.errors[0]}`;
+    const token = validateObjectForToken(objects[i], trait, canvas);
+    if (!token.valid) return `Object ${i + 1}: ${token.errors[0]}`;
+  }
+  return null;
+}
+
 // Debug helper to decode and verify encoding
 export function debugEncoding(obj: ObjectStruct): {
   original: ObjectStruct;
   packed: PackedObject;
-  decoded: {
-    shape: number;
-    color: string;
-    stroke: number;
+  decoded: ObjectStruct & {
     pointsLength: number;
+    opacity: number;
   };
   encodingInfo: {
     basePointsCount: number;
@@ -251,11 +661,11 @@ export function debugEncoding(obj: ObjectStruct): {
   const packed = encodeObject(obj);
   
   // Decode for verification
+  const object = decodeObject(packed);
   const decoded = {
-    shape: Number(packed.base & 0x7n),
-    color: '0x' + Number((packed.base >> 3n) & 0xFFFFFFn).toString(16).padStart(6, '0'),
-    stroke: Number((packed.base >> 27n) & 0xFFn),
-    pointsLength: Number((packed.base >> 35n) & 0xFFFFn)
+    ...object,
+    pointsLength: object.points.length,
+    opacity: object.opacity ?? 255
   };
   
   const basePointsCount = Math.min(obj.points.length, 6);
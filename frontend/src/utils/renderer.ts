@@ -0,0 +1,137 @@
+// TypeScript port of ColourMeRenderer for previews without an eth_call
+// Output is byte for byte what renderPath/renderObjects return on-chain, quirks included,
+// so anything rendered here can stand in for tokenSVG. Themed tokens still need the contract.
+
+import {
+  decodeObject,
+  type CanvasRect,
+  type ObjectStruct,
+  type PackedObject,
+  type Point
+} from './encoding';
+
+// Same checks getBaseObject runs, the contract reverts where these throw
+function validateObject(obj: ObjectStruct): void {
+  const { shape, stroke } = obj;
+  const pointsLength = obj.points.length;
+  if ((shape === 1 || shape === 3 || shape === 5 || shape === 6) && stroke === 0) {
+    throw new Error(`InvalidStroke(${stroke})`);
+  }
+  if (
+    pointsLength < 2 ||
+    ((shape === 0 || shape === 1 || shape === 2) && pointsLength !== 2) ||
+    (shape === 4 && pointsLength !== 3 && pointsLength !== 5 && pointsLength !== 6) ||
+    (shape === 6 && (pointsLength < 3 || (pointsLength - 1) % 3 === 1))
+  ) {
+    throw new Error(`InvalidPoints(${pointsLength})`);
+  }
+}
+
+// toRGBString_ in types.sol, lowercase hex without the 0x
+function toRGBString(color: string): string {
+  return color.replace(/^(0x|#)/, '').toLowerCase().padStart(6, '0');
+}
+
+// Every point gets "x,y " so the list ends with a space, the same as _getPolyPoints
+function getPolyPoints(points: Point[]): string {
+  return points.map(point => `${point.x},${point.y} `).join('');
+}
+
+function getPathSegments(points: Point[]): string {
+  return points.slice(1).map(point => ` L${point.x} ${point.y}`).join('');
+}
+
+// " Cx1 y1 x2 y2 x y" per cubic segment, a last segment of 2 points is " Qx1 y1 x y"
+function getCurveSegments(points: Point[]): string {
+  let segments = '';
+  let i = 1;
+  while (i < points.length) {
+    const step = points.length - i === 2 ? 2 : 3;
+    segments += step === 3 ? ' C' : ' Q';
+    segments += points.slice(i, i + step).map(point => `${point.x} ${point.y}`).join(' ');
+    i += step;
+  }
+  return segments;
+}
+
+// Opaque objects get no attribute, the rest a rounded 3 decimal fraction
+function opacityAttribute(name: string, opacity: number): string {
+  if (opacity === 255) return '';
+  const thousandths = Math.floor((opacity * 1000 + 127) / 255);
+  return `" ${name}-opacity="0.${thousandths.toString().padStart(3, '0')}`;
+}
+
+export function renderPath(obj: ObjectStruct): string {
+  const color = toRGBString(obj.color);
+  const opacity = obj.opacity ?? 255;
+  const fillOpacity = opacityAttribute('fill', opacity);
+  const strokeOpacity = opacityAttribute('stroke', opacity);
+  const [p0, p1] = obj.points;
+
+  switch (obj.shape) {
+    case 0: // rect
+      return `<rect fill="#${color}${fillOpacity}" x="${p0.x}" y="${p0.y}" width="${p1.x}" height="${p1.y}"/>`;
+    case 2: // ellipse
+      return `<ellipse fill="#${color}${fillOpacity}" cx="${p0.x}" cy="${p0.y}" rx="${p1.x}" ry="${p1.y}"/>`;
+    case 1: // line
+      return `<line fill="none" stroke="#${color}${strokeOpacity}" stroke-width="${obj.stroke}" x1="${p0.x}" y1="${p0.y}" x2="${p1.x}" y2="${p1.y}"/>`;
+    case 3: // polyline
+      return `<polyline fill="none" stroke="#${color}${strokeOpacity}" stroke-width="${obj.stroke}" points="${getPolyPoints(obj.points)}"/>`;
+    case 4: // polygon
+      return `<polygon fill="#${color}${fillOpacity}" points="${getPolyPoints(obj.points)}"/>`;
+    case 5: // path
+    case 6: { // curve
+      const segments = obj.shape === 5 ? getPathSegments(obj.points) : getCurveSegments(obj.points);
+      return `<path stroke-linecap="round" stroke-linejoin="round" fill="none" stroke="#${color}${strokeOpacity}" stroke-width="${obj.stroke}" d="M${p0.x} ${p0.y}${segments}"/>`;
+    }
+    default:
+      throw new Error(`InvalidShape(${obj.shape})`);
+  }
+}
+
+function decodeForRender(packed: PackedObject): ObjectStruct {
+  const obj = decodeObject(packed);
+  validateObject(obj);
+  return obj;
+}
+
+export function renderObjects(objects: PackedObject[]): string {
+  return objects.map(packed => renderPath(decodeForRender(packed))).join('');
+}
+
+const TAG_NAMES = ['rect', 'line', 'ellipse', 'polyline', 'polygon', 'path', 'path'];
+
+// Same art as renderObjects, but each object starts hidden and appears msPerObject after the one before it
+export function renderObjectsAnimated(objects: PackedObject[], msPerObject: number): string {
+  return objects.map((packed, i) => {
+    const obj = decodeForRender(packed);
+    // drop the self closing '/>' so a <set> child can go inside the element
+    const rendered = renderPath(obj).slice(0, -2);
+    return `${rendered} visibility="hidden"><set attributeName="visibility" to="visible" begin="${i * msPerObject}ms" fill="freeze"/></${TAG_NAMES[obj.shape]}>`;
+  }).join('');
+}
+
+// Script free SVG of just the canvas, what the metadata image shows
+export function renderArtSVG(objects: PackedObject[], canvas: CanvasRect): string {
+  const size = `${canvas.width}" height="${canvas.height}`;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" viewBox="${canvas.x} ${canvas.y} ${canvas.width} ${canvas.height}">` +
+    `<rect fill="#ffffff" x="${canvas.x}" y="${canvas.y}" width="${size}"/>` +
+    renderObjects(objects) +
+    '</svg>';
+}
+
+// The full editor SVG, matches ColourMeNFT.tokenSVG for tokens on the default renderer
+export function renderTokenSVG(
+  svgStart: string,
+  traitSVG: string,
+  art: PackedObject[],
+  svgEnd: string,
+  tokenId: number
+): string {
+  return svgStart +
+    traitSVG +
+    `<g id="drawing-area" clip-path="url(#canvas-clip)" data-token="${tokenId}">` +
+    renderObjects(art) +
+    '</g>' +
+    svgEnd;
+}
@@ -0,0 +1,662 @@
+// SVG importer: turns an arbitrary SVG file into objects a token can save
+// Geometry is kept as cubic Bezier outlines until the end, so transforms and arcs stay exact
+// and curves are only flattened into points once they're in canvas space
+
+import { DEFAULT_CANVAS, isObjectOnCanvas, type CanvasRect, type ObjectStruct, type Point } from './encoding';
+
+// What a token may paint with, from its traits
+export interface ImportPalette {
+  colors: string[]; // the 5 trait colours as bytes3, black and white are always added
+  shapes: number[]; // shape0 and shape1
+  polygon: number; // sides a polygon must have
+}
+
+export interface ImportOptions {
+  canvas?: CanvasRect; // the file is scaled to fit this, centred
+  tolerance?: number; // max distance in pixels between a flattened curve and the real one
+}
+
+export interface ImportReport {
+  elements: number; // drawable elements found in the file
+  objects: number;
+  skipped: string[]; // elements or features that couldn't be imported
+  convertedShapes: number; // elements drawn with a different shape than they had in the file
+  recolored: number; // fills and strokes moved to a palette colour
+  averageColorError: number; // mean RGB distance of the recoloured ones, 0-441
+}
+
+export interface SVGImportResult {
+  objects: ObjectStruct[];
+  report: ImportReport;
+}
+
+// 2D affine transform [a, b, c, d, e, f], the same layout as SVG's matrix()
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// A subpath as a start point and cubic segments [control1, control2, end], lines included
+interface Outline {
+  start: Point;
+  segments: [Point, Point, Point][];
+  closed: boolean;
+}
+
+interface Style {
+  fill: number | null; // 0xRRGGBB, null = none
+  stroke: number | null;
+  strokeWidth: number;
+  fillOpacity: number;
+  strokeOpacity: number;
+  opacity: number; // group opacity multiplied down the tree
+}
+
+const BLACK = 0x000000;
+const WHITE = 0xffffff;
+
+const NAMED_COLORS: Record<string, number> = {
+  black: 0x000000, white: 0xffffff, red: 0xff0000, green: 0x008000, blue: 0x0000ff,
+  yellow: 0xffff00, cyan: 0x00ffff, aqua: 0x00ffff, magenta: 0xff00ff, fuchsia: 0xff00ff,
+  gray: 0x808080, grey: 0x808080, silver: 0xc0c0c0, maroon: 0x800000, olive: 0x808000,
+  lime: 0x00ff00, teal: 0x008080, navy: 0x000080, purple: 0x800080, orange: 0xffa500,
+  pink: 0xffc0cb, brown: 0xa52a2a
+};
+
+// Elements that never draw anything themselves
+const NON_RENDERING = new Set(['defs', 'clippath', 'mask', 'symbol', 'style', 'title', 'desc', 'metadata', 'script', 'pattern', 'marker', 'lineargradient', 'radialgradient', 'filter']);
+
+// rect ellipse line polyline polygon path
+const RECT = 0;
+const LINE = 1;
+const ELLIPSE = 2;
+const POLYLINE = 3;
+const POLYGON = 4;
+const PATH = 5;
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+  ];
+}
+
+function apply(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+}
+
+function numbers(value: string | null): number[] {
+  return (value?.match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) || []).map(Number);
+}
+
+function parseTransform(value: string | null): Matrix {
+  let matrix = IDENTITY;
+  for (const [, name, args] of (value || '').matchAll(/(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g)) {
+    const n = numbers(args);
+    let next: Matrix = IDENTITY;
+    if (name === 'matrix' && n.length === 6) next = n as Matrix;
+    else if (name === 'translate') next = [1, 0, 0, 1, n[0] || 0, n[1] || 0];
+    else if (name === 'scale') next = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0];
+    else if (name === 'rotate') {
+      const angle = (n[0] || 0) * Math.PI / 180;
+      const [cx, cy] = [n[1] || 0, n[2] || 0];
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      next = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+    } else if (name === 'skewX') next = [1, 0, Math.tan((n[0] || 0) * Math.PI / 180), 1, 0, 0];
+    else if (name === 'skewY') next = [1, Math.tan((n[0] || 0) * Math.PI / 180), 0, 1, 0, 0];
+    matrix = multiply(matrix, next);
+  }
+  return matrix;
+}
+
+// Returns undefined when the value doesn't say anything, null for none
+function parseColor(value: string | null | undefined): number | null | undefined {
+  if (value === null || value === undefined) return undefined;
+  const color = value.trim().toLowerCase();
+  if (color === '' || color === 'inherit' || color === 'currentcolor') return undefined;
+  if (color === 'none' || color === 'transparent') return null;
+  if (color.startsWith('url(')) return BLACK; // gradients and patterns fall back to black
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+    return parseInt(digits, 16);
+  }
+  const rgb = color.match(/^rgba?\(([^)]*)\)$/);
+  if (rgb) {
+    const parts = rgb[1].split(/[\s,/]+/).filter(Boolean).slice(0, 3).map(part =>
+      part.endsWith('%') ? parseFloat(part) * 2.55 : parseFloat(part)
+    );
+    const [r, g, b] = parts.map(part => Math.max(0, Math.min(255, Math.round(part || 0))));
+    return (r << 16) | (g << 8) | b;
+  }
+  return NAMED_COLORS[color] ?? undefined;
+}
+
+// A presentation property, the style attribute wins over the plain attribute
+function property(element: Element, name: string): string | null {
+  const style = element.getAttribute('style');
+  if (style) {
+    for (const declaration of style.split(';')) {
+      const [key, ...rest] = declaration.split(':');
+      if (key?.trim().toLowerCase() === name) return rest.join(':').trim();
+    }
+  }
+  return element.getAttribute(name);
+}
+
+function inheritStyle(element: Element, parent: Style): Style {
+  const fill = parseColor(property(element, 'fill'));
+  const stroke = parseColor(property(element, 'stroke'));
+  const strokeWidth = numbers(property(element, 'stroke-width'))[0];
+  const fillOpacity = numbers(property(element, 'fill-opacity'))[0];
+  const strokeOpacity = numbers(property(element, 'stroke-opacity'))[0];
+  const opacity = numbers(property(element, 'opacity'))[0];
+  return {
+    fill: fill === undefined ? parent.fill : fill,
+    stroke: stroke === undefined ? parent.stroke : stroke,
+    strokeWidth: strokeWidth ?? parent.strokeWidth,
+    fillOpacity: fillOpacity ?? parent.fillOpacity,
+    strokeOpacity: strokeOpacity ?? parent.strokeOpacity,
+    opacity: parent.opacity * (opacity ?? 1)
+  };
+}
+
+function lineSegment(from: Point, to: Point): [Point, Point, Point] {
+  return [
+    { x: from.x + (to.x - from.x) / 3, y: from.y + (to.y - from.y) / 3 },
+    { x: from.x + 2 * (to.x - from.x) / 3, y: from.y + 2 * (to.y - from.y) / 3 },
+    to
+  ];
+}
+
+// Endpoint arc to cubic segments of at most 90 degrees, following the SVG implementation notes
+function arcSegments(
+  from: Point, rx: number, ry: number, rotation: number, largeArc: boolean, sweep: boolean, to: Point
+): [Point, Point, Point][] {
+  if (rx === 0 || ry === 0) return [lineSegment(from, to)];
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const phi = rotation * Math.PI / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from.x - to.x) / 2;
+  const dy = (from.y - to.y) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const sign = largeArc === sweep ? -1 : 1;
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const factor = sign * Math.sqrt(Math.max(0, numerator / (rx * rx * y1 * y1 + ry * ry * x1 * x1)));
+  const cx1 = factor * rx * y1 / ry;
+  const cy1 = -factor * ry * x1 / rx;
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2;
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => {
+    const a = Math.atan2(uy, ux);
+    const b = Math.atan2(vy, vx);
+    return b - a;
+  };
+  const theta = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+  let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const count = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2)));
+  const step = delta / count;
+  const k = 4 / 3 * Math.tan(step / 4);
+  const onEllipse = (t: number): Point => ({
+    x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+    y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos
+  });
+  const derivative = (t: number): Point => ({
+    x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+    y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos
+  });
+
+  const segments: [Point, Point, Point][] = [];
+  for (let i = 0; i < count; i++) {
+    const t0 = theta + i * step;
+    const t1 = t0 + step;
+    const p0 = onEllipse(t0);
+    const p1 = i === count - 1 ? to : onEllipse(t1);
+    const d0 = derivative(t0);
+    const d1 = derivative(t1);
+    segments.push([
+      { x: p0.x + k * d0.x, y: p0.y + k * d0.y },
+      { x: p1.x - k * d1.x, y: p1.y - k * d1.y },
+      p1
+    ]);
+  }
+  return segments;
+}
+
+// Full path grammar, every command ends up as cubic segments
+function parsePathData(d: string): Outline[] {
+  const outlines: Outline[] = [];
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) || [];
+  let i = 0;
+  let command = '';
+  let current: Point = { x: 0, y: 0 };
+  let outline: Outline | null = null;
+  let lastCubicControl: Point | null = null;
+  let lastQuadControl: Point | null = null;
+
+  const isCommand = (token: string | undefined) => token !== undefined && /^[A-Za-z]$/.test(token);
+  const next = () => Number(tokens[i++]);
+  const point = (relative: boolean): Point => {
+    const x = next();
+    const y = next();
+    return relative ? { x: current.x + x, y: current.y + y } : { x, y };
+  };
+  const ensureOutline = (): Outline => {
+    if (!outline) {
+      outline = { start: current, segments: [], closed: false };
+      outlines.push(outline);
+    }
+    return outline;
+  };
+
+  while (i < tokens.length) {
+    if (isCommand(tokens[i])) command = tokens[i++];
+    if (!command) break;
+    const relative = command === command.toLowerCase();
+    const type = command.toUpperCase();
+    let cubicControl: Point | null = null;
+    let quadControl: Point | null = null;
+
+    if (type === 'Z') {
+      const open = ensureOutline();
+      if (current.x !== open.start.x || current.y !== open.start.y) {
+        open.segments.push(lineSegment(current, open.start));
+      }
+      open.closed = true;
+      current = open.start;
+      outline = null;
+      command = '';
+      continue;
+    }
+    if (i >= tokens.length || isCommand(tokens[i])) break;
+
+    if (type === 'M') {
+      current = point(relative);
+      outline = { start: current, segments: [], closed: false };
+      outlines.push(outline);
+      // extra pairs after a move are lines
+      command = relative ? 'l' : 'L';
+    } else if (type === 'L' || type === 'H' || type === 'V') {
+      const to = type === 'L' ? point(relative)
+        : type === 'H' ? { x: (relative ? current.x : 0) + next(), y: current.y }
+        : { x: current.x, y: (relative ? current.y : 0) + next() };
+      ensureOutline().segments.push(lineSegment(current, to));
+      current = to;
+    } else if (type === 'C' || type === 'S') {
+      const c1: Point = type === 'C' ? point(relative)
+        : lastCubicControl ? { x: 2 * current.x - lastCubicControl.x, y: 2 * current.y - lastCubicControl.y } : current;
+      const c2 = point(relative);
+      const to = point(relative);
+      ensureOutline().segments.push([c1, c2, to]);
+      cubicControl = c2;
+      current = to;
+    } else if (type === 'Q' || type === 'T') {
+      const control: Point = type === 'Q' ? point(relative)
+        : lastQuadControl ? { x: 2 * current.x - lastQuadControl.x, y: 2 * current.y - lastQuadControl.y } : current;
+      const to = point(relative);
+      // a quadratic is a cubic with both controls 2/3 of the way to the quadratic control
+      ensureOutline().segments.push([
+        { x: current.x + 2 * (control.x - current.x) / 3, y: current.y + 2 * (control.y - current.y) / 3 },
+        { x: to.x + 2 * (control.x - to.x) / 3, y: to.y + 2 * (control.y - to.y) / 3 },
+        to
+      ]);
+      quadControl = control;
+      current = to;
+    } else if (type === 'A') {
+      const [rx, ry, rotation, largeArc, sweep] = [next(), next(), next(), next(), next()];
+      const to = point(relative);
+      ensureOutline().segments.push(...arcSegments(current, rx, ry, rotation, largeArc !== 0, sweep !== 0, to));
+      current = to;
+    } else {
+      break;
+    }
+    lastCubicControl = cubicControl;
+    lastQuadControl = quadControl;
+  }
+  return outlines.filter(o => o.segments.length > 0 || o.closed === false);
+}
+
+function pointList(value: string | null): Point[] {
+  const n = numbers(value);
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < n.length; i += 2) points.push({ x: n[i], y: n[i + 1] });
+  return points;
+}
+
+function polyOutline(points: Point[], closed: boolean): Outline[] {
+  if (points.length === 0) return [];
+  return [{
+    start: points[0],
+    segments: points.slice(1).map((p, i) => lineSegment(points[i], p)),
+    closed
+  }];
+}
+
+function ellipseOutline(cx: number, cy: number, rx: number, ry: number): Outline[] {
+  const from = { x: cx + rx, y: cy };
+  return [{
+    start: from,
+    segments: [
+      ...arcSegments(from, rx, ry, 0, false, true, { x: cx - rx, y: cy }),
+      ...arcSegments({ x: cx - rx, y: cy }, rx, ry, 0, false, true, from)
+    ],
+    closed: true
+  }];
+}
+
+// Outline of any drawable element in its own user space
+function elementOutlines(element: Element, tag: string): Outline[] {
+  const attr = (name: string) => numbers(element.getAttribute(name))[0] || 0;
+  switch (tag) {
+    case 'rect': {
+      const [x, y, w, h] = [attr('x'), attr('y'), attr('width'), attr('height')];
+      return polyOutline([{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }], true);
+    }
+    case 'circle':
+      return ellipseOutline(attr('cx'), attr('cy'), attr('r'), attr('r'));
+    case 'ellipse':
+      return ellipseOutline(attr('cx'), attr('cy'), attr('rx'), attr('ry'));
+    case 'line':
+      return polyOutline([{ x: attr('x1'), y: attr('y1') }, { x: attr('x2'), y: attr('y2') }], false);
+    case 'polyline':
+    case 'polygon':
+      return polyOutline(pointList(element.getAttribute('points')), tag === 'polygon');
+    case 'path':
+      return parsePathData(element.getAttribute('d') || '');
+    default:
+      return [];
+  }
+}
+
+function transformOutline(outline: Outline, m: Matrix): Outline {
+  return {
+    start: apply(m, outline.start),
+    segments: outline.segments.map(([c1, c2, p]) => [apply(m, c1), apply(m, c2), apply(m, p)]),
+    closed: outline.closed
+  };
+}
+
+// Distance from p to the line through a and b
+function lineDistance(p: Point, a: Point, b: Point): number {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs((b.x - a.x) * (a.y - p.y) - (a.x - p.x) * (b.y - a.y)) / length;
+}
+
+// Adaptive subdivision until both controls are within tolerance of the chord
+function flattenCubic(p0: Point, c1: Point, c2: Point, p1: Point, tolerance: number, out: Point[], depth = 0) {
+  if (depth >= 12 || Math.max(lineDistance(c1, p0, p1), lineDistance(c2, p0, p1)) <= tolerance) {
+    out.push(p1);
+    return;
+  }
+  const mid = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+  const a = mid(p0, c1);
+  const b = mid(c1, c2);
+  const c = mid(c2, p1);
+  const ab = mid(a, b);
+  const bc = mid(b, c);
+  const center = mid(ab, bc);
+  flattenCubic(p0, a, ab, center, tolerance, out, depth + 1);
+  flattenCubic(center, bc, c, p1, tolerance, out, depth + 1);
+}
+
+const clampInt16 = (value: number) => Math.max(-32768, Math.min(32767, Math.round(value)));
+
+// Integer canvas points without repeats, a closed outline doesn't repeat its start
+function flatten(outline: Outline, tolerance: number): Point[] {
+  const raw: Point[] = [outline.start];
+  let current = outline.start;
+  for (const [c1, c2, p] of outline.segments) {
+    flattenCubic(current, c1, c2, p, tolerance, raw);
+    current = p;
+  }
+  const points: Point[] = [];
+  for (const p of raw) {
+    const rounded = { x: clampInt16(p.x), y: clampInt16(p.y) };
+    const last = points[points.length - 1];
+    if (!last || last.x !== rounded.x || last.y !== rounded.y) points.push(rounded);
+  }
+  if (outline.closed && points.length > 1) {
+    const [first, last] = [points[0], points[points.length - 1]];
+    if (first.x === last.x && first.y === last.y) points.pop();
+  }
+  return points;
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+// Ear clipping, falls back to a fan when the outline crosses itself
+function triangulate(points: Point[]): [Point, Point, Point][] {
+  const area = points.reduce((sum, p, i) => sum + cross({ x: 0, y: 0 }, p, points[(i + 1) % points.length]), 0);
+  const ring = area < 0 ? [...points].reverse() : [...points];
+  const triangles: [Point, Point, Point][] = [];
+
+  const inside = (p: Point, a: Point, b: Point, c: Point) =>
+    cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+
+  let guard = ring.length * ring.length;
+  while (ring.length > 3 && guard-- > 0) {
+    let clipped = false;
+    for (let i = 0; i < ring.length; i++) {
+      const a = ring[(i + ring.length - 1) % ring.length];
+      const b = ring[i];
+      const c = ring[(i + 1) % ring.length];
+      if (cross(a, b, c) <= 0) continue;
+      const blocked = ring.some(p => p !== a && p !== b && p !== c && inside(p, a, b, c));
+      if (blocked) continue;
+      triangles.push([a, b, c]);
+      ring.splice(i, 1);
+      clipped = true;
+      break;
+    }
+    if (!clipped) break;
+  }
+  if (ring.length === 3) {
+    triangles.push([ring[0], ring[1], ring[2]]);
+  } else if (ring.length > 3) {
+    for (let i = 1; i + 1 < ring.length; i++) triangles.push([ring[0], ring[i], ring[i + 1]]);
+  }
+  // slivers with no area draw nothing
+  return triangles.filter(([a, b, c]) => cross(a, b, c) !== 0);
+}
+
+// Redmean weighted RGB distance, closer to how different two colours look than plain RGB
+function colorDistance(a: number, b: number): number {
+  const [r1, g1, b1] = [(a >> 16) & 0xff, (a >> 8) & 0xff, a & 0xff];
+  const [r2, g2, b2] = [(b >> 16) & 0xff, (b >> 8) & 0xff, b & 0xff];
+  const mean = (r1 + r2) / 2;
+  const [dr, dg, db] = [r1 - r2, g1 - g2, b1 - b2];
+  return Math.sqrt((2 + mean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - mean) / 256) * db * db) / 3;
+}
+
+const toBytes3 = (color: number) => '0x' + color.toString(16).padStart(6, '0');
+
+const toOpacity = (value: number) => Math.max(0, Math.min(255, Math.round(value * 255)));
+
+const isAxisAligned = (m: Matrix) => Math.abs(m[1]) < 1e-9 && Math.abs(m[2]) < 1e-9;
+
+// Parses an SVG file and converts it into objects the token's traits allow:
+// colours snap to the nearest trait colour, black or white, and shapes the token
+// can't draw become paths (strokes) or trait sized polygons (fills)
+export function importSVG(svgText: string, palette: ImportPalette, options: ImportOptions = {}): SVGImportResult {
+  const canvas = options.canvas ?? DEFAULT_CANVAS;
+  const tolerance = options.tolerance ?? 1;
+  const objects: ObjectStruct[] = [];
+  const report: ImportReport = { elements: 0, objects: 0, skipped: [], convertedShapes: 0, recolored: 0, averageColorError: 0 };
+  let colorErrorTotal = 0;
+
+  const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (!root || root.nodeName.toLowerCase() !== 'svg' || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Not a valid SVG file');
+  }
+
+  // fit the file's viewBox (or its width and height) inside the canvas, centred
+  const viewBox = numbers(root.getAttribute('viewBox'));
+  const [minX, minY, width, height] = viewBox.length === 4
+    ? viewBox
+    : [0, 0, numbers(root.getAttribute('width'))[0] || canvas.width, numbers(root.getAttribute('height'))[0] || canvas.height];
+  const scale = Math.min(canvas.width / (width || 1), canvas.height / (height || 1));
+  const rootMatrix: Matrix = [
+    scale, 0, 0, scale,
+    canvas.x + (canvas.width - width * scale) / 2 - minX * scale,
+    canvas.y + (canvas.height - height * scale) / 2 - minY * scale
+  ];
+
+  const allowedColors = [...palette.colors.map(c => parseInt(c.replace(/^(0x|#)/, ''), 16)), BLACK, WHITE];
+  const quantize = (color: number): string => {
+    let best = allowedColors[0];
+    let bestDistance = Infinity;
+    for (const candidate of allowedColors) {
+      const d = colorDistance(color, candidate);
+      if (d < bestDistance) {
+        best = candidate;
+        bestDistance = d;
+      }
+    }
+    if (bestDistance > 0) {
+      report.recolored++;
+      colorErrorTotal += bestDistance;
+    }
+    return toBytes3(best);
+  };
+
+  const push = (obj: ObjectStruct) => {
+    if (obj.opacity === 255) delete obj.opacity;
+    // anything fully off the canvas would be rejected on save
+    if (isObjectOnCanvas(obj, canvas)) objects.push(obj);
+  };
+
+  const addFill = (tag: string, element: Element, matrix: Matrix, outlines: Outline[], color: number, opacity: number) => {
+    const fillColor = quantize(color);
+    const attr = (name: string) => numbers(element.getAttribute(name))[0] || 0;
+
+    // rects and ellipses keep their own shape when the token has it and nothing rotates them
+    if (tag === 'rect' && palette.shapes.includes(RECT) && isAxisAligned(matrix)) {
+      const corner = apply(matrix, { x: attr('x'), y: attr('y') });
+      const size = { x: attr('width') * matrix[0], y: attr('height') * matrix[3] };
+      push({
+        shape: RECT,
+        color: fillColor,
+        stroke: 0,
+        points: [
+          { x: clampInt16(Math.min(corner.x, corner.x + size.x)), y: clampInt16(Math.min(corner.y, corner.y + size.y)) },
+          { x: clampInt16(Math.abs(size.x)), y: clampInt16(Math.abs(size.y)) }
+        ],
+        opacity
+      });
+      return;
+    }
+    if ((tag === 'ellipse' || tag === 'circle') && palette.shapes.includes(ELLIPSE) && isAxisAligned(matrix)) {
+      const center = apply(matrix, { x: attr('cx'), y: attr('cy') });
+      const rx = tag === 'circle' ? attr('r') : attr('rx');
+      const ry = tag === 'circle' ? attr('r') : attr('ry');
+      push({
+        shape: ELLIPSE,
+        color: fillColor,
+        stroke: 0,
+        points: [
+          { x: clampInt16(center.x), y: clampInt16(center.y) },
+          { x: clampInt16(Math.abs(rx * matrix[0])), y: clampInt16(Math.abs(ry * matrix[3])) }
+        ],
+        opacity
+      });
+      return;
+    }
+
+    let converted = false;
+    for (const outline of outlines) {
+      const points = flatten(transformOutline(outline, matrix), tolerance);
+      if (points.length < 3) continue;
+      if (points.length === palette.polygon) {
+        push({ shape: POLYGON, color: fillColor, stroke: 0, points, opacity });
+        converted = converted || tag !== 'polygon';
+        continue;
+      }
+      // anything else is cut into triangles, padded to the token's polygon size by repeating a corner
+      for (const triangle of triangulate(points)) {
+        const padded = [...triangle];
+        while (padded.length < palette.polygon) padded.push(triangle[2]);
+        push({ shape: POLYGON, color: fillColor, stroke: 0, points: padded, opacity });
+      }
+      converted = true;
+    }
+    if (converted) report.convertedShapes++;
+  };
+
+  const addStroke = (tag: string, matrix: Matrix, outlines: Outline[], color: number, strokeWidth: number, opacity: number) => {
+    const strokeColor = quantize(color);
+    const stroke = Math.max(1, Math.min(255, Math.round(strokeWidth * Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2])))));
+
+    for (const outline of outlines) {
+      const points = flatten(transformOutline(outline, matrix), tolerance);
+      if (outline.closed && points.length > 1) points.push(points[0]);
+      if (points.length === 1) points.push(points[0]); // a dot still needs 2 points
+      if (points.length < 2) continue;
+
+      let shape = PATH;
+      if (tag === 'line' && palette.shapes.includes(LINE) && points.length === 2) shape = LINE;
+      else if (tag === 'polyline' && palette.shapes.includes(POLYLINE)) shape = POLYLINE;
+      else if (tag !== 'path') report.convertedShapes++;
+      push({ shape, color: strokeColor, stroke, points, opacity });
+    }
+  };
+
+  const walk = (element: Element, parentMatrix: Matrix, parentStyle: Style) => {
+    const tag = element.localName.toLowerCase();
+    if (NON_RENDERING.has(tag) || property(element, 'display') === 'none') return;
+    const matrix = multiply(parentMatrix, parseTransform(element.getAttribute('transform')));
+    const style = inheritStyle(element, parentStyle);
+
+    if (tag === 'svg' || tag === 'g' || tag === 'a' || tag === 'switch') {
+      for (const child of Array.from(element.children)) walk(child, matrix, style);
+      return;
+    }
+    if (!['rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'path'].includes(tag)) {
+      report.skipped.push(`<${tag}> is not supported`);
+      return;
+    }
+    report.elements++;
+    if (property(element, 'visibility') === 'hidden') return;
+
+    const outlines = elementOutlines(element, tag);
+    if (outlines.length === 0) {
+      report.skipped.push(`<${tag}> has no geometry`);
+      return;
+    }
+    // lines have nothing to fill
+    if (style.fill !== null && tag !== 'line') {
+      const opacity = toOpacity(style.opacity * style.fillOpacity);
+      if (opacity > 0) addFill(tag, element, matrix, outlines, style.fill, opacity);
+    }
+    if (style.stroke !== null && style.strokeWidth > 0) {
+      const opacity = toOpacity(style.opacity * style.strokeOpacity);
+      if (opacity > 0) addStroke(tag, matrix, outlines, style.stroke, style.strokeWidth, opacity);
+    }
+  };
+
+  // SVG defaults: black fill, no stroke, 1px wide
+  walk(root, rootMatrix, { fill: BLACK, stroke: null, strokeWidth: 1, fillOpacity: 1, strokeOpacity: 1, opacity: 1 });
+
+  report.objects = objects.length;
+  report.averageColorError = report.recolored > 0 ? colorErrorTotal / report.recolored : 0;
+  return { objects, report };
+}
@@ -7,9 +7,22 @@ dotenv.config();
 
 // Import tasks
 import "./tasks/reset-svg";
+import "./tasks/presale";
+import "./tasks/admin";
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.28",
+  solidity: {
+    version: "0.8.28",
+    // ColourMeNFT is over the 24576 byte deploy limit unoptimized, and the optimizer
+    // alone hits "stack too deep" in the renderer's assembly, so it needs the IR pipeline
+    settings: {
+      optimizer: {
+        enabled: true,
+        runs: 200,
+      },
+      viaIR: true,
+    },
+  },
   networks: {
     sepolia: {
       url: "https://ethereum-sepolia-rpc.publicnode.com",
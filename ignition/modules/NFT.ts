@@ -28,6 +28,17 @@ const NFTModule = buildModule("NFTModule", (m) => {
     // Initialize the contract with any required setup
     m.call(nft, "setSVG", [svgStart, svgEnd]);
 
+    // Sample themes holders can pick instead of the classic renderer, ids follow this order
+    const themes = [
+        { id: "HighContrastTheme", name: "High Contrast", style: "filter:contrast(1.6) saturate(1.4)" },
+        { id: "PixelArtTheme", name: "Pixel Art", style: "shape-rendering:crispEdges" },
+        { id: "MonochromeTheme", name: "Monochrome", style: "filter:grayscale(1)" },
+    ];
+    themes.forEach((theme, index) => {
+        const themeRenderer = m.contract("ColourMeThemeRenderer", [theme.name, theme.style], { id: theme.id });
+        m.call(nft, "setTheme", [index + 1, themeRenderer], { id: `set${theme.id}` });
+    });
+
     return { nft, cmr };
 });
 
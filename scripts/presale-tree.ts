@@ -0,0 +1,105 @@
+import { AbiCoder, concat, getAddress, keccak256 } from "ethers";
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+export interface PresaleEntry {
+  address: string;
+  allocation: number;
+}
+
+export interface PresaleTree {
+  root: string;
+  // keyed by checksummed address
+  proofs: Record<string, { allocation: number; proof: string[] }>;
+}
+
+// Same leaf as ColourMeNFT.presaleMint, double hashed so a leaf can't pass as an inner node
+export function presaleLeaf(address: string, allocation: number | bigint): string {
+  const encoded = AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [address, allocation]);
+  return keccak256(keccak256(encoded));
+}
+
+// Sorted pair hashing, matches OpenZeppelin's MerkleProof
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+// CSV rows are "address,allocation", a header row and blank lines are skipped
+export function parsePresaleCsv(csv: string): PresaleEntry[] {
+  const entries: PresaleEntry[] = [];
+  const seen = new Set<string>();
+
+  csv.split(/\r?\n/).forEach((line, index) => {
+    const [rawAddress, rawAllocation] = line.split(",").map(value => value.trim());
+    if (!rawAddress || rawAddress.toLowerCase() === "address") return;
+
+    let address: string;
+    try {
+      address = getAddress(rawAddress);
+    } catch {
+      throw new Error(`Line ${index + 1}: invalid address ${rawAddress}`);
+    }
+    const allocation = Number(rawAllocation);
+    if (!Number.isInteger(allocation) || allocation <= 0) {
+      throw new Error(`Line ${index + 1}: invalid allocation ${rawAllocation}`);
+    }
+    if (seen.has(address)) {
+      throw new Error(`Line ${index + 1}: duplicate address ${address}`);
+    }
+
+    seen.add(address);
+    entries.push({ address, allocation });
+  });
+
+  return entries;
+}
+
+export function buildPresaleTree(entries: PresaleEntry[]): PresaleTree {
+  if (entries.length === 0) {
+    throw new Error("Presale list is empty");
+  }
+
+  // levels[0] are the leaves, the last level holds the root
+  const levels: string[][] = [entries.map(entry => presaleLeaf(entry.address, entry.allocation))];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      // an odd node out moves up unchanged
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+
+  const proofs: PresaleTree["proofs"] = {};
+  entries.forEach((entry, leafIndex) => {
+    const proof: string[] = [];
+    let index = leafIndex;
+    for (let depth = 0; depth < levels.length - 1; depth++) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < levels[depth].length) {
+        proof.push(levels[depth][sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    proofs[getAddress(entry.address)] = { allocation: entry.allocation, proof };
+  });
+
+  return { root: levels[levels.length - 1][0], proofs };
+}
+
+export default function buildPresaleFile(
+  csvFile: string,
+  outFile: string = "frontend/src/assets/presale.json"
+): PresaleTree {
+  console.log(`Reading presale list from: ${csvFile}`);
+  const entries = parsePresaleCsv(readFileSync(join(process.cwd(), csvFile), "utf8"));
+  console.log(`Wallets: ${entries.length}`);
+
+  const tree = buildPresaleTree(entries);
+  writeFileSync(join(process.cwd(), outFile), JSON.stringify(tree, null, 2) + "\n");
+  console.log(`Merkle root: ${tree.root}`);
+  console.log(`Proofs written to: ${outFile}`);
+
+  return tree;
+}
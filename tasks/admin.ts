@@ -0,0 +1,138 @@
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Calls an owner-only setter on ColourMeNFT and waits for it to confirm
+async function callSetter(
+  hre: HardhatRuntimeEnvironment,
+  contractAddress: string,
+  setter: string,
+  args: unknown[]
+) {
+  console.log(`Calling ${setter}(${args.join(", ")}) on contract: ${contractAddress}`);
+
+  try {
+    const [signer] = await hre.ethers.getSigners();
+    const nft = await hre.ethers.getContractAt("ColourMeNFT", contractAddress);
+
+    const owner = await nft.owner();
+    if (owner !== signer.address) {
+      throw new Error(`Caller ${signer.address} is not the contract owner ${owner}`);
+    }
+
+    const tx = await nft.getFunction(setter)(...args);
+    console.log(`Transaction hash: ${tx.hash}`);
+    const receipt = await tx.wait();
+    console.log(`Transaction confirmed in block ${receipt?.blockNumber}`);
+  } catch (error) {
+    console.error(`Error calling ${setter}:`, error);
+    process.exit(1);
+  }
+}
+
+task("set-mint-price", "Set the public mint price on the ColourMeNFT contract")
+  .addParam("contract", "The contract address")
+  .addParam("price", "Mint price per token in ether")
+  .setAction(async (taskArgs, hre) => {
+    await callSetter(hre, taskArgs.contract, "setMintPrice", [hre.ethers.parseEther(taskArgs.price)]);
+  });
+
+task("set-mint-limit", "Set the per transaction mint limit on the ColourMeNFT contract")
+  .addParam("contract", "The contract address")
+  .addParam("limit", "Maximum tokens per mint transaction")
+  .setAction(async (taskArgs, hre) => {
+    await callSetter(hre, taskArgs.contract, "setMintLimit", [BigInt(taskArgs.limit)]);
+  });
+
+task("set-wallet-limit", "Set the lifetime public mint limit per wallet on the ColourMeNFT contract")
+  .addParam("contract", "The contract address")
+  .addParam("limit", "Maximum public mints per wallet, 0 for unlimited")
+  .setAction(async (taskArgs, hre) => {
+    await callSetter(hre, taskArgs.contract, "setWalletLimit", [BigInt(taskArgs.limit)]);
+  });
+
+task("set-mint-start", "Set when the public mint opens on the ColourMeNFT contract")
+  .addParam("contract", "The contract address")
+  .addParam("start", "Mint start as a unix timestamp")
+  .setAction(async (taskArgs, hre) => {
+    await callSetter(hre, taskArgs.contract, "setMintStart", [BigInt(taskArgs.start)]);
+  });
+
+task("set-mint-duration", "Set how long the public mint stays open on the ColourMeNFT contract")
+  .addParam("contract", "The contract address")
+  .addParam("duration", "Mint duration in seconds")
+  .setAction(async (taskArgs, hre) => {
+    await callSetter(hre, taskArgs.contract, "setMintDuration", [BigInt(taskArgs.duration)]);
+  });
+
+task("set-base-url", "Set the base URL used for external_url in the ColourMeNFT metadata")
+  .addParam("contract", "The contract address")
+  .addParam("url", "The new base URL")
+  .setAction(async (taskArgs, hre) => {
+    await callSetter(hre, taskArgs.contract, "setBaseURL", [taskArgs.url]);
+  });
+
+task("set-renderer", "Point the ColourMeNFT contract at a new renderer")
+  .addParam("contract", "The contract address")
+  .addParam("renderer", "The new ColourMeRenderer address")
+  .setAction(async (taskArgs, hre) => {
+    await callSetter(hre, taskArgs.contract, "setRenderer", [taskArgs.renderer]);
+  });
+
+task("set-canvas", "Set the drawing region objects must overlap, to match a new SVG template")
+  .addParam("contract", "The contract address")
+  .addParam("x", "Left edge of the drawing region")
+  .addParam("y", "Top edge of the drawing region")
+  .addParam("width", "Width of the drawing region")
+  .addParam("height", "Height of the drawing region")
+  .setAction(async (taskArgs, hre) => {
+    const canvas = {
+      x: Number(taskArgs.x),
+      y: Number(taskArgs.y),
+      width: Number(taskArgs.width),
+      height: Number(taskArgs.height)
+    };
+    await callSetter(hre, taskArgs.contract, "setCanvas", [canvas]);
+  });
+
+task("set-theme", "Add, replace or retire a renderer theme on the ColourMeNFT contract")
+  .addParam("contract", "The contract address")
+  .addParam("theme", "Theme id, the next free id adds a theme")
+  .addOptionalParam("renderer", "The theme's renderer address, leave out to retire the theme")
+  .setAction(async (taskArgs, hre) => {
+    const renderer = taskArgs.renderer || hre.ethers.ZeroAddress;
+    await callSetter(hre, taskArgs.contract, "setTheme", [BigInt(taskArgs.theme), renderer]);
+  });
+
+task("set-payees", "Set the revenue payees and their shares on the ColourMeNFT contract")
+  .addParam("contract", "The contract address")
+  .addParam("payees", "Comma separated payee addresses, empty to send everything to the owner")
+  .addParam("shares", "Comma separated shares, one per payee")
+  .setAction(async (taskArgs, hre) => {
+    const split = (list: string) => list.split(",").map(value => value.trim()).filter(Boolean);
+    const payees = split(taskArgs.payees);
+    const shares = split(taskArgs.shares).map(share => BigInt(share));
+    if (payees.length !== shares.length) {
+      console.error(`Got ${payees.length} payees but ${shares.length} shares`);
+      process.exit(1);
+    }
+    await callSetter(hre, taskArgs.contract, "setPayees", [payees, shares]);
+  });
+
+task("release", "Send a payee their share of the ColourMeNFT mint revenue")
+  .addParam("contract", "The contract address")
+  .addParam("payee", "The payee address")
+  .setAction(async (taskArgs, hre) => {
+    const nft = await hre.ethers.getContractAt("ColourMeNFT", taskArgs.contract);
+    const amount = await nft.releasable(taskArgs.payee);
+    console.log(`Releasing ${hre.ethers.formatEther(amount)} ETH to ${taskArgs.payee}`);
+
+    try {
+      const tx = await nft.release(taskArgs.payee);
+      console.log(`Transaction hash: ${tx.hash}`);
+      const receipt = await tx.wait();
+      console.log(`Released in block ${receipt?.blockNumber}`);
+    } catch (error) {
+      console.error("Error releasing payment:", error);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,47 @@
+import { task } from "hardhat/config";
+
+task("presale-tree", "Build the presale Merkle tree and wallet proofs from a CSV")
+  .addParam("csv", "Path to a CSV of address,allocation rows")
+  .addOptionalParam("out", "Path to write the root and proofs (default: frontend/src/assets/presale.json)")
+  .setAction(async (taskArgs) => {
+    const { csv, out } = taskArgs;
+    const outFile = out || "frontend/src/assets/presale.json";
+
+    const { default: buildPresaleFile } = await import("../scripts/presale-tree");
+
+    try {
+      buildPresaleFile(csv, outFile);
+    } catch (error) {
+      console.error("Error building presale tree:", error);
+      process.exit(1);
+    }
+  });
+
+task("set-presale", "Set the presale root, price and window on the ColourMeNFT contract")
+  .addParam("contract", "The contract address")
+  .addParam("start", "Presale start as a unix timestamp")
+  .addParam("duration", "Presale duration in seconds")
+  .addParam("price", "Presale price per token in ether")
+  .addOptionalParam("proofs", "Path to the presale JSON (default: frontend/src/assets/presale.json)")
+  .setAction(async (taskArgs, hre) => {
+    const { contract, start, duration, price } = taskArgs;
+    const proofsFile = taskArgs.proofs || "frontend/src/assets/presale.json";
+
+    const { readFileSync } = await import("fs");
+    const { root } = JSON.parse(readFileSync(proofsFile, "utf8"));
+
+    console.log(`Setting presale for contract: ${contract}`);
+    console.log(`Root: ${root}`);
+    console.log(`Window: ${new Date(Number(start) * 1000).toISOString()} for ${duration}s at ${price} ETH`);
+
+    try {
+      const nft = await hre.ethers.getContractAt("ColourMeNFT", contract);
+      const tx = await nft.setPresale(root, hre.ethers.parseEther(price), start, duration);
+      console.log(`Transaction hash: ${tx.hash}`);
+      const receipt = await tx.wait();
+      console.log(`Presale set in block ${receipt?.blockNumber}`);
+    } catch (error) {
+      console.error("Error setting presale:", error);
+      process.exit(1);
+    }
+  });
@@ -1,6 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { EncodingTest } from "../typechain-types";
+import { ColourMeRenderer, EncodingTest } from "../typechain-types";
 
 // TypeScript types matching the Solidity structs
 interface Point {
@@ -9,10 +9,11 @@ interface Point {
 }
 
 interface ObjectStruct {
-  shape: number; // Path enum: 0=rect, 1=line, 2=ellipse, 3=polyline, 4=polygon, 5=path
+  shape: number; // Path enum: 0=rect, 1=line, 2=ellipse, 3=polyline, 4=polygon, 5=path, 6=curve
   color: string; // hex color as bytes3
   stroke: number; // uint8
   points: Point[];
+  opacity?: number; // uint8, 255 (default) = opaque
 }
 
 interface PackedObject {
@@ -48,7 +49,8 @@ function int16ToUint16(value: number): number {
 // 3. bits 27-34: stroke (8 bits)
 // 4. bits 35-50: pointsLength (16 bits)
 // 5. bits 51-242: points (192 bits) // 6 points max
-// 6. bits 243-255: unused (12 bits)
+// 6. bits 243-250: transparency (8 bits) // 255 - opacity
+// 7. bits 251-255: unused (5 bits)
 function encodeObject(obj: ObjectStruct): PackedObject {
   let encoded = 0n;
   
@@ -105,6 +107,9 @@ function encodeObject(obj: ObjectStruct): PackedObject {
     console.log(`Point ${i} verification: (${extractedX}, ${extractedY})`);
   }
   
+  // 6. Transparency in bits 243-250, left at 0 for opaque objects
+  encoded |= BigInt((255 - (obj.opacity ?? 255)) & 0xFF) << 243n;
+  
   console.log(`Final encoded: 0x${encoded.toString(16)}`);
   console.log(`\n=== FINAL VERIFICATION ===`);
   console.log(`Shape: ${Number(encoded & 0x7n)} (expected ${obj.shape})`);
@@ -146,6 +151,93 @@ function encodeObject(obj: ObjectStruct): PackedObject {
   };
 }
 
+// Curve fitting, mirrors fitCurve/strokeToCurve in frontend/src/utils/encoding.ts
+// A curve (shape 6) is a start point followed by cubic segments [control1, control2, end],
+// the same layout ColourMeRenderer turns into " C" commands
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function cubicAt(p0: Point, c1: Point, c2: Point, p1: Point, t: number): Point {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * p1.x,
+    y: u * u * u * p0.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * p1.y
+  };
+}
+
+// Unit tangent at points[index], taken from its neighbours so joined segments stay smooth
+function tangentAt(points: Point[], index: number): Point {
+  const before = points[Math.max(0, index - 1)];
+  const after = points[Math.min(points.length - 1, index + 1)];
+  const length = distance(before, after) || 1;
+  return { x: (after.x - before.x) / length, y: (after.y - before.y) / length };
+}
+
+// Fits a dense freehand stroke with as few cubic segments as keep every
+// original point within `tolerance` pixels of the curve
+function fitCurve(points: Point[], tolerance: number = 2): Point[] {
+  // drop repeated points, mouse move events often report the same position
+  const stroke = points.filter((point, i) => i === 0 || distance(point, points[i - 1]) > 0);
+  if (stroke.length < 2) return stroke;
+
+  // cumulative arc length, used to place each original point along its segment
+  const arc = [0];
+  for (let i = 1; i < stroke.length; i++) {
+    arc.push(arc[i - 1] + distance(stroke[i - 1], stroke[i]));
+  }
+
+  const segment = (start: number, end: number): [Point, Point] => {
+    const handle = distance(stroke[start], stroke[end]) / 3;
+    const t0 = tangentAt(stroke, start);
+    const t1 = tangentAt(stroke, end);
+    return [
+      { x: stroke[start].x + t0.x * handle, y: stroke[start].y + t0.y * handle },
+      { x: stroke[end].x - t1.x * handle, y: stroke[end].y - t1.y * handle }
+    ];
+  };
+
+  // split at the worst fitting point until every segment is within tolerance
+  const keys = [0, stroke.length - 1];
+  const split = (start: number, end: number) => {
+    if (end - start < 2) return;
+    const [c1, c2] = segment(start, end);
+    let worst = -1;
+    let worstError = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const t = (arc[i] - arc[start]) / ((arc[end] - arc[start]) || 1);
+      const error = distance(cubicAt(stroke[start], c1, c2, stroke[end], t), stroke[i]);
+      if (error > worstError) {
+        worst = i;
+        worstError = error;
+      }
+    }
+    if (worst === -1) return;
+    keys.push(worst);
+    split(start, worst);
+    split(worst, end);
+  };
+  split(0, stroke.length - 1);
+  keys.sort((a, b) => a - b);
+
+  const round = (point: Point): Point => ({ x: Math.round(point.x), y: Math.round(point.y) });
+  const fitted: Point[] = [round(stroke[0])];
+  for (let k = 1; k < keys.length; k++) {
+    const [c1, c2] = segment(keys[k - 1], keys[k]);
+    fitted.push(round(c1), round(c2), round(stroke[keys[k]]));
+  }
+  return fitted;
+}
+
+// Swaps a freehand path for a fitted curve when the curve needs fewer points
+function strokeToCurve(obj: ObjectStruct, tolerance: number = 2): ObjectStruct {
+  if (obj.shape !== 5) return obj;
+  const points = fitCurve(obj.points, tolerance);
+  if (points.length < 4 || points.length >= obj.points.length) return obj;
+  return { ...obj, shape: 6, points };
+}
+
 // Create mock test data
 function createMockData(): ObjectStruct[] {
   return [
@@ -499,4 +591,159 @@ describe("EncodingTest", function () {
     expect(allPoints[3][0].x).to.equal(-100n); // Negative coordinates
     expect(allPoints[3][0].y).to.equal(-50n);
   });
+
+  describe("Opacity", function () {
+    let renderer: ColourMeRenderer;
+    
+    // one of each shape, encoded the way every object was before opacity existed
+    const legacyObjects: ObjectStruct[] = [
+      { shape: 0, color: hexToBytes3("#FF0000"), stroke: 0, points: [{ x: 10, y: 90 }, { x: 980, y: 900 }] },
+      { shape: 1, color: hexToBytes3("#00FF00"), stroke: 3, points: [{ x: -5, y: 10 }, { x: 100, y: 200 }] },
+      { shape: 2, color: hexToBytes3("#0000FF"), stroke: 0, points: [{ x: 500, y: 500 }, { x: 40, y: 20 }] },
+      { shape: 3, color: hexToBytes3("#123456"), stroke: 2, points: [{ x: 1, y: 2 }, { x: 3, y: 4 }, { x: 5, y: 6 }] },
+      { shape: 4, color: hexToBytes3("#ABCDEF"), stroke: 0, points: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 5, y: 8 }] },
+      {
+        shape: 5, color: hexToBytes3("#000000"), stroke: 4,
+        points: [{ x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }, { x: 4, y: 4 }, { x: 5, y: 5 }, { x: 6, y: 6 }, { x: 7, y: 7 }, { x: -8, y: 8 }]
+      }
+    ];
+    
+    // renderer output captured before opacity was added
+    const legacySVG = [
+      '<rect fill="#ff0000" x="10" y="90" width="980" height="900"/>',
+      '<line fill="none" stroke="#00ff00" stroke-width="3" x1="-5" y1="10" x2="100" y2="200"/>',
+      '<ellipse fill="#0000ff" cx="500" cy="500" rx="40" ry="20"/>',
+      '<polyline fill="none" stroke="#123456" stroke-width="2" points="1,2 3,4 5,6 "/>',
+      '<polygon fill="#abcdef" points="0,0 10,0 5,8 "/>',
+      '<path stroke-linecap="round" stroke-linejoin="round" fill="none" stroke="#000000" stroke-width="4" d="M1 1 L2 2 L3 3 L4 4 L5 5 L6 6 L7 7 L-8 8"/>'
+    ];
+    
+    before(async function () {
+      const RendererFactory = await ethers.getContractFactory("ColourMeRenderer");
+      renderer = await RendererFactory.deploy() as unknown as ColourMeRenderer;
+      await renderer.waitForDeployment();
+    });
+    
+    it("Should leave the opacity bits empty for opaque objects", async function () {
+      for (const object of legacyObjects) {
+        expect(encodeObject(object).base >> 243n).to.equal(0n);
+        expect(encodeObject({ ...object, opacity: 255 }).base).to.equal(encodeObject(object).base);
+      }
+    });
+    
+    it("Should render objects saved before opacity exactly as before", async function () {
+      for (let i = 0; i < legacyObjects.length; i++) {
+        const packed = encodeObject(legacyObjects[i]);
+        const rendered = await renderer.renderObjects([{ base: packed.base, additionalPoints: packed.additionalPoints }]);
+        expect(ethers.toUtf8String(rendered)).to.equal(legacySVG[i]);
+      }
+    });
+    
+    it("Should decode opacity", async function () {
+      const objects = [0, 1, 128, 254, 255].map(opacity => ({ ...legacyObjects[0], opacity }));
+      const packedObjects = objects.map(encodeObject);
+      await encodingTest.storeArt(500, packedObjects.map(packed => ({ base: packed.base, additionalPoints: packed.additionalPoints })));
+      
+      const [baseObjects] = await encodingTest.unpackArt(500);
+      expect(baseObjects.map(object => Number(object.opacity))).to.deep.equal([0, 1, 128, 254, 255]);
+    });
+    
+    it("Should render fill-opacity and stroke-opacity", async function () {
+      const render = async (object: ObjectStruct) => {
+        const packed = encodeObject(object);
+        return ethers.toUtf8String(await renderer.renderObjects([{ base: packed.base, additionalPoints: packed.additionalPoints }]));
+      };
+      
+      expect(await render({ ...legacyObjects[0], opacity: 128 }))
+        .to.equal('<rect fill="#ff0000" fill-opacity="0.502" x="10" y="90" width="980" height="900"/>');
+      expect(await render({ ...legacyObjects[4], opacity: 0 }))
+        .to.equal('<polygon fill="#abcdef" fill-opacity="0.000" points="0,0 10,0 5,8 "/>');
+      expect(await render({ ...legacyObjects[1], opacity: 1 }))
+        .to.equal('<line fill="none" stroke="#00ff00" stroke-opacity="0.004" stroke-width="3" x1="-5" y1="10" x2="100" y2="200"/>');
+      expect(await render({ ...legacyObjects[5], opacity: 254 }))
+        .to.include('fill="none" stroke="#000000" stroke-opacity="0.996" stroke-width="4"');
+    });
+  });
+
+  describe("Curves", function () {
+    let renderer: ColourMeRenderer;
+    
+    const render = async (object: ObjectStruct) => {
+      const packed = encodeObject(object);
+      return ethers.toUtf8String(await renderer.renderObjects([{ base: packed.base, additionalPoints: packed.additionalPoints }]));
+    };
+    
+    before(async function () {
+      const RendererFactory = await ethers.getContractFactory("ColourMeRenderer");
+      renderer = await RendererFactory.deploy() as unknown as ColourMeRenderer;
+      await renderer.waitForDeployment();
+    });
+    
+    it("Should encode and decode curves", async function () {
+      const curve: ObjectStruct = {
+        shape: 6, // curve
+        color: hexToBytes3("#000000"),
+        stroke: 4,
+        points: [
+          { x: 100, y: 100 }, { x: 150, y: 50 }, { x: 250, y: 50 }, { x: 300, y: 100 },
+          { x: 350, y: 150 }, { x: 450, y: 150 }, { x: 500, y: 100 } // 7th point goes to additionalPoints
+        ]
+      };
+      const packed = encodeObject(curve);
+      await encodingTest.storeArt(600, [{ base: packed.base, additionalPoints: packed.additionalPoints }]);
+      
+      const [baseObjects, allPoints] = await encodingTest.unpackArt(600);
+      expect(baseObjects[0].shape).to.equal(6);
+      expect(allPoints[0].map(p => ({ x: Number(p.x), y: Number(p.y) }))).to.deep.equal(curve.points);
+    });
+    
+    it("Should reject curves with a dangling point or no stroke", async function () {
+      const base = { shape: 6, color: hexToBytes3("#000000"), stroke: 2 };
+      
+      for (const length of [2, 5]) {
+        const packed = encodeObject({ ...base, points: Array.from({ length }, (_, i) => ({ x: i, y: i })) });
+        await expect(encodingTest.testGetBaseObject(packed.base))
+          .to.be.revertedWithCustomError(encodingTest, "InvalidPoints").withArgs(length);
+      }
+      
+      const noStroke = encodeObject({ ...base, stroke: 0, points: [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }] });
+      await expect(encodingTest.testGetBaseObject(noStroke.base))
+        .to.be.revertedWithCustomError(encodingTest, "InvalidStroke").withArgs(0);
+    });
+    
+    it("Should render cubic and quadratic segments", async function () {
+      const base = { shape: 6, color: hexToBytes3("#000000"), stroke: 4 };
+      
+      expect(await render({ ...base, points: [{ x: 0, y: 0 }, { x: 10, y: -10 }, { x: 20, y: 0 }] }))
+        .to.equal('<path stroke-linecap="round" stroke-linejoin="round" fill="none" stroke="#000000" stroke-width="4" d="M0 0 Q10 -10 20 0"/>');
+      
+      expect(await render({
+        ...base,
+        points: [{ x: 0, y: 0 }, { x: 1, y: 2 }, { x: 3, y: 4 }, { x: 5, y: 6 }, { x: 7, y: 8 }, { x: 9, y: 10 }]
+      })).to.equal('<path stroke-linecap="round" stroke-linejoin="round" fill="none" stroke="#000000" stroke-width="4" d="M0 0 C1 2 3 4 5 6 Q7 8 9 10"/>');
+    });
+    
+    it("Should fit a dense stroke with far fewer points", async function () {
+      // a freehand arc sampled every pixel or so
+      const stroke = Array.from({ length: 200 }, (_, i) => {
+        const angle = (i / 199) * Math.PI;
+        return { x: Math.round(500 - 300 * Math.cos(angle)), y: Math.round(500 - 200 * Math.sin(angle)) };
+      });
+      
+      const fitted = fitCurve(stroke, 2);
+      expect(fitted.length).to.be.lessThan(stroke.length / 10);
+      expect((fitted.length - 1) % 3).to.equal(0);
+      expect(fitted[0]).to.deep.equal(stroke[0]);
+      expect(fitted[fitted.length - 1]).to.deep.equal(stroke[stroke.length - 1]);
+      
+      const curve = strokeToCurve({ shape: 5, color: hexToBytes3("#000000"), stroke: 3, points: stroke });
+      expect(curve.shape).to.equal(6);
+      expect(await render(curve)).to.match(/d="M200 500( C-?\d+ -?\d+ -?\d+ -?\d+ -?\d+ -?\d+)+"/);
+    });
+    
+    it("Should keep short strokes as paths", async function () {
+      const path: ObjectStruct = { shape: 5, color: hexToBytes3("#000000"), stroke: 3, points: [{ x: 0, y: 0 }, { x: 10, y: 10 }] };
+      expect(strokeToCurve(path)).to.equal(path);
+    });
+  });
 });
@@ -9,7 +9,7 @@ interface Point {
 }
 
 interface ObjectStruct {
-  shape: number; // Path enum: 0=rect, 1=line, 2=ellipse, 3=polyline, 4=polygon, 5=path
+  shape: number; // Path enum: 0=rect, 1=line, 2=ellipse, 3=polyline, 4=polygon, 5=path, 6=curve
   color: string; // hex color as bytes3
   stroke: number; // uint8
   points: Point[];
@@ -90,6 +90,16 @@ function encodeObject(obj: ObjectStruct): Object {
   };
 }
 
+// traits come from the hash of the block after the mint, mine it and reveal so the tokens can be painted
+async function mintRevealed(nft: ColourMeNFT, to: string, quantity: number) {
+  const firstTokenId = Number(await nft.tokenCount()) + 1;
+  await nft.mint(to, quantity);
+  await ethers.provider.send("evm_mine", []);
+  for (let tokenId = firstTokenId; tokenId < firstTokenId + quantity; tokenId++) {
+    await nft.revealTraits(tokenId);
+  }
+}
+
 describe("ColourMeNFT", function () {
   let nft: ColourMeNFT;
   let renderer: ColourMeRenderer;
@@ -134,7 +144,7 @@ describe("ColourMeNFT", function () {
   
   describe("Basic NFT functionality", function () {
     it("Should mint a token with random traits", async function () {
-      await nft.mint(user.address, 1); // quantity = 1
+      await mintRevealed(nft, user.address, 1); // quantity = 1
       
       expect(await nft.ownerOf(1)).to.equal(user.address);
       expect(await nft.tokenCount()).to.equal(1);
@@ -145,10 +155,116 @@ describe("ColourMeNFT", function () {
       expect(traits.shape0).to.be.lessThanOrEqual(3); // shapes 0-3 (rect, line, ellipse, polyline)
     });
   });
-  
+
+  describe("Trait reveal", function () {
+    const tokenId = 1;
+    const blackPath = () => encodeObject({
+      shape: 5, // path
+      color: hexToBytes3("#000000"),
+      stroke: 2,
+      points: [{ x: 100, y: 100 }, { x: 200, y: 200 }]
+    });
+
+    beforeEach(async function () {
+      await nft.mint(user.address, 1);
+    });
+
+    it("Should commit to the block after the mint", async function () {
+      const mintBlock = await ethers.provider.getBlockNumber();
+      expect(await nft.revealBlock(tokenId)).to.equal(mintBlock + 1);
+
+      const traits = await nft.traits(tokenId);
+      expect(traits.color0).to.equal("0x000000");
+      expect(traits.polygon).to.equal(0);
+    });
+
+    it("Should show a placeholder palette until revealed", async function () {
+      const placeholder = await nft.traitSVG(tokenId);
+      expect(ethers.toUtf8String(placeholder)).to.include("444444");
+
+      const uri = JSON.parse(await nft.tokenURI(tokenId));
+      expect(uri.attributes).to.deep.include({ trait_type: "Traits", value: "Unrevealed" });
+
+      await ethers.provider.send("evm_mine", []);
+      await nft.revealTraits(tokenId);
+      const { color0, color1, color2, color3, color4, shape0, shape1, polygon } = await nft.traits(tokenId);
+      const traits = { color0, color1, color2, color3, color4, shape0, shape1, polygon };
+      expect(await nft.traitSVG(tokenId)).to.equal(await renderer.renderTrait(traits));
+      expect(await nft.traitSVG(tokenId)).to.not.equal(placeholder);
+    });
+
+    it("Should not reveal before the committed block is mined", async function () {
+      const target = await nft.revealBlock(tokenId);
+      await expect(nft.revealTraits(tokenId))
+        .to.be.revertedWithCustomError(nft, "TraitsNotRevealed").withArgs(tokenId, target);
+    });
+
+    it("Should reveal traits from the committed block hash", async function () {
+      await ethers.provider.send("evm_mine", []);
+      await expect(nft.connect(owner).revealTraits(tokenId))
+        .to.emit(nft, "TraitsRevealed").withArgs(tokenId)
+        .and.to.emit(nft, "MetadataUpdate").withArgs(tokenId);
+
+      expect(await nft.revealBlock(tokenId)).to.equal(0);
+      const traits = await nft.traits(tokenId);
+      expect([3n, 5n, 6n]).to.include(traits.polygon);
+      expect(traits.shape0).to.not.equal(traits.shape1);
+
+      await expect(nft.revealTraits(tokenId))
+        .to.be.revertedWithCustomError(nft, "TraitsAlreadyRevealed").withArgs(tokenId);
+    });
+
+    it("Should reveal on the first paint", async function () {
+      await expect(nft.connect(user).setArt(tokenId, [blackPath()]))
+        .to.be.revertedWithCustomError(nft, "TraitsNotRevealed");
+
+      await ethers.provider.send("evm_mine", []);
+      await expect(nft.connect(user).setArt(tokenId, [blackPath()]))
+        .to.emit(nft, "TraitsRevealed").withArgs(tokenId);
+      expect(await nft.revealBlock(tokenId)).to.equal(0);
+    });
+
+    it("Should reveal from a fixed seed once the hash has expired", async function () {
+      const traitsAfter = async (blocks: number) => {
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        await ethers.provider.send("hardhat_mine", [ethers.toQuantity(blocks)]);
+        await expect(nft.revealTraits(tokenId)).to.emit(nft, "TraitsRevealed").withArgs(tokenId);
+        expect(await nft.revealBlock(tokenId)).to.equal(0);
+        const { color0, color1, color2, color3, color4, shape0, shape1, polygon } = await nft.traits(tokenId);
+        await ethers.provider.send("evm_revert", [snapshot]);
+        return { color0, color1, color2, color3, color4, shape0, shape1, polygon };
+      };
+
+      // waiting the hash out longer can't reroll the traits
+      const expired = await traitsAfter(300);
+      expect([3n, 5n, 6n]).to.include(expired.polygon);
+      expect(await traitsAfter(1000)).to.deep.equal(expired);
+    });
+
+    it("Should reveal and save on the first paint after the hash has expired", async function () {
+      await ethers.provider.send("hardhat_mine", ["0x12c"]); // 300 blocks
+
+      await expect(nft.connect(user).setArt(tokenId, [blackPath()]))
+        .to.emit(nft, "TraitsRevealed").withArgs(tokenId)
+        .and.to.emit(nft, "ArtSaved").withArgs(tokenId, user.address);
+      expect(await nft.revealBlock(tokenId)).to.equal(0);
+      expect(await nft.artLength(tokenId)).to.equal(1);
+      expect(await nft.artVersionCount(tokenId)).to.equal(1);
+    });
+
+    it("Should not reveal once the canvas is finalized", async function () {
+      await nft.connect(user).finalizeArt(tokenId);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(nft.revealTraits(tokenId))
+        .to.be.revertedWithCustomError(nft, "CanvasFinalized").withArgs(tokenId);
+      expect(ethers.toUtf8String(await nft.traitSVG(tokenId))).to.include("444444");
+    });
+  });
+
   describe(" object validation", function () {
     beforeEach(async function () {
-      await nft.mint(user.address, 1); // quantity = 1
+      await mintRevealed(nft, user.address, 1); // quantity = 1
     });
     
     it("Should validate basic packed object structure", async function () {
@@ -227,7 +343,7 @@ describe("ColourMeNFT", function () {
     let traits: any;
     
     beforeEach(async function () {
-      await nft.mint(user.address, 1); // quantity = 1
+      await mintRevealed(nft, user.address, 1); // quantity = 1
       tokenId = 1n;
       traits = await nft.traits(tokenId);
     });
@@ -409,13 +525,101 @@ describe("ColourMeNFT", function () {
         nft.connect(user).setArt(tokenId, [{ base: packedInvalid.base, additionalPoints: packedInvalid.additionalPoints }])
       ).to.be.revertedWithCustomError(nft, "InvalidPoints");
     });
+    
+    it("Should allow curves on every token", async function () {
+      const curve: ObjectStruct = {
+        shape: 6, // curve
+        color: hexToBytes3("#000000"),
+        stroke: 3,
+        points: [{ x: 100, y: 100 }, { x: 150, y: 50 }, { x: 250, y: 50 }, { x: 300, y: 100 }]
+      };
+      
+      await nft.connect(user).setArt(tokenId, [encodeObject(curve)]);
+      expect(await nft.tokenSVG(tokenId)).to.include('d="M100 100 C150 50 250 50 300 100"');
+      
+      await expect(
+        nft.connect(user).appendArt(tokenId, [encodeObject({ ...curve, points: curve.points.slice(0, 2) })])
+      ).to.be.revertedWithCustomError(nft, "InvalidPoints").withArgs(2);
+      await expect(
+        nft.connect(user).appendArt(tokenId, [encodeObject({ ...curve, points: [...curve.points, { x: 350, y: 150 }] })])
+      ).to.be.revertedWithCustomError(nft, "InvalidPoints").withArgs(5);
+      await expect(
+        nft.connect(user).appendArt(tokenId, [encodeObject({ ...curve, stroke: 0 })])
+      ).to.be.revertedWithCustomError(nft, "InvalidStroke").withArgs(0);
+    });
+  });
+  
+  describe("Canvas bounds", function () {
+    const tokenId = 1;
+    
+    // paths and black are allowed on every token, so only the bounds decide
+    const line = (points: Point[], stroke = 2): Object => encodeObject({
+      shape: 5, // path
+      color: hexToBytes3("#000000"),
+      stroke,
+      points
+    });
+    
+    beforeEach(async function () {
+      await mintRevealed(nft, user.address, 1);
+    });
+    
+    it("Should default to the template's drawing region", async function () {
+      const canvas = await nft.canvas();
+      expect([canvas.x, canvas.y, canvas.width, canvas.height]).to.deep.equal([10n, 90n, 980n, 900n]);
+    });
+    
+    it("Should reject objects fully outside the canvas", async function () {
+      await expect(
+        nft.connect(user).setArt(tokenId, [line([{ x: -500, y: -500 }, { x: -400, y: -400 }])])
+      ).to.be.revertedWithCustomError(nft, "OutOfCanvas").withArgs(-501, -501, -399, -399);
+      
+      await expect(
+        nft.connect(user).appendArt(tokenId, [line([{ x: 100, y: 2000 }, { x: 200, y: 32767 }])])
+      ).to.be.revertedWithCustomError(nft, "OutOfCanvas");
+      
+      // stroke padding counts, a line 2px above the canvas with a 4px stroke still touches it
+      await expect(
+        nft.connect(user).appendArt(tokenId, [line([{ x: 100, y: 86 }, { x: 200, y: 86 }], 4)])
+      ).to.be.revertedWithCustomError(nft, "OutOfCanvas").withArgs(98, 84, 202, 88);
+      await nft.connect(user).appendArt(tokenId, [line([{ x: 100, y: 88 }, { x: 200, y: 88 }], 4)]);
+    });
+    
+    it("Should accept objects that overlap the canvas", async function () {
+      await nft.connect(user).setArt(tokenId, [
+        line([{ x: -100, y: 500 }, { x: 50, y: 500 }]),
+        line([{ x: 500, y: 500 }, { x: 1500, y: 1500 }])
+      ]);
+      expect(await nft.artLength(tokenId)).to.equal(2);
+    });
+    
+    it("Should let the owner move the canvas", async function () {
+      await expect(
+        nft.connect(user).setCanvas({ x: 0, y: 0, width: 100, height: 100 })
+      ).to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount").withArgs(user.address);
+      await expect(
+        nft.setCanvas({ x: 0, y: 0, width: 0, height: 100 })
+      ).to.be.revertedWithCustomError(nft, "InvalidCanvas");
+      
+      await expect(nft.setCanvas({ x: 0, y: 0, width: 100, height: 100 }))
+        .to.emit(nft, "CanvasUpdated").withArgs([0, 0, 100, 100])
+        .and.to.emit(nft, "BatchMetadataUpdate").withArgs(1, 1);
+      
+      await expect(
+        nft.connect(user).setArt(tokenId, [line([{ x: 500, y: 500 }, { x: 600, y: 600 }])])
+      ).to.be.revertedWithCustomError(nft, "OutOfCanvas");
+      await nft.connect(user).setArt(tokenId, [line([{ x: 50, y: 50 }, { x: 60, y: 60 }])]);
+      
+      // the art only SVG frames the new region
+      expect(await nft.tokenArtSVG(tokenId)).to.include('width="100" height="100" viewBox="0 0 100 100">');
+    });
   });
   
   describe("Art storage and retrieval", function () {
     let tokenId: number;
     
     beforeEach(async function () {
-      await nft.mint(user.address, 1); // quantity = 1
+      await mintRevealed(nft, user.address, 1); // quantity = 1
       tokenId = 1;
     });
     
@@ -519,11 +723,672 @@ describe("ColourMeNFT", function () {
     });
   });
   
+  describe("Paged art reads", function () {
+    let tokenId: number;
+    let packedArt: Object[];
+    
+    beforeEach(async function () {
+      await mintRevealed(nft, user.address, 1); // quantity = 1
+      tokenId = 1;
+      
+      packedArt = [0, 1, 2, 3, 4].map(i => encodeObject({
+        shape: 5, // path
+        color: hexToBytes3("#000000"),
+        stroke: i + 1,
+        points: [{ x: 100 + i * 10, y: 100 }, { x: 200, y: 200 + i * 10 }]
+      }));
+      await nft.connect(user).setArt(tokenId, packedArt);
+    });
+    
+    it("Should report the art length", async function () {
+      expect(await nft.artLength(tokenId)).to.equal(5);
+      expect(await nft.artLength(2)).to.equal(0);
+    });
+    
+    it("Should return a page of objects", async function () {
+      const page = await nft.getArt(tokenId, 1, 2);
+      expect(page.map(object => object.base)).to.deep.equal([packedArt[1].base, packedArt[2].base]);
+    });
+    
+    it("Should clamp the count to the end of the art", async function () {
+      expect((await nft.getArt(tokenId, 3, 10)).length).to.equal(2);
+      expect((await nft.getArt(tokenId, 5, 10)).length).to.equal(0);
+      
+      await expect(nft.getArt(tokenId, 6, 1))
+        .to.be.revertedWithCustomError(nft, "OutOfBounds").withArgs(6, 5);
+    });
+    
+    it("Should stitch ranges back into the full SVG", async function () {
+      const ranges = [
+        await nft.renderObjectsRange(tokenId, 0, 2),
+        await nft.renderObjectsRange(tokenId, 2, 2),
+        await nft.renderObjectsRange(tokenId, 4, 2)
+      ];
+      
+      const svg = ethers.toUtf8String(await nft.svgStart()) +
+        ethers.toUtf8String(await nft.traitSVG(tokenId)) +
+        `<g id="drawing-area" clip-path="url(#canvas-clip)" data-token="${tokenId}">` +
+        ranges.join("") +
+        '</g>' +
+        ethers.toUtf8String(await nft.svgEnd());
+      
+      expect(svg).to.equal(await nft.tokenSVG(tokenId));
+    });
+    
+    it("Should reject ranges for tokens that don't exist", async function () {
+      await expect(nft.renderObjectsRange(2, 0, 1))
+        .to.be.revertedWithCustomError(nft, "ERC721NonexistentToken").withArgs(2);
+    });
+  });
+  
+  describe("Art permissions", function () {
+    let tokenId: number;
+    let stranger: any;
+    let packedArt: Object[];
+    
+    beforeEach(async function () {
+      [, , stranger] = await ethers.getSigners();
+      await mintRevealed(nft, user.address, 1); // quantity = 1
+      tokenId = 1;
+      
+      packedArt = [encodeObject({
+        shape: 5, // path
+        color: hexToBytes3("#000000"),
+        stroke: 2,
+        points: [{ x: 100, y: 100 }, { x: 200, y: 200 }]
+      })];
+    });
+    
+    it("Should reject setArt from a third party", async function () {
+      await expect(
+        nft.connect(stranger).setArt(tokenId, packedArt)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner").withArgs(tokenId, stranger.address);
+    });
+    
+    it("Should reject appendArt from a third party", async function () {
+      await expect(
+        nft.connect(stranger).appendArt(tokenId, packedArt)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner").withArgs(tokenId, stranger.address);
+    });
+    
+    it("Should not let a third party wipe existing art", async function () {
+      await nft.connect(user).setArt(tokenId, packedArt);
+      
+      await expect(
+        nft.connect(stranger).setArt(tokenId, [])
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner");
+      
+      // Art is untouched
+      const art = await nft.art(tokenId, 0);
+      expect(art.base).to.equal(packedArt[0].base);
+    });
+    
+    it("Should reject the contract owner if they do not own the token", async function () {
+      await expect(
+        nft.connect(owner).setArt(tokenId, packedArt)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner");
+    });
+    
+    it("Should allow the token's approved address", async function () {
+      await nft.connect(user).approve(stranger.address, tokenId);
+      
+      await nft.connect(stranger).setArt(tokenId, packedArt);
+      await nft.connect(stranger).appendArt(tokenId, packedArt);
+      
+      const art = await nft.art(tokenId, 1);
+      expect(art.base).to.equal(packedArt[0].base);
+    });
+    
+    it("Should allow an approved operator", async function () {
+      await nft.connect(user).setApprovalForAll(stranger.address, true);
+      
+      await nft.connect(stranger).setArt(tokenId, packedArt);
+      
+      const art = await nft.art(tokenId, 0);
+      expect(art.base).to.equal(packedArt[0].base);
+    });
+    
+    it("Should revoke access when approval is removed", async function () {
+      await nft.connect(user).setApprovalForAll(stranger.address, true);
+      await nft.connect(user).setApprovalForAll(stranger.address, false);
+      
+      await expect(
+        nft.connect(stranger).appendArt(tokenId, packedArt)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner");
+    });
+    
+    it("Should follow the token on transfer", async function () {
+      await nft.connect(user).transferFrom(user.address, stranger.address, tokenId);
+      
+      await expect(
+        nft.connect(user).setArt(tokenId, packedArt)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner");
+      await nft.connect(stranger).setArt(tokenId, packedArt);
+    });
+    
+    it("Should reject art for tokens that do not exist", async function () {
+      await expect(
+        nft.connect(user).setArt(999, packedArt)
+      ).to.be.revertedWithCustomError(nft, "ERC721NonexistentToken");
+    });
+  });
+  
+  describe("Collaborators", function () {
+    const NO_EXPIRY = 2n ** 64n - 1n;
+    let tokenId: number;
+    let collaborator: any;
+    let stranger: any;
+    let packedArt: Object[];
+    
+    beforeEach(async function () {
+      [, , collaborator, stranger] = await ethers.getSigners();
+      await mintRevealed(nft, user.address, 1); // quantity = 1
+      tokenId = 1;
+      
+      packedArt = [encodeObject({
+        shape: 5, // path
+        color: hexToBytes3("#000000"),
+        stroke: 2,
+        points: [{ x: 100, y: 100 }, { x: 200, y: 200 }]
+      })];
+    });
+    
+    it("Should let the owner grant painting rights", async function () {
+      await expect(
+        nft.connect(user).setCollaborator(tokenId, collaborator.address, NO_EXPIRY, 0)
+      ).to.emit(nft, "CollaboratorSet").withArgs(tokenId, collaborator.address, NO_EXPIRY, 0);
+      
+      expect(await nft.isCollaborator(tokenId, collaborator.address)).to.equal(true);
+      
+      await expect(
+        nft.connect(collaborator).appendArt(tokenId, packedArt)
+      ).to.emit(nft, "ArtSaved").withArgs(tokenId, collaborator.address);
+    });
+    
+    it("Should reject grants from anyone but the owner, approved address or operator", async function () {
+      await expect(
+        nft.connect(stranger).setCollaborator(tokenId, stranger.address, NO_EXPIRY, 0)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner");
+      
+      // Collaborators cannot hand out further grants
+      await nft.connect(user).setCollaborator(tokenId, collaborator.address, NO_EXPIRY, 0);
+      await expect(
+        nft.connect(collaborator).setCollaborator(tokenId, stranger.address, NO_EXPIRY, 0)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner");
+    });
+    
+    it("Should not let collaborators replace the canvas", async function () {
+      await nft.connect(user).setCollaborator(tokenId, collaborator.address, NO_EXPIRY, 0);
+      
+      await expect(
+        nft.connect(collaborator).setArt(tokenId, packedArt)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner");
+    });
+    
+    it("Should revoke rights when expiry is set to zero", async function () {
+      await nft.connect(user).setCollaborator(tokenId, collaborator.address, NO_EXPIRY, 0);
+      await nft.connect(user).setCollaborator(tokenId, collaborator.address, 0, 0);
+      
+      expect(await nft.isCollaborator(tokenId, collaborator.address)).to.equal(false);
+      await expect(
+        nft.connect(collaborator).appendArt(tokenId, packedArt)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner");
+    });
+    
+    it("Should expire rights after the expiry timestamp", async function () {
+      const latest = await ethers.provider.getBlock("latest");
+      const expiry = BigInt(latest!.timestamp) + 100n;
+      await nft.connect(user).setCollaborator(tokenId, collaborator.address, expiry, 0);
+      
+      await nft.connect(collaborator).appendArt(tokenId, packedArt);
+      
+      await ethers.provider.send("evm_increaseTime", [200]);
+      await ethers.provider.send("evm_mine", []);
+      
+      await expect(
+        nft.connect(collaborator).appendArt(tokenId, packedArt)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner");
+    });
+    
+    it("Should cap the number of objects a collaborator can add", async function () {
+      await nft.connect(user).setCollaborator(tokenId, collaborator.address, NO_EXPIRY, 2);
+      
+      await nft.connect(collaborator).appendArt(tokenId, packedArt);
+      await expect(
+        nft.connect(collaborator).appendArt(tokenId, [packedArt[0], packedArt[0]])
+      ).to.be.revertedWithCustomError(nft, "CollaboratorLimitReached").withArgs(tokenId, collaborator.address, 2);
+      await nft.connect(collaborator).appendArt(tokenId, packedArt);
+      
+      const grant = await nft.collaborators(tokenId, collaborator.address);
+      expect(grant.objectsAdded).to.equal(2);
+      
+      // A fresh grant resets the count
+      await nft.connect(user).setCollaborator(tokenId, collaborator.address, NO_EXPIRY, 2);
+      await nft.connect(collaborator).appendArt(tokenId, packedArt);
+    });
+    
+    it("Should drop grants when the token changes hands", async function () {
+      await nft.connect(user).setCollaborator(tokenId, collaborator.address, NO_EXPIRY, 0);
+      await nft.connect(user).transferFrom(user.address, stranger.address, tokenId);
+      
+      expect(await nft.isCollaborator(tokenId, collaborator.address)).to.equal(false);
+      await expect(
+        nft.connect(collaborator).appendArt(tokenId, packedArt)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner");
+    });
+    
+    it("Should scope grants to a single token", async function () {
+      await mintRevealed(nft, user.address, 1); // token 2
+      await nft.connect(user).setCollaborator(tokenId, collaborator.address, NO_EXPIRY, 0);
+      
+      await expect(
+        nft.connect(collaborator).appendArt(2, packedArt)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner");
+    });
+  });
+  
+  describe("Art removal", function () {
+    let tokenId: number;
+    let collaborator: any;
+    let packedArt: Object[];
+    
+    // read back the stored bases in order, art(tokenId, i) reverts past the end
+    async function storedBases(): Promise<bigint[]> {
+      const bases: bigint[] = [];
+      while (true) {
+        try {
+          bases.push((await nft.art(tokenId, bases.length)).base);
+        } catch {
+          return bases;
+        }
+      }
+    }
+    
+    beforeEach(async function () {
+      [, , collaborator] = await ethers.getSigners();
+      await mintRevealed(nft, user.address, 1); // quantity = 1
+      tokenId = 1;
+      
+      // five distinguishable strokes
+      packedArt = [1, 2, 3, 4, 5].map(stroke => encodeObject({
+        shape: 5, // path
+        color: hexToBytes3("#000000"),
+        stroke,
+        points: [{ x: 100, y: 100 }, { x: 200, y: 200 }]
+      }));
+      await nft.connect(user).setArt(tokenId, packedArt);
+    });
+    
+    it("Should truncate art to a shorter length", async function () {
+      await expect(
+        nft.connect(user).truncateArt(tokenId, 3)
+      ).to.emit(nft, "ArtTruncated").withArgs(tokenId, user.address, 3);
+      
+      expect(await storedBases()).to.deep.equal(packedArt.slice(0, 3).map(o => BigInt(o.base)));
+    });
+    
+    it("Should truncate art to nothing", async function () {
+      await nft.connect(user).truncateArt(tokenId, 0);
+      expect(await storedBases()).to.deep.equal([]);
+    });
+    
+    it("Should reject truncating past the end", async function () {
+      await expect(
+        nft.connect(user).truncateArt(tokenId, 6)
+      ).to.be.revertedWithCustomError(nft, "OutOfBounds").withArgs(6, 5);
+    });
+    
+    it("Should remove objects and keep the drawing order", async function () {
+      await expect(
+        nft.connect(user).removeArt(tokenId, [1, 3])
+      ).to.emit(nft, "ArtRemoved").withArgs(tokenId, user.address, [1, 3]);
+      
+      expect(await storedBases()).to.deep.equal([0, 2, 4].map(i => BigInt(packedArt[i].base)));
+    });
+    
+    it("Should remove the first and last objects", async function () {
+      await nft.connect(user).removeArt(tokenId, [0, 4]);
+      expect(await storedBases()).to.deep.equal([1, 2, 3].map(i => BigInt(packedArt[i].base)));
+    });
+    
+    it("Should reject out of range, repeated or unordered indices", async function () {
+      await expect(
+        nft.connect(user).removeArt(tokenId, [5])
+      ).to.be.revertedWithCustomError(nft, "OutOfBounds").withArgs(5, 5);
+      await expect(
+        nft.connect(user).removeArt(tokenId, [2, 2])
+      ).to.be.revertedWithCustomError(nft, "OutOfBounds").withArgs(2, 5);
+      await expect(
+        nft.connect(user).removeArt(tokenId, [3, 1])
+      ).to.be.revertedWithCustomError(nft, "OutOfBounds").withArgs(1, 5);
+      await expect(
+        nft.connect(user).removeArt(tokenId, [])
+      ).to.be.revertedWithCustomError(nft, "InvalidQuantity");
+      
+      expect(await storedBases()).to.have.length(5);
+    });
+    
+    it("Should only let the owner, approved address or operator remove art", async function () {
+      const NO_EXPIRY = 2n ** 64n - 1n;
+      await nft.connect(user).setCollaborator(tokenId, collaborator.address, NO_EXPIRY, 0);
+      
+      await expect(
+        nft.connect(collaborator).truncateArt(tokenId, 0)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner").withArgs(tokenId, collaborator.address);
+      await expect(
+        nft.connect(collaborator).removeArt(tokenId, [0])
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner").withArgs(tokenId, collaborator.address);
+      
+      await nft.connect(user).approve(collaborator.address, tokenId);
+      await nft.connect(collaborator).removeArt(tokenId, [0]);
+      expect(await storedBases()).to.have.length(4);
+    });
+  });
+  
+  describe("Art versions", function () {
+    let tokenId: number;
+    let first: Object;
+    let second: Object;
+    let third: Object;
+    
+    beforeEach(async function () {
+      await mintRevealed(nft, user.address, 1); // quantity = 1
+      tokenId = 1;
+      
+      [first, second, third] = [100, 300, 500].map(x => encodeObject({
+        shape: 5, // path
+        color: hexToBytes3("#000000"),
+        stroke: 2,
+        points: [{ x, y: 100 }, { x: x + 50, y: 150 }]
+      }));
+    });
+    
+    it("Should start with no versions", async function () {
+      expect(await nft.artVersionCount(tokenId)).to.equal(0);
+      await expect(
+        nft.tokenSVGAtVersion(tokenId, 0)
+      ).to.be.revertedWithCustomError(nft, "OutOfBounds").withArgs(0, 0);
+    });
+    
+    it("Should open a new version on every setArt", async function () {
+      await nft.connect(user).setArt(tokenId, [first]);
+      await nft.connect(user).setArt(tokenId, [second]);
+      
+      expect(await nft.artVersionCount(tokenId)).to.equal(2);
+      expect(await nft.tokenSVGAtVersion(tokenId, 0)).to.include('d="M100 100 L150 150"');
+      expect(await nft.tokenSVGAtVersion(tokenId, 0)).to.not.include('d="M300 100 L350 150"');
+      expect(await nft.tokenSVGAtVersion(tokenId, 1)).to.include('d="M300 100 L350 150"');
+      expect(await nft.tokenSVGAtVersion(tokenId, 1)).to.not.include('d="M100 100 L150 150"');
+    });
+    
+    it("Should extend the latest version on appendArt", async function () {
+      await nft.connect(user).setArt(tokenId, [first]);
+      await nft.connect(user).setArt(tokenId, [second]);
+      await nft.connect(user).appendArt(tokenId, [third]);
+      
+      expect(await nft.artVersionCount(tokenId)).to.equal(2);
+      expect(await nft.tokenSVGAtVersion(tokenId, 0)).to.not.include('d="M500 100 L550 150"');
+      expect(await nft.tokenSVGAtVersion(tokenId, 1)).to.include('d="M500 100 L550 150"');
+    });
+    
+    it("Should open the first version when appending to a blank canvas", async function () {
+      await nft.connect(user).appendArt(tokenId, [first]);
+      await nft.connect(user).appendArt(tokenId, [second]);
+      
+      expect(await nft.artVersionCount(tokenId)).to.equal(1);
+      expect(await nft.tokenSVGAtVersion(tokenId, 0)).to.include('d="M300 100 L350 150"');
+    });
+    
+    it("Should render the latest version as the token SVG", async function () {
+      await nft.connect(user).setArt(tokenId, [first]);
+      await nft.connect(user).setArt(tokenId, [second, third]);
+      
+      expect(await nft.tokenSVG(tokenId)).to.equal(await nft.tokenSVGAtVersion(tokenId, 1));
+      expect((await nft.art(tokenId, 0)).base).to.equal(second.base);
+      await expect(
+        nft.tokenSVGAtVersion(tokenId, 2)
+      ).to.be.revertedWithCustomError(nft, "OutOfBounds").withArgs(2, 2);
+    });
+    
+    it("Should only edit the latest version on truncate", async function () {
+      await nft.connect(user).setArt(tokenId, [first]);
+      await nft.connect(user).setArt(tokenId, [second, third]);
+      await nft.connect(user).truncateArt(tokenId, 1);
+      
+      expect(await nft.tokenSVGAtVersion(tokenId, 0)).to.include('d="M100 100 L150 150"');
+      expect(await nft.tokenSVGAtVersion(tokenId, 1)).to.not.include('d="M500 100 L550 150"');
+    });
+  });
+  
+  describe("Finalization", function () {
+    let tokenId: number;
+    let stranger: any;
+    let packedArt: Object[];
+    
+    beforeEach(async function () {
+      [, , stranger] = await ethers.getSigners();
+      await mintRevealed(nft, user.address, 1); // quantity = 1
+      tokenId = 1;
+      
+      packedArt = [encodeObject({
+        shape: 5, // path
+        color: hexToBytes3("#000000"),
+        stroke: 2,
+        points: [{ x: 100, y: 100 }, { x: 200, y: 200 }]
+      })];
+      await nft.connect(user).setArt(tokenId, packedArt);
+    });
+    
+    it("Should record the finalization block", async function () {
+      const tx = await nft.connect(user).finalizeArt(tokenId);
+      const receipt = await tx.wait();
+      
+      await expect(tx).to.emit(nft, "ArtFinalized").withArgs(tokenId, user.address, receipt!.blockNumber);
+      expect(await nft.finalizedAt(tokenId)).to.equal(receipt!.blockNumber);
+    });
+    
+    it("Should lock the art once finalized", async function () {
+      await nft.connect(user).finalizeArt(tokenId);
+      
+      await expect(
+        nft.connect(user).setArt(tokenId, packedArt)
+      ).to.be.revertedWithCustomError(nft, "CanvasFinalized").withArgs(tokenId);
+      await expect(
+        nft.connect(user).appendArt(tokenId, packedArt)
+      ).to.be.revertedWithCustomError(nft, "CanvasFinalized").withArgs(tokenId);
+      await expect(
+        nft.connect(user).truncateArt(tokenId, 0)
+      ).to.be.revertedWithCustomError(nft, "CanvasFinalized").withArgs(tokenId);
+      await expect(
+        nft.connect(user).removeArt(tokenId, [0])
+      ).to.be.revertedWithCustomError(nft, "CanvasFinalized").withArgs(tokenId);
+      await expect(
+        nft.connect(user).finalizeArt(tokenId)
+      ).to.be.revertedWithCustomError(nft, "CanvasFinalized").withArgs(tokenId);
+    });
+    
+    it("Should keep the art locked after a transfer", async function () {
+      await nft.connect(user).finalizeArt(tokenId);
+      await nft.connect(user).transferFrom(user.address, stranger.address, tokenId);
+      
+      await expect(
+        nft.connect(stranger).appendArt(tokenId, packedArt)
+      ).to.be.revertedWithCustomError(nft, "CanvasFinalized").withArgs(tokenId);
+    });
+    
+    it("Should only let the owner, approved address or operator finalize", async function () {
+      await expect(
+        nft.connect(stranger).finalizeArt(tokenId)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner").withArgs(tokenId, stranger.address);
+      await expect(
+        nft.connect(owner).finalizeArt(tokenId)
+      ).to.be.revertedWithCustomError(nft, "NotCanvasOwner").withArgs(tokenId, owner.address);
+    });
+    
+    it("Should add the status and block to the attributes", async function () {
+      const open = JSON.parse(await nft.tokenURI(tokenId));
+      expect(open.attributes.map((a: any) => a.trait_type)).to.not.include("Status");
+      
+      const receipt = await (await nft.connect(user).finalizeArt(tokenId)).wait();
+      const finalized = JSON.parse(await nft.tokenURI(tokenId));
+      
+      expect(finalized.attributes).to.deep.include({ trait_type: "Status", value: "Finalized" });
+      expect(finalized.attributes).to.deep.include({
+        display_type: "number",
+        trait_type: "Finalized Block",
+        value: receipt!.blockNumber
+      });
+    });
+  });
+  
+  describe("Owner configuration", function () {
+    it("Should update the mint config and emit the new values", async function () {
+      const price = ethers.parseEther("0.01");
+      
+      await expect(nft.setMintPrice(price)).to.emit(nft, "MintConfigUpdated");
+      await nft.setMintLimit(3);
+      await nft.setMintStart(1000);
+      await expect(nft.setMintDuration(2000)).to.emit(nft, "MintConfigUpdated")
+        .withArgs([price, 3, 0, 1000, 2000, 1000, 0]);
+      
+      const config = await nft.getMintConfig();
+      expect(config.price).to.equal(price);
+      expect(config.limit).to.equal(3);
+      expect(config.start).to.equal(1000);
+      expect(config.duration).to.equal(2000);
+      
+      const info = await nft.getProjectInfo();
+      expect(info[5]).to.equal(price);
+      expect(info[6]).to.equal(3);
+    });
+    
+    it("Should apply new mint settings to the next mint", async function () {
+      const price = ethers.parseEther("0.01");
+      await nft.setMintPrice(price);
+      await nft.setMintLimit(2);
+      
+      await expect(
+        nft.mint(user.address, 3, { value: price * 3n })
+      ).to.be.revertedWithCustomError(nft, "InvalidQuantity");
+      await expect(
+        nft.mint(user.address, 1)
+      ).to.be.revertedWithCustomError(nft, "InsufficientPayment").withArgs(price, 0);
+      
+      const latest = (await ethers.provider.getBlock("latest"))!.timestamp;
+      await nft.setMintStart(latest + 3600);
+      await expect(
+        nft.mint(user.address, 1, { value: price })
+      ).to.be.revertedWithCustomError(nft, "MintingClosed").withArgs("Mint not started");
+    });
+    
+    it("Should update the base URL", async function () {
+      await mintRevealed(nft, user.address, 1);
+      
+      await expect(nft.setBaseURL("https://new.example.com/"))
+        .to.emit(nft, "BaseURLUpdated").withArgs("https://new.example.com/");
+      
+      const uri = JSON.parse(await nft.tokenURI(1));
+      expect(uri.external_url).to.equal("https://new.example.com/#1");
+    });
+    
+    it("Should swap the renderer", async function () {
+      await mintRevealed(nft, user.address, 1);
+      await nft.connect(user).setArt(1, [encodeObject({
+        shape: 5, // path
+        color: hexToBytes3("#000000"),
+        stroke: 2,
+        points: [{ x: 100, y: 100 }, { x: 200, y: 200 }]
+      })]);
+      const svgBefore = await nft.tokenSVG(1);
+      
+      const RendererFactory = await ethers.getContractFactory("ColourMeRenderer");
+      const newRenderer = await RendererFactory.deploy();
+      await newRenderer.waitForDeployment();
+      
+      await expect(nft.setRenderer(await newRenderer.getAddress()))
+        .to.emit(nft, "RendererUpdated").withArgs(await newRenderer.getAddress());
+      expect(await nft.renderer()).to.equal(await newRenderer.getAddress());
+      expect(await nft.tokenSVG(1)).to.equal(svgBefore);
+    });
+    
+    it("Should reject a renderer without code", async function () {
+      await expect(
+        nft.setRenderer(user.address)
+      ).to.be.revertedWithCustomError(nft, "InvalidRenderer");
+      await expect(
+        nft.setRenderer(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(nft, "InvalidRenderer");
+    });
+    
+    it("Should reject configuration changes from non-owners", async function () {
+      const calls = [
+        nft.connect(user).setMintPrice(0),
+        nft.connect(user).setMintLimit(1),
+        nft.connect(user).setMintStart(0),
+        nft.connect(user).setMintDuration(0),
+        nft.connect(user).setBaseURL("https://evil.example.com/"),
+        nft.connect(user).setRenderer(await renderer.getAddress())
+      ];
+      for (const call of calls) {
+        await expect(call).to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount").withArgs(user.address);
+      }
+    });
+  });
+
+  describe("Metadata updates (ERC-4906)", function () {
+    let packedArt: Object[];
+
+    beforeEach(async function () {
+      await mintRevealed(nft, user.address, 3); // quantity = 3
+      packedArt = [encodeObject({
+        shape: 5, // path
+        color: hexToBytes3("#000000"),
+        stroke: 2,
+        points: [{ x: 100, y: 100 }, { x: 200, y: 200 }]
+      })];
+    });
+
+    it("Should advertise the ERC-4906 interface", async function () {
+      expect(await nft.supportsInterface("0x49064906")).to.be.true;
+      expect(await nft.supportsInterface("0x80ac58cd")).to.be.true; // ERC721
+      expect(await nft.supportsInterface("0x2a55205a")).to.be.true; // ERC2981
+      expect(await nft.supportsInterface("0xffffffff")).to.be.false;
+    });
+
+    it("Should emit MetadataUpdate when art changes", async function () {
+      await expect(nft.connect(user).setArt(2, packedArt)).to.emit(nft, "MetadataUpdate").withArgs(2);
+      await expect(nft.connect(user).appendArt(2, packedArt)).to.emit(nft, "MetadataUpdate").withArgs(2);
+      await expect(nft.connect(user).removeArt(2, [0])).to.emit(nft, "MetadataUpdate").withArgs(2);
+      await expect(nft.connect(user).truncateArt(2, 0)).to.emit(nft, "MetadataUpdate").withArgs(2);
+      await expect(nft.connect(user).finalizeArt(2)).to.emit(nft, "MetadataUpdate").withArgs(2);
+    });
+
+    it("Should emit BatchMetadataUpdate for every minted token when the template changes", async function () {
+      const svgStart = ethers.toUtf8Bytes('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1000 1000">');
+      const svgEnd = ethers.toUtf8Bytes('</svg>');
+
+      await expect(nft.setSVG(svgStart, svgEnd)).to.emit(nft, "BatchMetadataUpdate").withArgs(1, 3);
+      await expect(nft.setBaseURL("https://new.example.com/")).to.emit(nft, "BatchMetadataUpdate").withArgs(1, 3);
+      await expect(nft.setRenderer(await renderer.getAddress())).to.emit(nft, "BatchMetadataUpdate").withArgs(1, 3);
+    });
+
+    it("Should not emit BatchMetadataUpdate before anything is minted", async function () {
+      const NFTFactory = await ethers.getContractFactory("ColourMeNFT");
+      const empty = await NFTFactory.deploy(
+        "ColourMe Empty Test", "CMET", "https://example.com/", 10,
+        await renderer.getAddress(), owner.address, 250, 0, 10, 0, 1
+      );
+      await empty.waitForDeployment();
+
+      await expect(empty.setSVG("0x", "0x")).to.not.emit(empty, "BatchMetadataUpdate");
+    });
+  });
+
   describe("SVG and URI generation", function () {
     let tokenId: number;
     
     beforeEach(async function () {
-      await nft.mint(user.address, 1); // quantity = 1
+      await mintRevealed(nft, user.address, 1); // quantity = 1
       tokenId = 1;
     });
     
@@ -543,7 +1408,8 @@ describe("ColourMeNFT", function () {
       const decoded = JSON.parse(uri);
       expect(decoded.name).to.include("ColourMe Packed Test #1");
       expect(decoded.description).to.be.a('string');
-      expect(decoded.image_data).to.include('data:image/svg+xml;base64,');
+      expect(decoded.image).to.include('data:image/svg+xml;base64,');
+      expect(decoded.animation_url).to.include('data:image/svg+xml;base64,');
       expect(decoded.attributes).to.be.an('array');
     });
     
@@ -568,5 +1434,104 @@ describe("ColourMeNFT", function () {
       expect(svg).to.include('stroke-width="1"');
       expect(svg).to.include('d="M100 100 L200 150"');
     });
+    
+    it("Should render a timelapse revealing one object at a time", async function () {
+      const path: ObjectStruct = {
+        shape: 5, // path
+        color: hexToBytes3("#000000"),
+        stroke: 1,
+        points: [{ x: 100, y: 100 }, { x: 200, y: 150 }]
+      };
+      const curve: ObjectStruct = {
+        shape: 6, // curve
+        color: hexToBytes3("#FFFFFF"),
+        stroke: 2,
+        points: [{ x: 100, y: 100 }, { x: 150, y: 50 }, { x: 250, y: 50 }, { x: 300, y: 100 }]
+      };
+      await nft.connect(user).setArt(tokenId, [encodeObject(path), encodeObject(curve)]);
+      
+      const svg = await nft.tokenSVGAnimated(tokenId, 500);
+      expect(svg).to.include(
+        'stroke="#000000" stroke-width="1" d="M100 100 L200 150" visibility="hidden">' +
+        '<set attributeName="visibility" to="visible" begin="0ms" fill="freeze"/></path>'
+      );
+      expect(svg).to.include(
+        'stroke="#ffffff" stroke-width="2" d="M100 100 C150 50 250 50 300 100" visibility="hidden">' +
+        '<set attributeName="visibility" to="visible" begin="500ms" fill="freeze"/></path>'
+      );
+    });
+    
+    it("Should report art statistics in the attributes", async function () {
+      const attributes = async () => {
+        const uri = JSON.parse(await nft.tokenURI(tokenId));
+        return Object.fromEntries(uri.attributes.map((attr: any) => [attr.trait_type, attr.value]));
+      };
+      
+      // a blank canvas has no stats to speak of and nobody has edited it
+      let stats = await attributes();
+      expect(stats["Objects"]).to.equal(0);
+      expect(stats["Colours Used"]).to.equal(0);
+      expect(stats["Points"]).to.equal(0);
+      expect(stats["Dominant Shape"]).to.equal("None");
+      expect(stats["Last Editor"]).to.be.undefined;
+      
+      const path: ObjectStruct = {
+        shape: 5, // path
+        color: hexToBytes3("#000000"),
+        stroke: 2,
+        points: [{ x: 100, y: 100 }, { x: 200, y: 150 }]
+      };
+      const curve: ObjectStruct = {
+        shape: 6, // curve
+        color: hexToBytes3("#FFFFFF"),
+        stroke: 2,
+        points: [{ x: 100, y: 100 }, { x: 150, y: 50 }, { x: 250, y: 50 }, { x: 300, y: 100 }]
+      };
+      await nft.connect(user).setArt(tokenId, [encodeObject(path), encodeObject(curve), encodeObject(path)]);
+      
+      stats = await attributes();
+      expect(stats["Objects"]).to.equal(3);
+      expect(stats["Colours Used"]).to.equal(2);
+      expect(stats["Points"]).to.equal(8);
+      expect(stats["Dominant Shape"]).to.equal("Path");
+      expect(stats["Last Editor"]).to.equal(user.address.toLowerCase());
+      
+      // truncating counts as an edit and the stats follow the art
+      await nft.connect(user).truncateArt(tokenId, 2);
+      stats = await attributes();
+      expect(stats["Objects"]).to.equal(2);
+      expect(stats["Points"]).to.equal(6);
+    });
+    
+    it("Should keep scripts out of the metadata image", async function () {
+      const artObject: ObjectStruct = {
+        shape: 5, // path
+        color: hexToBytes3("#000000"),
+        stroke: 4,
+        points: [{ x: 100, y: 100 }, { x: 200, y: 150 }]
+      };
+      await nft.connect(user).setArt(tokenId, [encodeObject(artObject)]);
+      
+      const uri = JSON.parse(await nft.tokenURI(tokenId));
+      const decode = (dataUri: string) => {
+        expect(dataUri.startsWith("data:image/svg+xml;base64,")).to.be.true;
+        return Buffer.from(dataUri.split(",")[1], "base64").toString();
+      };
+      
+      // image is only the art, the interactive editor goes in animation_url
+      const image = decode(uri.image);
+      expect(image).to.not.include("<script");
+      expect(image).to.equal(
+        '<svg xmlns="http://www.w3.org/2000/svg" width="980" height="900" viewBox="10 90 980 900">' +
+        '<rect fill="#ffffff" x="10" y="90" width="980" height="900"/>' +
+        '<path stroke-linecap="round" stroke-linejoin="round" fill="none" stroke="#000000" stroke-width="4" d="M100 100 L200 150"/>' +
+        '</svg>'
+      );
+      expect(image).to.equal(await nft.tokenArtSVG(tokenId));
+      expect(decode(uri.animation_url)).to.equal(await nft.tokenSVG(tokenId));
+      expect(uri.image_data).to.be.undefined;
+      // the timelapse is linked rather than inlined, the dapp replays it from tokenSVGAnimated
+      expect(uri.timelapse_url).to.equal(`https://example.com/#${tokenId}/timelapse`);
+    });
   });
 });
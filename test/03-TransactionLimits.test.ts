@@ -156,9 +156,91 @@ describe("Transaction Limits", function () {
   beforeEach(async function () {
     const tx = await nft.mint(user.address, 1); // quantity = 1
     await tx.wait();
+    // the first paint reveals the traits once the block after the mint exists
+    await ethers.provider.send("evm_mine", []);
     tokenId = Number(await nft.tokenCount());
   });
 
+  describe("Wallet Mint Limit", function () {
+    const WALLET_LIMIT = 5;
+    let limited: ColourMeNFT;
+    let other: any;
+    
+    beforeEach(async function () {
+      [, , other] = await ethers.getSigners();
+      
+      // Fresh contract so the shared one keeps minting freely
+      const NFTFactory = await ethers.getContractFactory("ColourMeNFT");
+      const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+      limited = await NFTFactory.deploy(
+        "ColourMe Limited",
+        "CML",
+        "https://example.com/",
+        1000, // maxSupply
+        renderer.target,
+        owner.address,
+        250, // 2.5% royalty
+        0, // mintPrice (free)
+        10, // mintLimit (10 per transaction)
+        now - 3600, // mintStart (started 1 hour ago)
+        365 * 24 * 60 * 60 // mintDuration (1 year)
+      ) as unknown as ColourMeNFT;
+      await limited.waitForDeployment();
+      await limited.setSVG(ethers.toUtf8Bytes('<svg>'), ethers.toUtf8Bytes('</svg>'));
+      await limited.setWalletLimit(WALLET_LIMIT);
+    });
+    
+    it("Should expose the mint config", async function () {
+      const config = await limited.getMintConfig();
+      expect(config.price).to.equal(0);
+      expect(config.limit).to.equal(10);
+      expect(config.walletLimit).to.equal(WALLET_LIMIT);
+      expect(config.maxSupply).to.equal(1000);
+      expect(config.tokenCount).to.equal(0);
+    });
+    
+    it("Should cap a wallet across transactions", async function () {
+      await limited.connect(user).mint(user.address, 3);
+      await limited.connect(user).mint(user.address, 2);
+      expect(await limited.mintedBy(user.address)).to.equal(WALLET_LIMIT);
+      
+      await expect(
+        limited.connect(user).mint(user.address, 1)
+      ).to.be.revertedWithCustomError(limited, "WalletLimitReached").withArgs(user.address, WALLET_LIMIT, WALLET_LIMIT);
+    });
+    
+    it("Should reject a single transaction over the wallet limit", async function () {
+      await expect(
+        limited.connect(user).mint(user.address, WALLET_LIMIT + 1)
+      ).to.be.revertedWithCustomError(limited, "WalletLimitReached").withArgs(user.address, WALLET_LIMIT, 0);
+    });
+    
+    it("Should count mints against the sender, not the recipient", async function () {
+      await limited.connect(user).mint(other.address, WALLET_LIMIT);
+      expect(await limited.mintedBy(user.address)).to.equal(WALLET_LIMIT);
+      expect(await limited.mintedBy(other.address)).to.equal(0);
+      
+      await expect(
+        limited.connect(user).mint(user.address, 1)
+      ).to.be.revertedWithCustomError(limited, "WalletLimitReached");
+      await limited.connect(other).mint(other.address, 1);
+    });
+    
+    it("Should treat a zero wallet limit as unlimited", async function () {
+      await limited.setWalletLimit(0);
+      for (let i = 0; i < 3; i++) {
+        await limited.connect(user).mint(user.address, 10);
+      }
+      expect(await limited.balanceOf(user.address)).to.equal(30);
+    });
+    
+    it("Should only let the owner change the wallet limit", async function () {
+      await expect(
+        limited.connect(user).setWalletLimit(100)
+      ).to.be.revertedWithCustomError(limited, "OwnableUnauthorizedAccount").withArgs(user.address);
+    });
+  });
+  
   describe("Maximum Objects Per Transaction", function () {
     
     it("Should test maximum objects per transaction", async function () {
@@ -181,8 +263,8 @@ describe("Transaction Limits", function () {
             color: hexToBytes3("#000000"), // black (always allowed)
             stroke: 1,
             points: [
-              { x: 10 + (i % 100), y: 10 + (i % 100) },
-              { x: 20 + (i % 100), y: 20 + (i % 100) }
+              { x: 10 + (i % 100), y: 90 + (i % 100) }, // inside the drawing region
+              { x: 20 + (i % 100), y: 100 + (i % 100) }
             ]
           });
         }
@@ -102,6 +102,38 @@ describe("ColourMeNFT Withdrawal Tests", function () {
         nft.mint(user1.address, mintQuantity, { value: insufficientPayment })
       ).to.be.revertedWithCustomError(nft, "InsufficientPayment");
     });
+
+    it("Should refund overpayment", async function () {
+      const totalCost = MINT_PRICE * 2n;
+
+      await expect(
+        nft.connect(user1).mint(user1.address, 2, { value: totalCost + ethers.parseEther("0.15") })
+      ).to.changeEtherBalances([user1, nft], [-totalCost, totalCost]);
+    });
+
+    it("Should only charge for the tokens left at max supply", async function () {
+      for (let batch = 0; batch < 9; batch++) {
+        await nft.mint(user2.address, MINT_LIMIT, { value: MINT_PRICE * BigInt(MINT_LIMIT) });
+      }
+      await nft.mint(user2.address, 7, { value: MINT_PRICE * 7n });
+
+      // 3 left, ask for 10
+      const tx = nft.connect(user1).mint(user1.address, MINT_LIMIT, { value: MINT_PRICE * BigInt(MINT_LIMIT) });
+      await expect(tx).to.changeEtherBalances([user1, nft], [-MINT_PRICE * 3n, MINT_PRICE * 3n]);
+      await expect(tx).to.emit(nft, "CanvasMinted").withArgs(98, 100, user1.address);
+
+      expect(await nft.tokenCount()).to.equal(MAX_SUPPLY);
+      expect(await nft.balanceOf(user1.address)).to.equal(3);
+      expect(await nft.mintedBy(user1.address)).to.equal(3);
+    });
+
+    it("Should report the first and last token IDs", async function () {
+      await nft.mint(user1.address, 2, { value: MINT_PRICE * 2n });
+
+      await expect(
+        nft.mint(user2.address, 4, { value: MINT_PRICE * 4n })
+      ).to.emit(nft, "CanvasMinted").withArgs(3, 6, user2.address);
+    });
   });
   
   describe("Withdrawal Access Control", function () {
@@ -281,4 +313,117 @@ describe("ColourMeNFT Withdrawal Tests", function () {
       expect(ownerBalanceAfter).to.equal(ownerBalanceBefore - gasCost);
     });
   });
+
+  describe("Revenue Splitting", function () {
+    it("Should split revenue between payees by shares", async function () {
+      await expect(nft.setPayees([user1.address, user2.address], [3, 1]))
+        .to.emit(nft, "PayeesUpdated").withArgs([user1.address, user2.address], [3, 1]);
+      await nft.mint(user3.address, 4, { value: MINT_PRICE * 4n });
+
+      const [payees, shares] = await nft.getPayees();
+      expect(payees).to.deep.equal([user1.address, user2.address]);
+      expect(shares).to.deep.equal([3n, 1n]);
+      expect(await nft.releasable(user1.address)).to.equal(MINT_PRICE * 3n);
+      expect(await nft.releasable(user2.address)).to.equal(MINT_PRICE);
+
+      // anyone can trigger a release, funds always go to the payee
+      const tx = nft.connect(user3).release(user1.address);
+      await expect(tx).to.changeEtherBalance(user1, MINT_PRICE * 3n);
+      await expect(tx).to.emit(nft, "PaymentReleased").withArgs(user1.address, MINT_PRICE * 3n);
+      await expect(nft.connect(user3).release(user2.address))
+        .to.changeEtherBalance(user2, MINT_PRICE);
+
+      expect(await ethers.provider.getBalance(await nft.getAddress())).to.equal(0);
+    });
+
+    it("Should leave the owner out once payees are set", async function () {
+      await nft.setPayees([user1.address], [1]);
+      await nft.mint(user3.address, 1, { value: MINT_PRICE });
+
+      expect(await nft.releasable(owner.address)).to.equal(0);
+      // a non-payee owner is pointed at release instead of withdrawing nothing
+      await expect(nft.withdraw())
+        .to.be.revertedWithCustomError(nft, "NotPayee").withArgs(owner.address);
+      await expect(nft.release(user1.address)).to.changeEtherBalance(user1, MINT_PRICE);
+    });
+
+    it("Should let an owner who is also a payee withdraw its share", async function () {
+      await nft.setPayees([owner.address, user1.address], [1, 3]);
+      await nft.mint(user3.address, 4, { value: MINT_PRICE * 4n });
+
+      await expect(nft.withdraw()).to.changeEtherBalance(owner, MINT_PRICE);
+      expect(await nft.releasable(user1.address)).to.equal(MINT_PRICE * 3n);
+    });
+
+    it("Should split earlier revenue under the old shares", async function () {
+      await nft.mint(user3.address, 2, { value: MINT_PRICE * 2n });
+      await nft.setPayees([user1.address], [1]);
+      await nft.mint(user3.address, 1, { value: MINT_PRICE });
+
+      expect(await nft.releasable(owner.address)).to.equal(MINT_PRICE * 2n);
+      expect(await nft.releasable(user1.address)).to.equal(MINT_PRICE);
+
+      await expect(nft.withdraw()).to.changeEtherBalance(owner, MINT_PRICE * 2n);
+      await expect(nft.withdraw()).to.be.revertedWithCustomError(nft, "NotPayee");
+      await expect(nft.release(user1.address)).to.changeEtherBalance(user1, MINT_PRICE);
+    });
+
+    it("Should carry rounding dust into the next split", async function () {
+      await nft.setPayees([user1.address, user2.address, user3.address], [1, 1, 1]);
+      const payees = [user1, user2, user3];
+
+      await nft.mint(owner.address, 1, { value: MINT_PRICE });
+      for (const payee of payees) {
+        expect(await nft.releasable(payee.address)).to.equal(MINT_PRICE / 3n);
+        await nft.release(payee.address);
+      }
+      const dust = MINT_PRICE - (MINT_PRICE / 3n) * 3n;
+      expect(dust).to.be.greaterThan(0);
+      expect(await ethers.provider.getBalance(await nft.getAddress())).to.equal(dust);
+
+      await nft.mint(owner.address, 1, { value: MINT_PRICE });
+      for (const payee of payees) {
+        expect(await nft.releasable(payee.address)).to.equal((MINT_PRICE + dust) / 3n);
+        await nft.release(payee.address);
+      }
+      expect(await ethers.provider.getBalance(await nft.getAddress())).to.equal(MINT_PRICE * 2n - ((MINT_PRICE + dust) / 3n + MINT_PRICE / 3n) * 3n);
+      expect(await ethers.provider.getBalance(await nft.getAddress())).to.be.lessThan(payees.length);
+    });
+
+    it("Should pay a contract wallet owner that needs more than 2300 gas", async function () {
+      const WalletFactory = await ethers.getContractFactory("TestWallet");
+      const wallet = await WalletFactory.deploy(owner.address);
+      await wallet.waitForDeployment();
+      const walletAddress = await wallet.getAddress();
+
+      await nft.transferOwnership(walletAddress);
+      await nft.mint(user1.address, 3, { value: MINT_PRICE * 3n });
+
+      await expect(
+        wallet.execute(await nft.getAddress(), nft.interface.encodeFunctionData("withdraw"))
+      ).to.changeEtherBalance(walletAddress, MINT_PRICE * 3n);
+      expect(await wallet.received()).to.equal(MINT_PRICE * 3n);
+    });
+
+    it("Should let other payees release when one can't receive", async function () {
+      // the renderer has no receive function
+      const rendererAddress = await renderer.getAddress();
+      await nft.setPayees([rendererAddress, user1.address], [1, 1]);
+      await nft.mint(user3.address, 2, { value: MINT_PRICE * 2n });
+
+      await expect(nft.release(rendererAddress)).to.be.revertedWithCustomError(nft, "FailedCall");
+      await expect(nft.release(user1.address)).to.changeEtherBalance(user1, MINT_PRICE);
+      expect(await nft.releasable(rendererAddress)).to.equal(MINT_PRICE);
+    });
+
+    it("Should reject invalid payee lists", async function () {
+      await expect(nft.setPayees([user1.address], [1, 2])).to.be.revertedWithCustomError(nft, "InvalidPayees");
+      await expect(nft.setPayees([ethers.ZeroAddress], [1])).to.be.revertedWithCustomError(nft, "InvalidPayees");
+      await expect(nft.setPayees([user1.address], [0])).to.be.revertedWithCustomError(nft, "InvalidPayees");
+      await expect(nft.setPayees([user1.address, user1.address], [1, 1])).to.be.revertedWithCustomError(nft, "InvalidPayees");
+      await expect(
+        nft.connect(user1).setPayees([user1.address], [1])
+      ).to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount").withArgs(user1.address);
+    });
+  });
 });
@@ -0,0 +1,208 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ColourMeNFT, ColourMeRenderer } from "../typechain-types";
+import { buildPresaleTree, parsePresaleCsv, PresaleTree } from "../scripts/presale-tree";
+
+describe("ColourMeNFT Presale Tests", function () {
+  let nft: ColourMeNFT;
+  let renderer: ColourMeRenderer;
+  let owner: any;
+  let user1: any;
+  let user2: any;
+  let user3: any;
+  let tree: PresaleTree;
+  let presaleStart: number;
+
+  const MINT_PRICE = ethers.parseEther("0.1"); // 0.1 ETH per token
+  const PRESALE_PRICE = ethers.parseEther("0.05"); // 0.05 ETH per token
+  const PRESALE_DURATION = 24 * 60 * 60; // 1 day
+  const MAX_SUPPLY = 100;
+  const MINT_LIMIT = 10;
+
+  beforeEach(async function () {
+    [owner, user1, user2, user3] = await ethers.getSigners();
+
+    // Deploy renderer first
+    const RendererFactory = await ethers.getContractFactory("ColourMeRenderer");
+    renderer = await RendererFactory.deploy() as unknown as ColourMeRenderer;
+    await renderer.waitForDeployment();
+
+    // Public mint opens after the presale, use chain time since other tests move it
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    presaleStart = now - 60;
+
+    const NFTFactory = await ethers.getContractFactory("ColourMeNFT");
+    nft = await NFTFactory.deploy(
+      "ColourMe Presale Test",
+      "CMPS",
+      "https://example.com/",
+      MAX_SUPPLY, // 100 max supply
+      await renderer.getAddress(),
+      owner.address,
+      250, // 2.5% royalty
+      MINT_PRICE, // 0.1 ETH mint price
+      MINT_LIMIT, // 10 per transaction
+      presaleStart + PRESALE_DURATION, // mintStart (after the presale)
+      365 * 24 * 60 * 60 // mintDuration (1 year)
+    ) as unknown as ColourMeNFT;
+    await nft.waitForDeployment();
+
+    // Set SVG data
+    const svgStart = ethers.toUtf8Bytes('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1000 1000">');
+    const svgEnd = ethers.toUtf8Bytes('</svg>');
+    await nft.setSVG(svgStart, svgEnd);
+
+    tree = buildPresaleTree([
+      { address: user1.address, allocation: 3 },
+      { address: user2.address, allocation: 1 },
+      { address: owner.address, allocation: 2 }
+    ]);
+    await nft.setPresale(tree.root, PRESALE_PRICE, presaleStart, PRESALE_DURATION);
+  });
+
+  describe("Presale Configuration", function () {
+    it("Should let the owner set the presale", async function () {
+      expect(await nft.presaleRoot()).to.equal(tree.root);
+      expect(await nft.presalePrice()).to.equal(PRESALE_PRICE);
+      expect(await nft.presaleStart()).to.equal(presaleStart);
+      expect(await nft.presaleDuration()).to.equal(PRESALE_DURATION);
+    });
+
+    it("Should emit PresaleUpdated", async function () {
+      await expect(
+        nft.setPresale(tree.root, PRESALE_PRICE, presaleStart, PRESALE_DURATION)
+      ).to.emit(nft, "PresaleUpdated").withArgs(tree.root, PRESALE_PRICE, presaleStart, PRESALE_DURATION);
+    });
+
+    it("Should reject presale changes from non-owners", async function () {
+      await expect(
+        nft.connect(user1).setPresale(tree.root, 0, presaleStart, PRESALE_DURATION)
+      ).to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount").withArgs(user1.address);
+    });
+  });
+
+  describe("Presale Minting", function () {
+    it("Should mint at the presale price with a valid proof", async function () {
+      const { allocation, proof } = tree.proofs[user1.address];
+
+      await expect(
+        nft.connect(user1).presaleMint(user1.address, 2, allocation, proof, { value: PRESALE_PRICE * 2n })
+      ).to.emit(nft, "CanvasMinted").withArgs(1, 2, user1.address);
+
+      expect(await nft.balanceOf(user1.address)).to.equal(2);
+      expect(await nft.presaleMinted(user1.address)).to.equal(2);
+    });
+
+    it("Should let an allowlisted wallet mint to another address", async function () {
+      const { allocation, proof } = tree.proofs[user2.address];
+      await nft.connect(user2).presaleMint(user3.address, 1, allocation, proof, { value: PRESALE_PRICE });
+
+      expect(await nft.ownerOf(1)).to.equal(user3.address);
+      expect(await nft.presaleMinted(user2.address)).to.equal(1);
+    });
+
+    it("Should cap each wallet at its allocation across transactions", async function () {
+      const { allocation, proof } = tree.proofs[user1.address];
+      await nft.connect(user1).presaleMint(user1.address, 2, allocation, proof, { value: PRESALE_PRICE * 2n });
+
+      await expect(
+        nft.connect(user1).presaleMint(user1.address, 2, allocation, proof, { value: PRESALE_PRICE * 2n })
+      ).to.be.revertedWithCustomError(nft, "PresaleAllocationExceeded").withArgs(user1.address, 3, 2);
+
+      await nft.connect(user1).presaleMint(user1.address, 1, allocation, proof, { value: PRESALE_PRICE });
+      expect(await nft.balanceOf(user1.address)).to.equal(3);
+    });
+
+    it("Should reject wallets that are not on the allowlist", async function () {
+      const { proof } = tree.proofs[user1.address];
+      await expect(
+        nft.connect(user3).presaleMint(user3.address, 1, 3, proof, { value: PRESALE_PRICE })
+      ).to.be.revertedWithCustomError(nft, "NotOnAllowlist").withArgs(user3.address);
+    });
+
+    it("Should reject a claimed allocation that doesn't match the proof", async function () {
+      const { proof } = tree.proofs[user2.address];
+      await expect(
+        nft.connect(user2).presaleMint(user2.address, 5, 5, proof, { value: PRESALE_PRICE * 5n })
+      ).to.be.revertedWithCustomError(nft, "NotOnAllowlist").withArgs(user2.address);
+    });
+
+    it("Should reject insufficient payment", async function () {
+      const { allocation, proof } = tree.proofs[user1.address];
+      await expect(
+        nft.connect(user1).presaleMint(user1.address, 2, allocation, proof, { value: PRESALE_PRICE })
+      ).to.be.revertedWithCustomError(nft, "InsufficientPayment").withArgs(PRESALE_PRICE * 2n, PRESALE_PRICE);
+    });
+
+    it("Should reject a zero quantity", async function () {
+      const { allocation, proof } = tree.proofs[user1.address];
+      await expect(
+        nft.connect(user1).presaleMint(user1.address, 0, allocation, proof)
+      ).to.be.revertedWithCustomError(nft, "InvalidQuantity");
+    });
+  });
+
+  describe("Presale Window", function () {
+    it("Should reject presale mints before the window opens", async function () {
+      await nft.setPresale(tree.root, PRESALE_PRICE, presaleStart + 3600, PRESALE_DURATION);
+      const { allocation, proof } = tree.proofs[user1.address];
+
+      await expect(
+        nft.connect(user1).presaleMint(user1.address, 1, allocation, proof, { value: PRESALE_PRICE })
+      ).to.be.revertedWithCustomError(nft, "MintingClosed").withArgs("Presale not started");
+    });
+
+    it("Should reject presale mints after the window closes", async function () {
+      await ethers.provider.send("evm_increaseTime", [PRESALE_DURATION + 60]);
+      await ethers.provider.send("evm_mine", []);
+      const { allocation, proof } = tree.proofs[user1.address];
+
+      await expect(
+        nft.connect(user1).presaleMint(user1.address, 1, allocation, proof, { value: PRESALE_PRICE })
+      ).to.be.revertedWithCustomError(nft, "MintingClosed").withArgs("Presale ended");
+    });
+
+    it("Should reject presale mints when no root is set", async function () {
+      await nft.setPresale(ethers.ZeroHash, PRESALE_PRICE, presaleStart, PRESALE_DURATION);
+      const { allocation, proof } = tree.proofs[user1.address];
+
+      await expect(
+        nft.connect(user1).presaleMint(user1.address, 1, allocation, proof, { value: PRESALE_PRICE })
+      ).to.be.revertedWithCustomError(nft, "MintingClosed").withArgs("No presale");
+    });
+
+    it("Should keep the public mint closed during the presale", async function () {
+      await expect(
+        nft.connect(user3).mint(user3.address, 1, { value: MINT_PRICE })
+      ).to.be.revertedWithCustomError(nft, "MintingClosed").withArgs("Mint not started");
+    });
+  });
+
+  describe("Presale Tree", function () {
+    it("Should parse a CSV allowlist", async function () {
+      const entries = parsePresaleCsv(`address,allocation\n${user1.address.toLowerCase()},3\n\n${user2.address}, 1\n`);
+      expect(entries).to.deep.equal([
+        { address: user1.address, allocation: 3 },
+        { address: user2.address, allocation: 1 }
+      ]);
+    });
+
+    it("Should reject bad CSV rows", async function () {
+      expect(() => parsePresaleCsv("0x1234,1")).to.throw("invalid address");
+      expect(() => parsePresaleCsv(`${user1.address},0`)).to.throw("invalid allocation");
+      expect(() => parsePresaleCsv(`${user1.address},1\n${user1.address},2`)).to.throw("duplicate address");
+    });
+
+    it("Should build proofs that verify on-chain for odd sized lists", async function () {
+      const signers = await ethers.getSigners();
+      const oddTree = buildPresaleTree(signers.slice(0, 5).map((signer, i) => ({ address: signer.address, allocation: i + 1 })));
+      await nft.setPresale(oddTree.root, PRESALE_PRICE, presaleStart, PRESALE_DURATION);
+
+      for (const signer of signers.slice(0, 5)) {
+        const { allocation, proof } = oddTree.proofs[signer.address];
+        await nft.connect(signer).presaleMint(signer.address, 1, allocation, proof, { value: PRESALE_PRICE });
+      }
+      expect(await nft.tokenCount()).to.equal(5);
+    });
+  });
+});
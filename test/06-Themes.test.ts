@@ -0,0 +1,287 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ColourMeNFT, ColourMeRenderer, ColourMeThemeRenderer } from "../typechain-types";
+
+// TypeScript types matching the Solidity structs
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface ObjectStruct {
+  shape: number; // Path enum: 0=rect, 1=line, 2=ellipse, 3=polyline, 4=polygon, 5=path, 6=curve
+  color: string; // hex color as bytes3
+  stroke: number; // uint8
+  points: Point[];
+}
+
+interface Object {
+  base: bigint; // uint256
+  additionalPoints: Uint8Array; // bytes
+}
+
+// Helper function to convert hex color to bytes3
+function hexToBytes3(hex: string): string {
+  if (hex.startsWith('#')) {
+    hex = hex.slice(1);
+  }
+  if (hex.length !== 6) {
+    throw new Error("Invalid hex color");
+  }
+  return '0x' + hex;
+}
+
+// Helper function to convert int16 to uint16 (two's complement)
+function int16ToUint16(value: number): number {
+  // Ensure the value is within int16 range
+  if (value < -32768 || value > 32767) {
+    throw new Error(`Value ${value} is out of int16 range (-32768 to 32767)`);
+  }
+  
+  // Convert to uint16 representation (two's complement for negative values)
+  return value < 0 ? 65536 + value : value;
+}
+
+// Encoder function
+function encodeObject(obj: ObjectStruct): Object {
+  let encoded = 0n;
+  
+  const basePoints = obj.points.slice(0, 6);
+  const additionalPoints = obj.points.slice(6);
+  
+  // Follow the comment spec from types.sol
+  encoded |= BigInt(obj.shape & 0x7) << 0n; // bits 0-2
+  encoded |= (BigInt(obj.color) & 0xFFFFFFn) << 3n; // bits 3-26
+  encoded |= BigInt(obj.stroke & 0xFF) << 27n; // bits 27-34
+  encoded |= BigInt(obj.points.length & 0xFFFF) << 35n; // bits 35-50
+  
+  // Encode points (bits 51-242)
+  for (let i = 0; i < basePoints.length && i < 6; i++) {
+    const point = basePoints[i];
+    const pointStartBit = 51n + BigInt(i * 32);
+    
+    // Convert int16 coordinates to uint16 for encoding
+    const x_uint16 = int16ToUint16(point.x);
+    const y_uint16 = int16ToUint16(point.y);
+    
+    encoded |= BigInt(x_uint16 & 0xFFFF) << pointStartBit;
+    encoded |= BigInt(y_uint16 & 0xFFFF) << (pointStartBit + 16n);
+  }
+  
+  // Encode additional points as bytes
+  const additionalBytes = new Uint8Array(additionalPoints.length * 4);
+  for (let i = 0; i < additionalPoints.length; i++) {
+    const point = additionalPoints[i];
+    const offset = i * 4;
+    
+    // Convert int16 coordinates to uint16 for encoding
+    const x_uint16 = int16ToUint16(point.x);
+    const y_uint16 = int16ToUint16(point.y);
+    
+    additionalBytes[offset] = (x_uint16 >> 8) & 0xFF;
+    additionalBytes[offset + 1] = x_uint16 & 0xFF;
+    additionalBytes[offset + 2] = (y_uint16 >> 8) & 0xFF;
+    additionalBytes[offset + 3] = y_uint16 & 0xFF;
+  }
+  
+  return {
+    base: encoded,
+    additionalPoints: additionalBytes
+  };
+}
+
+// the sample themes, the classic look is the default renderer
+const THEMES = [
+  { name: "High Contrast", style: "filter:contrast(1.6) saturate(1.4)" },
+  { name: "Pixel Art", style: "shape-rendering:crispEdges" },
+  { name: "Monochrome", style: "filter:grayscale(1)" }
+];
+
+// strips the theme styling so the rest of the output can be compared with the classic renderer
+function unstyled(svg: string): string {
+  return svg.replace(/ style="[^"]*"/g, "");
+}
+
+describe("ColourMeNFT Themes", function () {
+  let nft: ColourMeNFT;
+  let renderer: ColourMeRenderer;
+  let themes: ColourMeThemeRenderer[];
+  let owner: any;
+  let user: any;
+  let other: any;
+  const tokenId = 1;
+
+  beforeEach(async function () {
+    [owner, user, other] = await ethers.getSigners();
+
+    const RendererFactory = await ethers.getContractFactory("ColourMeRenderer");
+    renderer = await RendererFactory.deploy() as unknown as ColourMeRenderer;
+    await renderer.waitForDeployment();
+
+    const ThemeFactory = await ethers.getContractFactory("ColourMeThemeRenderer");
+    themes = [];
+    for (const theme of THEMES) {
+      const deployed = await ThemeFactory.deploy(theme.name, theme.style) as unknown as ColourMeThemeRenderer;
+      await deployed.waitForDeployment();
+      themes.push(deployed);
+    }
+
+    // other tests move chain time, so open the mint relative to it
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+    const NFTFactory = await ethers.getContractFactory("ColourMeNFT");
+    nft = await NFTFactory.deploy(
+      "ColourMe Theme Test",
+      "CMTT",
+      "https://example.com/",
+      100, // maxSupply
+      await renderer.getAddress(),
+      owner.address,
+      250, // 2.5% royalty
+      0, // mintPrice (free)
+      10, // mintLimit (10 per transaction)
+      now - 3600, // mintStart (started 1 hour ago)
+      365 * 24 * 60 * 60 // mintDuration (1 year)
+    ) as unknown as ColourMeNFT;
+    await nft.waitForDeployment();
+
+    const svgStart = ethers.toUtf8Bytes('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1000 1000">');
+    const svgEnd = ethers.toUtf8Bytes('</svg>');
+    await nft.setSVG(svgStart, svgEnd);
+
+    for (let i = 0; i < themes.length; i++) {
+      await nft.setTheme(i + 1, await themes[i].getAddress());
+    }
+
+    await nft.mint(user.address, 1);
+    // traits come from the hash of the block after the mint
+    await ethers.provider.send("evm_mine", []);
+    await nft.revealTraits(tokenId);
+    const traits = await nft.traits(tokenId);
+    const art: ObjectStruct[] = [
+      {
+        shape: 5, // path
+        color: traits.color0,
+        stroke: 4,
+        points: [{ x: 100, y: 100 }, { x: 200, y: 150 }, { x: 300, y: 120 }]
+      },
+      {
+        shape: 6, // curve
+        color: hexToBytes3("#000000"),
+        stroke: 2,
+        points: [{ x: 100, y: 100 }, { x: 150, y: 50 }, { x: 250, y: 50 }, { x: 300, y: 100 }]
+      }
+    ];
+    await nft.connect(user).setArt(tokenId, art.map(encodeObject));
+  });
+
+  describe("Theme registry", function () {
+    it("Should list the curated themes", async function () {
+      expect(await nft.themeCount()).to.equal(THEMES.length);
+      expect(await renderer.themeName()).to.equal("Classic");
+      for (let i = 0; i < themes.length; i++) {
+        expect(await nft.themes(i + 1)).to.equal(await themes[i].getAddress());
+        expect(await themes[i].themeName()).to.equal(THEMES[i].name);
+      }
+    });
+
+    it("Should only let the owner curate themes", async function () {
+      await expect(
+        nft.connect(user).setTheme(1, await renderer.getAddress())
+      ).to.be.revertedWithCustomError(nft, "OwnableUnauthorizedAccount").withArgs(user.address);
+    });
+
+    it("Should add themes in order and refresh metadata", async function () {
+      const next = THEMES.length + 1;
+      await expect(nft.setTheme(0, await renderer.getAddress()))
+        .to.be.revertedWithCustomError(nft, "InvalidTheme").withArgs(0);
+      await expect(nft.setTheme(next + 1, await renderer.getAddress()))
+        .to.be.revertedWithCustomError(nft, "InvalidTheme").withArgs(next + 1);
+      await expect(nft.setTheme(next, other.address))
+        .to.be.revertedWithCustomError(nft, "InvalidRenderer");
+
+      await expect(nft.setTheme(next, await renderer.getAddress()))
+        .to.emit(nft, "ThemeUpdated").withArgs(next, await renderer.getAddress())
+        .and.to.emit(nft, "BatchMetadataUpdate").withArgs(1, 1);
+      expect(await nft.themeCount()).to.equal(next);
+    });
+  });
+
+  describe("Per token themes", function () {
+    it("Should render with the default renderer until a theme is picked", async function () {
+      expect(await nft.tokenTheme(tokenId)).to.equal(0);
+      expect(await nft.tokenSVG(tokenId)).to.not.include("style=");
+    });
+
+    it("Should let the token owner pick a theme", async function () {
+      await expect(nft.connect(user).setTokenTheme(tokenId, 3))
+        .to.emit(nft, "TokenThemeSet").withArgs(tokenId, 3)
+        .and.to.emit(nft, "MetadataUpdate").withArgs(tokenId);
+      expect(await nft.tokenTheme(tokenId)).to.equal(3);
+      expect(await nft.tokenSVG(tokenId)).to.include(' style="filter:grayscale(1)"/>');
+    });
+
+    it("Should reject theme changes from anyone but the owner or approved", async function () {
+      await expect(nft.connect(other).setTokenTheme(tokenId, 1))
+        .to.be.revertedWithCustomError(nft, "NotCanvasOwner").withArgs(tokenId, other.address);
+    });
+
+    it("Should reject unknown themes", async function () {
+      await expect(nft.connect(user).setTokenTheme(tokenId, THEMES.length + 1))
+        .to.be.revertedWithCustomError(nft, "InvalidTheme").withArgs(THEMES.length + 1);
+    });
+
+    it("Should fall back to the default renderer when a theme is retired", async function () {
+      await nft.connect(user).setTokenTheme(tokenId, 2);
+      await nft.setTheme(2, ethers.ZeroAddress);
+      expect(await nft.tokenSVG(tokenId)).to.not.include("style=");
+      await expect(nft.connect(user).setTokenTheme(tokenId, 2))
+        .to.be.revertedWithCustomError(nft, "InvalidTheme").withArgs(2);
+    });
+
+    it("Should lock the theme once the canvas is finalized", async function () {
+      await nft.connect(user).setTokenTheme(tokenId, 1);
+      await nft.connect(user).finalizeArt(tokenId);
+      await expect(nft.connect(user).setTokenTheme(tokenId, 2))
+        .to.be.revertedWithCustomError(nft, "CanvasFinalized").withArgs(tokenId);
+      expect(await nft.tokenSVG(tokenId)).to.include(' style="filter:contrast(1.6) saturate(1.4)"/>');
+    });
+  });
+
+  describe("Same art across themes", function () {
+    it("Should only change styling in every rendering", async function () {
+      const classic = {
+        svg: await nft.tokenSVG(tokenId),
+        art: await nft.tokenArtSVG(tokenId),
+        animated: await nft.tokenSVGAnimated(tokenId, 100),
+        page: await nft.renderObjectsRange(tokenId, 1, 1)
+      };
+
+      for (let i = 0; i < THEMES.length; i++) {
+        await nft.connect(user).setTokenTheme(tokenId, i + 1);
+        const svg = await nft.tokenSVG(tokenId);
+
+        // one style per object and nothing else moved
+        expect(svg.split(` style="${THEMES[i].style}"`).length - 1).to.equal(2);
+        expect(svg).to.not.equal(classic.svg);
+        expect(unstyled(svg)).to.equal(classic.svg);
+        expect(unstyled(await nft.tokenArtSVG(tokenId))).to.equal(classic.art);
+        expect(unstyled(await nft.tokenSVGAnimated(tokenId, 100))).to.equal(classic.animated);
+        expect(unstyled(await nft.renderObjectsRange(tokenId, 1, 1))).to.equal(classic.page);
+      }
+    });
+
+    it("Should keep the metadata attributes identical", async function () {
+      const classic = JSON.parse(await nft.tokenURI(tokenId));
+
+      await nft.connect(user).setTokenTheme(tokenId, 2);
+      const themed = JSON.parse(await nft.tokenURI(tokenId));
+
+      expect(themed.attributes).to.deep.equal(classic.attributes);
+      expect(themed.name).to.equal(classic.name);
+      const decode = (dataUri: string) => Buffer.from(dataUri.split(",")[1], "base64").toString();
+      expect(unstyled(decode(themed.image))).to.equal(decode(classic.image));
+      expect(unstyled(decode(themed.animation_url))).to.equal(decode(classic.animation_url));
+    });
+  });
+});
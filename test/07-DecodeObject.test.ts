@@ -0,0 +1,164 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { EncodingTest } from "../typechain-types";
+import {
+  decodeObject,
+  decodeObjects,
+  encodeObject,
+  encodeObjects,
+  type ObjectStruct,
+  type PackedObject
+} from "../frontend/src/utils/encoding";
+
+// Seeded so a failing object can be reproduced
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Random objects the contract decoder accepts, coordinates over the whole int16 range
+function randomObject(random: () => number): ObjectStruct {
+  const int = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const shape = int(0, 6);
+  let length: number;
+  if (shape <= 2) length = 2; // rect, line, ellipse
+  else if (shape === 4) length = [3, 5, 6][int(0, 2)]; // polygon
+  else if (shape === 6) length = 1 + 3 * int(1, 8) - int(0, 1); // curve, last segment may be quadratic
+  else length = int(2, 40); // polyline, path
+  // rect, ellipse and polygon may be unstroked
+  const stroke = shape === 0 || shape === 2 || shape === 4 ? int(0, 255) : int(1, 255);
+  const coordinate = () => random() < 0.1 ? [-32768, -1, 0, 32767][int(0, 3)] : int(-32768, 32767);
+
+  const obj: ObjectStruct = {
+    shape,
+    color: '0x' + int(0, 0xFFFFFF).toString(16).padStart(6, '0'),
+    stroke,
+    points: Array.from({ length }, () => ({ x: coordinate(), y: coordinate() }))
+  };
+  if (random() < 0.5) obj.opacity = int(0, 254);
+  return obj;
+}
+
+describe("decodeObject", function () {
+  let encodingTest: EncodingTest;
+
+  before(async function () {
+    const EncodingTestFactory = await ethers.getContractFactory("EncodingTest");
+    encodingTest = await EncodingTestFactory.deploy() as unknown as EncodingTest;
+    await encodingTest.waitForDeployment();
+  });
+
+  // Decodes through getBaseObject and getObjectPoints and checks the TypeScript decoder agrees
+  async function expectContractMatch(tokenId: number, packed: PackedObject[]) {
+    await encodingTest.storeArt(tokenId, packed);
+    const [baseObjects, allPoints] = await encodingTest.unpackArt(tokenId);
+
+    for (let i = 0; i < packed.length; i++) {
+      const decoded = decodeObject(packed[i]);
+      expect(decoded.shape, `object ${i} shape`).to.equal(Number(baseObjects[i].shape));
+      expect(decoded.color, `object ${i} color`).to.equal(baseObjects[i].color);
+      expect(decoded.stroke, `object ${i} stroke`).to.equal(Number(baseObjects[i].stroke));
+      expect(decoded.opacity ?? 255, `object ${i} opacity`).to.equal(Number(baseObjects[i].opacity));
+      expect(decoded.points, `object ${i} points`).to.deep.equal(
+        allPoints[i].map(point => ({ x: Number(point.x), y: Number(point.y) }))
+      );
+    }
+  }
+
+  // Stored art as the dapp reads it back, getArt returns the additional points as hex
+  async function readArt(tokenId: number): Promise<PackedObject[]> {
+    const stored = await encodingTest.getArt(tokenId);
+    return stored.map(({ base, additionalPoints }) => ({ base, additionalPoints: ethers.getBytes(additionalPoints) }));
+  }
+
+  it("Should be the inverse of encodeObject", async function () {
+    const random = mulberry32(1);
+    for (let i = 0; i < 500; i++) {
+      const obj = randomObject(random);
+      expect(decodeObject(encodeObject(obj))).to.deep.equal(obj);
+    }
+  });
+
+  it("Should match the contract decoder on random objects", async function () {
+    const random = mulberry32(2);
+    for (let batch = 0; batch < 5; batch++) {
+      const objects = Array.from({ length: 40 }, () => randomObject(random));
+      const packed = encodeObjects(objects);
+      expect(decodeObjects(packed)).to.deep.equal(objects);
+      await expectContractMatch(batch + 1, packed);
+    }
+  });
+
+  it("Should match the contract decoder when additional points run short", async function () {
+    const random = mulberry32(3);
+    const packed = Array.from({ length: 20 }, () => {
+      const obj = randomObject(random);
+      obj.shape = 5; // path
+      obj.stroke = 1 + (obj.stroke % 255);
+      while (obj.points.length < 10) obj.points.push({ x: -1, y: -1 });
+      const { base, additionalPoints } = encodeObject(obj);
+      // drop whole points and stray bytes, the missing points decode as (0, 0)
+      const keep = Math.floor(random() * additionalPoints.length);
+      return { base, additionalPoints: additionalPoints.slice(0, keep) };
+    });
+    await expectContractMatch(100, packed);
+  });
+
+  it("Should read additional points the same as a byte by byte decode", async function () {
+    const random = mulberry32(4);
+    const toPoints = (points: { x: bigint, y: bigint }[]) => points.map(point => ({ x: Number(point.x), y: Number(point.y) }));
+    for (let i = 0; i < 60; i++) {
+      const { base, additionalPoints } = encodeObject(randomObject(random));
+      // cut the points short, or leave stray bytes and whole points past the declared length
+      const bytes = random() < 0.5
+        ? additionalPoints.slice(0, Math.floor(random() * (additionalPoints.length + 1)))
+        : new Uint8Array([...additionalPoints, ...Array.from({ length: Math.floor(random() * 12) }, () => Math.floor(random() * 256))]);
+      const packed = { base, additionalPoints: bytes };
+      expect(toPoints(await encodingTest.testGetObjectPoints(packed)), `object ${i}`)
+        .to.deep.equal(toPoints(await encodingTest.testGetObjectPointsBytewise(packed)));
+    }
+  });
+
+  it("Should keep opacity when loaded art is saved again", async function () {
+    const art: ObjectStruct[] = [
+      { shape: 0, color: '0xff0000', stroke: 0, points: [{ x: 10, y: 90 }, { x: 100, y: 100 }], opacity: 128 },
+      { shape: 5, color: '0x000000', stroke: 4, points: [{ x: 20, y: 100 }, { x: 40, y: 120 }, { x: 60, y: 100 }] },
+      { shape: 2, color: '0x00ff00', stroke: 0, points: [{ x: 300, y: 300 }, { x: 50, y: 25 }], opacity: 0 }
+    ];
+    await encodingTest.storeArt(300, encodeObjects(art));
+
+    // the editor gets the decoded art and sends it back as JSON in a save request
+    const loaded = decodeObjects(await readArt(300));
+    const saveRequest = JSON.parse(JSON.stringify(loaded));
+    await encodingTest.storeArt(301, encodeObjects(saveRequest));
+
+    expect(decodeObjects(await readArt(301))).to.deep.equal(art);
+    const [baseObjects] = await encodingTest.unpackArt(301);
+    expect(baseObjects.map(obj => Number(obj.opacity))).to.deep.equal([128, 255, 0]);
+  });
+
+  it("Should keep negative coordinates", async function () {
+    const obj: ObjectStruct = {
+      shape: 3, // polyline
+      color: '0x123456',
+      stroke: 3,
+      points: Array.from({ length: 8 }, (_, i) => ({ x: -32768 + i, y: -1 - i }))
+    };
+    const packed = encodeObject(obj);
+    expect(decodeObject(packed).points).to.deep.equal(obj.points);
+    await expectContractMatch(200, [packed]);
+  });
+
+  it("Should reject shapes the contract does not know", async function () {
+    const packed = encodeObject({ shape: 5, color: '0x000000', stroke: 1, points: [{ x: 0, y: 0 }, { x: 1, y: 1 }] });
+    const invalid = { base: packed.base | 0x7n, additionalPoints: packed.additionalPoints };
+
+    expect(() => decodeObject(invalid)).to.throw("Invalid shape 7");
+    await expect(encodingTest.testDecodeShape(invalid.base))
+      .to.be.revertedWithCustomError(encodingTest, "InvalidShape").withArgs(7);
+  });
+});
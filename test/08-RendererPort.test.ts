@@ -0,0 +1,188 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ColourMeNFT, ColourMeRenderer } from "../typechain-types";
+import { encodeObject, type ObjectStruct } from "../frontend/src/utils/encoding";
+import {
+  renderArtSVG,
+  renderObjects,
+  renderObjectsAnimated,
+  renderPath,
+  renderTokenSVG
+} from "../frontend/src/utils/renderer";
+
+// Seeded so a failing object can be reproduced
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Random objects the renderer accepts, coordinates over the whole int16 range
+function randomObject(random: () => number): ObjectStruct {
+  const int = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const shape = int(0, 6);
+  let length: number;
+  if (shape <= 2) length = 2;
+  else if (shape === 4) length = [3, 5, 6][int(0, 2)];
+  else if (shape === 6) length = 1 + 3 * int(1, 6) - int(0, 1);
+  else length = int(2, 20);
+  const stroke = shape === 0 || shape === 2 || shape === 4 ? int(0, 255) : int(1, 255);
+  const coordinate = () => random() < 0.1 ? [-32768, -1, 0, 32767][int(0, 3)] : int(-32768, 32767);
+
+  const obj: ObjectStruct = {
+    shape,
+    color: '0x' + int(0, 0xFFFFFF).toString(16).padStart(6, '0'),
+    stroke,
+    points: Array.from({ length }, () => ({ x: coordinate(), y: coordinate() }))
+  };
+  if (random() < 0.5) obj.opacity = int(0, 254);
+  return obj;
+}
+
+describe("Renderer port", function () {
+  let renderer: ColourMeRenderer;
+
+  before(async function () {
+    const RendererFactory = await ethers.getContractFactory("ColourMeRenderer");
+    renderer = await RendererFactory.deploy() as unknown as ColourMeRenderer;
+    await renderer.waitForDeployment();
+  });
+
+  it("Should render every shape exactly like renderPath", async function () {
+    const random = mulberry32(1);
+    for (let i = 0; i < 70; i++) {
+      const obj = randomObject(random);
+      const base = {
+        shape: obj.shape,
+        color: obj.color,
+        stroke: obj.stroke,
+        pointsLength: obj.points.length,
+        opacity: obj.opacity ?? 255
+      };
+      const onChain = ethers.toUtf8String(await renderer.renderPath(base, obj.points));
+      expect(renderPath(obj), `object ${i}`).to.equal(onChain);
+    }
+  });
+
+  it("Should render random art exactly like renderObjects", async function () {
+    const random = mulberry32(2);
+    for (let batch = 0; batch < 5; batch++) {
+      const packed = Array.from({ length: 30 }, () => encodeObject(randomObject(random)));
+      expect(renderObjects(packed), `batch ${batch}`).to.equal(
+        ethers.toUtf8String(await renderer.renderObjects(packed))
+      );
+    }
+    expect(renderObjects([])).to.equal(ethers.toUtf8String(await renderer.renderObjects([])));
+  });
+
+  it("Should keep the trailing space after the last poly point", async function () {
+    const packed = [
+      encodeObject({ shape: 3, color: '0x000000', stroke: 2, points: [{ x: 1, y: 2 }, { x: -3, y: 4 }] }),
+      encodeObject({ shape: 4, color: '0xffffff', stroke: 0, points: [{ x: 0, y: 0 }, { x: 5, y: 0 }, { x: 0, y: 5 }] })
+    ];
+    const rendered = renderObjects(packed);
+    expect(rendered).to.include('points="1,2 -3,4 "');
+    expect(rendered).to.include('points="0,0 5,0 0,5 "');
+    expect(rendered).to.equal(ethers.toUtf8String(await renderer.renderObjects(packed)));
+  });
+
+  it("Should round every opacity the same way", async function () {
+    const packed = Array.from({ length: 256 }, (_, opacity) => encodeObject({
+      shape: opacity % 2 === 0 ? 0 : 5, // rect fills, path strokes
+      color: '0x123456',
+      stroke: 1,
+      points: [{ x: 10, y: 90 }, { x: 20, y: 100 }],
+      opacity
+    }));
+    expect(renderObjects(packed)).to.equal(ethers.toUtf8String(await renderer.renderObjects(packed)));
+  });
+
+  it("Should render cubic and quadratic curve segments the same way", async function () {
+    const points = Array.from({ length: 9 }, (_, i) => ({ x: i * 10 - 40, y: i * -7 }));
+    const packed = [
+      encodeObject({ shape: 6, color: '0x000000', stroke: 3, points: points.slice(0, 7) }), // two cubics
+      encodeObject({ shape: 6, color: '0x000000', stroke: 3, points: points.slice(0, 3) }), // one quadratic
+      encodeObject({ shape: 6, color: '0x000000', stroke: 3, points }) // two cubics then a quadratic
+    ];
+    const rendered = renderObjects(packed);
+    expect(rendered).to.include(' Q');
+    expect(rendered).to.equal(ethers.toUtf8String(await renderer.renderObjects(packed)));
+  });
+
+  it("Should match the timelapse and art-only SVGs", async function () {
+    const random = mulberry32(3);
+    const packed = Array.from({ length: 20 }, () => encodeObject(randomObject(random)));
+    expect(renderObjectsAnimated(packed, 150)).to.equal(
+      ethers.toUtf8String(await renderer.renderObjectsAnimated(packed, 150))
+    );
+
+    const canvas = { x: 10, y: 90, width: 980, height: 900 };
+    expect(renderArtSVG(packed, canvas)).to.equal(
+      ethers.toUtf8String(await renderer.renderArtSVG(packed, canvas))
+    );
+    const negative = { x: -50, y: -20, width: 300, height: 200 };
+    expect(renderArtSVG(packed, negative)).to.equal(
+      ethers.toUtf8String(await renderer.renderArtSVG(packed, negative))
+    );
+  });
+
+  it("Should throw wherever the contract reverts", async function () {
+    const dangling = encodeObject({
+      shape: 6, // curve with a lone point after the first segment
+      color: '0x000000',
+      stroke: 2,
+      points: Array.from({ length: 5 }, (_, i) => ({ x: i, y: i }))
+    });
+    const unstroked = encodeObject({ shape: 5, color: '0x000000', stroke: 0, points: [{ x: 0, y: 0 }, { x: 1, y: 1 }] });
+
+    expect(() => renderObjects([dangling])).to.throw("InvalidPoints(5)");
+    await expect(renderer.renderObjects([dangling])).to.be.revertedWithCustomError(renderer, "InvalidPoints").withArgs(5);
+    expect(() => renderObjects([unstroked])).to.throw("InvalidStroke(0)");
+    await expect(renderer.renderObjects([unstroked])).to.be.revertedWithCustomError(renderer, "InvalidStroke").withArgs(0);
+  });
+
+  it("Should render a saved token exactly like tokenSVG", async function () {
+    const [owner, user] = await ethers.getSigners();
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+    const NFTFactory = await ethers.getContractFactory("ColourMeNFT");
+    const nft = await NFTFactory.deploy(
+      "ColourMe Port Test", "CMPORT", "https://example.com/", 100,
+      await renderer.getAddress(), owner.address, 250, 0, 10, now - 3600, 365 * 24 * 60 * 60
+    ) as unknown as ColourMeNFT;
+    await nft.waitForDeployment();
+    await nft.setSVG(
+      ethers.toUtf8Bytes('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1000 1000">'),
+      ethers.toUtf8Bytes('</svg>')
+    );
+
+    await nft.mint(user.address, 1);
+    // traits come from the hash of the block after the mint
+    await ethers.provider.send("evm_mine", []);
+    const tokenId = 1;
+
+    const random = mulberry32(4);
+    const art = Array.from({ length: 25 }, (_, i) => encodeObject({
+      shape: i % 2 === 0 ? 5 : 6, // paths and curves are allowed on every token
+      color: i % 3 === 0 ? '0xffffff' : '0x000000',
+      stroke: 1 + Math.floor(random() * 20),
+      points: Array.from({ length: i % 2 === 0 ? 2 + i : 7 }, () => ({
+        x: 10 + Math.floor(random() * 980),
+        y: 90 + Math.floor(random() * 900)
+      })),
+      opacity: i % 4 === 0 ? Math.floor(random() * 255) : undefined
+    }));
+    await nft.connect(user).setArt(tokenId, art);
+
+    const [svgStart, traitSVG, svgEnd, stored] = await Promise.all([
+      nft.svgStart(), nft.traitSVG(tokenId), nft.svgEnd(), nft.getArt(tokenId, 0, 100)
+    ]);
+    const cached = stored.map(object => ({ base: object.base, additionalPoints: ethers.getBytes(object.additionalPoints) }));
+    const local = renderTokenSVG(
+      ethers.toUtf8String(svgStart), ethers.toUtf8String(traitSVG), cached, ethers.toUtf8String(svgEnd), tokenId
+    );
+    expect(local).to.equal(await nft.tokenSVG(tokenId));
+  });
+});
@@ -0,0 +1,184 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ColourMeNFT } from "../typechain-types";
+import {
+  encodeObject,
+  validateObjectForToken,
+  type CanvasRect,
+  type ObjectStruct,
+  type Point,
+  type TokenTrait
+} from "../frontend/src/utils/encoding";
+
+// The contract error an invalid object's message ends with, e.g. "(InvalidColor).", null when it's allowed
+function expectedRevert(obj: ObjectStruct, trait: TokenTrait, canvas: CanvasRect): string | null {
+  const { valid, errors } = validateObjectForToken(obj, trait, canvas);
+  if (valid) {
+    expect(errors).to.deep.equal([]);
+    return null;
+  }
+  expect(errors).to.have.length(1);
+  const name = errors[0].match(/\((\w+)\)\.?$/)?.[1];
+  expect(name, errors[0]).to.not.equal(undefined);
+  return name!;
+}
+
+// Seeded so a failing object can be reproduced
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Objects close enough to valid that every check gets hit, not just the colour one
+function randomObject(random: () => number, trait: TokenTrait, canvas: CanvasRect): ObjectStruct {
+  const int = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const pick = <T>(values: T[]) => values[int(0, values.length - 1)];
+
+  const traitColors = [trait.color0, trait.color1, trait.color2, trait.color3, trait.color4];
+  const roll = random();
+  const color = roll < 0.3 ? pick(traitColors)
+    : roll < 0.4 ? pick(traitColors).toUpperCase().replace('0X', '0x') // case doesn't matter
+    : roll < 0.55 ? '0x000000'
+    : roll < 0.7 ? '0xffffff'
+    : '0x' + int(0, 0xFFFFFF).toString(16).padStart(6, '0');
+
+  const shape = int(0, 6);
+  let length: number;
+  if (random() < 0.15) length = int(0, 8); // anything, mostly wrong
+  else if (shape <= 2) length = 2;
+  else if (shape === 4) length = random() < 0.6 ? trait.polygon : pick([3, 5, 6]);
+  else if (shape === 6) length = 1 + 3 * int(1, 4) - int(0, 1);
+  else length = int(2, 12);
+
+  const offCanvas = random() < 0.15;
+  const point = (): Point => offCanvas
+    ? { x: canvas.x + canvas.width + int(300, 3000), y: int(-3000, 3000) }
+    : { x: int(canvas.x, canvas.x + canvas.width), y: int(canvas.y, canvas.y + canvas.height) };
+  let points = Array.from({ length }, point);
+  if (length === 2 && (shape === 0 || shape === 2)) points[1] = { x: int(1, 200), y: int(1, 200) };
+  // the bucket tool's full canvas rect
+  if (shape === 0 && random() < 0.3) points = [{ x: canvas.x, y: canvas.y }, { x: canvas.width, y: canvas.height }];
+
+  return { shape, color, stroke: random() < 0.2 ? 0 : int(1, 20), points };
+}
+
+async function revertName(nft: ColourMeNFT, call: Promise<unknown>): Promise<string | null> {
+  try {
+    await call;
+    return null;
+  } catch (error) {
+    const err = error as { revert?: { name?: string }; data?: string };
+    return err.revert?.name ?? (err.data ? nft.interface.parseError(err.data)?.name ?? "unknown" : "unknown");
+  }
+}
+
+describe("validateObjectForToken", function () {
+  let nft: ColourMeNFT;
+  let user: Awaited<ReturnType<typeof ethers.getSigners>>[number];
+  let canvas: CanvasRect;
+  const tokens = 6;
+
+  const readTrait = async (tokenId: number): Promise<TokenTrait> => {
+    const raw = await nft.traits(tokenId);
+    return {
+      color0: raw.color0, color1: raw.color1, color2: raw.color2, color3: raw.color3, color4: raw.color4,
+      shape0: Number(raw.shape0), shape1: Number(raw.shape1), polygon: Number(raw.polygon)
+    };
+  };
+
+  before(async function () {
+    const [owner, artist] = await ethers.getSigners();
+    user = artist;
+    const now = (await ethers.provider.getBlock("latest"))!.timestamp;
+
+    const RendererFactory = await ethers.getContractFactory("ColourMeRenderer");
+    const renderer = await RendererFactory.deploy();
+    await renderer.waitForDeployment();
+
+    const NFTFactory = await ethers.getContractFactory("ColourMeNFT");
+    nft = await NFTFactory.deploy(
+      "ColourMe Validation Test", "CMVAL", "https://example.com/", 100,
+      await renderer.getAddress(), owner.address, 250, 0, 10, now - 3600, 365 * 24 * 60 * 60
+    ) as unknown as ColourMeNFT;
+    await nft.waitForDeployment();
+
+    await nft.mint(user.address, tokens);
+    // traits come from the hash of the block after the mint
+    await ethers.provider.send("evm_mine", []);
+    for (let tokenId = 1; tokenId <= tokens; tokenId++) {
+      await nft.revealTraits(tokenId);
+    }
+
+    const [x, y, width, height] = await nft.canvas();
+    canvas = { x: Number(x), y: Number(y), width: Number(width), height: Number(height) };
+  });
+
+  it("Should agree with _objectAllowed on random objects", async function () {
+    const random = mulberry32(9);
+    const seen = new Set<string>();
+    for (let tokenId = 1; tokenId <= tokens; tokenId++) {
+      const trait = await readTrait(tokenId);
+      for (let i = 0; i < 60; i++) {
+        const obj = randomObject(random, trait, canvas);
+        const expected = expectedRevert(obj, trait, canvas);
+        const actual = await revertName(nft, nft.connect(user).appendArt.staticCall(tokenId, [encodeObject(obj)]));
+        expect(expected, `token ${tokenId} object ${JSON.stringify(obj)}`).to.equal(actual);
+        seen.add(expected ?? "allowed");
+      }
+    }
+    // every outcome came up at least once, so none of the checks went untested
+    expect([...seen].sort()).to.deep.equal(
+      ["InvalidColor", "InvalidPoints", "InvalidShape", "InvalidStroke", "OutOfCanvas", "allowed"]
+    );
+  });
+
+  it("Should only allow the full canvas rect on tokens without rects", async function () {
+    const bucket = (canvasRect: CanvasRect): ObjectStruct => ({
+      shape: 0, color: '0xffffff', stroke: 0,
+      points: [{ x: canvasRect.x, y: canvasRect.y }, { x: canvasRect.width, y: canvasRect.height }]
+    });
+    const smaller = { ...canvas, width: canvas.width - 1 };
+
+    for (let tokenId = 1; tokenId <= tokens; tokenId++) {
+      const trait = await readTrait(tokenId);
+      const hasRect = trait.shape0 === 0 || trait.shape1 === 0;
+      for (const obj of [bucket(canvas), bucket(smaller)]) {
+        const expected = expectedRevert(obj, trait, canvas);
+        expect(expected).to.equal(hasRect || obj.points[1].x === canvas.width ? null : "InvalidShape");
+        expect(await revertName(nft, nft.connect(user).appendArt.staticCall(tokenId, [encodeObject(obj)]))).to.equal(expected);
+      }
+    }
+  });
+
+  it("Should need the token's own polygon size", async function () {
+    const trait = await readTrait(1);
+    for (const length of [3, 5, 6]) {
+      const obj: ObjectStruct = {
+        shape: 4, color: '0x000000', stroke: 0,
+        points: Array.from({ length }, (_, i) => ({ x: canvas.x + 10 * i, y: canvas.y + 10 * (i % 2) }))
+      };
+      const expected = expectedRevert(obj, trait, canvas);
+      expect(expected).to.equal(length === trait.polygon ? null : "InvalidPoints");
+      expect(await revertName(nft, nft.connect(user).appendArt.staticCall(1, [encodeObject(obj)]))).to.equal(expected);
+    }
+  });
+
+  it("Should reject everything until the traits are revealed", async function () {
+    await nft.mint(user.address, 1);
+    const tokenId = tokens + 1;
+    const trait = await readTrait(tokenId);
+    const obj: ObjectStruct = {
+      shape: 5, color: '0x000000', stroke: 2,
+      points: [{ x: canvas.x, y: canvas.y }, { x: canvas.x + 50, y: canvas.y + 50 }]
+    };
+
+    expect(trait.polygon).to.equal(0);
+    expect(expectedRevert(obj, trait, canvas)).to.equal("TraitsNotRevealed");
+    // the reveal block hasn't been mined, so painting can't reveal them either
+    expect(await revertName(nft, nft.connect(user).appendArt.staticCall(tokenId, [encodeObject(obj)]))).to.equal("TraitsNotRevealed");
+  });
+});
@@ -0,0 +1,200 @@
+import { expect } from "chai";
+import { DOMParser as XmlDOMParser } from "@xmldom/xmldom";
+import { importSVG, type ImportPalette } from "../frontend/src/utils/svgImport";
+import { validateObjectForToken, type ObjectStruct, type Point, type TokenTrait } from "../frontend/src/utils/encoding";
+
+// Path enum: 0=rect, 1=line, 2=ellipse, 3=polyline, 4=polygon, 5=path, 6=curve
+const PALETTE: ImportPalette = {
+  colors: ['0xff0000', '0x00ff00', '0x0000ff', '0x123456', '0xabcdef'],
+  shapes: [0, 2], // rect, ellipse
+  polygon: 5
+};
+
+// The default canvas is 980x900 at (10, 90), so this viewBox maps 1:1 with that offset
+function svg(body: string): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 980 900">${body}</svg>`;
+}
+
+function toTrait(palette: ImportPalette): TokenTrait {
+  const [color0, color1, color2, color3, color4] = palette.colors;
+  return { color0, color1, color2, color3, color4, shape0: palette.shapes[0], shape1: palette.shapes[1], polygon: palette.polygon };
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+describe("SVG import", function () {
+  before(function () {
+    // the importer runs in the browser, xmldom stands in for its DOMParser here
+    globalThis.DOMParser = XmlDOMParser as unknown as typeof DOMParser;
+  });
+
+  it("Should keep rects and ellipses when the token has them", function () {
+    const { objects, report } = importSVG(svg(
+      '<rect x="10" y="20" width="100" height="50" fill="#ff0000"/>' +
+      '<ellipse cx="200" cy="200" rx="40" ry="30" fill="#0000ff"/>' +
+      '<circle cx="300" cy="300" r="25" fill="#00ff00"/>'
+    ), PALETTE);
+
+    expect(objects).to.deep.equal([
+      { shape: 0, color: '0xff0000', stroke: 0, points: [{ x: 20, y: 110 }, { x: 100, y: 50 }] },
+      { shape: 2, color: '0x0000ff', stroke: 0, points: [{ x: 210, y: 290 }, { x: 40, y: 30 }] },
+      { shape: 2, color: '0x00ff00', stroke: 0, points: [{ x: 310, y: 390 }, { x: 25, y: 25 }] }
+    ]);
+    expect(report.elements).to.equal(3);
+    expect(report.convertedShapes).to.equal(0);
+    expect(report.recolored).to.equal(0);
+  });
+
+  it("Should fall back to polygons when the token can't draw the shape", function () {
+    const palette = { ...PALETTE, shapes: [1, 3] }; // line, polyline
+    const { objects, report } = importSVG(svg(
+      '<rect x="10" y="20" width="100" height="50" fill="#ff0000"/>' +
+      '<polygon points="100,100 150,80 200,100 180,150 120,150" fill="#0000ff"/>'
+    ), palette);
+
+    // the 4 cornered rect is cut into 2 triangles, each padded to 5 points by repeating a corner
+    const triangles = objects.filter(obj => obj.color === '0xff0000');
+    expect(triangles).to.have.length(2);
+    for (const triangle of triangles) {
+      expect(triangle.shape).to.equal(4);
+      expect(triangle.points).to.have.length(5);
+      expect(triangle.points[3]).to.deep.equal(triangle.points[2]);
+      expect(triangle.points[4]).to.deep.equal(triangle.points[2]);
+    }
+    // a polygon that already has the token's side count is kept as it is
+    expect(objects.filter(obj => obj.color === '0x0000ff')).to.deep.equal([{
+      shape: 4,
+      color: '0x0000ff',
+      stroke: 0,
+      points: [{ x: 110, y: 190 }, { x: 160, y: 170 }, { x: 210, y: 190 }, { x: 190, y: 240 }, { x: 130, y: 240 }]
+    }]);
+    expect(report.convertedShapes).to.equal(1);
+  });
+
+  it("Should turn rotated rects into polygons even when the token has rects", function () {
+    const { objects, report } = importSVG(svg(
+      '<rect x="100" y="100" width="100" height="100" fill="#ff0000" transform="rotate(45 150 150)"/>'
+    ), PALETTE);
+
+    expect(objects).to.have.length(2);
+    expect(objects.every(obj => obj.shape === 4 && obj.points.length === 5)).to.equal(true);
+    // the rotated square's corners sit on a circle around its centre
+    const center = { x: 160, y: 240 };
+    for (const obj of objects) {
+      for (const point of obj.points) expect(distance(point, center)).to.be.closeTo(50 * Math.SQRT2, 1);
+    }
+    expect(report.convertedShapes).to.equal(1);
+  });
+
+  it("Should follow elliptical arcs", function () {
+    const { objects } = importSVG(svg(
+      '<path d="M100 100 A50 50 0 0 1 200 100" fill="none" stroke="#000000" stroke-width="2"/>'
+    ), PALETTE);
+
+    expect(objects).to.have.length(1);
+    const [arc] = objects;
+    expect(arc.shape).to.equal(5);
+    expect(arc.stroke).to.equal(2);
+    expect(arc.points[0]).to.deep.equal({ x: 110, y: 190 });
+    expect(arc.points[arc.points.length - 1]).to.deep.equal({ x: 210, y: 190 });
+    expect(arc.points.length).to.be.greaterThan(4);
+    const center = { x: 160, y: 190 };
+    for (const point of arc.points) expect(distance(point, center)).to.be.closeTo(50, 1.5);
+    // a half circle reaches a full radius away from the chord
+    expect(Math.max(...arc.points.map(point => Math.abs(point.y - center.y)))).to.be.closeTo(50, 1);
+  });
+
+  it("Should reflect the previous control point for S and T", function () {
+    const stroke = 'fill="none" stroke="#000000" stroke-width="3"';
+    const smooth = importSVG(svg(
+      `<path d="M100 300 C100 250 200 250 200 300 S300 350 300 300" ${stroke}/>` +
+      `<path d="M100 500 Q150 450 200 500 T300 500" ${stroke}/>`
+    ), PALETTE);
+    const explicit = importSVG(svg(
+      `<path d="M100 300 C100 250 200 250 200 300 C200 350 300 350 300 300" ${stroke}/>` +
+      `<path d="M100 500 Q150 450 200 500 Q250 550 300 500" ${stroke}/>`
+    ), PALETTE);
+
+    expect(smooth.objects).to.have.length(2);
+    expect(smooth.objects).to.deep.equal(explicit.objects);
+  });
+
+  it("Should apply nested transforms", function () {
+    const { objects } = importSVG(svg(
+      '<g transform="translate(100 50)"><g transform="scale(2)">' +
+      '<rect x="10" y="10" width="20" height="30" fill="#ff0000"/>' +
+      '<line x1="0" y1="0" x2="10" y2="0" stroke="#000000" stroke-width="1.5"/>' +
+      '</g></g>'
+    ), PALETTE);
+
+    expect(objects).to.deep.equal([
+      { shape: 0, color: '0xff0000', stroke: 0, points: [{ x: 130, y: 160 }, { x: 40, y: 60 }] },
+      // no line shape on this token, the stroke widens with the scale
+      { shape: 5, color: '0x000000', stroke: 3, points: [{ x: 110, y: 140 }, { x: 130, y: 140 }] }
+    ]);
+  });
+
+  it("Should count every fill and stroke moved to a palette colour", function () {
+    const { objects, report } = importSVG(svg(
+      '<rect x="10" y="10" width="50" height="50" fill="#ff0000"/>' +
+      '<rect x="100" y="10" width="50" height="50" fill="#fe0101" stroke="rgb(10, 10, 10)"/>' +
+      '<rect x="200" y="10" width="50" height="50" style="fill: white"/>'
+    ), PALETTE);
+
+    expect(objects.map(obj => obj.color)).to.deep.equal(['0xff0000', '0xff0000', '0x000000', '0xffffff']);
+    expect(report.recolored).to.equal(2);
+    expect(report.averageColorError).to.be.greaterThan(0);
+    expect(report.averageColorError).to.be.lessThan(20);
+  });
+
+  it("Should drop objects that land fully off the canvas", function () {
+    const { objects, report } = importSVG(svg(
+      '<rect x="-500" y="10" width="100" height="100" fill="#ff0000"/>' +
+      '<rect x="-50" y="10" width="100" height="100" fill="#00ff00"/>' +
+      '<path d="M2000 10 L2100 50" fill="none" stroke="#000000"/>'
+    ), PALETTE);
+
+    // the second rect hangs off the left edge but still overlaps the canvas
+    expect(objects).to.have.length(1);
+    expect(objects[0].color).to.equal('0x00ff00');
+    expect(report.elements).to.equal(3);
+    expect(report.objects).to.equal(1);
+  });
+
+  it("Should skip what it can't draw and reject files that aren't SVG", function () {
+    const { objects, report } = importSVG(svg(
+      '<defs><rect id="hidden" width="10" height="10"/></defs>' +
+      '<text x="10" y="10">hello</text>' +
+      '<rect x="10" y="10" width="10" height="10" fill="none"/>'
+    ), PALETTE);
+
+    expect(objects).to.deep.equal([]);
+    expect(report.elements).to.equal(1);
+    expect(report.skipped).to.deep.equal(['<text> is not supported']);
+    expect(() => importSVG('<html xmlns="http://www.w3.org/1999/xhtml"></html>', PALETTE)).to.throw("Not a valid SVG file");
+  });
+
+  it("Should only produce objects the token can save", function () {
+    const file = svg(
+      '<g transform="translate(40 20) rotate(10)" opacity="0.5">' +
+      '<rect x="0" y="0" width="200" height="120" fill="#fa8072" stroke="#333" stroke-width="4"/>' +
+      '<circle cx="300" cy="200" r="60" fill="orange"/>' +
+      '<polyline points="0,300 50,320 100,300 150,340" fill="none" stroke="teal" stroke-width="6"/>' +
+      '</g>' +
+      '<path d="M400 400 C450 300 550 300 600 400 S700 500 750 400 A80 40 30 1 0 900 600 Q800 700 700 650 T500 700 Z" fill="#8a2be2" stroke="black"/>' +
+      '<ellipse cx="500" cy="800" rx="90" ry="30" fill="rgb(20%, 40%, 60%)" transform="skewX(20)"/>' +
+      '<line x1="20" y1="850" x2="400" y2="850" stroke="#00f" stroke-width="8"/>'
+    );
+
+    for (const palette of [PALETTE, { ...PALETTE, shapes: [1, 3], polygon: 3 }, { ...PALETTE, shapes: [0, 1], polygon: 6 }]) {
+      const { objects, report } = importSVG(file, palette);
+      const trait = toTrait(palette);
+      expect(objects.length, `polygon ${palette.polygon}`).to.be.greaterThan(6);
+      expect(report.objects).to.equal(objects.length);
+      objects.forEach((obj: ObjectStruct, i: number) => {
+        const { valid, errors } = validateObjectForToken(obj, trait);
+        expect(valid, `polygon ${palette.polygon} object ${i}: ${errors.join(', ')}`).to.equal(true);
+      });
+    }
+  });
+});
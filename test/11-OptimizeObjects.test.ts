@@ -0,0 +1,207 @@
+import { expect } from "chai";
+import {
+  getPackedSize,
+  mergeCollinearPoints,
+  optimizeObjects,
+  removeDuplicatePoints,
+  simplifyPoints,
+  validateObjectForToken,
+  type ObjectStruct,
+  type Point,
+  type TokenTrait
+} from "../frontend/src/utils/encoding";
+
+// Seeded so a failing stroke can be reproduced
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A shaky freehand stroke across the canvas, integer points like the editor records
+function freehand(random: () => number, length: number): Point[] {
+  const points: Point[] = [];
+  let x = 100 + Math.floor(random() * 200);
+  let y = 200 + Math.floor(random() * 200);
+  for (let i = 0; i < length; i++) {
+    points.push({ x, y });
+    x += Math.floor(random() * 5) - 1;
+    y += Math.round(Math.sin(i / 15) * 3) + Math.floor(random() * 3) - 1;
+  }
+  return points;
+}
+
+function segmentDistance(p: Point, a: Point, b: Point): number {
+  const [dx, dy] = [b.x - a.x, b.y - a.y];
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+// How far the furthest original point is from the simplified stroke
+function maxDeviation(original: Point[], simplified: Point[]): number {
+  return Math.max(...original.map(p =>
+    simplified.slice(1).reduce((nearest, end, i) => Math.min(nearest, segmentDistance(p, simplified[i], end)), Infinity)
+  ));
+}
+
+const TRAIT: TokenTrait = {
+  color0: '0xff0000', color1: '0x00ff00', color2: '0x0000ff', color3: '0x123456', color4: '0xabcdef',
+  shape0: 1, shape1: 3, // line, polyline
+  polygon: 5
+};
+
+describe("Stroke optimization", function () {
+  describe("removeDuplicatePoints", function () {
+    it("Should only drop points that repeat the one before them", function () {
+      const points = [{ x: 1, y: 1 }, { x: 1, y: 1 }, { x: 2, y: 2 }, { x: 1, y: 1 }, { x: 1, y: 1 }];
+      expect(removeDuplicatePoints(points)).to.deep.equal([{ x: 1, y: 1 }, { x: 2, y: 2 }, { x: 1, y: 1 }]);
+      expect(removeDuplicatePoints([])).to.deep.equal([]);
+    });
+  });
+
+  describe("mergeCollinearPoints", function () {
+    it("Should drop points on a straight run and keep the corners", function () {
+      const points = [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 2 }, { x: 3, y: 3 }, { x: 3, y: 5 }, { x: 3, y: 9 }];
+      expect(mergeCollinearPoints(points)).to.deep.equal([{ x: 0, y: 0 }, { x: 3, y: 3 }, { x: 3, y: 9 }]);
+    });
+
+    it("Should keep a point where the stroke doubles back", function () {
+      const points = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 5, y: 0 }];
+      expect(mergeCollinearPoints(points)).to.deep.equal(points);
+    });
+
+    it("Should leave strokes under 3 points alone", function () {
+      const points = [{ x: 0, y: 0 }, { x: 10, y: 0 }];
+      expect(mergeCollinearPoints(points)).to.equal(points);
+    });
+  });
+
+  describe("simplifyPoints", function () {
+    it("Should keep every dropped point within the tolerance", function () {
+      const random = mulberry32(1);
+      for (const tolerance of [0.5, 1, 2, 5]) {
+        const points = freehand(random, 300);
+        const simplified = simplifyPoints(points, tolerance);
+        expect(simplified.length, `tolerance ${tolerance}`).to.be.lessThan(points.length);
+        expect(maxDeviation(points, simplified), `tolerance ${tolerance}`).to.be.at.most(tolerance);
+      }
+    });
+
+    it("Should keep both endpoints and the original order", function () {
+      const random = mulberry32(2);
+      const points = freehand(random, 200);
+      const simplified = simplifyPoints(points, 3);
+      expect(simplified[0]).to.equal(points[0]);
+      expect(simplified[simplified.length - 1]).to.equal(points[points.length - 1]);
+      const indices = simplified.map(point => points.indexOf(point));
+      expect(indices).to.deep.equal([...indices].sort((a, b) => a - b));
+    });
+
+    it("Should drop fewer points as the tolerance tightens", function () {
+      const points = freehand(mulberry32(3), 400);
+      const counts = [8, 4, 2, 1, 0.5].map(tolerance => simplifyPoints(points, tolerance).length);
+      for (let i = 1; i < counts.length; i++) expect(counts[i]).to.be.at.least(counts[i - 1]);
+      expect(simplifyPoints(points, 0)).to.equal(points);
+    });
+
+    it("Should handle very long strokes", function () {
+      const points = freehand(mulberry32(7), 5000);
+      const simplified = simplifyPoints(points, 2);
+      expect(simplified.length).to.be.lessThan(points.length / 2);
+      expect(simplified[0]).to.equal(points[0]);
+      expect(simplified[simplified.length - 1]).to.equal(points[points.length - 1]);
+      expect(maxDeviation(points, simplified)).to.be.at.most(2);
+    });
+  });
+
+  describe("optimizeObjects", function () {
+    const fixed: ObjectStruct[] = [
+      { shape: 0, color: '0xff0000', stroke: 0, points: [{ x: 10, y: 90 }, { x: 100, y: 100 }] },
+      { shape: 1, color: '0x000000', stroke: 3, points: [{ x: 10, y: 90 }, { x: 10, y: 90 }] },
+      { shape: 2, color: '0x00ff00', stroke: 0, points: [{ x: 200, y: 200 }, { x: 0, y: 0 }] },
+      {
+        shape: 4, color: '0x0000ff', stroke: 0,
+        points: [{ x: 100, y: 100 }, { x: 150, y: 100 }, { x: 200, y: 100 }, { x: 200, y: 100 }, { x: 150, y: 150 }]
+      }
+    ];
+
+    it("Should pass rects, lines, ellipses and polygons through unchanged", function () {
+      const { objects, report } = optimizeObjects(fixed, 10);
+      expect(objects).to.have.length(fixed.length);
+      objects.forEach((obj, i) => expect(obj).to.equal(fixed[i]));
+      expect(report.optimizedObjects).to.equal(0);
+      expect(report.bytesSaved).to.equal(0);
+    });
+
+    it("Should leave curve control points at a valid count", function () {
+      const random = mulberry32(4);
+      const curves: ObjectStruct[] = [4, 6, 7, 9, 10, 13].map(length => ({
+        shape: 6, color: '0x000000', stroke: 2, points: freehand(random, length)
+      }));
+      const { objects } = optimizeObjects(curves, 5);
+      objects.forEach((obj, i) => {
+        expect(obj).to.equal(curves[i]);
+        expect((obj.points.length - 1) % 3, `curve ${i}`).to.not.equal(1);
+      });
+    });
+
+    it("Should shrink paths and polylines within the tolerance and report it", function () {
+      const random = mulberry32(5);
+      const strokes: ObjectStruct[] = Array.from({ length: 10 }, (_, i) => ({
+        shape: i % 2 === 0 ? 5 : 3, color: '0x000000', stroke: 4, points: freehand(random, 100 + i * 20)
+      }));
+      const tolerance = 1.5;
+      const { objects, report } = optimizeObjects(strokes, tolerance);
+
+      objects.forEach((obj, i) => {
+        const original = strokes[i].points;
+        expect(obj.points.length).to.be.lessThan(original.length);
+        expect(obj.points[0]).to.deep.equal(original[0]);
+        expect(obj.points[obj.points.length - 1]).to.deep.equal(original[original.length - 1]);
+        expect(maxDeviation(original, obj.points)).to.be.at.most(tolerance);
+      });
+      expect(report.optimizedObjects).to.equal(strokes.length);
+      expect(report.maxError).to.be.at.most(tolerance);
+      expect(report.meanError).to.be.at.most(report.maxError);
+      expect(report.pointsAfter).to.equal(objects.reduce((sum, obj) => sum + obj.points.length, 0));
+      expect(report.bytesBefore).to.equal(strokes.reduce((sum, obj) => sum + getPackedSize(obj), 0));
+      expect(report.bytesSaved).to.equal(report.bytesBefore - report.bytesAfter);
+      expect(report.gasSaved).to.be.greaterThan(0);
+    });
+
+    it("Should only drop redundant points at tolerance 0", function () {
+      const points = [{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 5, y: 5 }, { x: 10, y: 10 }, { x: 11, y: 12 }, { x: 20, y: 12 }];
+      const { objects, report } = optimizeObjects([{ shape: 5, color: '0x000000', stroke: 2, points }], 0);
+      expect(objects[0].points).to.deep.equal([{ x: 0, y: 0 }, { x: 10, y: 10 }, { x: 11, y: 12 }, { x: 20, y: 12 }]);
+      expect(report.maxError).to.equal(0);
+    });
+
+    it("Should keep a dot as a 2 point stroke", function () {
+      const dot: ObjectStruct = { shape: 5, color: '0x000000', stroke: 8, points: [{ x: 50, y: 150 }, { x: 50, y: 150 }, { x: 50, y: 150 }] };
+      const { objects } = optimizeObjects([dot]);
+      expect(objects[0].points).to.deep.equal([{ x: 50, y: 150 }, { x: 50, y: 150 }]);
+    });
+
+    it("Should only produce objects the token can save", function () {
+      const random = mulberry32(6);
+      const art: ObjectStruct[] = [
+        ...fixed.filter(obj => obj.shape !== 0 && obj.shape !== 2), // the token has neither rects nor ellipses
+        ...Array.from({ length: 20 }, (_, i) => ({
+          shape: [3, 5, 6][i % 3], color: ['0x000000', '0xffffff', TRAIT.color2][i % 3], stroke: 1 + i,
+          points: freehand(random, i % 3 === 2 ? 1 + 3 * (2 + i) : 30 + i * 10)
+        }))
+      ];
+      for (const tolerance of [0, 1, 4, 20]) {
+        const { objects } = optimizeObjects(art, tolerance);
+        objects.forEach((obj, i) => {
+          const { valid, errors } = validateObjectForToken(obj, TRAIT);
+          expect(valid, `tolerance ${tolerance} object ${i}: ${errors.join(', ')}`).to.equal(true);
+        });
+      }
+    });
+  });
+});